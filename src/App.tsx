@@ -4,16 +4,22 @@ import type {
   HexCoord, 
   Hex,
   Faction,
+  FactionRelationshipStatus,
   CampaignSettings,
   GridConfig,
   MapMode,
+  MapReference,
+  CampaignCalendar,
 } from '@/lib/types';
-import { coordToKey } from '@/lib/types';
+import { coordToKey, RELATIONSHIP_LABELS } from '@/lib/types';
 import {
   coordEquals,
   getNeighbors,
   getHexAt,
   hexToPixel,
+  pixelToHex,
+  axialToOffset,
+  getDisplayCoord,
 } from '@/lib/hexUtils';
 import { 
   createMap, 
@@ -27,11 +33,59 @@ import {
   saveMap, 
   loadMap, 
   listMaps, 
+  listUnmigratedMaps,
   exportMap, 
   importMap,
   deleteMap,
+  loadHistory,
   loadAppSettings,
+  downloadFile,
+  getMapFileStem,
 } from '@/lib/storage';
+import { createPath, extendPathCoords, addPath, removePath, getPathLabel } from '@/lib/paths';
+import { findRoute, formatTravelDays } from '@/lib/travel';
+import { type PartyMoveResult, moveParty, getPartyMoveBlocker, describePartyMove } from '@/lib/playMode';
+import { type FactionTurnResult, advanceFactionTurn } from '@/lib/factionSimulation';
+import { setMutualRelationship } from '@/lib/factionGraph';
+import { reassignHierarchyLinks } from '@/lib/factionHierarchy';
+import { type TerrainCluster, applyTerrainDetection } from '@/lib/terrainDetection';
+import type { CalibrationPoint, CalibrationResult } from '@/lib/gridCalibration';
+import {
+  type SubMapOptions,
+  type MapTrailEntry,
+  createSubMap,
+  linkSubMap,
+  unlinkSubMap,
+  getMapTrail,
+} from '@/lib/nestedMaps';
+import { createPlayerMap, buildPlayerHtml } from '@/lib/playerView';
+import { exportGazetteer } from '@/lib/gazetteer';
+import {
+  type TrailScope,
+  createLogEntry,
+  addLogEntry,
+  removeLogEntry,
+  getCalendar,
+  setCurrentDay,
+  recordVisit,
+  getPartyTrail,
+} from '@/lib/sessionLog';
+import type { GeneratedEncounter } from '@/lib/generator/types';
+import { formatEncounter } from '@/lib/generator/encounterGenerator';
+import type { RollableTable } from '@/lib/generator/types';
+import { isValidDiceFormula } from '@/lib/generator/tableSystem';
+import { setActiveUserTables } from '@/lib/generator/tableRegistry';
+import { setActiveMonsterStats } from '@/lib/generator/monsterStats';
+import { createSeededRandom, generateSeed } from '@/lib/generator/random';
+import { isUnbounded, getFrontier, addHexes, expandMap, createUnboundedMap } from '@/lib/unboundedMap';
+import {
+  type MapHistory,
+  createHistory,
+  pushHistory,
+  undoHistory,
+  undoToIndex,
+  redoHistory,
+} from '@/lib/history';
 
 import HexMap from '@/components/HexMap';
 import HexDetailPanel from '@/components/HexDetailPanel';
@@ -39,10 +93,36 @@ import MultiSelectPanel from '@/components/MultiSelectPanel';
 import SettingsPanel from '@/components/SettingsPanel';
 import FactionPanel from '@/components/FactionPanel';
 import HexListPanel from '@/components/HexListPanel';
-import Toolbar, { type StatsFilterType } from '@/components/Toolbar';
+import TableEditorPanel from '@/components/TableEditorPanel';
+import PathToolPanel from '@/components/PathToolPanel';
+import CalibrationPanel from '@/components/CalibrationPanel';
+import PlayerHexPanel from '@/components/PlayerHexPanel';
+import EncounterPanel from '@/components/EncounterPanel';
+import PartyVisitPanel from '@/components/PartyVisitPanel';
+import PlayModeBar from '@/components/PlayModeBar';
+import SessionLogPanel from '@/components/SessionLogPanel';
+import Toolbar, { type StatsFilterType, type PathTool } from '@/components/Toolbar';
 import NewMapDialog from '@/components/NewMapDialog';
+import ExportImageDialog from '@/components/ExportImageDialog';
+import TerrainDetectionDialog from '@/components/TerrainDetectionDialog';
+import SubMapDialog from '@/components/SubMapDialog';
 
-type SidebarView = 'hex' | 'multi-select' | 'settings' | 'factions' | 'none';
+type SidebarView = 'hex' | 'multi-select' | 'settings' | 'factions' | 'tables' | 'log' | 'none';
+
+/**
+ * Describe a campaign data update for the history list
+ */
+function describeHexUpdate(updates: Partial<Hex['campaignData']>): string {
+  const keys = Object.keys(updates || {});
+  if (keys.includes('notes') || keys.includes('deletedNotes')) return 'Edit notes';
+  if (keys.includes('featureNotes') || keys.includes('deletedFeatureNotes')) return 'Edit feature notes';
+  if (keys.includes('tags')) return 'Edit tags';
+  if (keys.includes('explored')) return 'Toggle explored';
+  if (keys.includes('hidden')) return 'Toggle hidden';
+  if (keys.includes('playerNotes')) return 'Edit player notes';
+  if (keys.includes('name')) return 'Rename hex';
+  return 'Edit hex';
+}
 
 function App() {
   // Core state
@@ -52,44 +132,215 @@ function App() {
   const [sidebarView, setSidebarView] = useState<SidebarView>('none');
   const [showNewMapDialog, setShowNewMapDialog] = useState(false);
   const [showMapList, setShowMapList] = useState(false);
+  const [showExportImageDialog, setShowExportImageDialog] = useState(false);
+  const [showTerrainDetectionDialog, setShowTerrainDetectionDialog] = useState(false);
+  const [subMapCoord, setSubMapCoord] = useState<HexCoord | null>(null); // Hex the sub-map dialog is open for
+  const [mapTrail, setMapTrail] = useState<MapTrailEntry[]>([]);
   const [zoom, setZoom] = useState(1);
   const [hexListFilter, setHexListFilter] = useState<StatsFilterType | null>(null);
+  const [history, setHistory] = useState<MapHistory>(createHistory);
+  const [pathTool, setPathTool] = useState<PathTool | null>(null);
+  const [draftPathCoords, setDraftPathCoords] = useState<HexCoord[]>([]);
+  const [draftPathName, setDraftPathName] = useState('');
+  const [calibrationPoints, setCalibrationPoints] = useState<CalibrationPoint[] | null>(null); // null when not calibrating
+  const [playerView, setPlayerView] = useState(false);
+  const [mapList, setMapList] = useState<MapReference[] | null>(null);
+  const [saveError, setSaveError] = useState<string | null>(null);
+  const [trailScope, setTrailScope] = useState<TrailScope>('off');
+  const [playMode, setPlayMode] = useState(false);
+  const [checkEncounters, setCheckEncounters] = useState(true);
+  const [lastPartyMove, setLastPartyMove] = useState<PartyMoveResult | null>(null);
+  const [lastFactionTurn, setLastFactionTurn] = useState<FactionTurnResult | null>(null);
+  const [playMessage, setPlayMessage] = useState<string | null>(null);
 
   // Ref for map container (for scrolling to hexes)
   const mapContainerRef = useRef<HTMLDivElement>(null);
+  
+  // Id of the map whose saved history has been loaded; until then auto-save
+  // must not overwrite that history with the empty one
+  const historyMapIdRef = useRef<string | null>(null);
 
   // Load last map on mount
   useEffect(() => {
     async function loadLastMap() {
+      // Maps from older versions that couldn't be moved to the new storage
+      const unmigrated = await listUnmigratedMaps();
+      
       const settings = loadAppSettings();
       if (settings.recentMaps.length > 0) {
-        const lastMap = await loadMap(settings.recentMaps[0].id);
-        if (lastMap) {
-          setCurrentMap(lastMap);
+        try {
+          const lastMap = await loadMap(settings.recentMaps[0].id);
+          if (lastMap) {
+            setCurrentMap(lastMap);
+          }
+        } catch (err) {
+          alert(`Failed to open "${settings.recentMaps[0].name}": ` + (err as Error).message);
         }
       }
+      
+      if (unmigrated.length > 0) {
+        alert(
+          'These maps could not be moved to the new storage and are kept as they were ' +
+          '(they are listed under Open Map):\n' +
+          unmigrated.map(ref => `${ref.name}: ${ref.migrationError}`).join('\n')
+        );
+      }
     }
     loadLastMap();
   }, []);
   
-  // Auto-save on map changes
+  // Auto-save on map and history changes
   useEffect(() => {
-    if (currentMap) {
+    if (currentMap && historyMapIdRef.current === currentMap.id) {
       const timer = setTimeout(() => {
-        saveMap(currentMap).catch(err => {
-          console.error('Auto-save failed:', err);
-        });
+        saveMap(currentMap, history)
+          .then(() => setSaveError(null))
+          .catch(err => {
+            console.error('Auto-save failed:', err);
+            setSaveError((err as Error).message);
+          });
       }, 1000);
       return () => clearTimeout(timer);
     }
+  }, [currentMap, history]);
+  
+  // Generators roll on the open campaign's edited tables and use its monster list
+  useEffect(() => {
+    setActiveUserTables(currentMap?.tables);
+  }, [currentMap?.tables]);
+
+  useEffect(() => {
+    setActiveMonsterStats(currentMap?.settings.monsterStats);
+  }, [currentMap?.settings.monsterStats]);
+  
+  // Start a fresh history (and drop any half-drawn path) whenever a different map is opened
+  useEffect(() => {
+    setHistory(createHistory());
+    setPathTool(null);
+    setDraftPathCoords([]);
+    setDraftPathName('');
+    setCalibrationPoints(null);
+    setSubMapCoord(null);
+    setPlayerView(false);
+    setPlayMode(false);
+    setLastPartyMove(null);
+    setLastFactionTurn(null);
+    setPlayMessage(null);
+    setSaveError(null);
+    
+    // Pick up the undo history saved with the map
+    historyMapIdRef.current = null;
+    if (!currentMap) return;
+    let cancelled = false;
+    const mapId = currentMap.id;
+    loadHistory(currentMap)
+      .then(saved => {
+        // Keep any edits made while the history was loading
+        if (!cancelled && saved) {
+          setHistory(prev => (prev.past.length === 0 && prev.future.length === 0 ? saved : prev));
+        }
+      })
+      .catch(err => console.error('Failed to load history:', err))
+      .finally(() => {
+        if (!cancelled) historyMapIdRef.current = mapId;
+      });
+    return () => { cancelled = true; };
+    // Only when a different map is opened; currentMap is the map as loaded
+  }, [currentMap?.id]);
+  
+  // Breadcrumb of the larger-scale maps this one sits inside
+  useEffect(() => {
+    setMapTrail([]);
+    if (!currentMap?.parentMap) return;
+    let cancelled = false;
+    getMapTrail(currentMap, loadMap)
+      .then(trail => {
+        if (!cancelled) setMapTrail(trail);
+      })
+      .catch(err => console.error('Failed to load parent maps:', err));
+    return () => { cancelled = true; };
+    // Only when a different map is opened
+  }, [currentMap?.id]);
+  
+  // What the map view shows: the full map, or the player copy with GM-only data stripped
+  const displayMap = useMemo(() => {
+    if (!currentMap || !playerView) return currentMap;
+    return createPlayerMap(currentMap);
+  }, [currentMap, playerView]);
+  
+  // Where an unbounded map can grow; hidden from players and while another tool has the clicks
+  const frontier = useMemo(() => {
+    if (!currentMap || !isUnbounded(currentMap) || playerView || pathTool || calibrationPoints) return undefined;
+    return getFrontier(currentMap.hexes);
+  }, [currentMap, playerView, pathTool, calibrationPoints]);
+  
+  /**
+   * Apply a map mutation and record the previous state for undo
+   */
+  const applyMapChange = useCallback((label: string, nextMap: CampaignMap) => {
+    if (!currentMap) return;
+    setHistory(prev => pushHistory(prev, label, currentMap));
+    setCurrentMap(nextMap);
   }, [currentMap]);
   
+  const handleUndo = useCallback(() => {
+    if (!currentMap) return;
+    const result = undoHistory(history, currentMap);
+    if (!result) return;
+    setHistory(result.history);
+    setCurrentMap(result.map);
+  }, [currentMap, history]);
+  
+  const handleRedo = useCallback(() => {
+    if (!currentMap) return;
+    const result = redoHistory(history, currentMap);
+    if (!result) return;
+    setHistory(result.history);
+    setCurrentMap(result.map);
+  }, [currentMap, history]);
+  
+  const handleUndoTo = useCallback((index: number) => {
+    if (!currentMap) return;
+    const result = undoToIndex(history, currentMap, index);
+    if (!result) return;
+    setHistory(result.history);
+    setCurrentMap(result.map);
+  }, [currentMap, history]);
+  
+  // Undo/redo keyboard shortcuts (text fields keep their native undo)
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement;
+      if (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.tagName === 'SELECT' || target.isContentEditable) {
+        return;
+      }
+      if (!(e.ctrlKey || e.metaKey)) return;
+      
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        handleUndo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        handleRedo();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [handleUndo, handleRedo]);
+  
   // Get selected hex
   const selectedHex = useMemo(() => {
     if (!currentMap || !selectedCoord) return null;
     return getHexAt(currentMap.hexes, selectedCoord) || null;
   }, [currentMap, selectedCoord]);
   
+  // Selected hex as players see it
+  const playerSelectedHex = useMemo(() => {
+    if (!playerView || !displayMap || !selectedCoord) return null;
+    return getHexAt(displayMap.hexes, selectedCoord) || null;
+  }, [playerView, displayMap, selectedCoord]);
+  
   // Get neighbors of selected hex
   const neighborHexes = useMemo(() => {
     if (!currentMap || !selectedHex) return [];
@@ -103,9 +354,47 @@ function App() {
     return neighborHexes.map(h => h.coord);
   }, [neighborHexes]);
   
+  // Plan a journey whenever exactly two hexes are selected
+  const travelRoute = useMemo(() => {
+    if (!currentMap || multiSelectedCoords.length !== 2) return null;
+    return findRoute(currentMap, multiSelectedCoords[0], multiSelectedCoords[1]);
+  }, [currentMap, multiSelectedCoords]);
+  
+  // Where the party has been, from the session log
+  const partyTrail = useMemo(
+    () => getPartyTrail(currentMap?.sessionLog || [], trailScope),
+    [currentMap?.sessionLog, trailScope]
+  );
+  
   // Handlers
   const handleHexClick = useCallback((coord: HexCoord, event: React.MouseEvent) => {
-    if (event.shiftKey || event.ctrlKey || event.metaKey) {
+    // Path tools take over hex clicks while active
+    if (pathTool) {
+      if (pathTool.mode === 'draw') {
+        setDraftPathCoords(prev => extendPathCoords(prev, coord));
+      }
+      return;
+    }
+    
+    // In play mode, clicking a neighboring hex moves the party there
+    if (playMode && currentMap) {
+      setSelectedCoord(coord);
+      setMultiSelectedCoords([]);
+      setSidebarView('hex');
+      if (currentMap.partyCoord && coordEquals(currentMap.partyCoord, coord)) return;
+      
+      const result = moveParty(currentMap, coord, { checkEncounters });
+      if (!result) {
+        setPlayMessage(getPartyMoveBlocker(currentMap, coord));
+        return;
+      }
+      applyMapChange(describePartyMove(currentMap, result, coord), result.map);
+      setLastPartyMove(result);
+      setPlayMessage(null);
+      return;
+    }
+    
+    if ((event.shiftKey || event.ctrlKey || event.metaKey) && !playerView) {
       // Multi-select
       setMultiSelectedCoords(prev => {
         // If first multi-select with a single selection, include it
@@ -128,7 +417,7 @@ function App() {
       setMultiSelectedCoords([]);
       setSidebarView('hex');
     }
-  }, [selectedCoord]);
+  }, [selectedCoord, pathTool, playerView, playMode, currentMap, checkEncounters, applyMapChange]);
   
   const handleClearSelection = useCallback(() => {
     setSelectedCoord(null);
@@ -143,15 +432,76 @@ function App() {
     setSidebarView('multi-select');
   }, []);
   
+  // Path tools
+  const handlePathToolChange = useCallback((tool: PathTool | null) => {
+    setPathTool(tool);
+    setDraftPathCoords([]);
+    setDraftPathName('');
+    if (tool) setPlayMode(false);
+  }, []);
+  
+  const handleTogglePlayMode = useCallback(() => {
+    setPlayMode(prev => !prev);
+    setPathTool(null);
+    setDraftPathCoords([]);
+    setMultiSelectedCoords([]);
+    setHexListFilter(null);
+    setLastPartyMove(null);
+    setPlayMessage(null);
+  }, []);
+  
+  const handleFinishPath = useCallback(() => {
+    if (!currentMap || pathTool?.mode !== 'draw' || draftPathCoords.length < 2) return;
+    const path = createPath(pathTool.pathType, draftPathCoords, draftPathName.trim() || undefined);
+    applyMapChange(`Draw ${getPathLabel(path)}`, addPath(currentMap, path));
+    // Stay in draw mode so several paths can be drawn in a row
+    setDraftPathCoords([]);
+    setDraftPathName('');
+  }, [currentMap, pathTool, draftPathCoords, draftPathName, applyMapChange]);
+  
+  const handleErasePath = useCallback((pathId: string) => {
+    if (!currentMap) return;
+    const path = currentMap.paths?.find(p => p.id === pathId);
+    if (!path) return;
+    applyMapChange(`Erase ${getPathLabel(path)}`, removePath(currentMap, pathId));
+  }, [currentMap, applyMapChange]);
+  
+  // Enter finishes the path being drawn, Escape leaves the path tool
+  useEffect(() => {
+    if (!pathTool) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement;
+      if (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.tagName === 'SELECT') return;
+      if (e.key === 'Enter') {
+        handleFinishPath();
+      } else if (e.key === 'Escape') {
+        handlePathToolChange(null);
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [pathTool, handleFinishPath, handlePathToolChange]);
+  
+  const draftPath = useMemo(() => {
+    if (pathTool?.mode !== 'draw') return null;
+    return { id: 'draft', type: pathTool.pathType, coords: draftPathCoords };
+  }, [pathTool, draftPathCoords]);
+  
   const handleHexUpdate = useCallback((updates: Partial<Hex['campaignData']>) => {
     if (!currentMap || !selectedCoord) return;
-    setCurrentMap(updateHexCampaignData(currentMap, selectedCoord, updates));
-  }, [currentMap, selectedCoord]);
+    applyMapChange(
+      `${describeHexUpdate(updates)} ${getDisplayCoord(selectedCoord, currentMap.gridConfig)}`,
+      updateHexCampaignData(currentMap, selectedCoord, updates)
+    );
+  }, [currentMap, selectedCoord, applyMapChange]);
   
   const handleTerrainChange = useCallback((terrainId: string) => {
     if (!currentMap || !selectedCoord) return;
-    setCurrentMap(updateHex(currentMap, selectedCoord, { terrainId }));
-  }, [currentMap, selectedCoord]);
+    applyMapChange(
+      `Change terrain ${getDisplayCoord(selectedCoord, currentMap.gridConfig)}`,
+      updateHex(currentMap, selectedCoord, { terrainId })
+    );
+  }, [currentMap, selectedCoord, applyMapChange]);
   
   const handleNeighborClick = useCallback((coord: HexCoord) => {
     setSelectedCoord(coord);
@@ -168,13 +518,19 @@ function App() {
   // Bulk operations
   const handleBulkSetTerrain = useCallback((terrainId: string) => {
     if (!currentMap || multiSelectedCoords.length === 0) return;
-    setCurrentMap(bulkUpdateTerrain(currentMap, multiSelectedCoords, terrainId));
-  }, [currentMap, multiSelectedCoords]);
+    applyMapChange(
+      `Set terrain on ${multiSelectedCoords.length} hexes`,
+      bulkUpdateTerrain(currentMap, multiSelectedCoords, terrainId)
+    );
+  }, [currentMap, multiSelectedCoords, applyMapChange]);
   
   const handleBulkAddTags = useCallback((tags: string[]) => {
     if (!currentMap || multiSelectedCoords.length === 0) return;
-    setCurrentMap(bulkAddTags(currentMap, multiSelectedCoords, tags));
-  }, [currentMap, multiSelectedCoords]);
+    applyMapChange(
+      `Add tags to ${multiSelectedCoords.length} hexes`,
+      bulkAddTags(currentMap, multiSelectedCoords, tags)
+    );
+  }, [currentMap, multiSelectedCoords, applyMapChange]);
   
   const handleBulkSetExplored = useCallback((explored: boolean) => {
     if (!currentMap || multiSelectedCoords.length === 0) return;
@@ -195,12 +551,12 @@ function App() {
       return hex;
     });
     
-    setCurrentMap({
+    applyMapChange(`Set explored on ${multiSelectedCoords.length} hexes`, {
       ...currentMap,
       hexes: newHexes,
       updatedAt: new Date().toISOString(),
     });
-  }, [currentMap, multiSelectedCoords]);
+  }, [currentMap, multiSelectedCoords, applyMapChange]);
 
   const handleBulkAddToFaction = useCallback((factionId: string) => {
     if (!currentMap || multiSelectedCoords.length === 0) return;
@@ -226,28 +582,130 @@ function App() {
       f.id === factionId ? updatedFaction : f
     );
 
-    setCurrentMap({
+    applyMapChange(`Add ${multiSelectedCoords.length} hexes to ${faction.name}`, {
       ...currentMap,
       factions: newFactions,
       updatedAt: new Date().toISOString(),
     });
-  }, [currentMap, multiSelectedCoords]);
+  }, [currentMap, multiSelectedCoords, applyMapChange]);
 
   // Settings
   const handleSettingsChange = useCallback((updates: Partial<CampaignSettings>) => {
     if (!currentMap) return;
-    setCurrentMap({
+    applyMapChange('Change settings', {
       ...currentMap,
       settings: { ...currentMap.settings, ...updates },
       updatedAt: new Date().toISOString(),
     });
-  }, [currentMap]);
+  }, [currentMap, applyMapChange]);
   
   const handleGridConfigChange = useCallback((updates: Partial<GridConfig>) => {
     if (!currentMap) return;
-    setCurrentMap(updateGridConfig(currentMap, updates));
+    applyMapChange('Adjust grid', updateGridConfig(currentMap, updates));
+  }, [currentMap, applyMapChange]);
+  
+  // Calibration takes over map clicks, so other tools are put away
+  const handleStartCalibration = useCallback(() => {
+    setCalibrationPoints([]);
+    setPathTool(null);
+    setDraftPathCoords([]);
+    setPlayMode(false);
+    setMultiSelectedCoords([]);
+  }, []);
+  
+  // Each click is tagged with the hex the current grid puts there; the panel can correct it
+  const handleCalibrationClick = useCallback((point: { x: number; y: number }) => {
+    if (!currentMap) return;
+    const { col, row } = axialToOffset(pixelToHex(point.x, point.y, currentMap.gridConfig), currentMap.gridConfig);
+    setCalibrationPoints(prev => prev && [...prev, { ...point, col, row }]);
   }, [currentMap]);
   
+  const handleApplyCalibration = useCallback((result: CalibrationResult) => {
+    if (!currentMap) return;
+    applyMapChange('Calibrate grid', updateGridConfig(currentMap, result.updates));
+    setCalibrationPoints(null);
+  }, [currentMap, applyMapChange]);
+  
+  // Clicking past the edge of an unbounded map generates the region around
+  // the clicked hex and selects it
+  const handleExpandMap = useCallback((coord: HexCoord) => {
+    if (!currentMap) return;
+    // Each region is seeded from the map's seed and where it grows, so the
+    // same seed grown the same way gives the same map
+    const rng = currentMap.seed ? createSeededRandom(`${currentMap.seed}:${coordToKey(coord)}`) : Math.random;
+    const { map, added } = expandMap(currentMap, coord, currentMap.generationOptions, rng);
+    applyMapChange(`Expand map (${added} hexes)`, {
+      ...map,
+      updatedAt: new Date().toISOString(),
+    });
+    setSelectedCoord(coord);
+    setMultiSelectedCoords([]);
+    setSidebarView('hex');
+  }, [currentMap, applyMapChange]);
+  
+  // Switch to a linked map (parent or sub-map), saving the open one first so
+  // the last second of edits isn't lost. False if the map no longer exists.
+  const openLinkedMap = useCallback(async (mapId: string, selectCoord?: HexCoord): Promise<boolean> => {
+    if (currentMap && historyMapIdRef.current === currentMap.id) {
+      await saveMap(currentMap, history);
+    }
+    const map = await loadMap(mapId);
+    if (!map) return false;
+    setCurrentMap(map);
+    setSelectedCoord(selectCoord || null);
+    setMultiSelectedCoords([]);
+    setSidebarView(selectCoord ? 'hex' : 'none');
+    return true;
+  }, [currentMap, history]);
+  
+  const handleOpenSubMap = useCallback(async (mapId: string) => {
+    if (!currentMap || !selectedCoord) return;
+    try {
+      if (await openLinkedMap(mapId)) return;
+      alert('The sub-map for this hex has been deleted, so the link has been removed.');
+      applyMapChange('Unlink sub-map', unlinkSubMap(currentMap, selectedCoord));
+    } catch (err) {
+      alert('Failed to open sub-map: ' + (err as Error).message);
+    }
+  }, [currentMap, selectedCoord, openLinkedMap, applyMapChange]);
+  
+  // Going up selects the hex the sub-map was made from
+  const handleOpenParentMap = useCallback(async (entry: MapTrailEntry) => {
+    try {
+      if (!(await openLinkedMap(entry.mapId, entry.coord))) {
+        alert(`"${entry.name}" has been deleted.`);
+      }
+    } catch (err) {
+      alert(`Failed to open "${entry.name}": ` + (err as Error).message);
+    }
+  }, [openLinkedMap]);
+  
+  // Both maps are saved straight away (the parent with its new link), then the sub-map is opened
+  const handleCreateSubMap = useCallback(async (options: SubMapOptions) => {
+    if (!currentMap || !subMapCoord) return;
+    const seed = generateSeed();
+    let child = createSubMap(currentMap, subMapCoord, options, createSeededRandom(seed));
+    if (options.generateTerrain) child = { ...child, seed };
+    const parent = linkSubMap(currentMap, subMapCoord, child.id);
+    
+    try {
+      await saveMap(child);
+      await saveMap(
+        parent,
+        historyMapIdRef.current === currentMap.id ? pushHistory(history, 'Create sub-map', currentMap) : undefined
+      );
+    } catch (err) {
+      alert('Failed to create sub-map: ' + (err as Error).message);
+      return;
+    }
+    
+    setSubMapCoord(null);
+    setCurrentMap(child);
+    setSelectedCoord(null);
+    setMultiSelectedCoords([]);
+    setSidebarView('none');
+  }, [currentMap, subMapCoord, history]);
+  
   // Map operations
   const handleNewMap = useCallback(() => {
     setShowNewMapDialog(true);
@@ -268,7 +726,9 @@ function App() {
       includeLairs: boolean;
       includeDungeons: boolean;
       generateFactions: boolean;
+      generateRivers: boolean;
       startingBiome?: string;
+      seed?: string;
     };
   }) => {
     let newMap = createMap({
@@ -289,17 +749,17 @@ function App() {
     // Apply generation if requested
     if (options.generation?.generateTerrain) {
       const { generateFullMap, applyGenerationResults } = await import('@/lib/generator/mapGenerator');
-      const { createFactionFromSettlement, generateFactionRelationships } = await import('@/lib/generator/politicalGenerator');
+      const { createFactionFromSettlement, generateFactionRelationships, assignLieges } = await import('@/lib/generator/politicalGenerator');
       
-      // Find center of the map
-      const centerCol = Math.floor(newMap.gridConfig.cols / 2) + newMap.gridConfig.startCol;
-      const centerRow = Math.floor(newMap.gridConfig.rows / 2) + newMap.gridConfig.startRow;
-      const { offsetToAxial } = await import('@/lib/hexUtils');
-      const centerCoord = offsetToAxial(centerCol, centerRow, newMap.gridConfig);
+      // Every generated map gets a seed so it can be reproduced and shared
+      const seed = options.generation.seed || generateSeed();
+      const rng = createSeededRandom(seed);
       
-      const allCoords = newMap.hexes.map(h => h.coord);
+      // A new campaign starts from the built-in tables
+      setActiveUserTables(newMap.tables);
+      setActiveMonsterStats(newMap.settings.monsterStats);
       
-      const results = generateFullMap(allCoords, centerCoord, {
+      const generationOptions = {
         generateTerrain: true,
         generateFeatures: options.generation.generateFeatures,
         featureChance: options.generation.featureChance,
@@ -308,13 +768,37 @@ function App() {
         includeLairs: options.generation.includeLairs,
         includeDungeons: options.generation.includeDungeons,
         startingBiome: options.generation.startingBiome as import('@/lib/generator/types').BiomeType | undefined,
-      });
-      
-      newMap = {
-        ...newMap,
-        hexes: applyGenerationResults(newMap.hexes, results),
       };
       
+      if (options.mode === 'unbounded') {
+        // Starts as one region; the rest is generated as the map grows
+        newMap = {
+          ...createUnboundedMap(options.name, options.gridConfig, generationOptions, rng),
+          seed,
+          generationOptions,
+        };
+      } else {
+        // Find center of the map
+        const centerCol = Math.floor(newMap.gridConfig.cols / 2) + newMap.gridConfig.startCol;
+        const centerRow = Math.floor(newMap.gridConfig.rows / 2) + newMap.gridConfig.startRow;
+        const { offsetToAxial } = await import('@/lib/hexUtils');
+        const centerCoord = offsetToAxial(centerCol, centerRow, newMap.gridConfig);
+        
+        const allCoords = newMap.hexes.map(h => h.coord);
+        
+        const results = generateFullMap(allCoords, centerCoord, generationOptions, rng);
+        
+        newMap = {
+          ...newMap,
+          seed,
+          generationOptions,
+          hexes: applyGenerationResults(newMap.hexes, results),
+        };
+      }
+      
+      // Settlement type at each generated faction's seat (castles look for a city liege)
+      const seatTypes = new Map<string, import('@/lib/generator/types').SettlementType>();
+      
       // Generate factions for eligible settlements if enabled
       if (options.generation.generateFactions && options.generation.generateFeatures) {
         const factions: Faction[] = [];
@@ -330,12 +814,15 @@ function App() {
               const faction = createFactionFromSettlement(
                 name, 
                 settlementType as import('@/lib/generator/types').SettlementType, 
-                hex.coord
+                hex.coord,
+                undefined,
+                rng
               );
               if (faction) {
                 // Generate relationships with existing factions
-                generateFactionRelationships(faction, factions);
+                generateFactionRelationships(faction, factions, rng);
                 factions.push(faction);
+                seatTypes.set(faction.id, settlementType as import('@/lib/generator/types').SettlementType);
               }
             }
           }
@@ -346,6 +833,22 @@ function App() {
           factions,
         };
       }
+      
+      // Trace rivers last so turning them on doesn't change the rest of the map
+      if (options.generation.generateRivers) {
+        const { generateRivers } = await import('@/lib/generator/riverGenerator');
+        const terrain = new Map(newMap.hexes.map(h => [coordToKey(h.coord), h.terrainId]));
+        const rivers = generateRivers(terrain, {}, rng);
+        newMap = {
+          ...newMap,
+          paths: rivers.map(coords => createPath('river', coords)),
+        };
+      }
+      
+      // Castles join their lieges after the rivers so existing seeds keep their maps
+      if (seatTypes.size > 0) {
+        assignLieges(newMap.factions, seatTypes, rng);
+      }
     }
     
     try {
@@ -360,9 +863,20 @@ function App() {
     }
   }, []);
   
+  const refreshMapList = useCallback(() => {
+    listMaps()
+      .then(setMapList)
+      .catch(err => {
+        alert('Failed to list maps: ' + (err as Error).message);
+        setShowMapList(false);
+      });
+  }, []);
+  
   const handleOpenMap = useCallback(() => {
+    setMapList(null);
     setShowMapList(true);
-  }, []);
+    refreshMapList();
+  }, [refreshMapList]);
   
   const handleExportMap = useCallback(async () => {
     if (currentMap) {
@@ -374,6 +888,67 @@ function App() {
     }
   }, [currentMap]);
   
+  // Exports follow the view, so player view gives a player handout
+  const handleExportGazetteer = useCallback(() => {
+    if (!displayMap) return;
+    try {
+      exportGazetteer(displayMap);
+    } catch (err) {
+      alert('Failed to export gazetteer: ' + (err as Error).message);
+    }
+  }, [displayMap]);
+  
+  const handleApplyTerrainDetection = useCallback((clusters: TerrainCluster[]) => {
+    if (!currentMap) return;
+    const { hexes, changed } = applyTerrainDetection(currentMap.hexes, clusters);
+    if (changed === 0) return;
+    applyMapChange(`Detect terrain (${changed} hexes)`, {
+      ...currentMap,
+      hexes,
+      updatedAt: new Date().toISOString(),
+    });
+  }, [currentMap, applyMapChange]);
+  
+  // Player view hides GM-only data on screen; exports share it outside the app
+  const handleTogglePlayerView = useCallback(() => {
+    setPlayerView(prev => !prev);
+    setPathTool(null);
+    setDraftPathCoords([]);
+    setMultiSelectedCoords([]);
+    setHexListFilter(null);
+    if (sidebarView !== 'hex') {
+      setSidebarView('none');
+    }
+  }, [sidebarView]);
+  
+  const handleExportPlayerMap = useCallback((format: 'html' | 'json' | 'window') => {
+    if (!currentMap) return;
+    try {
+      if (format === 'json') {
+        downloadFile(
+          JSON.stringify(createPlayerMap(currentMap), null, 2),
+          `${getMapFileStem(currentMap)}.player.campmap.json`,
+          'application/json'
+        );
+        return;
+      }
+      
+      const html = buildPlayerHtml(currentMap);
+      if (format === 'html') {
+        downloadFile(html, `${getMapFileStem(currentMap)}.player.html`, 'text/html');
+      } else {
+        // Second window for a player-facing screen; it doesn't follow later edits
+        const url = URL.createObjectURL(new Blob([html], { type: 'text/html' }));
+        if (!window.open(url, '_blank')) {
+          URL.revokeObjectURL(url);
+          throw new Error('The browser blocked the new window');
+        }
+      }
+    } catch (err) {
+      alert('Failed to export player map: ' + (err as Error).message);
+    }
+  }, [currentMap]);
+  
   const handleImportMap = useCallback(() => {
     const input = document.createElement('input');
     input.type = 'file';
@@ -402,14 +977,89 @@ function App() {
     setMultiSelectedCoords([]);
   }, []);
   
+  const handleOpenTables = useCallback(() => {
+    setSidebarView('tables');
+    setSelectedCoord(null);
+    setMultiSelectedCoords([]);
+  }, []);
+  
+  // The log keeps the selected hex so new notes can be attached to it
+  const handleOpenLog = useCallback(() => {
+    setSidebarView('log');
+    setMultiSelectedCoords([]);
+  }, []);
+  
+  const handleLogEncounter = useCallback((encounter: GeneratedEncounter) => {
+    if (!currentMap || !selectedCoord) return;
+    const day = getCalendar(currentMap).currentDay;
+    applyMapChange(
+      `Log encounter ${getDisplayCoord(selectedCoord, currentMap.gridConfig)}`,
+      addLogEntry(currentMap, createLogEntry('encounter', formatEncounter(encounter), selectedCoord, day))
+    );
+  }, [currentMap, selectedCoord, applyMapChange]);
+  
+  const handleLogVisit = useCallback(() => {
+    if (!currentMap || !selectedCoord) return;
+    applyMapChange(
+      `Log visit ${getDisplayCoord(selectedCoord, currentMap.gridConfig)}`,
+      recordVisit(currentMap, selectedCoord)
+    );
+  }, [currentMap, selectedCoord, applyMapChange]);
+  
+  const handleAddLogNote = useCallback((text: string) => {
+    if (!currentMap) return;
+    const day = getCalendar(currentMap).currentDay;
+    applyMapChange('Add log entry', addLogEntry(currentMap, createLogEntry('note', text, selectedCoord ?? undefined, day)));
+  }, [currentMap, selectedCoord, applyMapChange]);
+  
+  const handleSetDay = useCallback((day: number) => {
+    if (!currentMap) return;
+    applyMapChange(`Go to day ${Math.max(1, day)}`, setCurrentDay(currentMap, day));
+  }, [currentMap, applyMapChange]);
+  
+  const handleCalendarChange = useCallback((calendar: CampaignCalendar) => {
+    if (!currentMap) return;
+    applyMapChange('Edit calendar', { ...currentMap, calendar, updatedAt: new Date().toISOString() });
+  }, [currentMap, applyMapChange]);
+  
+  const handleDeleteLogEntry = useCallback((entryId: string) => {
+    if (!currentMap) return;
+    applyMapChange('Delete log entry', removeLogEntry(currentMap, entryId));
+  }, [currentMap, applyMapChange]);
+  
+  // Save a user table (replacing an earlier ID if the table was renamed)
+  const handleSaveTable = useCallback((table: RollableTable, previousId?: string) => {
+    if (!currentMap) return;
+    if (!isValidDiceFormula(table.diceFormula)) {
+      alert(`"${table.diceFormula}" is not a dice formula (use e.g. 1d6, 2d6, 1d20+1).`);
+      return;
+    }
+    const tables = (currentMap.tables || []).filter(t => t.id !== table.id && t.id !== previousId);
+    applyMapChange(`Edit table ${table.name}`, {
+      ...currentMap,
+      tables: [...tables, table],
+      updatedAt: new Date().toISOString(),
+    });
+  }, [currentMap, applyMapChange]);
+  
+  // Remove a user table (built-in tables revert to their default)
+  const handleDeleteTable = useCallback((tableId: string) => {
+    if (!currentMap) return;
+    applyMapChange(`Remove table ${tableId}`, {
+      ...currentMap,
+      tables: (currentMap.tables || []).filter(t => t.id !== tableId),
+      updatedAt: new Date().toISOString(),
+    });
+  }, [currentMap, applyMapChange]);
+  
   const handleMapNameChange = useCallback((name: string) => {
     if (!currentMap) return;
-    setCurrentMap({
+    applyMapChange('Rename map', {
       ...currentMap,
       name,
       updatedAt: new Date().toISOString(),
     });
-  }, [currentMap]);
+  }, [currentMap, applyMapChange]);
   
   const handleStatsClick = useCallback((filter: StatsFilterType) => {
     if (filter === 'factions') {
@@ -477,12 +1127,16 @@ function App() {
       return hex;
     });
     
-    setCurrentMap({
+    const label = changes.featureType !== undefined || changes.feature !== undefined
+      ? 'Update feature'
+      : changes.terrainId !== undefined ? 'Change terrain' : 'Update hex';
+    
+    applyMapChange(`${label} ${getDisplayCoord(coord, currentMap.gridConfig)}`, {
       ...currentMap,
       hexes: newHexes,
       updatedAt: new Date().toISOString(),
     });
-  }, [currentMap]);
+  }, [currentMap, applyMapChange]);
   
   // Bulk hex update handler (for regional generation)
   const handleBulkHexUpdate = useCallback((updates: Array<{ coord: HexCoord; changes: Partial<Hex> }>) => {
@@ -496,7 +1150,10 @@ function App() {
       updateMap.set(coordToKey(update.coord), update.changes);
     }
     
-    const newHexes = currentMap.hexes.map(hex => {
+    // An unbounded map grows to take in generated hexes past its edge
+    const baseMap = isUnbounded(currentMap) ? addHexes(currentMap, updates.map(u => u.coord)) : currentMap;
+    
+    const newHexes = baseMap.hexes.map(hex => {
       const changes = updateMap.get(coordToKey(hex.coord));
       if (changes) {
         return {
@@ -510,24 +1167,22 @@ function App() {
       return hex;
     });
     
-    console.log('[App] handleBulkHexUpdate: updating', newHexes.filter((h, i) => h !== currentMap.hexes[i]).length, 'hexes');
-    
-    setCurrentMap({
-      ...currentMap,
+    applyMapChange(`Generate region (${updates.length} hexes)`, {
+      ...baseMap,
       hexes: newHexes,
       updatedAt: new Date().toISOString(),
     });
-  }, [currentMap]);
+  }, [currentMap, applyMapChange]);
   
   const handleAddFaction = useCallback((faction: Faction) => {
     if (!currentMap) return;
     
-    setCurrentMap({
+    applyMapChange(`Add faction ${faction.name}`, {
       ...currentMap,
       factions: [...currentMap.factions, faction],
       updatedAt: new Date().toISOString(),
     });
-  }, [currentMap]);
+  }, [currentMap, applyMapChange]);
   
   // Bulk update hexes and add factions in a single state update to avoid race conditions
   const handleBulkHexUpdateWithFactions = useCallback((
@@ -544,7 +1199,9 @@ function App() {
       updateMap.set(coordToKey(update.coord), update.changes);
     }
     
-    const newHexes = currentMap.hexes.map(hex => {
+    const baseMap = isUnbounded(currentMap) ? addHexes(currentMap, hexUpdates.map(u => u.coord)) : currentMap;
+    
+    const newHexes = baseMap.hexes.map(hex => {
       const changes = updateMap.get(coordToKey(hex.coord));
       if (changes) {
         return {
@@ -559,33 +1216,56 @@ function App() {
     });
     
     // Update map with both new hexes and new factions
-    setCurrentMap({
-      ...currentMap,
+    applyMapChange(`Generate region (${hexUpdates.length} hexes, ${newFactions.length} factions)`, {
+      ...baseMap,
       hexes: newHexes,
       factions: [...currentMap.factions, ...newFactions],
       updatedAt: new Date().toISOString(),
     });
-  }, [currentMap]);
+  }, [currentMap, applyMapChange]);
   
   const handleUpdateFaction = useCallback((faction: Faction) => {
     if (!currentMap) return;
     
-    setCurrentMap({
+    applyMapChange(`Edit faction ${faction.name}`, {
       ...currentMap,
       factions: currentMap.factions.map(f => f.id === faction.id ? faction : f),
       updatedAt: new Date().toISOString(),
     });
-  }, [currentMap]);
+  }, [currentMap, applyMapChange]);
+  
+  const handleSetRelationship = useCallback((aId: string, bId: string, status: FactionRelationshipStatus) => {
+    if (!currentMap) return;
+    
+    const a = currentMap.factions.find(f => f.id === aId);
+    const b = currentMap.factions.find(f => f.id === bId);
+    if (!a || !b) return;
+    applyMapChange(`${a.name} and ${b.name}: ${RELATIONSHIP_LABELS[status].label}`, {
+      ...currentMap,
+      factions: setMutualRelationship(currentMap.factions, aId, bId, status),
+      updatedAt: new Date().toISOString(),
+    });
+  }, [currentMap, applyMapChange]);
   
   const handleDeleteFaction = useCallback((factionId: string) => {
     if (!currentMap) return;
     
-    setCurrentMap({
+    // Vassals and members pass up to the deleted faction's own liege or region
+    const faction = currentMap.factions.find(f => f.id === factionId);
+    applyMapChange(`Delete faction ${faction?.name ?? ''}`.trim(), {
       ...currentMap,
-      factions: currentMap.factions.filter(f => f.id !== factionId),
+      factions: reassignHierarchyLinks(currentMap.factions, factionId, faction?.parentId),
       updatedAt: new Date().toISOString(),
     });
-  }, [currentMap]);
+  }, [currentMap, applyMapChange]);
+  
+  const handleAdvanceFactionTurn = useCallback(() => {
+    if (!currentMap) return;
+    
+    const result = advanceFactionTurn(currentMap);
+    applyMapChange(`Faction turn ${result.turn}`, result.map);
+    setLastFactionTurn(result);
+  }, [currentMap, applyMapChange]);
   
   const sidebarOpen = currentMap && sidebarView !== 'none';
 
@@ -598,34 +1278,137 @@ function App() {
           onNewMap={handleNewMap}
           onOpenMap={handleOpenMap}
           onExportMap={handleExportMap}
+          onExportImage={() => setShowExportImageDialog(true)}
+          onDetectTerrain={() => setShowTerrainDetectionDialog(true)}
+          onExportGazetteer={handleExportGazetteer}
           onImportMap={handleImportMap}
           onOpenSettings={handleOpenSettings}
+          onOpenTables={handleOpenTables}
+          onOpenLog={handleOpenLog}
           onMapNameChange={handleMapNameChange}
           onStatsClick={handleStatsClick}
           selectedCount={multiSelectedCoords.length}
           onClearSelection={handleClearSelection}
           zoom={zoom}
           onZoomChange={setZoom}
+          history={history}
+          onUndo={handleUndo}
+          onRedo={handleRedo}
+          onUndoTo={handleUndoTo}
+          pathTool={pathTool}
+          onPathToolChange={handlePathToolChange}
+          playerView={playerView}
+          onTogglePlayerView={handleTogglePlayerView}
+          playMode={playMode}
+          onTogglePlayMode={handleTogglePlayMode}
+          onExportPlayerMap={handleExportPlayerMap}
         />
         
+        {currentMap && mapTrail.length > 0 && (
+          <div className="map-breadcrumb">
+            {mapTrail.map(entry => (
+              <React.Fragment key={entry.mapId}>
+                <button
+                  className="map-breadcrumb-link"
+                  onClick={() => handleOpenParentMap(entry)}
+                  title={`Back to "${entry.name}"`}
+                >
+                  {entry.name}
+                </button>
+                <span className="text-muted">›</span>
+              </React.Fragment>
+            ))}
+            <span>{currentMap.name}</span>
+          </div>
+        )}
+        
         <div className="map-container" ref={mapContainerRef}>
-          {currentMap ? (
+          {currentMap && displayMap ? (
             <>
               <HexMap
-                hexes={currentMap.hexes}
-                gridConfig={currentMap.gridConfig}
-                settings={currentMap.settings}
-                imageOverlay={currentMap.imageOverlay}
+                hexes={displayMap.hexes}
+                gridConfig={displayMap.gridConfig}
+                settings={displayMap.settings}
+                imageOverlay={displayMap.imageOverlay}
                 selectedCoord={selectedCoord}
                 multiSelectedCoords={multiSelectedCoords}
-                highlightedNeighbors={highlightedNeighbors}
-                factions={currentMap.factions}
+                highlightedNeighbors={playerView ? [] : highlightedNeighbors}
+                factions={displayMap.factions}
+                paths={displayMap.paths}
+                draftPath={draftPath}
+                route={travelRoute?.steps.map(s => s.coord)}
+                routeLabel={travelRoute ? formatTravelDays(travelRoute.totalDays) : undefined}
+                trail={playerView ? undefined : partyTrail}
+                partyCoord={displayMap.partyCoord}
                 zoom={zoom}
                 onHexClick={handleHexClick}
-                onBoxSelect={handleBoxSelect}
+                onBoxSelect={pathTool || playerView || playMode ? undefined : handleBoxSelect}
                 onZoomChange={setZoom}
+                onPathClick={pathTool?.mode === 'erase' ? handleErasePath : undefined}
+                calibrationPoints={calibrationPoints ?? undefined}
+                onCalibrationClick={calibrationPoints ? handleCalibrationClick : undefined}
+                frontier={frontier}
+                onFrontierClick={handleExpandMap}
               />
               
+              {saveError && (
+                <div className="save-error-banner">
+                  <span>⚠ Changes are not being saved. {saveError}</span>
+                  <button className="btn btn-secondary btn-sm" onClick={handleExportMap}>
+                    Export
+                  </button>
+                  <button className="btn btn-ghost btn-sm" onClick={() => setSaveError(null)}>
+                    ×
+                  </button>
+                </div>
+              )}
+              
+              {playerView && (
+                <div className="player-view-banner">
+                  👁 Player view: GM notes, secrets and hidden hexes are not shown
+                  <button className="btn btn-secondary btn-sm" onClick={handleTogglePlayerView}>
+                    Exit
+                  </button>
+                </div>
+              )}
+              
+              {playMode && (
+                <PlayModeBar
+                  partyCoord={currentMap.partyCoord}
+                  calendar={getCalendar(currentMap)}
+                  gridConfig={currentMap.gridConfig}
+                  lastMove={lastPartyMove}
+                  message={playMessage}
+                  checkEncounters={checkEncounters}
+                  onCheckEncountersChange={setCheckEncounters}
+                  onExit={handleTogglePlayMode}
+                />
+              )}
+              
+              {/* Path tool bar (floating) */}
+              {pathTool && (
+                <PathToolPanel
+                  tool={pathTool}
+                  draftCoords={draftPathCoords}
+                  draftName={draftPathName}
+                  onDraftNameChange={setDraftPathName}
+                  onUndoPoint={() => setDraftPathCoords(prev => prev.slice(0, -1))}
+                  onFinish={handleFinishPath}
+                  onCancel={() => handlePathToolChange(null)}
+                />
+              )}
+              
+              {/* Grid calibration (floating) */}
+              {calibrationPoints && (
+                <CalibrationPanel
+                  points={calibrationPoints}
+                  gridConfig={currentMap.gridConfig}
+                  onPointsChange={setCalibrationPoints}
+                  onApply={handleApplyCalibration}
+                  onCancel={() => setCalibrationPoints(null)}
+                />
+              )}
+              
               {/* Hex List Panel (floating) */}
               {hexListFilter && (
                 <HexListPanel
@@ -662,7 +1445,16 @@ function App() {
       {currentMap && sidebarView !== 'none' && (
         <div className="sidebar">
           <div className="sidebar-content">
-            {sidebarView === 'hex' && selectedHex && (
+            {sidebarView === 'hex' && playerView && playerSelectedHex && (
+              <PlayerHexPanel
+                hex={playerSelectedHex}
+                gridConfig={currentMap.gridConfig}
+                customTerrainTypes={currentMap.settings.customTerrainTypes || []}
+                onClose={handleCloseSidebar}
+              />
+            )}
+            
+            {sidebarView === 'hex' && selectedHex && !playerView && (
               <HexDetailPanel
                 hex={selectedHex}
                 neighbors={neighborHexes}
@@ -678,10 +1470,30 @@ function App() {
                 onBulkHexUpdateWithFactions={handleBulkHexUpdateWithFactions}
                 onAddFaction={handleAddFaction}
                 onUpdateFaction={handleUpdateFaction}
+                onOpenSubMap={handleOpenSubMap}
+                onCreateSubMap={() => setSubMapCoord(selectedHex.coord)}
                 onClose={handleCloseSidebar}
               />
             )}
             
+            {sidebarView === 'hex' && selectedHex && !playerView && (
+              <PartyVisitPanel
+                hex={selectedHex}
+                calendar={getCalendar(currentMap)}
+                onLogVisit={handleLogVisit}
+                onOpenLog={handleOpenLog}
+              />
+            )}
+            
+            {sidebarView === 'hex' && selectedHex && !playerView && (
+              <EncounterPanel
+                key={coordToKey(selectedHex.coord)}
+                hex={selectedHex}
+                customTerrainTypes={currentMap.settings.customTerrainTypes || []}
+                onLog={handleLogEncounter}
+              />
+            )}
+            
             {sidebarView === 'multi-select' && multiSelectedCoords.length > 0 && (
               <MultiSelectPanel
                 selectedCoords={multiSelectedCoords}
@@ -689,6 +1501,7 @@ function App() {
                 map={currentMap}
                 customTerrainTypes={currentMap.settings.customTerrainTypes}
                 factions={currentMap.factions}
+                route={travelRoute}
                 onBulkSetTerrain={handleBulkSetTerrain}
                 onBulkAddTags={handleBulkAddTags}
                 onBulkSetExplored={handleBulkSetExplored}
@@ -701,8 +1514,40 @@ function App() {
               <SettingsPanel
                 settings={currentMap.settings}
                 gridConfig={currentMap.gridConfig}
+                seed={currentMap.seed}
                 onSettingsChange={handleSettingsChange}
                 onGridConfigChange={handleGridConfigChange}
+                onCalibrate={currentMap.imageOverlay ? handleStartCalibration : undefined}
+                onClose={handleCloseSidebar}
+              />
+            )}
+            
+            {sidebarView === 'tables' && (
+              <TableEditorPanel
+                userTables={currentMap.tables || []}
+                onSaveTable={handleSaveTable}
+                onDeleteTable={handleDeleteTable}
+                onClose={handleCloseSidebar}
+              />
+            )}
+            
+            {sidebarView === 'log' && (
+              <SessionLogPanel
+                entries={currentMap.sessionLog || []}
+                calendar={getCalendar(currentMap)}
+                gridConfig={currentMap.gridConfig}
+                selectedCoord={selectedCoord}
+                trailScope={trailScope}
+                onTrailScopeChange={setTrailScope}
+                onSetDay={handleSetDay}
+                onCalendarChange={handleCalendarChange}
+                onAddNote={handleAddLogNote}
+                onDeleteEntry={handleDeleteLogEntry}
+                onHexClick={(coord) => {
+                  setSelectedCoord(coord);
+                  setMultiSelectedCoords([]);
+                  setSidebarView('hex');
+                }}
                 onClose={handleCloseSidebar}
               />
             )}
@@ -713,7 +1558,10 @@ function App() {
                 hexes={currentMap.hexes}
                 gridConfig={currentMap.gridConfig}
                 customTerrainTypes={currentMap.settings.customTerrainTypes || []}
+                factionTurn={currentMap.factionTurn || 0}
+                lastTurn={lastFactionTurn}
                 onAddFaction={handleAddFaction}
+                onSetRelationship={handleSetRelationship}
                 onUpdateFaction={handleUpdateFaction}
                 onDeleteFaction={handleDeleteFaction}
                 onHexClick={(coord) => {
@@ -721,6 +1569,7 @@ function App() {
                   setMultiSelectedCoords([]);
                   setSidebarView('hex');
                 }}
+                onAdvanceTurn={handleAdvanceFactionTurn}
                 onClose={handleCloseSidebar}
               />
             )}
@@ -735,6 +1584,33 @@ function App() {
         onCreate={handleCreateMap}
       />
       
+      {displayMap && (
+        <ExportImageDialog
+          isOpen={showExportImageDialog}
+          map={displayMap}
+          onClose={() => setShowExportImageDialog(false)}
+        />
+      )}
+      
+      {currentMap?.imageOverlay && (
+        <TerrainDetectionDialog
+          isOpen={showTerrainDetectionDialog}
+          map={currentMap}
+          onApply={handleApplyTerrainDetection}
+          onClose={() => setShowTerrainDetectionDialog(false)}
+        />
+      )}
+      
+      {currentMap && (
+        <SubMapDialog
+          isOpen={subMapCoord !== null}
+          map={currentMap}
+          coord={subMapCoord}
+          onCreate={handleCreateSubMap}
+          onClose={() => setSubMapCoord(null)}
+        />
+      )}
+      
       {/* Map List Modal */}
       {showMapList && (
         <div className="modal-overlay" onClick={() => setShowMapList(false)}>
@@ -744,11 +1620,13 @@ function App() {
               <button className="modal-close" onClick={() => setShowMapList(false)}>×</button>
             </div>
             <div className="modal-content">
-              {listMaps().length === 0 ? (
+              {mapList === null ? (
+                <p className="text-muted text-center">Loading...</p>
+              ) : mapList.length === 0 ? (
                 <p className="text-muted text-center">No saved maps found</p>
               ) : (
                 <div className="flex flex-col gap-2">
-                  {listMaps().map(ref => (
+                  {mapList.map(ref => (
                     <div
                       key={ref.id}
                       className="flex items-center gap-2"
@@ -756,20 +1634,35 @@ function App() {
                       <button
                         className="btn btn-secondary flex-1"
                         style={{ justifyContent: 'flex-start' }}
+                        disabled={!!ref.migrationError}
+                        title={ref.migrationError && `Could not be moved to the new storage: ${ref.migrationError}`}
                         onClick={async () => {
-                          const map = await loadMap(ref.id);
-                          if (map) {
-                            setCurrentMap(map);
-                            setSelectedCoord(null);
-                            setMultiSelectedCoords([]);
-                            setSidebarView('none');
+                          try {
+                            const map = await loadMap(ref.id);
+                            if (map) {
+                              setCurrentMap(map);
+                              setSelectedCoord(null);
+                              setMultiSelectedCoords([]);
+                              setSidebarView('none');
+                            }
+                            setShowMapList(false);
+                          } catch (err) {
+                            alert(`Failed to open "${ref.name}": ` + (err as Error).message);
                           }
-                          setShowMapList(false);
                         }}
                       >
-                        <span style={{ flex: 1, textAlign: 'left' }}>{ref.name}</span>
+                        <span style={{ flex: 1, textAlign: 'left' }}>
+                          {ref.name}
+                          {ref.parentId && (
+                            <span className="text-muted text-sm">
+                              {' '}in {mapList.find(m => m.id === ref.parentId)?.name || 'a deleted map'}
+                            </span>
+                          )}
+                        </span>
                         <span className="text-muted text-sm">
-                          {ref.hexCount} hexes • {new Date(ref.updatedAt).toLocaleDateString()}
+                          {ref.migrationError
+                            ? 'Not migrated'
+                            : `${ref.hexCount} hexes • ${new Date(ref.updatedAt).toLocaleDateString()}`}
                         </span>
                       </button>
                       <button
@@ -778,7 +1671,12 @@ function App() {
                         onClick={async (e) => {
                           e.stopPropagation();
                           if (confirm(`Delete "${ref.name}"? This cannot be undone.`)) {
-                            await deleteMap(ref.id);
+                            try {
+                              await deleteMap(ref.id);
+                            } catch (err) {
+                              alert('Failed to delete map: ' + (err as Error).message);
+                              return;
+                            }
                             // If we deleted the current map, clear it
                             if (currentMap?.id === ref.id) {
                               setCurrentMap(null);
@@ -786,9 +1684,7 @@ function App() {
                               setMultiSelectedCoords([]);
                               setSidebarView('none');
                             }
-                            // Force re-render by closing and reopening
-                            setShowMapList(false);
-                            setTimeout(() => setShowMapList(true), 0);
+                            refreshMapList();
                           }
                         }}
                       >
@@ -0,0 +1,114 @@
+import React, { useMemo } from 'react';
+import type { GridConfig } from '@/lib/types';
+import { offsetToAxial, axialToOffset, getDisplayCoord, parseDisplayCoord } from '@/lib/hexUtils';
+import {
+  type CalibrationPoint,
+  type CalibrationResult,
+  MIN_CALIBRATION_POINTS,
+  solveGridCalibration,
+} from '@/lib/gridCalibration';
+
+interface CalibrationPanelProps {
+  points: CalibrationPoint[];
+  gridConfig: GridConfig;
+  onPointsChange: (points: CalibrationPoint[]) => void;
+  onApply: (result: CalibrationResult) => void;
+  onCancel: () => void;
+}
+
+/**
+ * Calibration controls: each clicked point with the hex it marks (guessed
+ * from the current grid, editable), and the fit once there are enough points
+ */
+const CalibrationPanel: React.FC<CalibrationPanelProps> = ({
+  points,
+  gridConfig,
+  onPointsChange,
+  onApply,
+  onCancel,
+}) => {
+  const fit = useMemo((): { result: CalibrationResult | null; problem: string | null } => {
+    if (points.length < MIN_CALIBRATION_POINTS) return { result: null, problem: null };
+    try {
+      return { result: solveGridCalibration(points, gridConfig), problem: null };
+    } catch (err) {
+      return { result: null, problem: (err as Error).message };
+    }
+  }, [points, gridConfig]);
+
+  const handleCoordChange = (index: number, text: string) => {
+    const coord = parseDisplayCoord(text.trim(), gridConfig);
+    if (!coord) return;
+    const { col, row } = axialToOffset(coord, gridConfig);
+    onPointsChange(points.map((p, i) => i === index ? { ...p, col, row } : p));
+  };
+
+  return (
+    <div className="calibration-panel">
+      <div className="text-sm mb-2">
+        Click the center of at least {MIN_CALIBRATION_POINTS} hexes on the image, spread across
+        the map, and check each one's coordinate
+      </div>
+
+      {points.map((point, i) => (
+        <div key={i} className="calibration-point">
+          <span className="calibration-point-number">{i + 1}</span>
+          <span className="text-sm text-muted">
+            ({Math.round(point.x)}, {Math.round(point.y)})
+          </span>
+          <input
+            // Remount when the point's hex changes so the box shows the new coordinate
+            key={`${point.col},${point.row}`}
+            type="text"
+            className="form-input"
+            defaultValue={getDisplayCoord(offsetToAxial(point.col, point.row, gridConfig), gridConfig)}
+            onBlur={e => handleCoordChange(i, e.target.value)}
+            onKeyDown={e => {
+              if (e.key === 'Enter') handleCoordChange(i, (e.target as HTMLInputElement).value);
+              else if (e.key === 'Escape') onCancel();
+            }}
+            maxLength={4}
+            title="Hex coordinate (CCRR)"
+          />
+          <button
+            className="btn btn-ghost btn-sm"
+            onClick={() => onPointsChange(points.filter((_, j) => j !== i))}
+            title="Remove this point"
+          >
+            ×
+          </button>
+        </div>
+      ))}
+
+      {fit.problem && <div className="text-sm mt-2" style={{ color: 'var(--danger)' }}>{fit.problem}</div>}
+      {fit.result && (
+        <div className="text-sm text-muted mt-2">
+          Rotation {fit.result.updates.rotation}°, spacing {fit.result.updates.colSpacing} × {fit.result.updates.rowSpacing}px;
+          clicks are {fit.result.error.toFixed(1)}px from the fitted centers on average
+        </div>
+      )}
+
+      <div className="flex gap-2 mt-2">
+        <button
+          className="btn btn-primary btn-sm"
+          onClick={() => fit.result && onApply(fit.result)}
+          disabled={!fit.result}
+        >
+          Apply
+        </button>
+        <button
+          className="btn btn-secondary btn-sm"
+          onClick={() => onPointsChange([])}
+          disabled={points.length === 0}
+        >
+          Clear
+        </button>
+        <button className="btn btn-secondary btn-sm" onClick={onCancel}>
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default CalibrationPanel;
@@ -0,0 +1,106 @@
+import React, { useState } from 'react';
+import type { DungeonStocking, DungeonRoomContent } from '@/lib/generator/types';
+
+interface DungeonPanelProps {
+  stocking?: DungeonStocking;
+  levelCount: number;
+  onStock: () => void;
+}
+
+const ROOM_ICONS: Record<DungeonRoomContent, string> = {
+  monster: '👹',
+  trap: '⚠',
+  treasure: '💰',
+  empty: '·',
+};
+
+/**
+ * Level-by-level tree of a stocked dungeon: entrances, then each level's ruler and rooms (GM-only)
+ */
+const DungeonPanel: React.FC<DungeonPanelProps> = ({
+  stocking,
+  levelCount,
+  onStock,
+}) => {
+  // Levels expanded in the tree (by depth); the first level starts open
+  const [openLevels, setOpenLevels] = useState<Set<number>>(() => new Set([1]));
+
+  const toggleLevel = (depth: number) => {
+    setOpenLevels(prev => {
+      const next = new Set(prev);
+      if (next.has(depth)) {
+        next.delete(depth);
+      } else {
+        next.add(depth);
+      }
+      return next;
+    });
+  };
+
+  return (
+    <div className="panel">
+      <div className="panel-header">
+        <span className="panel-title">Dungeon Levels</span>
+        <button
+          className="btn btn-ghost btn-sm"
+          onClick={onStock}
+          title={stocking ? 'Replace with newly stocked levels' : undefined}
+          style={{ padding: '2px 8px', fontSize: '0.75rem' }}
+        >
+          {stocking ? 'Re-roll' : 'Stock Dungeon'}
+        </button>
+      </div>
+      <div className="panel-content">
+        {!stocking ? (
+          <p className="text-muted text-sm">
+            Roll rooms, a boss or faction and the entrances for {levelCount === 1 ? 'the level' : `all ${levelCount} levels`}.
+          </p>
+        ) : (
+          <>
+            <label className="form-label">Entrances</label>
+            {stocking.entrances.map((entrance, i) => (
+              <div key={i} className="panel-row">
+                <span className="panel-row-label">{entrance.description}</span>
+                <span className="panel-row-value">to level {entrance.toLevel}</span>
+              </div>
+            ))}
+
+            <div className="dungeon-tree mt-2">
+              {stocking.levels.map(level => {
+                const isOpen = openLevels.has(level.depth);
+                const monsters = level.rooms.filter(r => r.content === 'monster').length;
+                return (
+                  <div key={level.depth} className="dungeon-level">
+                    <button className="dungeon-level-header" onClick={() => toggleLevel(level.depth)}>
+                      <span>{isOpen ? '▼' : '▶'} Level {level.depth}</span>
+                      <span className="text-muted text-sm">
+                        {level.rooms.length} rooms · {monsters} monster{monsters === 1 ? '' : 's'}
+                      </span>
+                    </button>
+                    {isOpen && (
+                      <ul className="dungeon-rooms">
+                        <li className="text-sm">
+                          <strong>{level.ruler === 'boss' ? 'Boss' : 'Faction'}:</strong> {level.rulerName}
+                        </li>
+                        {level.rooms.map(room => (
+                          <li key={room.number} className={`text-sm dungeon-room dungeon-room-${room.content}`}>
+                            <span className="dungeon-room-number">{room.number}</span>
+                            <span className="dungeon-room-icon" title={room.content}>{ROOM_ICONS[room.content]}</span>
+                            {room.description}
+                            {room.treasure && <span className="text-muted"> + {room.treasure.toLowerCase()}</span>}
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default DungeonPanel;
@@ -0,0 +1,121 @@
+import React, { useState, useCallback } from 'react';
+import type { Hex, TerrainType } from '@/lib/types';
+import { getEffectiveTerrain } from '@/lib/types';
+import type { GeneratedEncounter, TimeOfDay } from '@/lib/generator/types';
+import {
+  TIME_OF_DAY_OPTIONS,
+  getEncounterChance,
+  rollEncounter,
+  formatEncounter,
+} from '@/lib/generator/encounterGenerator';
+import { formatLabel } from '@/lib/featureUtils';
+
+interface EncounterPanelProps {
+  hex: Hex;
+  customTerrainTypes: TerrainType[];
+  onLog: (encounter: GeneratedEncounter) => void;
+}
+
+/**
+ * Wandering encounter roller for the selected hex
+ */
+const EncounterPanel: React.FC<EncounterPanelProps> = ({
+  hex,
+  customTerrainTypes,
+  onLog,
+}) => {
+  const [timeOfDay, setTimeOfDay] = useState<TimeOfDay>('day');
+  const [encounter, setEncounter] = useState<GeneratedEncounter | null>(null);
+  const [logged, setLogged] = useState(false);
+
+  const terrainId = getEffectiveTerrain(hex);
+  const chance = getEncounterChance(terrainId, timeOfDay, customTerrainTypes);
+
+  const handleRoll = useCallback((force: boolean) => {
+    setEncounter(rollEncounter(terrainId, { timeOfDay, customTerrainTypes, force }));
+    setLogged(false);
+  }, [terrainId, timeOfDay, customTerrainTypes]);
+
+  const handleLog = useCallback(() => {
+    if (!encounter) return;
+    onLog(encounter);
+    setLogged(true);
+  }, [encounter, onLog]);
+
+  return (
+    <div className="panel">
+      <div className="panel-header">
+        <span className="panel-title">Encounters</span>
+        <span className="text-muted text-sm">{chance}-in-6</span>
+      </div>
+      <div className="panel-content">
+        <div className="flex gap-2 mb-2">
+          {TIME_OF_DAY_OPTIONS.map(opt => (
+            <button
+              key={opt.value}
+              className={`btn btn-sm flex-1 ${timeOfDay === opt.value ? 'btn-primary' : 'btn-secondary'}`}
+              onClick={() => setTimeOfDay(opt.value)}
+            >
+              {opt.label}
+            </button>
+          ))}
+        </div>
+        <div className="flex gap-2">
+          <button
+            className="btn btn-primary flex-1"
+            onClick={() => handleRoll(false)}
+            title={`Encounter on 1-${chance} on a d6`}
+          >
+            Check
+          </button>
+          <button
+            className="btn btn-secondary flex-1"
+            onClick={() => handleRoll(true)}
+            title="Skip the chance roll and roll on the encounter table"
+          >
+            Roll Table
+          </button>
+        </div>
+
+        {encounter && (
+          <div className="encounter-result mt-2">
+            {encounter.occurred ? (
+              <>
+                <div className="panel-row">
+                  <span className="panel-row-label">Creature</span>
+                  <span className="panel-row-value">{encounter.creature}</span>
+                </div>
+                <div className="panel-row">
+                  <span className="panel-row-label">Number</span>
+                  <span className="panel-row-value">{encounter.numberAppearing}</span>
+                </div>
+                <div className="panel-row">
+                  <span className="panel-row-label">Disposition</span>
+                  <span className="panel-row-value">{encounter.disposition}</span>
+                </div>
+                <p className="text-muted text-sm mt-1">
+                  {formatLabel(encounter.biome || '')} table
+                  {encounter.checkRoll !== undefined && ` · rolled ${encounter.checkRoll} on d6`}
+                </p>
+              </>
+            ) : (
+              <p className="text-sm">
+                No encounter <span className="text-muted">(rolled {encounter.checkRoll} on d6)</span>
+              </p>
+            )}
+            <button
+              className="btn btn-ghost btn-sm mt-2"
+              onClick={handleLog}
+              disabled={logged}
+              title={formatEncounter(encounter)}
+            >
+              {logged ? '✓ Logged' : '📜 Add to Session Log'}
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default EncounterPanel;
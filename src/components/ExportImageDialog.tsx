@@ -0,0 +1,153 @@
+import React, { useState, useCallback, useMemo } from 'react';
+import type { CampaignMap } from '@/lib/types';
+import {
+  type MapImageOptions,
+  DEFAULT_MAP_IMAGE_OPTIONS,
+  MAP_IMAGE_SCALES,
+  buildMapImageSvg,
+  exportMapImage,
+} from '@/lib/imageExport';
+
+interface ExportImageDialogProps {
+  isOpen: boolean;
+  map: CampaignMap;
+  onClose: () => void;
+}
+
+const ExportImageDialog: React.FC<ExportImageDialogProps> = ({
+  isOpen,
+  map,
+  onClose,
+}) => {
+  const [options, setOptions] = useState<MapImageOptions>(DEFAULT_MAP_IMAGE_OPTIONS);
+  const [isExporting, setIsExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const update = useCallback((updates: Partial<MapImageOptions>) => {
+    setOptions(prev => ({ ...prev, ...updates }));
+    setError(null);
+  }, []);
+
+  const handleExport = useCallback(async () => {
+    setIsExporting(true);
+    setError(null);
+    try {
+      await exportMapImage(map, options);
+      onClose();
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setIsExporting(false);
+    }
+  }, [map, options, onClose]);
+
+  // Lay out the image to report the PNG size
+  const size = useMemo(() => {
+    if (!isOpen || options.format !== 'png') return null;
+    return buildMapImageSvg(map, options);
+  }, [isOpen, map, options]);
+
+  if (!isOpen) return null;
+
+  const hasImage = !!map.imageOverlay?.src;
+
+  const toggleRow = (label: string, value: boolean, key: 'showTitle' | 'showLegend' | 'showImage') => (
+    <div className="panel-row">
+      <span className="panel-row-label">{label}</span>
+      <button
+        className={`btn btn-sm ${value ? 'btn-primary' : 'btn-secondary'}`}
+        onClick={() => update({ [key]: !value })}
+      >
+        {value ? 'On' : 'Off'}
+      </button>
+    </div>
+  );
+
+  return (
+    <div className="modal-overlay" onClick={onClose}>
+      <div className="modal" onClick={e => e.stopPropagation()}>
+        <div className="modal-header">
+          <h2 className="modal-title">Export Image</h2>
+          <button className="modal-close" onClick={onClose}>×</button>
+        </div>
+
+        <div className="modal-content">
+          {error && (
+            <div className="mb-3" style={{
+              padding: 'var(--spacing-sm)',
+              background: 'var(--danger)',
+              borderRadius: 'var(--radius-sm)',
+              color: 'white',
+            }}>
+              {error}
+            </div>
+          )}
+
+          <div className="form-group">
+            <label className="form-label">Format</label>
+            <div className="flex gap-2">
+              <button
+                className={`btn flex-1 ${options.format === 'png' ? 'btn-primary' : 'btn-secondary'}`}
+                onClick={() => update({ format: 'png' })}
+              >
+                PNG
+              </button>
+              <button
+                className={`btn flex-1 ${options.format === 'svg' ? 'btn-primary' : 'btn-secondary'}`}
+                onClick={() => update({ format: 'svg' })}
+              >
+                SVG
+              </button>
+            </div>
+          </div>
+
+          {options.format === 'png' && (
+            <div className="form-group">
+              <label className="form-label">Scale</label>
+              <div className="flex gap-2">
+                {MAP_IMAGE_SCALES.map(scale => (
+                  <button
+                    key={scale}
+                    className={`btn btn-sm flex-1 ${options.scale === scale ? 'btn-primary' : 'btn-secondary'}`}
+                    onClick={() => update({ scale })}
+                  >
+                    {scale}×
+                  </button>
+                ))}
+              </div>
+              {size && (
+                <p className="text-muted text-sm mt-1">
+                  {Math.round(size.width * options.scale)} × {Math.round(size.height * options.scale)} pixels
+                </p>
+              )}
+            </div>
+          )}
+
+          <div className="form-group">
+            {toggleRow('Title', options.showTitle, 'showTitle')}
+            {toggleRow('Legend', options.showLegend, 'showLegend')}
+            {hasImage && toggleRow('Background Image', options.showImage, 'showImage')}
+            <p className="text-muted text-sm mt-1">
+              Grid, coordinates and terrain colors follow the map settings
+            </p>
+          </div>
+        </div>
+
+        <div className="modal-footer">
+          <button className="btn btn-secondary" onClick={onClose}>
+            Cancel
+          </button>
+          <button
+            className="btn btn-primary"
+            onClick={handleExport}
+            disabled={isExporting}
+          >
+            {isExporting ? 'Exporting...' : 'Export'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ExportImageDialog;
@@ -0,0 +1,157 @@
+import React, { useMemo, useState } from 'react';
+import type { Faction, FactionRelationshipStatus } from '@/lib/types';
+import { RELATIONSHIP_LABELS } from '@/lib/types';
+import { getRelationshipEdges, layoutFactionGraph } from '@/lib/factionGraph';
+
+interface FactionGraphProps {
+  factions: Faction[];
+  onSelectFaction: (factionId: string) => void;
+  onSetRelationship: (aId: string, bId: string, status: FactionRelationshipStatus) => void;
+}
+
+const GRAPH_SIZE = 280;
+const NODE_RADIUS = 10;
+const MAX_LABEL_LENGTH = 14;
+
+function shortName(name: string): string {
+  return name.length > MAX_LABEL_LENGTH ? `${name.slice(0, MAX_LABEL_LENGTH - 1)}…` : name;
+}
+
+/**
+ * All factions as a circle of nodes, with relationship edges colored by status.
+ * Click a node to open the faction, or an edge to change the relationship.
+ * A pair that disagrees is drawn half in each side's color and listed as a warning.
+ */
+const FactionGraph: React.FC<FactionGraphProps> = ({
+  factions,
+  onSelectFaction,
+  onSetRelationship,
+}) => {
+  const [selectedPair, setSelectedPair] = useState<[string, string] | null>(null);
+
+  const nodes = useMemo(() => factions.filter(f => f.type !== 'region'), [factions]);
+  const edges = useMemo(() => getRelationshipEdges(factions), [factions]);
+  const positions = useMemo(
+    () => layoutFactionGraph(nodes, { x: GRAPH_SIZE / 2, y: GRAPH_SIZE / 2 }, GRAPH_SIZE / 2 - 40),
+    [nodes]
+  );
+  const asymmetric = edges.filter(e => e.asymmetric);
+  const selectedEdge = selectedPair
+    ? edges.find(e => e.a.id === selectedPair[0] && e.b.id === selectedPair[1])
+    : undefined;
+
+  return (
+    <div>
+      <svg
+        className="faction-graph"
+        viewBox={`0 0 ${GRAPH_SIZE} ${GRAPH_SIZE}`}
+        role="img"
+        aria-label="Faction relationship graph"
+      >
+        {edges.map(edge => {
+          const from = positions.get(edge.a.id)!;
+          const to = positions.get(edge.b.id)!;
+          const mid = { x: (from.x + to.x) / 2, y: (from.y + to.y) / 2 };
+          const isSelected = selectedEdge === edge;
+          const key = `${edge.a.id}-${edge.b.id}`;
+          return (
+            <g
+              key={key}
+              className="faction-graph-edge"
+              onClick={() => setSelectedPair([edge.a.id, edge.b.id])}
+            >
+              <title>
+                {edge.asymmetric
+                  ? `${edge.a.name} → ${edge.b.name}: ${RELATIONSHIP_LABELS[edge.aToB].label}; ${edge.b.name} → ${edge.a.name}: ${RELATIONSHIP_LABELS[edge.bToA].label}`
+                  : `${edge.a.name} – ${edge.b.name}: ${RELATIONSHIP_LABELS[edge.aToB].label}`}
+              </title>
+              {/* Wide invisible stroke makes thin edges easy to click */}
+              <line x1={from.x} y1={from.y} x2={to.x} y2={to.y} stroke="transparent" strokeWidth={12} />
+              <line
+                x1={from.x} y1={from.y} x2={mid.x} y2={mid.y}
+                stroke={RELATIONSHIP_LABELS[edge.aToB].color}
+                strokeWidth={isSelected ? 4 : 2}
+              />
+              <line
+                x1={mid.x} y1={mid.y} x2={to.x} y2={to.y}
+                stroke={RELATIONSHIP_LABELS[edge.bToA].color}
+                strokeWidth={isSelected ? 4 : 2}
+              />
+              {edge.asymmetric && (
+                <text x={mid.x} y={mid.y + 4} textAnchor="middle" className="faction-graph-warning">⚠</text>
+              )}
+            </g>
+          );
+        })}
+
+        {nodes.map(faction => {
+          const { x, y } = positions.get(faction.id)!;
+          return (
+            <g
+              key={faction.id}
+              className="faction-graph-node"
+              onClick={() => onSelectFaction(faction.id)}
+            >
+              <title>{faction.name}</title>
+              <circle cx={x} cy={y} r={NODE_RADIUS} fill={faction.color || '#808080'} />
+              <text x={x} y={y + NODE_RADIUS + 12} textAnchor="middle">{shortName(faction.name)}</text>
+            </g>
+          );
+        })}
+      </svg>
+
+      <div className="faction-graph-legend text-sm">
+        {Object.values(RELATIONSHIP_LABELS).map(({ label, color }) => (
+          <span key={label}>
+            <span className="color-dot" style={{ backgroundColor: color }} /> {label}
+          </span>
+        ))}
+      </div>
+
+      {selectedEdge ? (
+        <div className="relationship-row mt-2">
+          <span className="text-sm">{selectedEdge.a.name} – {selectedEdge.b.name}</span>
+          <select
+            className="form-select relationship-select"
+            value={selectedEdge.asymmetric ? '' : selectedEdge.aToB}
+            onChange={e => onSetRelationship(
+              selectedEdge.a.id,
+              selectedEdge.b.id,
+              e.target.value as FactionRelationshipStatus
+            )}
+            style={selectedEdge.asymmetric ? undefined : {
+              color: RELATIONSHIP_LABELS[selectedEdge.aToB].color,
+              borderColor: RELATIONSHIP_LABELS[selectedEdge.aToB].color,
+            }}
+          >
+            {selectedEdge.asymmetric && <option value="" disabled>Mismatched</option>}
+            {Object.entries(RELATIONSHIP_LABELS).map(([key, { label }]) => (
+              <option key={key} value={key}>{label}</option>
+            ))}
+          </select>
+        </div>
+      ) : (
+        <p className="text-sm text-muted mt-2">Click a faction to open it, or a line to change the relationship.</p>
+      )}
+
+      {asymmetric.length > 0 && (
+        <div className="faction-graph-warnings mt-2">
+          <label className="form-label">⚠ Mismatched relationships</label>
+          {asymmetric.map(edge => (
+            <button
+              key={`${edge.a.id}-${edge.b.id}`}
+              className="faction-graph-warning-item text-sm"
+              onClick={() => setSelectedPair([edge.a.id, edge.b.id])}
+              title="Select to set one relationship for both sides"
+            >
+              {edge.a.name} sees {edge.b.name} as {RELATIONSHIP_LABELS[edge.aToB].label.toLowerCase()},
+              but {edge.b.name} sees {edge.a.name} as {RELATIONSHIP_LABELS[edge.bToA].label.toLowerCase()}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default FactionGraph;
@@ -1,8 +1,20 @@
 import React, { useState, useCallback, useMemo } from 'react';
 import type { Faction, FactionRelationshipStatus, FactionType, Hex, HexCoord, GridConfig, TerrainType } from '@/lib/types';
-import { DEFAULT_TERRAIN_TYPES, getEffectiveTerrain } from '@/lib/types';
+import { DEFAULT_TERRAIN_TYPES, RELATIONSHIP_LABELS, getEffectiveTerrain } from '@/lib/types';
 import { generateFactionNameOptions } from '@/lib/generator/nameGenerator';
-import { axialToOffset, getHexAt } from '@/lib/hexUtils';
+import { axialToOffset, getHexAt, getDisplayCoord } from '@/lib/hexUtils';
+import type { FactionTurnResult } from '@/lib/factionSimulation';
+import { getRelationshipStatus } from '@/lib/factionGraph';
+import {
+  getParent,
+  getRegion,
+  getChildren,
+  getParentOptions,
+  getTerritoryRollup,
+  getEffectiveRelationship,
+  flattenHierarchy,
+} from '@/lib/factionHierarchy';
+import FactionGraph from './FactionGraph';
 
 function getTerrainInfo(terrainId: string, customTerrains: TerrainType[]): TerrainType {
   const allTerrains = [...DEFAULT_TERRAIN_TYPES, ...customTerrains];
@@ -13,6 +25,17 @@ function getTerrainInfo(terrainId: string, customTerrains: TerrainType[]): Terra
   };
 }
 
+/**
+ * Hex count for the list; with vassals or members, the rolled-up total first
+ */
+function formatTerritory(factions: Faction[], faction: Faction): string {
+  const hexCount = (n: number) => `${n} hex${n !== 1 ? 'es' : ''}`;
+  const own = faction.domainHexes.length;
+  return getChildren(factions, faction).length > 0
+    ? `${hexCount(getTerritoryRollup(factions, faction))} (${own} own)`
+    : hexCount(own);
+}
+
 // Accordion component for collapsible sections
 interface AccordionProps {
   title: string;
@@ -46,21 +69,17 @@ interface FactionPanelProps {
   hexes: Hex[];
   gridConfig: GridConfig;
   customTerrainTypes: TerrainType[];
+  factionTurn: number;
+  lastTurn: FactionTurnResult | null;
   onUpdateFaction: (faction: Faction) => void;
   onDeleteFaction: (factionId: string) => void;
   onAddFaction: (faction: Faction) => void;
+  onSetRelationship: (aId: string, bId: string, status: FactionRelationshipStatus) => void;
   onHexClick: (coord: HexCoord) => void;
+  onAdvanceTurn: () => void;
   onClose: () => void;
 }
 
-const RELATIONSHIP_LABELS: Record<FactionRelationshipStatus, { label: string; color: string }> = {
-  'open_war': { label: 'War', color: '#ef4444' },
-  'hostility': { label: 'Hostile', color: '#f97316' },
-  'indifference': { label: 'Neutral', color: '#6b7280' },
-  'peace_trade': { label: 'Trade', color: '#22c55e' },
-  'alliance': { label: 'Allied', color: '#3b82f6' },
-};
-
 const FACTION_COLORS = [
   '#e94560', '#4ade80', '#60a5fa', '#fbbf24', '#a78bfa',
   '#f472b6', '#34d399', '#38bdf8', '#fb923c', '#c084fc',
@@ -80,10 +99,14 @@ const FactionPanel: React.FC<FactionPanelProps> = ({
   hexes,
   gridConfig,
   customTerrainTypes,
+  factionTurn,
+  lastTurn,
   onUpdateFaction,
   onDeleteFaction,
   onAddFaction,
+  onSetRelationship,
   onHexClick,
+  onAdvanceTurn,
   onClose,
 }) => {
   const [selectedFactionId, setSelectedFactionId] = useState<string | null>(null);
@@ -209,38 +232,14 @@ const FactionPanel: React.FC<FactionPanelProps> = ({
     }
   }, [selectedFaction, onDeleteFaction]);
   
+  // Both sides change together (in one update) so the pair can't disagree
   const handleRelationshipChange = useCallback((
     targetFactionId: string, 
     status: FactionRelationshipStatus
   ) => {
     if (!selectedFaction) return;
-    
-    const existingIdx = selectedFaction.relationships.findIndex(
-      r => r.factionId === targetFactionId
-    );
-    
-    const newRelationships = [...selectedFaction.relationships];
-    if (existingIdx >= 0) {
-      newRelationships[existingIdx] = { factionId: targetFactionId, status };
-    } else {
-      newRelationships.push({ factionId: targetFactionId, status });
-    }
-    
-    handleUpdateFaction({ relationships: newRelationships });
-    
-    // Update the reciprocal relationship
-    const targetFaction = factions.find(f => f.id === targetFactionId);
-    if (targetFaction) {
-      const targetRelationships = [...targetFaction.relationships];
-      const recipIdx = targetRelationships.findIndex(r => r.factionId === selectedFaction.id);
-      if (recipIdx >= 0) {
-        targetRelationships[recipIdx] = { factionId: selectedFaction.id, status };
-      } else {
-        targetRelationships.push({ factionId: selectedFaction.id, status });
-      }
-      onUpdateFaction({ ...targetFaction, relationships: targetRelationships });
-    }
-  }, [selectedFaction, factions, handleUpdateFaction, onUpdateFaction]);
+    onSetRelationship(selectedFaction.id, targetFactionId, status);
+  }, [selectedFaction, onSetRelationship]);
 
   return (
     <div>
@@ -414,13 +413,13 @@ const FactionPanel: React.FC<FactionPanelProps> = ({
                   <div className="flex gap-2">
                     <button
                       className={`btn btn-sm flex-1 ${selectedFaction.type !== 'region' ? 'btn-primary' : 'btn-secondary'}`}
-                      onClick={() => handleUpdateFaction({ type: 'faction' })}
+                      onClick={() => handleUpdateFaction({ type: 'faction', parentId: undefined, regionId: undefined })}
                     >
                       Faction
                     </button>
                     <button
                       className={`btn btn-sm flex-1 ${selectedFaction.type === 'region' ? 'btn-primary' : 'btn-secondary'}`}
-                      onClick={() => handleUpdateFaction({ type: 'region' })}
+                      onClick={() => handleUpdateFaction({ type: 'region', parentId: undefined, regionId: undefined })}
                     >
                       Region
                     </button>
@@ -473,6 +472,94 @@ const FactionPanel: React.FC<FactionPanelProps> = ({
                   </div>
                 </div>
               </Accordion>
+
+              {/* Hierarchy */}
+              <Accordion title="Hierarchy" defaultOpen={false}>
+                {(() => {
+                  const isRegion = selectedFaction.type === 'region';
+                  const parent = getParent(factions, selectedFaction);
+                  const region = getRegion(factions, selectedFaction);
+                  const children = getChildren(factions, selectedFaction);
+                  const regions = factions.filter(f => f.type === 'region');
+                  return (
+                    <>
+                      <div className="form-group">
+                        <label className="form-label">{isRegion ? 'Part of Region' : 'Liege'}</label>
+                        <select
+                          className="form-select"
+                          value={parent?.id || ''}
+                          onChange={e => handleUpdateFaction({ parentId: e.target.value || undefined })}
+                        >
+                          <option value="">{isRegion ? 'None' : 'None (independent)'}</option>
+                          {getParentOptions(factions, selectedFaction).map(f => (
+                            <option key={f.id} value={f.id}>{f.name}</option>
+                          ))}
+                        </select>
+                      </div>
+
+                      {!isRegion && parent && (
+                        <label className="flex items-center gap-2 form-group">
+                          <input
+                            type="checkbox"
+                            checked={!!selectedFaction.inheritRelationships}
+                            onChange={e => handleUpdateFaction({ inheritRelationships: e.target.checked || undefined })}
+                          />
+                          <span className="text-sm">Inherit {parent.name}'s relationships</span>
+                        </label>
+                      )}
+
+                      {!isRegion && regions.length > 0 && (
+                        <div className="form-group">
+                          <label className="form-label">Region</label>
+                          <select
+                            className="form-select"
+                            value={region?.id || ''}
+                            onChange={e => handleUpdateFaction({ regionId: e.target.value || undefined })}
+                          >
+                            <option value="">None</option>
+                            {regions.map(r => (
+                              <option key={r.id} value={r.id}>{r.name}</option>
+                            ))}
+                          </select>
+                        </div>
+                      )}
+
+                      {children.length > 0 ? (
+                        <>
+                          <label className="form-label">{isRegion ? 'Contains' : 'Vassals'}</label>
+                          <div className="flex flex-col gap-1">
+                            {children.map(child => (
+                              <button
+                                key={child.id}
+                                className="faction-list-item"
+                                onClick={() => setSelectedFactionId(child.id)}
+                              >
+                                <span className="color-dot" style={{ backgroundColor: child.color }} />
+                                <span className="faction-name">{child.name}</span>
+                                <span className="faction-territory">
+                                  {child.domainHexes.length} hex{child.domainHexes.length !== 1 ? 'es' : ''}
+                                </span>
+                              </button>
+                            ))}
+                          </div>
+                          <div className="panel-row mt-2">
+                            <span className="panel-row-label">Total territory</span>
+                            <span className="panel-row-value">
+                              {formatTerritory(factions, selectedFaction)}
+                            </span>
+                          </div>
+                        </>
+                      ) : (
+                        <p className="text-sm text-muted">
+                          {isRegion
+                            ? 'No sub-regions or member factions yet. Set this region on them.'
+                            : 'No vassals yet. Set this faction as their liege.'}
+                        </p>
+                      )}
+                    </>
+                  );
+                })()}
+              </Accordion>
               
               {/* Territory */}
               <Accordion title={`Territory (${selectedFaction.domainHexes.length} hex${selectedFaction.domainHexes.length !== 1 ? 'es' : ''})`} defaultOpen={false}>
@@ -526,10 +613,9 @@ const FactionPanel: React.FC<FactionPanelProps> = ({
                       {factions
                         .filter(f => f.id !== selectedFaction.id && f.type !== 'region')
                         .map(otherFaction => {
-                          const relationship = selectedFaction.relationships.find(
-                            r => r.factionId === otherFaction.id
-                          );
-                          const status = relationship?.status || 'indifference';
+                          const { status, inheritedFrom } = getEffectiveRelationship(factions, selectedFaction, otherFaction);
+                          const theirStatus = getRelationshipStatus(otherFaction, selectedFaction);
+                          const mismatched = !inheritedFrom && theirStatus !== getRelationshipStatus(selectedFaction, otherFaction);
 
                           return (
                             <div key={otherFaction.id} className="relationship-row">
@@ -539,6 +625,19 @@ const FactionPanel: React.FC<FactionPanelProps> = ({
                                   style={{ backgroundColor: otherFaction.color }}
                                 />
                                 <span className="text-sm">{otherFaction.name}</span>
+                                {inheritedFrom && (
+                                  <span className="text-sm text-muted" title="Inherited; pick a status to set this faction's own">
+                                    via {inheritedFrom.name}
+                                  </span>
+                                )}
+                                {mismatched && (
+                                  <span
+                                    className="text-sm"
+                                    title={`${otherFaction.name} sees ${selectedFaction.name} as ${RELATIONSHIP_LABELS[theirStatus].label.toLowerCase()}`}
+                                  >
+                                    ⚠
+                                  </span>
+                                )}
                               </div>
                               <select
                                 className="form-select relationship-select"
@@ -692,20 +791,19 @@ const FactionPanel: React.FC<FactionPanelProps> = ({
                   </div>
                   <div className="panel-content">
                     <div className="flex flex-col gap-1">
-                      {factions.filter(f => f.type !== 'region').map(faction => (
+                      {flattenHierarchy(factions, 'faction').map(({ faction, depth }) => (
                         <button
                           key={faction.id}
                           className="faction-list-item"
                           onClick={() => setSelectedFactionId(faction.id)}
+                          style={{ marginLeft: depth * 16 }}
                         >
                           <span
                             className="color-dot"
                             style={{ backgroundColor: faction.color }}
                           />
                           <span className="faction-name">{faction.name}</span>
-                          <span className="faction-territory">
-                            {faction.domainHexes.length} hex{faction.domainHexes.length !== 1 ? 'es' : ''}
-                          </span>
+                          <span className="faction-territory">{formatTerritory(factions, faction)}</span>
                         </button>
                       ))}
                     </div>
@@ -713,6 +811,70 @@ const FactionPanel: React.FC<FactionPanelProps> = ({
                 </div>
               )}
 
+              {/* Relationship Graph */}
+              {factions.filter(f => f.type !== 'region').length > 1 && (
+                <div className="panel">
+                  <div className="panel-header">
+                    <span className="panel-title">Relationships</span>
+                  </div>
+                  <div className="panel-content">
+                    <FactionGraph
+                      factions={factions}
+                      onSelectFaction={setSelectedFactionId}
+                      onSetRelationship={onSetRelationship}
+                    />
+                  </div>
+                </div>
+              )}
+
+              {/* Faction Turns */}
+              {factions.filter(f => f.type !== 'region').length > 0 && (
+                <div className="panel">
+                  <div className="panel-header">
+                    <span className="panel-title">Faction Turns</span>
+                    <button
+                      className="btn btn-ghost btn-sm"
+                      onClick={onAdvanceTurn}
+                      title="Play out wars, growth, mergers and diplomacy (logged to the session log)"
+                      style={{ padding: '2px 8px', fontSize: '0.75rem' }}
+                    >
+                      Advance Turn
+                    </button>
+                  </div>
+                  <div className="panel-content">
+                    {!lastTurn ? (
+                      <p className="text-sm text-muted">
+                        {factionTurn === 0
+                          ? 'Advance a turn between sessions to let the factions act on their own.'
+                          : `${factionTurn} turn${factionTurn === 1 ? '' : 's'} played. See the session log for past events.`}
+                      </p>
+                    ) : (
+                      <>
+                        <label className="form-label">Turn {lastTurn.turn}</label>
+                        {lastTurn.events.length === 0 ? (
+                          <p className="text-sm text-muted">All quiet.</p>
+                        ) : (
+                          lastTurn.events.map((event, i) => (
+                            <div key={i} className="settlement-entry text-sm">
+                              {event.hexCoord && (
+                                <button
+                                  className="session-log-hex"
+                                  onClick={() => onHexClick(event.hexCoord!)}
+                                  title="Go to hex"
+                                >
+                                  {getDisplayCoord(event.hexCoord, gridConfig)}
+                                </button>
+                              )}
+                              {event.text}
+                            </div>
+                          ))
+                        )}
+                      </>
+                    )}
+                  </div>
+                </div>
+              )}
+
               {/* Regions Section */}
               {factions.filter(f => f.type === 'region').length > 0 && (
                 <div className="panel">
@@ -721,20 +883,19 @@ const FactionPanel: React.FC<FactionPanelProps> = ({
                   </div>
                   <div className="panel-content">
                     <div className="flex flex-col gap-1">
-                      {factions.filter(f => f.type === 'region').map(region => (
+                      {flattenHierarchy(factions, 'region').map(({ faction: region, depth }) => (
                         <button
                           key={region.id}
                           className="faction-list-item"
                           onClick={() => setSelectedFactionId(region.id)}
+                          style={{ marginLeft: depth * 16 }}
                         >
                           <span
                             className="color-dot"
                             style={{ backgroundColor: region.color }}
                           />
                           <span className="faction-name">{region.name}</span>
-                          <span className="faction-territory">
-                            {region.domainHexes.length} hex{region.domainHexes.length !== 1 ? 'es' : ''}
-                          </span>
+                          <span className="faction-territory">{formatTerritory(factions, region)}</span>
                         </button>
                       ))}
                     </div>
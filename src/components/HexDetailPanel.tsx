@@ -2,13 +2,20 @@ import React, { useState, useCallback } from 'react';
 import type { Hex, HexCoord, TerrainType, Faction, HexCampaignData, GridConfig, CampaignMap } from '@/lib/types';
 import { hexHasUserData, getEffectiveTerrain, DEFAULT_TERRAIN_TYPES, coordToKey } from '@/lib/types';
 import { axialToOffset } from '@/lib/hexUtils';
+import { getPathsAtHex, getPathLabel, PATH_STYLES } from '@/lib/paths';
 import { normalizeFeatureData, detailsToFeatureNotes, formatGeneratedDetails } from '@/lib/featureUtils';
+import { formatGameDate, getCalendar } from '@/lib/sessionLog';
 import type { BiomeType, SettlementType, FeatureType } from '@/lib/generator/types';
 import { generateTerrain } from '@/lib/generator/biomeGenerator';
-import { generateFeature } from '@/lib/generator/featureGenerator';
+import { generateFeature, generateLairContents } from '@/lib/generator/featureGenerator';
 import { generateNameOptions } from '@/lib/generator/nameGenerator';
 import { createFactionFromSettlement, generateFactionRelationships } from '@/lib/generator/politicalGenerator';
 import { generateRegion, generate19HexRegion, generateFeaturesOnly } from '@/lib/generator/mapGenerator';
+import { expandSettlement } from '@/lib/generator/townsfolkGenerator';
+import { stockDungeon, getDungeonLevelCount } from '@/lib/generator/dungeonGenerator';
+import SettlementPanel from './SettlementPanel';
+import DungeonPanel from './DungeonPanel';
+import LairPanel from './LairPanel';
 
 // Accordion component for collapsible sections
 interface AccordionProps {
@@ -53,6 +60,8 @@ interface HexDetailPanelProps {
   onBulkHexUpdateWithFactions: (hexUpdates: Array<{ coord: HexCoord; changes: Partial<Hex> }>, newFactions: Faction[]) => void;
   onAddFaction: (faction: Faction) => void;
   onUpdateFaction: (faction: Faction) => void;
+  onOpenSubMap: (mapId: string) => void;
+  onCreateSubMap: () => void;
   onClose: () => void;
 }
 
@@ -110,6 +119,8 @@ const HexDetailPanel: React.FC<HexDetailPanelProps> = ({
   onBulkHexUpdateWithFactions,
   onAddFaction,
   onUpdateFaction,
+  onOpenSubMap,
+  onCreateSubMap,
   onClose,
 }) => {
   const [activeTab, setActiveTab] = useState<TabId>('overview');
@@ -197,6 +208,7 @@ const HexDetailPanel: React.FC<HexDetailPanelProps> = ({
   );
   const controllingActualFactions = controllingFactions.filter(f => f.type !== 'region');
   const controllingRegions = controllingFactions.filter(f => f.type === 'region');
+  const hexPaths = getPathsAtHex(map.paths || [], hex.coord);
   
   // Get display coordinate
   const { col, row } = axialToOffset(hex.coord, gridConfig);
@@ -511,7 +523,43 @@ const HexDetailPanel: React.FC<HexDetailPanelProps> = ({
       domainHexes: faction.domainHexes.filter(h => coordToKey(h) !== hexKey),
     });
   }, [hex.coord, factions, onUpdateFaction]);
-  
+
+  // Roll (or re-roll) the settlement's NPCs, shops and rumors onto its feature
+  const handleExpandSettlement = useCallback(() => {
+    if (!hex.feature) return;
+    onHexUpdate(hex.coord, {
+      feature: { ...hex.feature, settlement: expandSettlement(map, hex.coord) },
+    });
+  }, [hex.coord, hex.feature, map, onHexUpdate]);
+
+  // Roll (or re-roll) a lair's numbers, hoard and chambers; also updates their feature notes
+  const handleRollLairContents = useCallback(() => {
+    if (!hex.feature) return;
+    const details = hex.feature.details;
+    const contents = generateLairContents(
+      typeof details.monsterType === 'string' ? details.monsterType : 'Unknown creature',
+      typeof details.layout === 'string' ? details.layout : '',
+      Number(details.percentOutside) || 0
+    );
+    onHexUpdate(hex.coord, {
+      feature: { ...hex.feature, details: { ...details, ...contents } },
+      campaignData: {
+        featureNotes: {
+          ...(campaignData.featureNotes ?? detailsToFeatureNotes(details)),
+          ...detailsToFeatureNotes({ numberAppearing: contents.numberAppearing, treasure: contents.treasure }),
+        },
+      },
+    });
+  }, [hex.coord, hex.feature, campaignData.featureNotes, onHexUpdate]);
+
+  // Roll (or re-roll) rooms, rulers and entrances for every level of the dungeon
+  const handleStockDungeon = useCallback(() => {
+    if (!hex.feature) return;
+    onHexUpdate(hex.coord, {
+      feature: { ...hex.feature, dungeon: stockDungeon(getDungeonLevelCount(hex.feature.details)) },
+    });
+  }, [hex.coord, hex.feature, onHexUpdate]);
+
   // Regional generation handler (19-hex region)
   // mode: 'terrain' = terrain only, 'terrain+features' = both, 'features' = features only
   const handleGenerateRegion = useCallback((mode: 'terrain' | 'terrain+features' | 'features') => {
@@ -890,6 +938,29 @@ const HexDetailPanel: React.FC<HexDetailPanelProps> = ({
                     </button>
                   </div>
 
+                  {/* Hidden from the player view */}
+                  <div className="panel-row">
+                    <span className="panel-row-label">Hidden from Players</span>
+                    <button
+                      className={`btn btn-sm ${campaignData.hidden ? 'btn-primary' : 'btn-secondary'}`}
+                      onClick={() => onUpdate({ hidden: !campaignData.hidden || undefined })}
+                    >
+                      {campaignData.hidden ? 'Yes' : 'No'}
+                    </button>
+                  </div>
+
+                  {/* Player notes */}
+                  <div className="form-group mt-2">
+                    <label className="form-label">Player Notes</label>
+                    <textarea
+                      className="form-textarea"
+                      value={campaignData.playerNotes || ''}
+                      onChange={(e) => handleFieldChange('playerNotes', e.target.value)}
+                      placeholder="What the players know about this hex..."
+                      rows={3}
+                    />
+                  </div>
+
                   {/* Feature Type selector */}
                   <div className="form-group mt-3">
                     <label className="form-label">Feature Type</label>
@@ -1019,6 +1090,13 @@ const HexDetailPanel: React.FC<HexDetailPanelProps> = ({
                     <span className="panel-row-value">{campaignData.explored ? 'Yes' : 'No'}</span>
                   </div>
 
+                  {campaignData.hidden && (
+                    <div className="panel-row">
+                      <span className="panel-row-label">Hidden from Players</span>
+                      <span className="panel-row-value">Yes</span>
+                    </div>
+                  )}
+
                   {hex.featureType && (
                     <div className="panel-row">
                       <span className="panel-row-label">Feature</span>
@@ -1028,7 +1106,38 @@ const HexDetailPanel: React.FC<HexDetailPanelProps> = ({
                     </div>
                   )}
 
-                  {campaignData.lastVisited && (
+                  {/* Rivers, roads and trails through this hex */}
+                  {hexPaths.length > 0 && (
+                    <div className="panel-row">
+                      <span className="panel-row-label">Paths</span>
+                      <span className="panel-row-value">
+                        {hexPaths.map(p => (
+                          <span key={p.id} style={{ marginLeft: 'var(--spacing-sm)' }}>
+                            <span className="path-swatch" style={{ background: PATH_STYLES[p.type].color }} />
+                            {getPathLabel(p)}
+                          </span>
+                        ))}
+                      </span>
+                    </div>
+                  )}
+
+                  {campaignData.playerNotes && (
+                    <div className="panel-row" style={{ alignItems: 'flex-start' }}>
+                      <span className="panel-row-label">Player Notes</span>
+                      <span className="panel-row-value" style={{ whiteSpace: 'pre-wrap' }}>
+                        {campaignData.playerNotes}
+                      </span>
+                    </div>
+                  )}
+
+                  {campaignData.lastVisitedDay !== undefined ? (
+                    <div className="panel-row">
+                      <span className="panel-row-label">Last Visited</span>
+                      <span className="panel-row-value">
+                        Day {campaignData.lastVisitedDay} ({formatGameDate(campaignData.lastVisitedDay, getCalendar(map))})
+                      </span>
+                    </div>
+                  ) : campaignData.lastVisited && (
                     <div className="panel-row">
                       <span className="panel-row-label">Last Visited</span>
                       <span className="panel-row-value">
@@ -1202,6 +1311,37 @@ const HexDetailPanel: React.FC<HexDetailPanelProps> = ({
             </div>
           </div>
 
+          {/* Sub-map - a finer-scale map of this hex */}
+          <div className="panel">
+            <div className="panel-header">
+              <span className="panel-title">Sub-map</span>
+            </div>
+            <div className="panel-content">
+              {hex.childMapId ? (
+                <button
+                  className="btn btn-secondary btn-sm"
+                  onClick={() => onOpenSubMap(hex.childMapId!)}
+                  style={{ width: '100%' }}
+                >
+                  Open Sub-map
+                </button>
+              ) : (
+                <>
+                  <button
+                    className="btn btn-secondary btn-sm"
+                    onClick={onCreateSubMap}
+                    style={{ width: '100%' }}
+                  >
+                    Create Sub-map...
+                  </button>
+                  <p className="text-muted text-sm mt-1">
+                    Zoom into this hex as its own map, generated to match its terrain and neighbors
+                  </p>
+                </>
+              )}
+            </div>
+          </div>
+
           {/* Feature Notes - only show if hex has a feature */}
           {hex.featureType && hex.feature && (
             <div className="panel">
@@ -1328,6 +1468,35 @@ const HexDetailPanel: React.FC<HexDetailPanelProps> = ({
             </div>
           )}
 
+          {/* NPCs, shops and rumors - settlements only */}
+          {hex.featureType === 'settlement' && hex.feature && (
+            <SettlementPanel
+              expansion={hex.feature.settlement}
+              gridConfig={gridConfig}
+              onExpand={handleExpandSettlement}
+              onHexClick={onNeighborClick}
+            />
+          )}
+
+          {/* Monster stats, numbers and chambers - lairs only */}
+          {hex.featureType === 'lair' && hex.feature && (
+            <LairPanel
+              details={hex.feature.details}
+              monsterStats={map.settings.monsterStats || []}
+              onRoll={handleRollLairContents}
+            />
+          )}
+
+          {/* Level-by-level contents - dungeons only */}
+          {hex.featureType === 'dungeon' && hex.feature && (
+            <DungeonPanel
+              key={coordToKey(hex.coord)}
+              stocking={hex.feature.dungeon}
+              levelCount={getDungeonLevelCount(hex.feature.details)}
+              onStock={handleStockDungeon}
+            />
+          )}
+
           {/* Original Generated Details (collapsible) - show even without feature type */}
           {hex.feature?.originalDetails && (
             <div className="panel">
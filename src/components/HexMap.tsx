@@ -1,15 +1,27 @@
-import React, { useMemo, useCallback, useState, useRef } from 'react';
-import type { Hex, HexCoord, GridConfig, TerrainType, Faction, ImageOverlay, CampaignSettings } from '@/lib/types';
-import { coordToKey, hexHasUserData, getEffectiveTerrain, DEFAULT_TERRAIN_TYPES } from '@/lib/types';
+import React, { useMemo, useCallback, useState, useRef, useId, useEffect, useLayoutEffect } from 'react';
+import type { Hex, HexCoord, GridConfig, TerrainType, Faction, ImageOverlay, CampaignSettings, MapPath } from '@/lib/types';
+import { coordToKey, keyToCoord, hexHasUserData, getEffectiveTerrain, DEFAULT_TERRAIN_TYPES } from '@/lib/types';
 import { 
   hexToPixel, 
+  pixelToHex,
   getHexPoints, 
+  getHexCorners,
   getHexDimensions,
   calculateViewBox,
+  createHexMap,
   coordEquals,
   getNeighbors,
   axialToOffset,
 } from '@/lib/hexUtils';
+import { PATH_STYLES, getPathLabel } from '@/lib/paths';
+import { getFactionColor } from '@/lib/svgRenderer';
+import {
+  getBorderPath,
+  getContestedHexes,
+  getHatchStripes,
+  TERRITORY_BORDER_WIDTH,
+  CONTESTED_HATCH_OPACITY,
+} from '@/lib/territory';
 
 interface HexMapProps {
   hexes: Hex[];
@@ -20,30 +32,43 @@ interface HexMapProps {
   multiSelectedCoords: HexCoord[];
   highlightedNeighbors?: HexCoord[];
   factions: Faction[];
+  paths?: MapPath[];
+  draftPath?: MapPath | null;          // Path currently being drawn
+  route?: HexCoord[];                  // Planned journey to highlight
+  routeLabel?: string;                 // Shown at the end of the route (e.g. travel days)
+  trail?: HexCoord[];                  // Hexes the party entered, in order
+  partyCoord?: HexCoord;               // Party token (play mode)
   zoom: number;
   onHexClick: (coord: HexCoord, event: React.MouseEvent) => void;
   onHexHover?: (coord: HexCoord | null) => void;
   onBoxSelect?: (coords: HexCoord[]) => void;
   onZoomChange?: (zoom: number) => void;
+  onPathClick?: (pathId: string) => void;  // Set while the erase tool is active
+  calibrationPoints?: { x: number; y: number }[];
+  onCalibrationClick?: (point: { x: number; y: number }) => void;  // Set while calibrating the grid
+  frontier?: HexCoord[];               // Empty hexes around an unbounded map
+  onFrontierClick?: (coord: HexCoord) => void;
 }
 
-// Generate a consistent color for a faction
-function getFactionColor(factionId: string, factions: Faction[]): string {
-  const faction = factions.find(f => f.id === factionId);
-  if (faction?.color) return faction.color;
-  
-  const colors = [
-    '#e94560', '#4ade80', '#60a5fa', '#fbbf24', '#a78bfa',
-    '#f472b6', '#34d399', '#38bdf8', '#fb923c', '#c084fc',
-  ];
-  
-  let hash = 0;
-  for (let i = 0; i < factionId.length; i++) {
-    hash = ((hash << 5) - hash) + factionId.charCodeAt(i);
-    hash = hash & hash;
-  }
-  
-  return colors[Math.abs(hash) % colors.length];
+// Large maps: only hexes near the viewport get SVG cells, and once more than
+// this many would be drawn (zoomed out), terrain is drawn as a single image
+const MAX_SVG_CELLS = 2000;
+
+// Extra area rendered around the viewport, as a fraction of its size, so
+// scrolling doesn't re-render on every frame
+const VIEWPORT_OVERSCAN = 0.5;
+
+// Longest side (px) of the terrain image; bigger maps are drawn scaled down
+const MAX_TERRAIN_IMAGE_SIDE = 4096;
+
+// Fog of war fill (matches --bg-primary)
+const FOG_COLOR = '#1a1a2e';
+
+interface Bounds {
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
 }
 
 // Get terrain type info
@@ -82,13 +107,9 @@ interface HexCellProps {
   showTerrainColors: boolean;
   showDataIndicator: boolean;
   showCoordinates: boolean;
-  factionColor?: string;
   isExplored: boolean;
   showExploredStatus: boolean;
   fillOpacity: number;
-  onClick: (event: React.MouseEvent) => void;
-  onMouseEnter: () => void;
-  onMouseLeave: () => void;
 }
 
 const HexCell: React.FC<HexCellProps> = React.memo(({
@@ -101,13 +122,9 @@ const HexCell: React.FC<HexCellProps> = React.memo(({
   showTerrainColors,
   showDataIndicator,
   showCoordinates,
-  factionColor,
   isExplored,
   showExploredStatus,
   fillOpacity,
-  onClick,
-  onMouseEnter,
-  onMouseLeave,
 }) => {
   const { x, y } = hexToPixel(hex.coord, gridConfig);
   const { height: hexHeight } = getHexDimensions(gridConfig);
@@ -119,7 +136,7 @@ const HexCell: React.FC<HexCellProps> = React.memo(({
   
   // Apply fog of war
   if (showExploredStatus && !isExplored) {
-    fillColor = '#1a1a2e';
+    fillColor = FOG_COLOR;
     opacity = 1;
   }
   
@@ -151,9 +168,6 @@ const HexCell: React.FC<HexCellProps> = React.memo(({
     <g
       className={classNames}
       transform={`translate(${x}, ${y})`}
-      onClick={onClick}
-      onMouseEnter={onMouseEnter}
-      onMouseLeave={onMouseLeave}
     >
       {/* Main hex polygon */}
       <polygon
@@ -161,10 +175,6 @@ const HexCell: React.FC<HexCellProps> = React.memo(({
         points={getHexPoints(0, 0, gridConfig)}
         fill={fillColor}
         fillOpacity={opacity}
-        style={factionColor && !isSelected && !isMultiSelected ? {
-          stroke: factionColor,
-          strokeWidth: 3,
-        } : undefined}
       />
       
       {/* Terrain symbol */}
@@ -223,6 +233,348 @@ const HexCell: React.FC<HexCellProps> = React.memo(({
 
 HexCell.displayName = 'HexCell';
 
+// Selection or hover outline, drawn over the terrain image on zoomed-out large maps
+const HexOutline: React.FC<{ coord: HexCoord; gridConfig: GridConfig; className: string }> = ({ coord, gridConfig, className }) => {
+  const { x, y } = hexToPixel(coord, gridConfig);
+  return <polygon className={`hex-outline ${className}`} points={getHexPoints(x, y, gridConfig)} />;
+};
+
+interface TerrainFill {
+  x: number;
+  y: number;
+  color: string;
+  opacity: number;
+}
+
+// Every hex's terrain fill painted on a canvas and shown as one image, so a
+// zoomed-out continent costs one element instead of tens of thousands
+const TerrainImage: React.FC<{ fills: TerrainFill[]; gridConfig: GridConfig }> = React.memo(({ fills, gridConfig }) => {
+  const [image, setImage] = useState<{ href: string; x: number; y: number; width: number; height: number } | null>(null);
+  
+  useEffect(() => {
+    if (fills.length === 0) return;
+    
+    const bounds = { minX: Infinity, minY: Infinity, maxX: -Infinity, maxY: -Infinity };
+    for (const { x, y } of fills) {
+      bounds.minX = Math.min(bounds.minX, x);
+      bounds.minY = Math.min(bounds.minY, y);
+      bounds.maxX = Math.max(bounds.maxX, x);
+      bounds.maxY = Math.max(bounds.maxY, y);
+    }
+    const size = gridConfig.hexSize;
+    const minX = bounds.minX - size;
+    const minY = bounds.minY - size;
+    const width = bounds.maxX - bounds.minX + size * 2;
+    const height = bounds.maxY - bounds.minY + size * 2;
+    const scale = Math.min(1, MAX_TERRAIN_IMAGE_SIDE / Math.max(width, height));
+    
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.ceil(width * scale);
+    canvas.height = Math.ceil(height * scale);
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+    ctx.scale(scale, scale);
+    ctx.translate(-minX, -minY);
+    ctx.strokeStyle = 'rgba(0, 0, 0, 0.3)';
+    ctx.lineWidth = 1;
+    
+    const corners = getHexCorners(0, 0, gridConfig);
+    for (const fill of fills) {
+      ctx.beginPath();
+      corners.forEach((c, i) => i === 0 ? ctx.moveTo(fill.x + c.x, fill.y + c.y) : ctx.lineTo(fill.x + c.x, fill.y + c.y));
+      ctx.closePath();
+      if (fill.opacity > 0) {
+        ctx.globalAlpha = fill.opacity;
+        ctx.fillStyle = fill.color;
+        ctx.fill();
+        ctx.globalAlpha = 1;
+      }
+      ctx.stroke();
+    }
+    
+    // Encode off the main thread; the previous image stays up until this one is ready
+    let cancelled = false;
+    canvas.toBlob(blob => {
+      if (cancelled || !blob) return;
+      setImage({ href: URL.createObjectURL(blob), x: minX, y: minY, width, height });
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [fills, gridConfig]);
+  
+  // Free each image's URL once the next one is on screen (or on unmount)
+  useEffect(() => {
+    if (!image) return;
+    return () => URL.revokeObjectURL(image.href);
+  }, [image]);
+  
+  if (!image) return null;
+  return (
+    <image
+      href={image.href}
+      x={image.x}
+      y={image.y}
+      width={image.width}
+      height={image.height}
+      preserveAspectRatio="none"
+      pointerEvents="none"
+    />
+  );
+});
+
+TerrainImage.displayName = 'TerrainImage';
+
+// Path line component (river, road or trail)
+interface PathLineProps {
+  path: MapPath;
+  gridConfig: GridConfig;
+  isVisible: (key: string) => boolean;
+  isDraft?: boolean;
+  onClick?: (pathId: string) => void;
+}
+
+const PathLine: React.FC<PathLineProps> = ({ path, gridConfig, isVisible, isDraft, onClick }) => {
+  const style = PATH_STYLES[path.type];
+  const strokeWidth = Math.max(1.5, gridConfig.hexSize * style.width);
+  
+  // Split the path into runs of visible hexes so fog of war hides unexplored stretches
+  const runs: HexCoord[][] = [];
+  let run: HexCoord[] = [];
+  for (const coord of path.coords) {
+    if (isVisible(coordToKey(coord))) {
+      run.push(coord);
+    } else if (run.length > 0) {
+      runs.push(run);
+      run = [];
+    }
+  }
+  if (run.length > 0) runs.push(run);
+  
+  return (
+    <g
+      className={`map-path map-path-${path.type}${isDraft ? ' draft' : ''}`}
+      onClick={onClick ? (e) => {
+        e.stopPropagation();
+        onClick(path.id);
+      } : undefined}
+    >
+      <title>{getPathLabel(path)}</title>
+      {runs.map((coords, i) => {
+        if (coords.length === 1) {
+          const { x, y } = hexToPixel(coords[0], gridConfig);
+          return <circle key={i} cx={x} cy={y} r={strokeWidth} fill={style.color} />;
+        }
+        
+        const points = coords.map(c => {
+          const { x, y } = hexToPixel(c, gridConfig);
+          return `${x},${y}`;
+        }).join(' ');
+        
+        return (
+          <g key={i}>
+            {/* Wider invisible stroke makes thin paths easier to click */}
+            {onClick && (
+              <polyline
+                className="map-path-hit"
+                points={points}
+                fill="none"
+                stroke="transparent"
+                strokeWidth={strokeWidth + 8}
+              />
+            )}
+            <polyline
+              points={points}
+              fill="none"
+              stroke={style.color}
+              strokeWidth={strokeWidth}
+              strokeDasharray={style.dashArray}
+              strokeLinecap="round"
+              strokeLinejoin="round"
+            />
+          </g>
+        );
+      })}
+    </g>
+  );
+};
+
+// Planned route highlight
+interface RouteLineProps {
+  route: HexCoord[];
+  gridConfig: GridConfig;
+  label?: string;
+}
+
+const RouteLine: React.FC<RouteLineProps> = ({ route, gridConfig, label }) => {
+  const points = route.map(c => hexToPixel(c, gridConfig));
+  const start = points[0];
+  const end = points[points.length - 1];
+  const markerRadius = gridConfig.hexSize * 0.2;
+  
+  return (
+    <g className="route-layer" pointerEvents="none">
+      <polyline
+        className="route-line"
+        points={points.map(p => `${p.x},${p.y}`).join(' ')}
+        strokeWidth={Math.max(2, gridConfig.hexSize * 0.1)}
+      />
+      <circle className="route-marker" cx={start.x} cy={start.y} r={markerRadius} />
+      <circle className="route-marker" cx={end.x} cy={end.y} r={markerRadius} />
+      {label && (
+        <text className="route-label" x={end.x} y={end.y - markerRadius - 4}>
+          {label}
+        </text>
+      )}
+    </g>
+  );
+};
+
+// Party trail from the session log
+interface TrailLineProps {
+  trail: HexCoord[];
+  gridConfig: GridConfig;
+}
+
+const TrailLine: React.FC<TrailLineProps> = ({ trail, gridConfig }) => {
+  const points = trail.map(c => hexToPixel(c, gridConfig));
+  const stepRadius = gridConfig.hexSize * 0.1;
+  const last = points[points.length - 1];
+  
+  return (
+    <g className="trail-layer" pointerEvents="none">
+      {points.length > 1 && (
+        <polyline
+          className="trail-line"
+          points={points.map(p => `${p.x},${p.y}`).join(' ')}
+          strokeWidth={Math.max(2, gridConfig.hexSize * 0.08)}
+        />
+      )}
+      {points.map((p, i) => (
+        <circle key={i} className="trail-step" cx={p.x} cy={p.y} r={stepRadius} />
+      ))}
+      <circle className="trail-end" cx={last.x} cy={last.y} r={stepRadius * 2} />
+    </g>
+  );
+};
+
+// Faction territory borders and contested-hex hatching
+interface TerritoryLayerProps {
+  factions: Faction[];
+  gridConfig: GridConfig;
+}
+
+const TerritoryLayer: React.FC<TerritoryLayerProps> = React.memo(({ factions, gridConfig }) => {
+  // Pattern and clip IDs must be unique in the document
+  const idPrefix = useId().replace(/:/g, '');
+  const strokeWidth = gridConfig.hexSize * TERRITORY_BORDER_WIDTH;
+  
+  // One hatch pattern (listed by its colors) per set of rival claimants
+  const { contested, patterns } = useMemo(() => {
+    const combos = new Map<string, number>();
+    const patterns: string[][] = [];
+    const contested = getContestedHexes(factions).map(hex => {
+      const combo = hex.factionIds.join('|');
+      if (!combos.has(combo)) {
+        combos.set(combo, patterns.length);
+        patterns.push(hex.factionIds.map(id => getFactionColor(id, factions)));
+      }
+      return { ...hex, patternIndex: combos.get(combo)! };
+    });
+    return { contested, patterns };
+  }, [factions]);
+  
+  const borders = useMemo(() => factions
+    .map((faction, i) => ({ faction, i, d: getBorderPath(faction.domainHexes, gridConfig) }))
+    .filter(b => b.d), [factions, gridConfig]);
+  
+  const hexPoints = (coord: HexCoord) => {
+    const { x, y } = hexToPixel(coord, gridConfig);
+    return getHexPoints(x, y, gridConfig);
+  };
+  
+  return (
+    <g className="territory-layer" pointerEvents="none">
+      <defs>
+        {patterns.map((colors, index) => {
+          const { size, stripes } = getHatchStripes(colors, gridConfig);
+          return (
+            <pattern
+              key={index}
+              id={`${idPrefix}-contested-${index}`}
+              width={size}
+              height={size}
+              patternUnits="userSpaceOnUse"
+              patternTransform="rotate(45)"
+            >
+              {stripes.map((stripe, i) => (
+                <rect key={i} x={stripe.x} y={0} width={stripe.width} height={size} fill={stripe.color} />
+              ))}
+            </pattern>
+          );
+        })}
+        {borders.map(({ faction, i }) => (
+          <clipPath key={faction.id} id={`${idPrefix}-territory-${i}`}>
+            {faction.domainHexes.map(coord => (
+              <polygon key={coordToKey(coord)} points={hexPoints(coord)} />
+            ))}
+          </clipPath>
+        ))}
+      </defs>
+      
+      {contested.map(hex => (
+        <polygon
+          key={coordToKey(hex.coord)}
+          points={hexPoints(hex.coord)}
+          fill={`url(#${idPrefix}-contested-${hex.patternIndex})`}
+          fillOpacity={CONTESTED_HATCH_OPACITY}
+        />
+      ))}
+      
+      {/* Borders are clipped to their domain so only the inner half of the stroke shows */}
+      {borders.map(({ faction, i, d }) => (
+        <path
+          key={faction.id}
+          d={d}
+          fill="none"
+          stroke={getFactionColor(faction.id, factions)}
+          strokeWidth={strokeWidth}
+          strokeDasharray={faction.type === 'region' ? `${strokeWidth * 2},${strokeWidth}` : undefined}
+          strokeLinecap="round"
+          clipPath={`url(#${idPrefix}-territory-${i})`}
+        />
+      ))}
+    </g>
+  );
+});
+
+// Party token
+const PartyToken: React.FC<{ coord: HexCoord; gridConfig: GridConfig }> = ({ coord, gridConfig }) => {
+  const { x, y } = hexToPixel(coord, gridConfig);
+  const radius = gridConfig.hexSize * 0.35;
+  
+  return (
+    <g className="party-token" pointerEvents="none">
+      <circle cx={x} cy={y} r={radius} />
+      <text x={x} y={y} fontSize={radius * 1.1}>⚑</text>
+    </g>
+  );
+};
+
+// Numbered marker for a clicked calibration point
+const CalibrationMarker: React.FC<{ x: number; y: number; index: number; size: number }> = ({ x, y, index, size }) => {
+  const arm = size * 0.3;
+  
+  return (
+    <g className="calibration-marker" pointerEvents="none">
+      <line x1={x - arm} y1={y} x2={x + arm} y2={y} />
+      <line x1={x} y1={y - arm} x2={x} y2={y + arm} />
+      <circle cx={x} cy={y} r={arm * 0.6} />
+      <text x={x + arm} y={y - arm} fontSize={Math.max(10, size * 0.3)}>{index + 1}</text>
+    </g>
+  );
+};
+
 // Selection box component
 interface SelectionBoxProps {
   startX: number;
@@ -261,11 +613,22 @@ const HexMap: React.FC<HexMapProps> = ({
   multiSelectedCoords,
   highlightedNeighbors = [],
   factions,
+  paths = [],
+  draftPath,
+  route,
+  routeLabel,
+  trail,
+  partyCoord,
   zoom,
   onHexClick,
   onHexHover,
   onBoxSelect,
   onZoomChange,
+  onPathClick,
+  calibrationPoints,
+  onCalibrationClick,
+  frontier,
+  onFrontierClick,
 }) => {
   // Box selection state
   const [isDragging, setIsDragging] = useState(false);
@@ -274,6 +637,9 @@ const HexMap: React.FC<HexMapProps> = ({
   const svgRef = useRef<SVGSVGElement>(null);
   const viewportRef = useRef<HTMLDivElement>(null);
   const didDragRef = useRef(false); // Track if we just completed a drag
+  const [renderBounds, setRenderBounds] = useState<Bounds | null>(null); // SVG area that gets hex cells
+  const [hoverKey, setHoverKey] = useState<string | null>(null);
+  const hoverKeyRef = useRef<string | null>(null);
   
   // Native wheel event listener for zoom (needs passive: false to preventDefault)
   React.useEffect(() => {
@@ -305,23 +671,6 @@ const HexMap: React.FC<HexMapProps> = ({
     return new Set(highlightedNeighbors.map(c => coordToKey(c)));
   }, [highlightedNeighbors]);
   
-  // Create faction color map for hexes
-  const hexFactionColors = useMemo(() => {
-    if (!settings?.showFactionTerritories) return new Map<string, string>();
-    
-    const map = new Map<string, string>();
-    for (const faction of (factions || [])) {
-      const color = getFactionColor(faction.id, factions || []);
-      for (const coord of (faction.domainHexes || [])) {
-        const key = coordToKey(coord);
-        if (!map.has(key)) {
-          map.set(key, color);
-        }
-      }
-    }
-    return map;
-  }, [factions, settings?.showFactionTerritories]);
-  
   // Calculate explored hexes and their neighbors
   const exploredInfo = useMemo(() => {
     if (!settings?.showExploredStatus) {
@@ -347,16 +696,27 @@ const HexMap: React.FC<HexMapProps> = ({
     return { explored, visible };
   }, [hexes, settings?.showExploredStatus]);
   
+  const isKeyVisible = useCallback((key: string) => {
+    return !settings?.showExploredStatus || exploredInfo.visible.has(key);
+  }, [settings?.showExploredStatus, exploredInfo]);
+  
+  // Rivers first so roads and trails draw over them at crossings
+  const sortedPaths = useMemo(() => {
+    return [...paths].sort((a, b) => (a.type === 'river' ? 0 : 1) - (b.type === 'river' ? 0 : 1));
+  }, [paths]);
+  
   // Calculate viewBox
   const viewBox = useMemo(() => {
     // For image overlay mode, use image dimensions so coordinates match pixels
     if (imageOverlay?.visible && imageOverlay.width && imageOverlay.height) {
       return `0 0 ${imageOverlay.width} ${imageOverlay.height}`;
     }
-    // For non-overlay mode, fit to hex bounds
-    const box = calculateViewBox(hexes, gridConfig, gridConfig.hexSize);
+    // For non-overlay mode, fit to hex bounds (with room for the frontier, so
+    // an unbounded map's view grows along with it)
+    const padding = frontier?.length ? gridConfig.hexSize * 3 : gridConfig.hexSize;
+    const box = calculateViewBox(hexes, gridConfig, padding);
     return `${box.minX} ${box.minY} ${box.width} ${box.height}`;
-  }, [hexes, gridConfig, imageOverlay]);
+  }, [hexes, gridConfig, imageOverlay, frontier]);
   
   // Convert screen coordinates to SVG coordinates
   const screenToSvg = useCallback((screenX: number, screenY: number): { x: number; y: number } | null => {
@@ -374,29 +734,164 @@ const HexMap: React.FC<HexMapProps> = ({
     return { x: svgPt.x, y: svgPt.y };
   }, []);
   
-  // Handler callbacks
-  const handleHexClick = useCallback((hex: Hex, event: React.MouseEvent) => {
+  // ============================================
+  // VIEWPORT CULLING
+  // ============================================
+  
+  /**
+   * Track the part of the map that's on screen (plus overscan); `force`
+   * re-measures after a zoom even if the old area still covers the view
+   */
+  const updateRenderBounds = useCallback((force: boolean) => {
+    const container = viewportRef.current?.parentElement;
+    if (!container) return;
+    const rect = container.getBoundingClientRect();
+    const topLeft = screenToSvg(rect.left, rect.top);
+    const bottomRight = screenToSvg(rect.right, rect.bottom);
+    if (!topLeft || !bottomRight) return;
+    
+    setRenderBounds(prev => {
+      if (!force && prev
+        && topLeft.x >= prev.minX && topLeft.y >= prev.minY
+        && bottomRight.x <= prev.maxX && bottomRight.y <= prev.maxY) {
+        return prev;
+      }
+      const padX = (bottomRight.x - topLeft.x) * VIEWPORT_OVERSCAN;
+      const padY = (bottomRight.y - topLeft.y) * VIEWPORT_OVERSCAN;
+      return {
+        minX: topLeft.x - padX,
+        minY: topLeft.y - padY,
+        maxX: bottomRight.x + padX,
+        maxY: bottomRight.y + padY,
+      };
+    });
+  }, [screenToSvg]);
+  
+  // Measure before paint so a large map never renders every cell at once
+  useLayoutEffect(() => {
+    updateRenderBounds(true);
+  }, [updateRenderBounds, zoom, viewBox]);
+  
+  useEffect(() => {
+    const container = viewportRef.current?.parentElement;
+    if (!container) return;
+    let frame = 0;
+    const handleScroll = () => {
+      cancelAnimationFrame(frame);
+      frame = requestAnimationFrame(() => updateRenderBounds(false));
+    };
+    container.addEventListener('scroll', handleScroll, { passive: true });
+    window.addEventListener('resize', handleScroll);
+    return () => {
+      cancelAnimationFrame(frame);
+      container.removeEventListener('scroll', handleScroll);
+      window.removeEventListener('resize', handleScroll);
+    };
+  }, [updateRenderBounds]);
+  
+  const hexCenters = useMemo(() => {
+    return hexes.map(hex => ({ hex, ...hexToPixel(hex.coord, gridConfig) }));
+  }, [hexes, gridConfig]);
+  
+  // Hexes whose cells are drawn; until the viewport is measured, only small maps draw at all
+  const visibleHexes = useMemo(() => {
+    if (!renderBounds) return hexes.length <= MAX_SVG_CELLS ? hexes : [];
+    const margin = gridConfig.hexSize;
+    return hexCenters
+      .filter(({ x, y }) =>
+        x >= renderBounds.minX - margin && x <= renderBounds.maxX + margin
+        && y >= renderBounds.minY - margin && y <= renderBounds.maxY + margin
+      )
+      .map(({ hex }) => hex);
+  }, [hexes, hexCenters, renderBounds, gridConfig.hexSize]);
+  
+  const useTerrainImage = visibleHexes.length > MAX_SVG_CELLS;
+  
+  const visibleFrontier = useMemo(() => {
+    if (!frontier || !renderBounds) return [];
+    const margin = gridConfig.hexSize;
+    return frontier.filter(coord => {
+      const { x, y } = hexToPixel(coord, gridConfig);
+      return x >= renderBounds.minX - margin && x <= renderBounds.maxX + margin
+        && y >= renderBounds.minY - margin && y <= renderBounds.maxY + margin;
+    });
+  }, [frontier, renderBounds, gridConfig]);
+  
+  const terrainFills = useMemo((): TerrainFill[] => {
+    if (!useTerrainImage) return [];
+    const showTerrainColors = settings?.showTerrainColors ?? true;
+    const fillOpacity = settings?.hexFillOpacity ?? 0.5;
+    return hexCenters.map(({ hex, x, y }) => {
+      const key = coordToKey(hex.coord);
+      if (settings?.showExploredStatus && !exploredInfo.explored.has(key) && !exploredInfo.visible.has(key)) {
+        return { x, y, color: FOG_COLOR, opacity: 1 };
+      }
+      const terrain = getTerrainInfo(getEffectiveTerrain(hex), settings?.customTerrainTypes || []);
+      return { x, y, color: terrain.color, opacity: showTerrainColors ? fillOpacity : 0 };
+    });
+  }, [useTerrainImage, hexCenters, settings, exploredInfo]);
+  
+  // ============================================
+  // HIT-TESTING
+  // Clicks and hover are resolved from the pointer position rather than
+  // per-cell handlers, so they work the same whether or not a cell is drawn
+  // ============================================
+  
+  const hexByKey = useMemo(() => createHexMap(hexes), [hexes]);
+  
+  const frontierKeys = useMemo(() => new Set((frontier || []).map(coordToKey)), [frontier]);
+  
+  // The hex (on the map or not) under a point
+  const coordAtPoint = useCallback((point: { x: number; y: number }): HexCoord | undefined => {
+    const coord = pixelToHex(point.x, point.y, gridConfig);
+    const center = hexToPixel(coord, gridConfig);
+    // Past the edge of the map the nearest center can be a hex away
+    if (Math.hypot(center.x - point.x, center.y - point.y) > gridConfig.hexSize) return undefined;
+    return coord;
+  }, [gridConfig]);
+  
+  const hexAtPoint = useCallback((point: { x: number; y: number }): Hex | undefined => {
+    const coord = coordAtPoint(point);
+    return coord && hexByKey.get(coordToKey(coord));
+  }, [coordAtPoint, hexByKey]);
+  
+  const handleSvgClick = useCallback((event: React.MouseEvent) => {
     // Don't trigger click if we just finished a drag
     if (didDragRef.current) {
       didDragRef.current = false;
       return;
     }
-    onHexClick(hex.coord, event);
-  }, [onHexClick]);
-  
-  const handleMouseEnter = useCallback((hex: Hex) => {
-    onHexHover?.(hex.coord);
-  }, [onHexHover]);
+    const svgCoords = screenToSvg(event.clientX, event.clientY);
+    if (!svgCoords) return;
+    // While calibrating, the click marks a point instead
+    if (onCalibrationClick) {
+      onCalibrationClick(svgCoords);
+      return;
+    }
+    const coord = coordAtPoint(svgCoords);
+    if (!coord) return;
+    if (hexByKey.has(coordToKey(coord))) {
+      onHexClick(coord, event);
+    } else if (onFrontierClick && frontierKeys.has(coordToKey(coord))) {
+      onFrontierClick(coord);
+    }
+  }, [onHexClick, onCalibrationClick, onFrontierClick, screenToSvg, coordAtPoint, hexByKey, frontierKeys]);
   
-  const handleMouseLeave = useCallback(() => {
-    onHexHover?.(null);
-  }, [onHexHover]);
+  const updateHover = useCallback((point: { x: number; y: number } | null) => {
+    const hex = point ? hexAtPoint(point) : undefined;
+    const key = hex ? coordToKey(hex.coord) : null;
+    if (key === hoverKeyRef.current) return;
+    hoverKeyRef.current = key;
+    setHoverKey(key);
+    onHexHover?.(hex ? hex.coord : null);
+  }, [hexAtPoint, onHexHover]);
   
   // Box selection handlers
   const handleMouseDown = useCallback((event: React.MouseEvent) => {
     // Only start drag on left click without modifiers (shift/ctrl used for multi-select clicking)
     if (event.button !== 0) return;
     if (event.shiftKey || event.ctrlKey || event.metaKey) return;
+    if (onCalibrationClick) return;
     
     const svgCoords = screenToSvg(event.clientX, event.clientY);
     if (!svgCoords) return;
@@ -404,13 +899,13 @@ const HexMap: React.FC<HexMapProps> = ({
     setDragStart(svgCoords);
     setDragCurrent(svgCoords);
     setIsDragging(false); // Not dragging yet - will become true if mouse moves enough
-  }, [screenToSvg]);
+  }, [screenToSvg, onCalibrationClick]);
   
   const handleMouseMove = useCallback((event: React.MouseEvent) => {
-    if (!dragStart) return;
-    
     const svgCoords = screenToSvg(event.clientX, event.clientY);
     if (!svgCoords) return;
+    updateHover(svgCoords);
+    if (!dragStart) return;
     
     // Check if we've moved enough to start a drag (threshold of 10px)
     const dx = Math.abs(svgCoords.x - dragStart.x);
@@ -423,7 +918,45 @@ const HexMap: React.FC<HexMapProps> = ({
     if (isDragging || dx > 10 || dy > 10) {
       setDragCurrent(svgCoords);
     }
-  }, [isDragging, dragStart, screenToSvg]);
+  }, [isDragging, dragStart, screenToSvg, updateHover]);
+  
+  // Cells for the hexes in view; kept apart so hovering doesn't rebuild them
+  const hexCells = useMemo(() => {
+    if (useTerrainImage) return null;
+    return (
+      <g>
+        {visibleHexes.map(hex => {
+          const key = coordToKey(hex.coord);
+          const effectiveTerrain = getEffectiveTerrain(hex);
+          const terrain = getTerrainInfo(effectiveTerrain, settings?.customTerrainTypes || []);
+          const isSelected = selectedCoord && coordEquals(hex.coord, selectedCoord);
+          const isMultiSelected = multiSelectedSet.has(key);
+          const isNeighbor = neighborSet.has(key);
+          const isExplored = settings?.showExploredStatus 
+            ? exploredInfo.explored.has(key) || exploredInfo.visible.has(key)
+            : true;
+          
+          return (
+            <HexCell
+              key={key}
+              hex={hex}
+              gridConfig={gridConfig}
+              terrain={terrain}
+              isSelected={!!isSelected}
+              isMultiSelected={isMultiSelected}
+              isNeighbor={isNeighbor}
+              showTerrainColors={settings?.showTerrainColors ?? true}
+              showDataIndicator={settings?.showDataIndicators ?? true}
+              showCoordinates={settings?.showCoordinates ?? true}
+              isExplored={isExplored}
+              showExploredStatus={settings?.showExploredStatus ?? false}
+              fillOpacity={settings?.hexFillOpacity ?? 0.5}
+            />
+          );
+        })}
+      </g>
+    );
+  }, [useTerrainImage, visibleHexes, settings, selectedCoord, multiSelectedSet, neighborSet, exploredInfo, gridConfig]);
   
   const handleMouseUp = useCallback(() => {
     // If we were dragging (moved enough), do box selection
@@ -439,9 +972,7 @@ const HexMap: React.FC<HexMapProps> = ({
       // Find all hexes within the selection box
       const selectedHexes: HexCoord[] = [];
       
-      for (const hex of hexes) {
-        const { x, y } = hexToPixel(hex.coord, gridConfig);
-        
+      for (const { hex, x, y } of hexCenters) {
         // Check if hex center is within selection box
         if (x >= minX && x <= maxX && y >= minY && y <= maxY) {
           selectedHexes.push(hex.coord);
@@ -452,12 +983,17 @@ const HexMap: React.FC<HexMapProps> = ({
         onBoxSelect(selectedHexes);
       }
     }
-    // If not dragging, the hex click handler will handle the click
+    // If not dragging, handleSvgClick will handle the click
     
     setIsDragging(false);
     setDragStart(null);
     setDragCurrent(null);
-  }, [isDragging, dragStart, dragCurrent, hexes, gridConfig, onBoxSelect]);
+  }, [isDragging, dragStart, dragCurrent, hexCenters, onBoxSelect]);
+  
+  const handleMouseLeave = useCallback(() => {
+    handleMouseUp();
+    updateHover(null);
+  }, [handleMouseUp, updateHover]);
   
 
   
@@ -504,50 +1040,88 @@ const HexMap: React.FC<HexMapProps> = ({
           width: containerStyle?.width || '100%',
           height: containerStyle?.height || '100%',
           position: imageOverlay?.visible ? 'absolute' : 'relative',
-          cursor: isDragging ? 'crosshair' : 'default',
+          cursor: isDragging || onCalibrationClick ? 'crosshair' : useTerrainImage && hoverKey ? 'pointer' : 'default',
         }}
+        onClick={handleSvgClick}
         onMouseDown={handleMouseDown}
         onMouseMove={handleMouseMove}
         onMouseUp={handleMouseUp}
-        onMouseLeave={handleMouseUp}
+        onMouseLeave={handleMouseLeave}
       >
-        <g style={{ pointerEvents: 'all' }}>
-          {hexes.map(hex => {
-            const key = coordToKey(hex.coord);
-            const effectiveTerrain = getEffectiveTerrain(hex);
-            const terrain = getTerrainInfo(effectiveTerrain, settings?.customTerrainTypes || []);
-            const isSelected = selectedCoord && coordEquals(hex.coord, selectedCoord);
-            const isMultiSelected = multiSelectedSet.has(key);
-            const isNeighbor = neighborSet.has(key);
-            const factionColor = hexFactionColors.get(key);
-            const isExplored = settings?.showExploredStatus 
-              ? exploredInfo.explored.has(key) || exploredInfo.visible.has(key)
-              : true;
-            
-            return (
-              <HexCell
-                key={key}
-                hex={hex}
-                gridConfig={gridConfig}
-                terrain={terrain}
-                isSelected={!!isSelected}
-                isMultiSelected={isMultiSelected}
-                isNeighbor={isNeighbor}
-                showTerrainColors={settings?.showTerrainColors ?? true}
-                showDataIndicator={settings?.showDataIndicators ?? true}
-                showCoordinates={settings?.showCoordinates ?? true}
-                factionColor={factionColor}
-                isExplored={isExplored}
-                showExploredStatus={settings?.showExploredStatus ?? false}
-                fillOpacity={settings?.hexFillOpacity ?? 0.5}
-                onClick={(e) => handleHexClick(hex, e)}
-                onMouseEnter={() => handleMouseEnter(hex)}
-                onMouseLeave={handleMouseLeave}
-              />
-            );
-          })}
+        {useTerrainImage ? (
+          <>
+            <TerrainImage fills={terrainFills} gridConfig={gridConfig} />
+            <g className="hex-outlines">
+              {highlightedNeighbors.map(coord => (
+                <HexOutline key={coordToKey(coord)} coord={coord} gridConfig={gridConfig} className="neighbor" />
+              ))}
+              {multiSelectedCoords.map(coord => (
+                <HexOutline key={coordToKey(coord)} coord={coord} gridConfig={gridConfig} className="multi-selected" />
+              ))}
+              {selectedCoord && <HexOutline coord={selectedCoord} gridConfig={gridConfig} className="selected" />}
+              {hoverKey && <HexOutline coord={keyToCoord(hoverKey)} gridConfig={gridConfig} className="hover" />}
+            </g>
+          </>
+        ) : (
+          hexCells
+        )}
+        
+        {/* Unbounded map: click past the edge to generate there */}
+        {visibleFrontier.length > 0 && (
+          <g className="hex-outlines">
+            {visibleFrontier.map(coord => (
+              <HexOutline key={coordToKey(coord)} coord={coord} gridConfig={gridConfig} className="frontier" />
+            ))}
+          </g>
+        )}
+        
+        {/* Faction territories */}
+        {settings?.showFactionTerritories && factions && factions.length > 0 && (
+          <TerritoryLayer factions={factions} gridConfig={gridConfig} />
+        )}
+        
+        {/* Paths (rivers, roads, trails) */}
+        <g
+          className={`path-layer${onPathClick ? ' erasable' : ''}`}
+          style={{ pointerEvents: onPathClick ? 'visiblePainted' : 'none' }}
+        >
+          {sortedPaths.map(path => (
+            <PathLine
+              key={path.id}
+              path={path}
+              gridConfig={gridConfig}
+              isVisible={isKeyVisible}
+              onClick={onPathClick}
+            />
+          ))}
+          {draftPath && draftPath.coords.length > 0 && (
+            <PathLine
+              path={draftPath}
+              gridConfig={gridConfig}
+              isVisible={() => true}
+              isDraft
+            />
+          )}
         </g>
         
+        {/* Party trail */}
+        {trail && trail.length > 0 && (
+          <TrailLine trail={trail} gridConfig={gridConfig} />
+        )}
+        
+        {/* Party token */}
+        {partyCoord && <PartyToken coord={partyCoord} gridConfig={gridConfig} />}
+        
+        {/* Planned route */}
+        {route && route.length > 1 && (
+          <RouteLine route={route} gridConfig={gridConfig} label={routeLabel} />
+        )}
+        
+        {/* Grid calibration points */}
+        {calibrationPoints?.map((point, i) => (
+          <CalibrationMarker key={i} x={point.x} y={point.y} index={i} size={gridConfig.hexSize} />
+        ))}
+        
         {/* Selection box */}
         {isDragging && dragStart && dragCurrent && (
           <SelectionBox
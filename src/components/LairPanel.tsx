@@ -0,0 +1,85 @@
+import React from 'react';
+import type { LairRoom, MonsterStats } from '@/lib/generator/types';
+import { findMonsterStats } from '@/lib/generator/monsterStats';
+
+interface LairPanelProps {
+  details: Record<string, unknown>;
+  monsterStats: MonsterStats[];
+  onRoll: () => void;
+}
+
+/**
+ * Runnable lair summary: monster stats, numbers, hoard and chamber-by-chamber breakdown
+ */
+const LairPanel: React.FC<LairPanelProps> = ({
+  details,
+  monsterStats,
+  onRoll,
+}) => {
+  const monsterType = typeof details.monsterType === 'string' ? details.monsterType : 'Unknown creature';
+  const stats = findMonsterStats(monsterType, monsterStats);
+  const rooms = Array.isArray(details.rooms) ? details.rooms as LairRoom[] : [];
+  const numberAppearing = typeof details.numberAppearing === 'number' ? details.numberAppearing : undefined;
+  const inside = rooms.reduce((sum, room) => sum + room.creatures, 0);
+
+  return (
+    <div className="panel">
+      <div className="panel-header">
+        <span className="panel-title">Lair</span>
+        <button
+          className="btn btn-ghost btn-sm"
+          onClick={onRoll}
+          title={rooms.length > 0 ? 'Roll new numbers, treasure and chambers' : undefined}
+          style={{ padding: '2px 8px', fontSize: '0.75rem' }}
+        >
+          {rooms.length > 0 ? 'Re-roll' : 'Roll Contents'}
+        </button>
+      </div>
+      <div className="panel-content">
+        <div className="panel-row">
+          <span className="panel-row-label">{monsterType}</span>
+          <span className="panel-row-value">
+            {stats ? `HD ${stats.hd} · AC ${stats.ac}` : <span className="text-muted">No stats</span>}
+          </span>
+        </div>
+        {stats?.notes && <p className="text-sm text-muted">{stats.notes}</p>}
+        {!stats && (
+          <p className="text-sm text-muted">Add {monsterType} to Settings → Monster Stats to show HD and AC here.</p>
+        )}
+
+        {numberAppearing === undefined ? (
+          <p className="text-muted text-sm mt-2">Roll the number of creatures, their treasure and the lair's chambers.</p>
+        ) : (
+          <>
+            <div className="panel-row">
+              <span className="panel-row-label">Creatures</span>
+              <span className="panel-row-value">
+                {numberAppearing} <span className="text-muted">({numberAppearing - inside} outside)</span>
+              </span>
+            </div>
+            {typeof details.treasure === 'string' && (
+              <div className="panel-row">
+                <span className="panel-row-label">Treasure</span>
+                <span className="panel-row-value">{details.treasure}</span>
+              </div>
+            )}
+            <ul className="dungeon-rooms mt-2">
+              {rooms.map((room, i) => (
+                <li key={i} className="text-sm dungeon-room">
+                  <span className="dungeon-room-number">{i + 1}</span>
+                  <span>
+                    <strong>{room.name}</strong>: {room.feature.toLowerCase()}
+                    {room.creatures > 0 && <span className="dungeon-room-monster"> · {room.creatures} × {monsterType.toLowerCase()}</span>}
+                    {room.hasTreasure && <span className="dungeon-room-treasure"> · hoard</span>}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default LairPanel;
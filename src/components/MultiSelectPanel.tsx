@@ -1,7 +1,9 @@
 import React, { useState, useCallback, useMemo } from 'react';
 import type { HexCoord, TerrainType, GridConfig, CampaignMap, Faction } from '@/lib/types';
 import { DEFAULT_TERRAIN_TYPES } from '@/lib/types';
-import { axialToOffset } from '@/lib/hexUtils';
+import { axialToOffset, getDisplayCoord, hexDistance } from '@/lib/hexUtils';
+import { type TravelRoute, formatTravelDays } from '@/lib/travel';
+import { PATH_STYLES } from '@/lib/paths';
 
 interface MultiSelectPanelProps {
   selectedCoords: HexCoord[];
@@ -9,6 +11,7 @@ interface MultiSelectPanelProps {
   map: CampaignMap;
   customTerrainTypes: TerrainType[];
   factions: Faction[];
+  route?: TravelRoute | null;        // Quickest route when exactly two hexes are selected
   onBulkSetTerrain: (terrainId: string) => void;
   onBulkAddTags: (tags: string[]) => void;
   onBulkSetExplored: (explored: boolean) => void;
@@ -22,6 +25,7 @@ const MultiSelectPanel: React.FC<MultiSelectPanelProps> = ({
   map,
   customTerrainTypes,
   factions,
+  route,
   onBulkSetTerrain,
   onBulkAddTags,
   onBulkSetExplored,
@@ -37,6 +41,16 @@ const MultiSelectPanel: React.FC<MultiSelectPanelProps> = ({
 
   const allTerrains = [...DEFAULT_TERRAIN_TYPES, ...customTerrainTypes];
 
+  // Days spent in each terrain along the route
+  const routeTerrainDays = useMemo(() => {
+    if (!route) return [];
+    const days = new Map<string, number>();
+    for (const step of route.steps.slice(1)) {
+      days.set(step.terrainId, (days.get(step.terrainId) || 0) + step.days);
+    }
+    return [...days.entries()].sort((a, b) => b[1] - a[1]);
+  }, [route]);
+
   // Collect all unique tags used across all hexes in the map (for autocomplete)
   const allUsedTags = useMemo(() => {
     const tagSet = new Set<string>();
@@ -100,6 +114,54 @@ const MultiSelectPanel: React.FC<MultiSelectPanelProps> = ({
         </div>
       </div>
       
+      {/* Journey planner */}
+      {selectedCoords.length === 2 && (
+        <div className="panel">
+          <div className="panel-header">
+            <span className="panel-title">Journey</span>
+          </div>
+          <div className="panel-content">
+            <p className="text-sm text-muted mb-2">
+              {getDisplayCoord(selectedCoords[0], gridConfig)} → {getDisplayCoord(selectedCoords[1], gridConfig)}
+              {' '}({hexDistance(selectedCoords[0], selectedCoords[1])} hexes as the crow flies)
+            </p>
+            {route ? (
+              <>
+                <div className="panel-row">
+                  <span className="panel-row-label">Travel Time</span>
+                  <span className="journey-total">{formatTravelDays(route.totalDays)}</span>
+                </div>
+                <div className="panel-row">
+                  <span className="panel-row-label">Hexes Crossed</span>
+                  <span className="text-sm">{route.steps.length - 1}</span>
+                </div>
+                {routeTerrainDays.map(([terrainId, days]) => {
+                  const terrain = allTerrains.find(t => t.id === terrainId);
+                  return (
+                    <div key={terrainId} className="panel-row">
+                      <span className="panel-row-label flex items-center gap-2">
+                        <span className="color-dot" style={{ backgroundColor: terrain?.color }} />
+                        {terrain?.name || terrainId}
+                      </span>
+                      <span className="text-sm">{formatTravelDays(days)}</span>
+                    </div>
+                  );
+                })}
+                {route.steps.some(s => s.onPath) && (
+                  <p className="text-sm text-muted mt-2">
+                    Follows {[...new Set(route.steps.map(s => s.onPath).filter(Boolean))]
+                      .map(type => PATH_STYLES[type!].label.toLowerCase() + 's')
+                      .join(' and ')} for part of the way
+                  </p>
+                )}
+              </>
+            ) : (
+              <p className="text-sm text-muted">No overland route between these hexes</p>
+            )}
+          </div>
+        </div>
+      )}
+      
       {/* Bulk Actions */}
       <div className="panel">
         <div className="panel-header">
@@ -3,6 +3,7 @@ import type { MapMode, GridConfig, HexOrientation, OffsetType } from '@/lib/type
 import { DEFAULT_TERRAIN_TYPES } from '@/lib/types';
 import { loadImageAsDataUrl } from '@/lib/storage';
 import type { BiomeType } from '@/lib/generator/types';
+import { generateSeed } from '@/lib/generator/random';
 
 export interface GenerationOptions {
   generateTerrain: boolean;
@@ -13,7 +14,9 @@ export interface GenerationOptions {
   includeLairs: boolean;
   includeDungeons: boolean;
   generateFactions: boolean;
+  generateRivers: boolean;
   startingBiome?: BiomeType;
+  seed?: string;
 }
 
 interface NewMapDialogProps {
@@ -68,7 +71,9 @@ const NewMapDialog: React.FC<NewMapDialogProps> = ({
   const [includeLairs, setIncludeLairs] = useState(true);
   const [includeDungeons, setIncludeDungeons] = useState(true);
   const [generateFactions, setGenerateFactions] = useState(true);
+  const [generateRivers, setGenerateRivers] = useState(true);
   const [startingBiome, setStartingBiome] = useState<BiomeType | ''>('');
+  const [seed, setSeed] = useState('');
   
   const handleImageSelect = useCallback(async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
@@ -109,8 +114,10 @@ const NewMapDialog: React.FC<NewMapDialogProps> = ({
       return;
     }
     
-    const generation = generateTerrain ? {
-      generateTerrain,
+    // Unbounded maps are always generated
+    const generate = generateTerrain || mode === 'unbounded';
+    const generation = generate ? {
+      generateTerrain: true,
       generateFeatures,
       featureChance,
       includeLandmarks,
@@ -118,7 +125,9 @@ const NewMapDialog: React.FC<NewMapDialogProps> = ({
       includeLairs,
       includeDungeons,
       generateFactions,
+      generateRivers,
       startingBiome: startingBiome || undefined,
+      seed: seed.trim() || undefined,
     } : undefined;
     
     onCreate({
@@ -139,7 +148,7 @@ const NewMapDialog: React.FC<NewMapDialogProps> = ({
         startRow: 1,
       },
       imageData: imageData || undefined,
-      defaultTerrain: generateTerrain ? undefined : defaultTerrain,
+      defaultTerrain: generate ? undefined : defaultTerrain,
       generation,
     });
     
@@ -149,8 +158,9 @@ const NewMapDialog: React.FC<NewMapDialogProps> = ({
     setDefaultTerrain('unknown');
     setGenerateTerrain(false);
     setGenerateFeatures(false);
+    setSeed('');
     setError(null);
-  }, [name, mode, cols, rows, hexSize, orientation, rowOffset, colOffset, originX, originY, colSpacing, rowSpacing, imageData, defaultTerrain, generateTerrain, generateFeatures, featureChance, includeLandmarks, includeSettlements, includeLairs, includeDungeons, generateFactions, startingBiome, onCreate]);
+  }, [name, mode, cols, rows, hexSize, orientation, rowOffset, colOffset, originX, originY, colSpacing, rowSpacing, imageData, defaultTerrain, generateTerrain, generateFeatures, featureChance, includeLandmarks, includeSettlements, includeLairs, includeDungeons, generateFactions, generateRivers, startingBiome, seed, onCreate]);
   
   if (!isOpen) return null;
   
@@ -190,11 +200,19 @@ const NewMapDialog: React.FC<NewMapDialogProps> = ({
               >
                 Image Overlay
               </button>
+              <button
+                className={`btn flex-1 ${mode === 'unbounded' ? 'btn-primary' : 'btn-secondary'}`}
+                onClick={() => setMode('unbounded')}
+              >
+                Unbounded
+              </button>
             </div>
             <p className="text-muted text-sm mt-1">
               {mode === 'blank' 
                 ? 'Create an empty hex grid to build from scratch'
-                : 'Overlay a hex grid on an existing map image'}
+                : mode === 'overlay'
+                  ? 'Overlay a hex grid on an existing map image'
+                  : 'Start from one generated region and grow the map wherever the party explores'}
             </p>
           </div>
           
@@ -263,7 +281,7 @@ const NewMapDialog: React.FC<NewMapDialogProps> = ({
           )}
           
           {/* Default Terrain (manual mode) */}
-          {(!generateTerrain || mode === 'overlay') && (
+          {(mode === 'overlay' || (mode === 'blank' && !generateTerrain)) && (
             <div className="form-group">
               <label className="form-label">Default Terrain</label>
               <select
@@ -282,7 +300,7 @@ const NewMapDialog: React.FC<NewMapDialogProps> = ({
           )}
           
           {/* Auto-Generation Options */}
-          {mode === 'blank' && generateTerrain && (
+          {(mode === 'unbounded' || (mode === 'blank' && generateTerrain)) && (
             <>
               <div className="form-group">
                 <label className="form-label">Starting Biome (optional)</label>
@@ -300,6 +318,44 @@ const NewMapDialog: React.FC<NewMapDialogProps> = ({
                 </select>
               </div>
               
+              <div className="form-group">
+                <label className="form-label">Seed (optional)</label>
+                <div className="flex gap-2">
+                  <input
+                    type="text"
+                    className="form-input"
+                    value={seed}
+                    onChange={e => setSeed(e.target.value)}
+                    placeholder="Random"
+                  />
+                  <button
+                    className="btn btn-secondary"
+                    onClick={() => setSeed(generateSeed())}
+                    title="Roll a new seed"
+                  >
+                    Roll
+                  </button>
+                </div>
+                <p className="text-muted text-sm mt-1">
+                  The same seed and options always generate the same map
+                </p>
+              </div>
+              
+              <div className="form-group">
+                <div className="panel-row">
+                  <span className="panel-row-label">Generate Rivers</span>
+                  <button
+                    className={`btn btn-sm ${generateRivers ? 'btn-primary' : 'btn-secondary'}`}
+                    onClick={() => setGenerateRivers(!generateRivers)}
+                  >
+                    {generateRivers ? 'On' : 'Off'}
+                  </button>
+                </div>
+                <p className="text-muted text-sm mt-1">
+                  Rivers rise in mountains and flow downhill to water or the map edge
+                </p>
+              </div>
+              
               <div className="form-group">
                 <div className="panel-row mb-2">
                   <span className="panel-row-label">Generate Features</span>
@@ -382,31 +438,33 @@ const NewMapDialog: React.FC<NewMapDialogProps> = ({
             </>
           )}
           
-          {/* Grid Size */}
-          <div className="form-row">
-            <div className="form-group">
-              <label className="form-label">Columns</label>
-              <input
-                type="number"
-                className="form-input"
-                value={cols}
-                onChange={e => setCols(Math.max(1, parseInt(e.target.value) || 1))}
-                min={1}
-                max={100}
-              />
-            </div>
-            <div className="form-group">
-              <label className="form-label">Rows</label>
-              <input
-                type="number"
-                className="form-input"
-                value={rows}
-                onChange={e => setRows(Math.max(1, parseInt(e.target.value) || 1))}
-                min={1}
-                max={100}
-              />
+          {/* Grid Size (an unbounded map has none) */}
+          {mode !== 'unbounded' && (
+            <div className="form-row">
+              <div className="form-group">
+                <label className="form-label">Columns</label>
+                <input
+                  type="number"
+                  className="form-input"
+                  value={cols}
+                  onChange={e => setCols(Math.max(1, parseInt(e.target.value) || 1))}
+                  min={1}
+                  max={100}
+                />
+              </div>
+              <div className="form-group">
+                <label className="form-label">Rows</label>
+                <input
+                  type="number"
+                  className="form-input"
+                  value={rows}
+                  onChange={e => setRows(Math.max(1, parseInt(e.target.value) || 1))}
+                  min={1}
+                  max={100}
+                />
+              </div>
             </div>
-          </div>
+          )}
           
           {/* Hex Options */}
           <div className="form-row">
@@ -504,6 +562,10 @@ const NewMapDialog: React.FC<NewMapDialogProps> = ({
                   />
                 </div>
               </div>
+              <p className="text-muted text-sm">
+                Rough values are fine: once the map is open, Settings → Grid Alignment → Calibrate from
+                Image lines the grid up with a few clicks
+              </p>
             </>
           )}
         </div>
@@ -0,0 +1,52 @@
+import React from 'react';
+import type { CampaignCalendar, Hex } from '@/lib/types';
+import { formatGameDate } from '@/lib/sessionLog';
+
+interface PartyVisitPanelProps {
+  hex: Hex;
+  calendar: CampaignCalendar;
+  onLogVisit: () => void;
+  onOpenLog: () => void;
+}
+
+/**
+ * Record the party entering the selected hex on the current in-game day
+ */
+const PartyVisitPanel: React.FC<PartyVisitPanelProps> = ({
+  hex,
+  calendar,
+  onLogVisit,
+  onOpenLog,
+}) => {
+  const lastDay = hex.campaignData?.lastVisitedDay;
+  const visitedToday = lastDay === calendar.currentDay;
+
+  return (
+    <div className="panel">
+      <div className="panel-header">
+        <span className="panel-title">Party</span>
+        <button className="btn btn-ghost btn-sm" onClick={onOpenLog} title="Open the session log">
+          Day {calendar.currentDay} · {formatGameDate(calendar.currentDay, calendar)}
+        </button>
+      </div>
+      <div className="panel-content">
+        <button
+          className="btn btn-secondary"
+          style={{ width: '100%' }}
+          onClick={onLogVisit}
+          disabled={visitedToday}
+          title="Log the visit, mark the hex explored and show it on the party trail"
+        >
+          {visitedToday ? '✓ Visited today' : '🥾 Party Entered This Hex'}
+        </button>
+        {lastDay !== undefined && !visitedToday && (
+          <p className="text-muted text-sm mt-1">
+            Last visited on day {lastDay} ({formatGameDate(lastDay, calendar)})
+          </p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default PartyVisitPanel;
@@ -0,0 +1,80 @@
+import React from 'react';
+import type { HexCoord } from '@/lib/types';
+import { PATH_STYLES } from '@/lib/paths';
+import type { PathTool } from './Toolbar';
+
+interface PathToolPanelProps {
+  tool: PathTool;
+  draftCoords: HexCoord[];
+  draftName: string;
+  onDraftNameChange: (name: string) => void;
+  onUndoPoint: () => void;
+  onFinish: () => void;
+  onCancel: () => void;
+}
+
+const PathToolPanel: React.FC<PathToolPanelProps> = ({
+  tool,
+  draftCoords,
+  draftName,
+  onDraftNameChange,
+  onUndoPoint,
+  onFinish,
+  onCancel,
+}) => {
+  if (tool.mode === 'erase') {
+    return (
+      <div className="path-tool-panel">
+        <span className="text-sm">Click a path to erase it</span>
+        <button className="btn btn-secondary btn-sm" onClick={onCancel}>
+          Done
+        </button>
+      </div>
+    );
+  }
+
+  const style = PATH_STYLES[tool.pathType];
+
+  return (
+    <div className="path-tool-panel">
+      <span className="path-swatch" style={{ background: style.color }} />
+      <span className="text-sm">
+        {draftCoords.length === 0
+          ? `Click hexes to draw a ${style.label.toLowerCase()}`
+          : `${style.label}: ${draftCoords.length} hex${draftCoords.length !== 1 ? 'es' : ''}`}
+      </span>
+      <input
+        type="text"
+        className="form-input"
+        placeholder="Name (optional)"
+        value={draftName}
+        onChange={(e) => onDraftNameChange(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter') onFinish();
+          else if (e.key === 'Escape') onCancel();
+        }}
+      />
+      <button
+        className="btn btn-ghost btn-sm"
+        onClick={onUndoPoint}
+        disabled={draftCoords.length === 0}
+        title="Remove the last hex"
+      >
+        ↶
+      </button>
+      <button
+        className="btn btn-primary btn-sm"
+        onClick={onFinish}
+        disabled={draftCoords.length < 2}
+        title="Finish path (Enter)"
+      >
+        Finish
+      </button>
+      <button className="btn btn-secondary btn-sm" onClick={onCancel} title="Cancel (Esc)">
+        Cancel
+      </button>
+    </div>
+  );
+};
+
+export default PathToolPanel;
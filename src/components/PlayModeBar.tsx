@@ -0,0 +1,66 @@
+import React from 'react';
+import type { CampaignCalendar, GridConfig, HexCoord } from '@/lib/types';
+import { getDisplayCoord } from '@/lib/hexUtils';
+import { formatGameDate } from '@/lib/sessionLog';
+import { formatEncounter } from '@/lib/generator/encounterGenerator';
+import type { PartyMoveResult } from '@/lib/playMode';
+
+interface PlayModeBarProps {
+  partyCoord?: HexCoord;
+  calendar: CampaignCalendar;
+  gridConfig: GridConfig;
+  lastMove: PartyMoveResult | null;
+  message: string | null;            // Why the last click didn't move the party
+  checkEncounters: boolean;
+  onCheckEncountersChange: (value: boolean) => void;
+  onExit: () => void;
+}
+
+/**
+ * Floating controls for moving the party token hex by hex
+ */
+const PlayModeBar: React.FC<PlayModeBarProps> = ({
+  partyCoord,
+  calendar,
+  gridConfig,
+  lastMove,
+  message,
+  checkEncounters,
+  onCheckEncountersChange,
+  onExit,
+}) => {
+  const encounter = lastMove?.encounter;
+
+  return (
+    <div className="play-mode-bar">
+      <span className="text-sm">
+        <strong>Day {calendar.currentDay}</strong>
+        <span className="text-muted"> · {formatGameDate(calendar.currentDay, calendar)}</span>
+      </span>
+      <span className="text-sm">
+        {partyCoord
+          ? `Party at ${getDisplayCoord(partyCoord, gridConfig)}`
+          : 'Click a hex to place the party'}
+      </span>
+      {message ? (
+        <span className="text-sm play-mode-message">{message}</span>
+      ) : encounter && (
+        <span className={`text-sm ${encounter.occurred ? 'play-mode-encounter' : 'text-muted'}`}>
+          {encounter.occurred ? `⚔ ${formatEncounter(encounter)}` : 'No encounter'}
+        </span>
+      )}
+      <button
+        className={`btn btn-sm ${checkEncounters ? 'btn-primary' : 'btn-secondary'}`}
+        onClick={() => onCheckEncountersChange(!checkEncounters)}
+        title="Roll a wandering encounter check on every move"
+      >
+        Encounters: {checkEncounters ? 'On' : 'Off'}
+      </button>
+      <button className="btn btn-secondary btn-sm" onClick={onExit}>
+        Exit
+      </button>
+    </div>
+  );
+};
+
+export default PlayModeBar;
@@ -0,0 +1,73 @@
+import React from 'react';
+import type { Hex, GridConfig, TerrainType } from '@/lib/types';
+import { DEFAULT_TERRAIN_TYPES } from '@/lib/types';
+import { getDisplayCoord } from '@/lib/hexUtils';
+import { formatLabel } from '@/lib/featureUtils';
+import { getPlayerHexDetails } from '@/lib/playerView';
+
+interface PlayerHexPanelProps {
+  hex: Hex;                          // Hex from the player copy of the map
+  gridConfig: GridConfig;
+  customTerrainTypes: TerrainType[];
+  onClose: () => void;
+}
+
+/**
+ * Read-only hex details as players see them
+ */
+const PlayerHexPanel: React.FC<PlayerHexPanelProps> = ({
+  hex,
+  gridConfig,
+  customTerrainTypes,
+  onClose,
+}) => {
+  const explored = !!hex.campaignData?.explored;
+  const terrain = [...DEFAULT_TERRAIN_TYPES, ...customTerrainTypes].find(t => t.id === hex.terrainId);
+  const details = getPlayerHexDetails(hex);
+
+  return (
+    <div className="panel">
+      <div className="panel-header">
+        <span className="panel-title">
+          {getDisplayCoord(hex.coord, gridConfig)}
+          {hex.campaignData?.name && ` · ${hex.campaignData.name}`}
+        </span>
+        <button className="btn btn-ghost btn-sm" onClick={onClose}>×</button>
+      </div>
+      <div className="panel-content">
+        {hex.terrainId === 'unknown' && !explored ? (
+          <p className="text-sm text-muted">Unexplored</p>
+        ) : (
+          <>
+            <div className="panel-row">
+              <span className="panel-row-label">Terrain</span>
+              <span className="panel-row-value">{terrain?.name || hex.terrainId}</span>
+            </div>
+            {hex.featureType && (
+              <div className="panel-row">
+                <span className="panel-row-label">Feature</span>
+                <span className="panel-row-value">{formatLabel(hex.featureType)}</span>
+              </div>
+            )}
+            {Object.entries(details).map(([label, value]) => (
+              <div key={label} className="panel-row">
+                <span className="panel-row-label">{label}</span>
+                <span className="panel-row-value">{value}</span>
+              </div>
+            ))}
+            {hex.campaignData?.playerNotes && (
+              <p className="text-sm mt-2" style={{ whiteSpace: 'pre-wrap' }}>
+                {hex.campaignData.playerNotes}
+              </p>
+            )}
+            {!explored && (
+              <p className="text-sm text-muted mt-2">Seen from a neighboring hex</p>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default PlayerHexPanel;
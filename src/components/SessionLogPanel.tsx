@@ -0,0 +1,262 @@
+import React, { useState, useMemo } from 'react';
+import type { CampaignCalendar, GridConfig, HexCoord, SessionLogEntry } from '@/lib/types';
+import { getDisplayCoord } from '@/lib/hexUtils';
+import { SESSION_LOG_ICONS, formatGameDate, type TrailScope } from '@/lib/sessionLog';
+
+interface SessionLogPanelProps {
+  entries: SessionLogEntry[];
+  calendar: CampaignCalendar;
+  gridConfig: GridConfig;
+  selectedCoord: HexCoord | null;    // New notes are attached to this hex
+  trailScope: TrailScope;
+  onTrailScopeChange: (scope: TrailScope) => void;
+  onSetDay: (day: number) => void;
+  onCalendarChange: (calendar: CampaignCalendar) => void;
+  onAddNote: (text: string) => void;
+  onDeleteEntry: (entryId: string) => void;
+  onHexClick: (coord: HexCoord) => void;
+  onClose: () => void;
+}
+
+const TRAIL_OPTIONS: { value: TrailScope; label: string }[] = [
+  { value: 'off', label: 'Off' },
+  { value: 'session', label: 'Last Session' },
+  { value: 'all', label: 'All' },
+];
+
+// Calendar settings form
+interface CalendarFormProps {
+  calendar: CampaignCalendar;
+  onSave: (calendar: CampaignCalendar) => void;
+  onCancel: () => void;
+}
+
+const CalendarForm: React.FC<CalendarFormProps> = ({ calendar, onSave, onCancel }) => {
+  const [months, setMonths] = useState(calendar.monthNames.join(', '));
+  const [daysPerMonth, setDaysPerMonth] = useState(calendar.daysPerMonth);
+  const [startYear, setStartYear] = useState(calendar.startYear);
+
+  const monthNames = months.split(',').map(m => m.trim()).filter(Boolean);
+
+  return (
+    <div className="mt-2">
+      <div className="form-group">
+        <label className="form-label">Months (comma-separated)</label>
+        <textarea
+          className="form-textarea"
+          value={months}
+          onChange={e => setMonths(e.target.value)}
+          rows={2}
+        />
+      </div>
+      <div className="flex gap-2">
+        <div className="form-group flex-1">
+          <label className="form-label">Days per Month</label>
+          <input
+            type="number"
+            className="form-input"
+            value={daysPerMonth}
+            onChange={e => setDaysPerMonth(Math.max(1, parseInt(e.target.value) || 1))}
+            min={1}
+          />
+        </div>
+        <div className="form-group flex-1">
+          <label className="form-label">First Year</label>
+          <input
+            type="number"
+            className="form-input"
+            value={startYear}
+            onChange={e => setStartYear(parseInt(e.target.value) || 0)}
+          />
+        </div>
+      </div>
+      <div className="flex gap-2">
+        <button
+          className="btn btn-primary btn-sm flex-1"
+          onClick={() => onSave({ ...calendar, monthNames, daysPerMonth, startYear })}
+          disabled={monthNames.length === 0}
+        >
+          Save
+        </button>
+        <button className="btn btn-secondary btn-sm" onClick={onCancel}>
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+};
+
+/**
+ * Session journal: party visits, encounters and notes grouped by in-game day,
+ * with the campaign calendar and the party trail toggle
+ */
+const SessionLogPanel: React.FC<SessionLogPanelProps> = ({
+  entries,
+  calendar,
+  gridConfig,
+  selectedCoord,
+  trailScope,
+  onTrailScopeChange,
+  onSetDay,
+  onCalendarChange,
+  onAddNote,
+  onDeleteEntry,
+  onHexClick,
+  onClose,
+}) => {
+  const [draft, setDraft] = useState('');
+  const [isEditingCalendar, setIsEditingCalendar] = useState(false);
+
+  // Newest day first; entries logged before the calendar existed go last
+  const groups = useMemo(() => {
+    const byDay = new Map<number | undefined, SessionLogEntry[]>();
+    for (const entry of [...entries].reverse()) {
+      byDay.set(entry.day, [...(byDay.get(entry.day) || []), entry]);
+    }
+    return Array.from(byDay.entries()).sort(([a], [b]) => (b ?? 0) - (a ?? 0));
+  }, [entries]);
+
+  const handleAdd = () => {
+    if (!draft.trim()) return;
+    onAddNote(draft.trim());
+    setDraft('');
+  };
+
+  const day = calendar.currentDay;
+
+  return (
+    <div>
+      <div className="panel">
+        <div className="panel-header">
+          <span className="panel-title">Session Log</span>
+          <button className="btn btn-ghost btn-sm" onClick={onClose}>×</button>
+        </div>
+        <div className="panel-content">
+          {/* Calendar */}
+          <div className="flex items-center gap-2">
+            <button className="btn btn-ghost btn-sm" onClick={() => onSetDay(day - 1)} disabled={day <= 1} title="Previous day">
+              ◀
+            </button>
+            <div className="flex-1 text-center">
+              <div className="session-log-day">Day {day}</div>
+              <div className="text-muted text-sm">{formatGameDate(day, calendar)}</div>
+            </div>
+            <button className="btn btn-ghost btn-sm" onClick={() => onSetDay(day + 1)} title="Next day">
+              ▶
+            </button>
+          </div>
+          <div className="flex gap-2 mt-2">
+            <button className="btn btn-secondary btn-sm flex-1" onClick={() => onSetDay(day + 7)}>
+              +1 Week
+            </button>
+            <button
+              className="btn btn-ghost btn-sm"
+              onClick={() => setIsEditingCalendar(!isEditingCalendar)}
+            >
+              {isEditingCalendar ? 'Close' : 'Calendar...'}
+            </button>
+          </div>
+          {isEditingCalendar && (
+            <CalendarForm
+              calendar={calendar}
+              onSave={(next) => {
+                onCalendarChange(next);
+                setIsEditingCalendar(false);
+              }}
+              onCancel={() => setIsEditingCalendar(false)}
+            />
+          )}
+
+          {/* Party trail */}
+          <div className="form-group mt-2 mb-0">
+            <label className="form-label">Party Trail on Map</label>
+            <div className="flex gap-2">
+              {TRAIL_OPTIONS.map(opt => (
+                <button
+                  key={opt.value}
+                  className={`btn btn-sm flex-1 ${trailScope === opt.value ? 'btn-primary' : 'btn-secondary'}`}
+                  onClick={() => onTrailScopeChange(opt.value)}
+                >
+                  {opt.label}
+                </button>
+              ))}
+            </div>
+          </div>
+        </div>
+      </div>
+
+      <div className="panel">
+        <div className="panel-content">
+          <textarea
+            className="form-textarea"
+            value={draft}
+            onChange={e => setDraft(e.target.value)}
+            onKeyDown={e => {
+              if (e.key === 'Enter' && (e.ctrlKey || e.metaKey)) handleAdd();
+            }}
+            placeholder="What happened? (Ctrl+Enter to add)"
+            rows={2}
+          />
+          <div className="flex items-center gap-2 mt-2">
+            <span className="text-muted text-sm flex-1">
+              {selectedCoord ? `At ${getDisplayCoord(selectedCoord, gridConfig)}` : 'No hex selected'}
+            </span>
+            <button className="btn btn-primary btn-sm" onClick={handleAdd} disabled={!draft.trim()}>
+              Add
+            </button>
+          </div>
+        </div>
+      </div>
+
+      {groups.length === 0 ? (
+        <div className="panel">
+          <div className="panel-content">
+            <p className="text-muted text-sm">
+              Nothing logged yet. Log party visits and roll encounters from a hex's panel, or add notes above.
+            </p>
+          </div>
+        </div>
+      ) : (
+        groups.map(([entryDay, dayEntries]) => (
+          <div key={entryDay ?? 'undated'} className="panel">
+            <div className="panel-header">
+              <span className="panel-title">{entryDay !== undefined ? `Day ${entryDay}` : 'Undated'}</span>
+              {entryDay !== undefined && (
+                <span className="text-muted text-sm">{formatGameDate(entryDay, calendar)}</span>
+              )}
+            </div>
+            <div className="panel-content">
+              {dayEntries.map(entry => (
+                <div key={entry.id} className="session-log-entry">
+                  <span className="session-log-icon">{SESSION_LOG_ICONS[entry.kind]}</span>
+                  <div className="flex-1">
+                    {entry.hexCoord && (
+                      <button
+                        className="session-log-hex"
+                        onClick={() => onHexClick(entry.hexCoord!)}
+                        title="Show this hex"
+                      >
+                        {getDisplayCoord(entry.hexCoord, gridConfig)}
+                      </button>
+                    )}
+                    <span className="text-sm" style={{ whiteSpace: 'pre-wrap' }}>{entry.text}</span>
+                  </div>
+                  <button
+                    className="btn btn-ghost btn-sm"
+                    onClick={() => onDeleteEntry(entry.id)}
+                    title="Delete entry"
+                    style={{ padding: '2px 6px', fontSize: '0.75rem' }}
+                  >
+                    ×
+                  </button>
+                </div>
+              ))}
+            </div>
+          </div>
+        ))
+      )}
+    </div>
+  );
+};
+
+export default SessionLogPanel;
@@ -1,13 +1,17 @@
-import React, { useCallback, useMemo, useState } from 'react';
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
 import type { CampaignSettings, GridConfig, TerrainType } from '@/lib/types';
 import { DEFAULT_TERRAIN_TYPES } from '@/lib/types';
 import { getHexSpacing, getHexDimensions } from '@/lib/hexUtils';
+import type { MonsterStats } from '@/lib/generator/types';
+import { MONSTER_LIST_FORMAT, parseMonsterList, formatMonsterList } from '@/lib/generator/monsterStats';
 
 interface SettingsPanelProps {
   settings: CampaignSettings;
   gridConfig: GridConfig;
+  seed?: string;
   onSettingsChange: (updates: Partial<CampaignSettings>) => void;
   onGridConfigChange: (updates: Partial<GridConfig>) => void;
+  onCalibrate?: () => void;          // Only offered when the map has an image overlay
   onClose: () => void;
 }
 
@@ -117,6 +121,12 @@ const IncrementControl: React.FC<IncrementControlProps> = ({
   );
 };
 
+// Movement cost label for the terrain lists
+function formatMovementCost(terrain: TerrainType): string {
+  const cost = terrain.movementCost ?? 1;
+  return cost === 0 ? 'impassable' : `${cost}d/hex`;
+}
+
 // Terrain Types Section
 interface TerrainTypesSectionProps {
   customTerrainTypes: TerrainType[];
@@ -134,6 +144,7 @@ const TerrainTypesSection: React.FC<TerrainTypesSectionProps> = ({
     name: '',
     color: '#808080',
     symbol: '',
+    movementCost: 1,
   });
 
   const handleAddTerrain = useCallback(() => {
@@ -154,10 +165,11 @@ const TerrainTypesSection: React.FC<TerrainTypesSectionProps> = ({
       name: newTerrain.name.trim(),
       color: newTerrain.color,
       symbol: newTerrain.symbol?.trim() || undefined,
+      movementCost: newTerrain.movementCost ?? 1,
     };
     
     onUpdate([...customTerrainTypes, terrain]);
-    setNewTerrain({ id: '', name: '', color: '#808080', symbol: '' });
+    setNewTerrain({ id: '', name: '', color: '#808080', symbol: '', movementCost: 1 });
     setIsAdding(false);
   }, [newTerrain, customTerrainTypes, onUpdate]);
 
@@ -189,6 +201,9 @@ const TerrainTypesSection: React.FC<TerrainTypesSectionProps> = ({
               {terrain.symbol && (
                 <span className="terrain-symbol">{terrain.symbol}</span>
               )}
+              <span className="terrain-cost" title="Travel days to cross one hex">
+                {formatMovementCost(terrain)}
+              </span>
             </div>
           ))}
         </div>
@@ -226,6 +241,26 @@ const TerrainTypesSection: React.FC<TerrainTypesSectionProps> = ({
                       placeholder="Symbol"
                       maxLength={2}
                     />
+                    <input
+                      type="number"
+                      className="form-input terrain-cost-input"
+                      value={terrain.movementCost ?? 1}
+                      onChange={e => handleUpdateTerrain(terrain.id, { movementCost: Math.max(0, parseFloat(e.target.value) || 0) })}
+                      min={0}
+                      step={0.5}
+                      title="Travel days to cross one hex (0 = impassable)"
+                    />
+                    <input
+                      type="number"
+                      className="form-input terrain-cost-input"
+                      value={terrain.encounterChance ?? 1}
+                      onChange={e => handleUpdateTerrain(terrain.id, {
+                        encounterChance: Math.min(6, Math.max(0, parseInt(e.target.value) || 0)),
+                      })}
+                      min={0}
+                      max={6}
+                      title="Chance in 6 of a wandering encounter"
+                    />
                     <button
                       className="btn btn-ghost btn-sm"
                       onClick={() => setEditingId(null)}
@@ -244,6 +279,12 @@ const TerrainTypesSection: React.FC<TerrainTypesSectionProps> = ({
                     {terrain.symbol && (
                       <span className="terrain-symbol">{terrain.symbol}</span>
                     )}
+                    <span className="terrain-cost" title="Travel days to cross one hex">
+                      {formatMovementCost(terrain)}
+                    </span>
+                    <span className="terrain-cost" title="Chance in 6 of a wandering encounter">
+                      {terrain.encounterChance ?? 1}/6
+                    </span>
                     <div className="terrain-actions">
                       <button
                         className="btn btn-ghost btn-sm"
@@ -289,7 +330,7 @@ const TerrainTypesSection: React.FC<TerrainTypesSectionProps> = ({
                 if (e.key === 'Enter') handleAddTerrain();
                 if (e.key === 'Escape') {
                   setIsAdding(false);
-                  setNewTerrain({ id: '', name: '', color: '#808080', symbol: '' });
+                  setNewTerrain({ id: '', name: '', color: '#808080', symbol: '', movementCost: 1 });
                 }
               }}
             />
@@ -301,6 +342,15 @@ const TerrainTypesSection: React.FC<TerrainTypesSectionProps> = ({
               placeholder="Sym"
               maxLength={2}
             />
+            <input
+              type="number"
+              className="form-input terrain-cost-input"
+              value={newTerrain.movementCost ?? 1}
+              onChange={e => setNewTerrain(prev => ({ ...prev, movementCost: Math.max(0, parseFloat(e.target.value) || 0) }))}
+              min={0}
+              step={0.5}
+              title="Travel days to cross one hex (0 = impassable)"
+            />
           </div>
           <div className="flex gap-2 mt-2">
             <button
@@ -314,7 +364,7 @@ const TerrainTypesSection: React.FC<TerrainTypesSectionProps> = ({
               className="btn btn-secondary btn-sm"
               onClick={() => {
                 setIsAdding(false);
-                setNewTerrain({ id: '', name: '', color: '#808080', symbol: '' });
+                setNewTerrain({ id: '', name: '', color: '#808080', symbol: '', movementCost: 1 });
               }}
             >
               Cancel
@@ -334,11 +384,68 @@ const TerrainTypesSection: React.FC<TerrainTypesSectionProps> = ({
   );
 };
 
+// Monster Stats Section
+interface MonsterStatsSectionProps {
+  monsterStats: MonsterStats[];
+  onUpdate: (stats: MonsterStats[]) => void;
+}
+
+const MonsterStatsSection: React.FC<MonsterStatsSectionProps> = ({
+  monsterStats,
+  onUpdate,
+}) => {
+  const savedText = formatMonsterList(monsterStats);
+  const [text, setText] = useState(savedText);
+  const [errors, setErrors] = useState<string[]>([]);
+
+  // Follow the saved list when it changes from outside (undo, another map)
+  useEffect(() => {
+    setText(savedText);
+  }, [savedText]);
+
+  const handleApply = useCallback(() => {
+    const result = parseMonsterList(text);
+    setErrors(result.errors);
+    if (result.errors.length === 0) {
+      onUpdate(result.monsters);
+    }
+  }, [text, onUpdate]);
+
+  return (
+    <Accordion title={`Monster Stats (${monsterStats.length})`} defaultOpen={false}>
+      <p className="text-muted text-sm mb-2">
+        Stats shown with generated lairs, matched by monster name. One per line: <code>{MONSTER_LIST_FORMAT}</code>
+      </p>
+      <textarea
+        className="form-textarea"
+        value={text}
+        onChange={e => setText(e.target.value)}
+        placeholder={'Wolves | 2+2 | 7 [12] | 3d6\nOgres | 4+1 | 5 [14] | 2d6 | Carry 1d6 × 100 gp each'}
+        rows={6}
+        style={{ fontFamily: 'monospace', fontSize: '0.75rem' }}
+      />
+      {errors.map(error => (
+        <p key={error} className="text-sm" style={{ color: 'var(--danger)' }}>{error}</p>
+      ))}
+      <button
+        className="btn btn-secondary mt-2"
+        onClick={handleApply}
+        disabled={text === savedText}
+        style={{ width: '100%' }}
+      >
+        Save Monster List
+      </button>
+    </Accordion>
+  );
+};
+
 const SettingsPanel: React.FC<SettingsPanelProps> = ({
   settings,
   gridConfig,
+  seed,
   onSettingsChange,
   onGridConfigChange,
+  onCalibrate,
   onClose,
 }) => {
   // Get current spacing (either custom or calculated)
@@ -360,6 +467,14 @@ const SettingsPanel: React.FC<SettingsPanelProps> = ({
           <span className="panel-title">Settings</span>
           <button className="btn btn-ghost btn-sm" onClick={onClose}>×</button>
         </div>
+        {seed && (
+          <div className="panel-content">
+            <div className="panel-row">
+              <span className="panel-row-label">Generation Seed</span>
+              <code className="text-sm" style={{ userSelect: 'all' }}>{seed}</code>
+            </div>
+          </div>
+        )}
       </div>
       
       {/* Grid Alignment Accordion */}
@@ -368,6 +483,21 @@ const SettingsPanel: React.FC<SettingsPanelProps> = ({
           Fine-tune the hex grid position and spacing
         </p>
         
+        {onCalibrate && (
+          <div className="mb-3">
+            <button
+              className="btn btn-primary btn-sm"
+              onClick={onCalibrate}
+              style={{ width: '100%' }}
+            >
+              Calibrate from Image...
+            </button>
+            <div className="text-muted text-sm mt-1">
+              Click a few hex centers on the image to set position, spacing and rotation at once
+            </div>
+          </div>
+        )}
+        
         {/* Origin Position */}
         <div className="mb-3">
           <div className="text-sm mb-2" style={{ fontWeight: 500 }}>Position</div>
@@ -387,6 +517,16 @@ const SettingsPanel: React.FC<SettingsPanelProps> = ({
             fineStep={1}
             decimals={0}
           />
+          <IncrementControl
+            label="Rotation (degrees)"
+            value={gridConfig.rotation ?? 0}
+            onChange={v => onGridConfigChange({ rotation: v || undefined })}
+            step={1}
+            fineStep={0.1}
+            min={-45}
+            max={45}
+            decimals={2}
+          />
         </div>
         
         {/* Hex Size */}
@@ -578,6 +718,12 @@ const SettingsPanel: React.FC<SettingsPanelProps> = ({
         customTerrainTypes={settings?.customTerrainTypes || []}
         onUpdate={(types) => onSettingsChange({ customTerrainTypes: types })}
       />
+
+      {/* Monster Stats Accordion */}
+      <MonsterStatsSection
+        monsterStats={settings?.monsterStats || []}
+        onUpdate={(stats) => onSettingsChange({ monsterStats: stats.length > 0 ? stats : undefined })}
+      />
     </div>
   );
 };
@@ -0,0 +1,86 @@
+import React from 'react';
+import type { GridConfig, HexCoord } from '@/lib/types';
+import type { SettlementExpansion } from '@/lib/generator/types';
+import { getDisplayCoord } from '@/lib/hexUtils';
+
+interface SettlementPanelProps {
+  expansion?: SettlementExpansion;
+  gridConfig: GridConfig;
+  onExpand: () => void;
+  onHexClick: (coord: HexCoord) => void;
+}
+
+/**
+ * NPC roster, shops and rumors for a settlement hex (GM-only)
+ */
+const SettlementPanel: React.FC<SettlementPanelProps> = ({
+  expansion,
+  gridConfig,
+  onExpand,
+  onHexClick,
+}) => {
+  return (
+    <div className="panel">
+      <div className="panel-header">
+        <span className="panel-title">Townsfolk</span>
+        <button
+          className="btn btn-ghost btn-sm"
+          onClick={onExpand}
+          title={expansion ? 'Replace with a new roster, shops and rumors' : undefined}
+          style={{ padding: '2px 8px', fontSize: '0.75rem' }}
+        >
+          {expansion ? 'Re-roll' : 'Expand Settlement'}
+        </button>
+      </div>
+      <div className="panel-content">
+        {!expansion ? (
+          <p className="text-muted text-sm">
+            Roll named NPCs, shops and services for the settlement's size, and rumors about features nearby.
+          </p>
+        ) : (
+          <>
+            <label className="form-label">NPCs</label>
+            {expansion.npcs.map((npc, i) => (
+              <div key={i} className="settlement-entry">
+                <div className="text-sm">
+                  <strong>{npc.name}</strong> <span className="text-muted">· {npc.occupation}</span>
+                </div>
+                <div className="text-sm text-muted">{npc.personality}; wants: {npc.want.toLowerCase()}</div>
+              </div>
+            ))}
+
+            <label className="form-label mt-2">Shops & Services</label>
+            {expansion.shops.map((shop, i) => (
+              <div key={i} className="panel-row">
+                <span className="panel-row-label">{shop.service}</span>
+                <span className="panel-row-value">
+                  {shop.name} <span className="text-muted">({shop.quality.toLowerCase()})</span>
+                </span>
+              </div>
+            ))}
+
+            <label className="form-label mt-2">Rumors</label>
+            {expansion.rumors.length === 0 ? (
+              <p className="text-muted text-sm">No features nearby to talk about.</p>
+            ) : (
+              expansion.rumors.map((rumor, i) => (
+                <div key={i} className="settlement-entry text-sm">
+                  <button
+                    className="session-log-hex"
+                    onClick={() => onHexClick(rumor.hexCoord)}
+                    title="Go to hex"
+                  >
+                    {getDisplayCoord(rumor.hexCoord, gridConfig)}
+                  </button>
+                  {rumor.text} <span className={`rumor-truth rumor-truth-${rumor.truth.split(' ')[0].toLowerCase()}`}>{rumor.truth}</span>
+                </div>
+              ))
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SettlementPanel;
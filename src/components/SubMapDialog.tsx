@@ -0,0 +1,130 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import type { CampaignMap, HexCoord } from '@/lib/types';
+import { getDisplayCoord } from '@/lib/hexUtils';
+import { type SubMapOptions, DEFAULT_SUBMAP_SIZE } from '@/lib/nestedMaps';
+
+interface SubMapDialogProps {
+  isOpen: boolean;
+  map: CampaignMap;
+  coord: HexCoord | null;
+  onCreate: (options: SubMapOptions) => void;
+  onClose: () => void;
+}
+
+/**
+ * Create a finer-scale map for a hex: its size, and whether to generate
+ * terrain that matches the hex and its neighbors
+ */
+const SubMapDialog: React.FC<SubMapDialogProps> = ({
+  isOpen,
+  map,
+  coord,
+  onCreate,
+  onClose,
+}) => {
+  const [name, setName] = useState('');
+  const [cols, setCols] = useState(DEFAULT_SUBMAP_SIZE);
+  const [rows, setRows] = useState(DEFAULT_SUBMAP_SIZE);
+  const [generateTerrain, setGenerateTerrain] = useState(true);
+  const [generateFeatures, setGenerateFeatures] = useState(true);
+
+  // Suggest a name from the hex each time the dialog opens
+  useEffect(() => {
+    if (!isOpen || !coord) return;
+    const hex = map.hexes.find(h => h.coord.q === coord.q && h.coord.r === coord.r);
+    setName(`${map.name} - ${hex?.campaignData?.name || getDisplayCoord(coord, map.gridConfig)}`);
+  }, [isOpen, coord, map]);
+
+  const handleCreate = useCallback(() => {
+    if (!name.trim()) return;
+    onCreate({ name: name.trim(), cols, rows, generateTerrain, generateFeatures: generateTerrain && generateFeatures });
+  }, [name, cols, rows, generateTerrain, generateFeatures, onCreate]);
+
+  if (!isOpen || !coord) return null;
+
+  return (
+    <div className="modal-overlay" onClick={onClose}>
+      <div className="modal" onClick={e => e.stopPropagation()}>
+        <div className="modal-header">
+          <h2 className="modal-title">Create Sub-map for {getDisplayCoord(coord, map.gridConfig)}</h2>
+          <button className="modal-close" onClick={onClose}>×</button>
+        </div>
+
+        <div className="modal-content">
+          <div className="form-group">
+            <label className="form-label">Map Name</label>
+            <input
+              type="text"
+              className="form-input"
+              value={name}
+              onChange={e => setName(e.target.value)}
+              autoFocus
+            />
+          </div>
+
+          <div className="form-row">
+            <div className="form-group">
+              <label className="form-label">Columns</label>
+              <input
+                type="number"
+                className="form-input"
+                value={cols}
+                onChange={e => setCols(Math.max(1, parseInt(e.target.value) || 1))}
+                min={1}
+                max={100}
+              />
+            </div>
+            <div className="form-group">
+              <label className="form-label">Rows</label>
+              <input
+                type="number"
+                className="form-input"
+                value={rows}
+                onChange={e => setRows(Math.max(1, parseInt(e.target.value) || 1))}
+                min={1}
+                max={100}
+              />
+            </div>
+          </div>
+
+          <div className="panel-row">
+            <span className="panel-row-label">Generate Terrain</span>
+            <button
+              className={`btn btn-sm ${generateTerrain ? 'btn-primary' : 'btn-secondary'}`}
+              onClick={() => setGenerateTerrain(!generateTerrain)}
+            >
+              {generateTerrain ? 'On' : 'Off'}
+            </button>
+          </div>
+          {generateTerrain && (
+            <div className="panel-row">
+              <span className="panel-row-label">Generate Features</span>
+              <button
+                className={`btn btn-sm ${generateFeatures ? 'btn-primary' : 'btn-secondary'}`}
+                onClick={() => setGenerateFeatures(!generateFeatures)}
+              >
+                {generateFeatures ? 'On' : 'Off'}
+              </button>
+            </div>
+          )}
+          <p className="text-muted text-sm mt-1">
+            {generateTerrain
+              ? "The middle of the map follows this hex's terrain and the edges blend into its neighbors"
+              : "Every hex starts with this hex's terrain"}
+          </p>
+        </div>
+
+        <div className="modal-footer">
+          <button className="btn btn-secondary" onClick={onClose}>
+            Cancel
+          </button>
+          <button className="btn btn-primary" onClick={handleCreate} disabled={!name.trim()}>
+            Create
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SubMapDialog;
@@ -0,0 +1,465 @@
+import React, { useState, useCallback, useMemo } from 'react';
+import type { RollableTable, TableEntry } from '@/lib/generator/types';
+import {
+  mergeTables,
+  isBuiltInTable,
+  getDefaultTable,
+  getTable,
+  cloneTable,
+  createCustomTable,
+} from '@/lib/generator/tableRegistry';
+import {
+  rollDice,
+  findEntry,
+  rollOnTable,
+  validateTable,
+} from '@/lib/generator/tableSystem';
+
+interface TableEditorPanelProps {
+  userTables: RollableTable[];
+  onSaveTable: (table: RollableTable, previousId?: string) => void;
+  onDeleteTable: (tableId: string) => void;
+  onClose: () => void;
+}
+
+/**
+ * Format a category ID for display ("settlements" -> "Settlements")
+ */
+function formatCategory(category: string): string {
+  return category.charAt(0).toUpperCase() + category.slice(1);
+}
+
+const TableEditorPanel: React.FC<TableEditorPanelProps> = ({
+  userTables,
+  onSaveTable,
+  onDeleteTable,
+  onClose,
+}) => {
+  const [search, setSearch] = useState('');
+  const [selectedTableId, setSelectedTableId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<RollableTable | null>(null);
+  const [testResult, setTestResult] = useState<string | null>(null);
+
+  // Built-in tables with the campaign's versions swapped in
+  const allTables = useMemo(() => mergeTables(userTables), [userTables]);
+  const allTableIds = useMemo(() => new Set(allTables.map(t => t.id)), [allTables]);
+  const userTableIds = useMemo(() => new Set(userTables.map(t => t.id)), [userTables]);
+
+  // Group tables by category, filtered by search
+  const groupedTables = useMemo(() => {
+    const query = search.trim().toLowerCase();
+    const groups = new Map<string, RollableTable[]>();
+    for (const table of allTables) {
+      if (query && !table.name.toLowerCase().includes(query) && !table.id.includes(query)) {
+        continue;
+      }
+      const list = groups.get(table.category) || [];
+      list.push(table);
+      groups.set(table.category, list);
+    }
+    return [...groups.entries()];
+  }, [allTables, search]);
+
+  const savedTable = selectedTableId ? allTables.find(t => t.id === selectedTableId) : undefined;
+  const isBuiltIn = selectedTableId ? isBuiltInTable(selectedTableId) : false;
+  const isDirty = !!draft && !!savedTable && JSON.stringify(draft) !== JSON.stringify(savedTable);
+
+  const errors = useMemo(() => {
+    if (!draft) return [];
+    const errs = validateTable(draft, allTableIds);
+    if (draft.id !== selectedTableId && allTableIds.has(draft.id)) {
+      errs.unshift(`A table with ID "${draft.id}" already exists`);
+    }
+    return errs;
+  }, [draft, allTableIds, selectedTableId]);
+
+  const handleSelectTable = useCallback((table: RollableTable) => {
+    setSelectedTableId(table.id);
+    setDraft({ ...table, entries: table.entries.map(e => ({ ...e })) });
+    setTestResult(null);
+  }, []);
+
+  const handleBack = useCallback(() => {
+    if (isDirty && !confirm('Discard unsaved changes to this table?')) return;
+    setSelectedTableId(null);
+    setDraft(null);
+    setTestResult(null);
+  }, [isDirty]);
+
+  const handleDraftChange = useCallback((updates: Partial<RollableTable>) => {
+    setDraft(prev => prev ? { ...prev, ...updates } : prev);
+  }, []);
+
+  const handleEntryChange = useCallback((index: number, updates: Partial<TableEntry>) => {
+    setDraft(prev => {
+      if (!prev) return prev;
+      const entries = [...prev.entries];
+      entries[index] = { ...entries[index], ...updates };
+      return { ...prev, entries };
+    });
+  }, []);
+
+  const handleAddEntry = useCallback(() => {
+    setDraft(prev => {
+      if (!prev) return prev;
+      const last = prev.entries[prev.entries.length - 1];
+      const next = last ? last.max + 1 : 1;
+      return {
+        ...prev,
+        entries: [
+          ...prev.entries,
+          { id: `e${Date.now()}`, min: next, max: next, value: '' },
+        ],
+      };
+    });
+  }, []);
+
+  const handleRemoveEntry = useCallback((index: number) => {
+    setDraft(prev => prev ? { ...prev, entries: prev.entries.filter((_, i) => i !== index) } : prev);
+  }, []);
+
+  const handleSave = useCallback(() => {
+    if (!draft || errors.length > 0) return;
+    onSaveTable(draft, selectedTableId && selectedTableId !== draft.id ? selectedTableId : undefined);
+    setSelectedTableId(draft.id);
+  }, [draft, errors, selectedTableId, onSaveTable]);
+
+  const handleClone = useCallback(() => {
+    if (!draft) return;
+    const copy = cloneTable(draft, allTableIds);
+    onSaveTable(copy);
+    setSelectedTableId(copy.id);
+    setDraft(copy);
+    setTestResult(null);
+  }, [draft, allTableIds, onSaveTable]);
+
+  const handleNewTable = useCallback(() => {
+    const table = createCustomTable(allTableIds);
+    onSaveTable(table);
+    setSelectedTableId(table.id);
+    setDraft(table);
+    setTestResult(null);
+  }, [allTableIds, onSaveTable]);
+
+  const handleReset = useCallback(() => {
+    if (!selectedTableId) return;
+    const original = getDefaultTable(selectedTableId);
+    if (!original) return;
+    if (!confirm('Reset this table to the built-in version? Your edits will be lost.')) return;
+    onDeleteTable(selectedTableId);
+    setDraft({ ...original, entries: original.entries.map(e => ({ ...e })) });
+    setTestResult(null);
+  }, [selectedTableId, onDeleteTable]);
+
+  const handleDelete = useCallback(() => {
+    if (!selectedTableId) return;
+    if (!confirm('Delete this custom table? Entries linking to it will stop rolling on it.')) return;
+    onDeleteTable(selectedTableId);
+    setSelectedTableId(null);
+    setDraft(null);
+  }, [selectedTableId, onDeleteTable]);
+
+  // Roll on the draft itself (unsaved edits included)
+  const handleTestRoll = useCallback(() => {
+    if (!draft) return;
+    try {
+      const roll = rollDice(draft.diceFormula);
+      const entry = findEntry(draft, roll);
+      if (!entry) {
+        setTestResult(`${roll}: no entry`);
+        return;
+      }
+      let value = entry.value;
+      const subTable = entry.subTable ? getTable(entry.subTable) : undefined;
+      if (subTable) {
+        const subValues: string[] = [];
+        for (let i = 0; i < (entry.subTableCount || 1); i++) {
+          subValues.push(rollOnTable(subTable).value);
+        }
+        value = value.includes('[sub]')
+          ? value.replace('[sub]', subValues.join(', '))
+          : `${value}: ${subValues.join(', ')}`;
+      }
+      setTestResult(`${roll}: ${value}`);
+    } catch (err) {
+      setTestResult((err as Error).message);
+    }
+  }, [draft]);
+
+  return (
+    <div>
+      {/* Header */}
+      <div className="panel">
+        <div className="panel-header">
+          <span className="panel-title">
+            {draft ? draft.name || 'Untitled Table' : 'Generator Tables'}
+          </span>
+          <div className="flex gap-1">
+            {draft && (
+              <button className="btn btn-ghost btn-sm" onClick={handleBack}>
+                Back
+              </button>
+            )}
+            <button className="btn btn-ghost btn-sm" onClick={onClose}>×</button>
+          </div>
+        </div>
+      </div>
+
+      {draft ? (
+        /* Table Editor */
+        <>
+          <div className="panel">
+            <div className="panel-content">
+              {isBuiltIn && (
+                <p className="text-sm text-muted mb-2">
+                  {userTableIds.has(draft.id)
+                    ? 'Built-in table, modified for this campaign'
+                    : 'Built-in table. Saving creates a campaign copy that generators will use instead.'}
+                </p>
+              )}
+
+              <div className="form-group">
+                <label className="form-label">ID</label>
+                <input
+                  type="text"
+                  className="form-input"
+                  value={draft.id}
+                  onChange={e => handleDraftChange({ id: e.target.value.trim() })}
+                  disabled={isBuiltIn}
+                  title={isBuiltIn ? 'Built-in table IDs cannot be changed' : 'Used by subtable links'}
+                />
+              </div>
+
+              <div className="form-group">
+                <label className="form-label">Name</label>
+                <input
+                  type="text"
+                  className="form-input"
+                  value={draft.name}
+                  onChange={e => handleDraftChange({ name: e.target.value })}
+                />
+              </div>
+
+              <div className="form-row">
+                <div className="form-group">
+                  <label className="form-label">Category</label>
+                  <input
+                    type="text"
+                    className="form-input"
+                    value={draft.category}
+                    onChange={e => handleDraftChange({ category: e.target.value })}
+                  />
+                </div>
+                <div className="form-group">
+                  <label className="form-label">Dice</label>
+                  <input
+                    type="text"
+                    className="form-input"
+                    value={draft.diceFormula}
+                    onChange={e => handleDraftChange({ diceFormula: e.target.value.trim() })}
+                    placeholder="1d6"
+                  />
+                </div>
+              </div>
+
+              <div className="form-group">
+                <label className="form-label">Description</label>
+                <input
+                  type="text"
+                  className="form-input"
+                  value={draft.description || ''}
+                  onChange={e => handleDraftChange({ description: e.target.value || undefined })}
+                  placeholder="Optional"
+                />
+              </div>
+            </div>
+          </div>
+
+          {/* Entries */}
+          <div className="panel">
+            <div className="panel-header">
+              <span className="panel-title">Entries ({draft.entries.length})</span>
+            </div>
+            <div className="panel-content">
+              <div className="table-entry-list">
+                {draft.entries.map((entry, index) => (
+                  <div key={entry.id} className="table-entry-row">
+                    <div className="flex gap-1 items-center">
+                      <input
+                        type="number"
+                        className="form-input table-entry-range"
+                        value={entry.min}
+                        onChange={e => handleEntryChange(index, { min: parseInt(e.target.value) || 0 })}
+                        title="Min roll"
+                      />
+                      <span className="text-muted">–</span>
+                      <input
+                        type="number"
+                        className="form-input table-entry-range"
+                        value={entry.max}
+                        onChange={e => handleEntryChange(index, { max: parseInt(e.target.value) || 0 })}
+                        title="Max roll"
+                      />
+                      <input
+                        type="text"
+                        className="form-input flex-1"
+                        value={entry.value}
+                        onChange={e => handleEntryChange(index, { value: e.target.value })}
+                        placeholder="Result"
+                      />
+                      <button
+                        className="btn btn-ghost btn-sm"
+                        onClick={() => handleRemoveEntry(index)}
+                        title="Remove entry"
+                      >
+                        ×
+                      </button>
+                    </div>
+                    <div className="flex gap-1 items-center mt-1">
+                      <select
+                        className="form-select flex-1"
+                        value={entry.subTable || ''}
+                        onChange={e => handleEntryChange(index, {
+                          subTable: e.target.value || undefined,
+                          subTableCount: e.target.value ? entry.subTableCount : undefined,
+                        })}
+                        title="Also roll on another table"
+                      >
+                        <option value="">No subtable</option>
+                        {allTables.filter(t => t.id !== draft.id).map(t => (
+                          <option key={t.id} value={t.id}>{t.name}</option>
+                        ))}
+                      </select>
+                      {entry.subTable && (
+                        <input
+                          type="number"
+                          className="form-input table-entry-range"
+                          value={entry.subTableCount || 1}
+                          min={1}
+                          onChange={e => handleEntryChange(index, {
+                            subTableCount: Math.max(1, parseInt(e.target.value) || 1),
+                          })}
+                          title="Times to roll on the subtable"
+                        />
+                      )}
+                    </div>
+                  </div>
+                ))}
+              </div>
+
+              <button
+                className="btn btn-secondary btn-sm mt-2"
+                onClick={handleAddEntry}
+                style={{ width: '100%' }}
+              >
+                + Add Entry
+              </button>
+              <p className="text-sm text-muted mt-2">
+                Use [sub] in a result to place the subtable roll inside the text.
+              </p>
+            </div>
+          </div>
+
+          {/* Validation & actions */}
+          <div className="panel">
+            <div className="panel-content">
+              {errors.length > 0 && (
+                <ul className="table-errors mb-2">
+                  {errors.map((err, i) => (
+                    <li key={i}>{err}</li>
+                  ))}
+                </ul>
+              )}
+
+              <div className="flex gap-2 mb-2">
+                <button
+                  className="btn btn-primary flex-1"
+                  onClick={handleSave}
+                  disabled={errors.length > 0 || (!isDirty && userTableIds.has(draft.id))}
+                >
+                  Save
+                </button>
+                <button className="btn btn-secondary" onClick={handleTestRoll}>
+                  Test Roll
+                </button>
+              </div>
+              {testResult && (
+                <p className="text-sm mb-2">🎲 {testResult}</p>
+              )}
+
+              <div className="flex gap-2">
+                <button className="btn btn-secondary btn-sm flex-1" onClick={handleClone}>
+                  Clone
+                </button>
+                {isBuiltIn && userTableIds.has(draft.id) && (
+                  <button className="btn btn-secondary btn-sm flex-1" onClick={handleReset}>
+                    Reset to Default
+                  </button>
+                )}
+                {!isBuiltIn && (
+                  <button className="btn btn-danger btn-sm flex-1" onClick={handleDelete}>
+                    Delete
+                  </button>
+                )}
+              </div>
+            </div>
+          </div>
+        </>
+      ) : (
+        /* Table List */
+        <>
+          <div className="panel">
+            <div className="panel-content">
+              <input
+                type="text"
+                className="form-input mb-2"
+                value={search}
+                onChange={e => setSearch(e.target.value)}
+                placeholder="Search tables..."
+              />
+              <button
+                className="btn btn-primary"
+                onClick={handleNewTable}
+                style={{ width: '100%' }}
+              >
+                + New Table
+              </button>
+              <p className="text-sm text-muted mt-2">
+                Edited tables are saved with this campaign and used by all generators.
+              </p>
+            </div>
+          </div>
+
+          {groupedTables.map(([category, tables]) => (
+            <div key={category} className="panel">
+              <div className="panel-header">
+                <span className="panel-title">{formatCategory(category)} ({tables.length})</span>
+              </div>
+              <div className="panel-content">
+                <div className="flex flex-col gap-1">
+                  {tables.map(table => (
+                    <button
+                      key={table.id}
+                      className="faction-list-item"
+                      onClick={() => handleSelectTable(table)}
+                    >
+                      <span className="faction-name">{table.name}</span>
+                      {userTableIds.has(table.id) && (
+                        <span className="table-badge">
+                          {isBuiltInTable(table.id) ? 'modified' : 'custom'}
+                        </span>
+                      )}
+                      <span className="faction-territory">{table.diceFormula}</span>
+                    </button>
+                  ))}
+                </div>
+              </div>
+            </div>
+          ))}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default TableEditorPanel;
@@ -0,0 +1,178 @@
+import React, { useState, useCallback, useMemo } from 'react';
+import type { CampaignMap } from '@/lib/types';
+import { DEFAULT_TERRAIN_TYPES } from '@/lib/types';
+import {
+  type TerrainCluster,
+  DEFAULT_CLUSTER_COUNT,
+  MAX_CLUSTER_COUNT,
+  loadImagePixels,
+  detectTerrain,
+} from '@/lib/terrainDetection';
+
+interface TerrainDetectionDialogProps {
+  isOpen: boolean;
+  map: CampaignMap;
+  onApply: (clusters: TerrainCluster[]) => void;
+  onClose: () => void;
+}
+
+/**
+ * Detect terrain from the overlay image: pick how many colors to look for,
+ * then confirm or change the terrain suggested for each color before applying
+ */
+const TerrainDetectionDialog: React.FC<TerrainDetectionDialogProps> = ({
+  isOpen,
+  map,
+  onApply,
+  onClose,
+}) => {
+  const [clusterCount, setClusterCount] = useState(DEFAULT_CLUSTER_COUNT);
+  const [onlyUnknown, setOnlyUnknown] = useState(true);
+  const [clusters, setClusters] = useState<TerrainCluster[] | null>(null);
+  const [isDetecting, setIsDetecting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const terrains = useMemo(
+    () => [...DEFAULT_TERRAIN_TYPES, ...(map.settings.customTerrainTypes || [])],
+    [map.settings.customTerrainTypes]
+  );
+
+  const handleDetect = useCallback(async () => {
+    const overlay = map.imageOverlay;
+    if (!overlay) return;
+    setIsDetecting(true);
+    setError(null);
+    try {
+      const pixels = await loadImagePixels(overlay.src, overlay.width, overlay.height);
+      const found = detectTerrain(pixels, map.hexes, map.gridConfig, terrains, { clusterCount, onlyUnknown });
+      if (found.length === 0) {
+        setError(onlyUnknown ? 'No unknown hexes lie over the image' : 'No hexes lie over the image');
+      }
+      setClusters(found);
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setIsDetecting(false);
+    }
+  }, [map, terrains, clusterCount, onlyUnknown]);
+
+  const handleRemap = useCallback((index: number, terrainId: string) => {
+    setClusters(prev => prev && prev.map((c, i) => i === index ? { ...c, terrainId } : c));
+  }, []);
+
+  const handleClose = useCallback(() => {
+    setClusters(null);
+    setError(null);
+    onClose();
+  }, [onClose]);
+
+  const handleApply = useCallback(() => {
+    if (clusters) onApply(clusters);
+    handleClose();
+  }, [clusters, onApply, handleClose]);
+
+  if (!isOpen) return null;
+
+  const hexCount = clusters
+    ? clusters.filter(c => c.terrainId).reduce((sum, c) => sum + c.hexKeys.length, 0)
+    : 0;
+
+  return (
+    <div className="modal-overlay" onClick={handleClose}>
+      <div className="modal" onClick={e => e.stopPropagation()}>
+        <div className="modal-header">
+          <h2 className="modal-title">Detect Terrain from Image</h2>
+          <button className="modal-close" onClick={handleClose}>×</button>
+        </div>
+
+        <div className="modal-content">
+          {error && (
+            <div className="mb-3" style={{
+              padding: 'var(--spacing-sm)',
+              background: 'var(--danger)',
+              borderRadius: 'var(--radius-sm)',
+              color: 'white',
+            }}>
+              {error}
+            </div>
+          )}
+
+          <div className="form-group">
+            <label className="form-label">Colors to Look For: {clusterCount}</label>
+            <input
+              type="range"
+              min={2}
+              max={MAX_CLUSTER_COUNT}
+              value={clusterCount}
+              onChange={e => { setClusterCount(parseInt(e.target.value)); setClusters(null); }}
+              style={{ width: '100%' }}
+            />
+            <p className="text-muted text-sm mt-1">
+              Roughly the number of terrain colors on the scanned map
+            </p>
+          </div>
+
+          <div className="panel-row">
+            <span className="panel-row-label">Only Unknown Hexes</span>
+            <button
+              className={`btn btn-sm ${onlyUnknown ? 'btn-primary' : 'btn-secondary'}`}
+              onClick={() => { setOnlyUnknown(!onlyUnknown); setClusters(null); }}
+            >
+              {onlyUnknown ? 'On' : 'Off'}
+            </button>
+          </div>
+
+          {clusters && clusters.length > 0 && (
+            <div className="form-group mt-3">
+              <label className="form-label">Detected Colors</label>
+              {clusters.map((cluster, i) => (
+                <div key={cluster.color + i} className="panel-row">
+                  <span className="panel-row-label">
+                    <span className="color-dot" style={{ backgroundColor: cluster.color }} />{' '}
+                    {cluster.hexKeys.length} hex{cluster.hexKeys.length === 1 ? '' : 'es'}
+                  </span>
+                  <select
+                    className="form-select"
+                    value={cluster.terrainId}
+                    onChange={e => handleRemap(i, e.target.value)}
+                    style={{ width: 'auto' }}
+                  >
+                    <option value="">Leave unchanged</option>
+                    {terrains.map(t => (
+                      <option key={t.id} value={t.id}>{t.name}</option>
+                    ))}
+                  </select>
+                </div>
+              ))}
+              <p className="text-muted text-sm mt-1">
+                Each color is matched to the closest terrain color; change any that are wrong
+              </p>
+            </div>
+          )}
+        </div>
+
+        <div className="modal-footer">
+          <button className="btn btn-secondary" onClick={handleClose}>
+            Cancel
+          </button>
+          <button
+            className="btn btn-secondary"
+            onClick={handleDetect}
+            disabled={isDetecting || !map.imageOverlay}
+          >
+            {isDetecting ? 'Detecting...' : clusters ? 'Detect Again' : 'Detect'}
+          </button>
+          <button
+            className="btn btn-primary"
+            onClick={handleApply}
+            disabled={hexCount === 0}
+          >
+            Apply{hexCount > 0 ? ` (${hexCount})` : ''}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TerrainDetectionDialog;
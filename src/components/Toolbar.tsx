@@ -1,21 +1,43 @@
 import React, { useState, useCallback, useRef, useEffect } from 'react';
-import type { CampaignMap } from '@/lib/types';
+import type { CampaignMap, MapPathType } from '@/lib/types';
+import type { MapHistory } from '@/lib/history';
+import { PATH_TYPES, PATH_STYLES } from '@/lib/paths';
 
 export type StatsFilterType = 'all' | 'withData' | 'explored' | 'factions' | 'withFeatures' | 'withTags';
 
+export type PathTool =
+  | { mode: 'draw'; pathType: MapPathType }
+  | { mode: 'erase' };
+
 interface ToolbarProps {
   map: CampaignMap | null;
   onNewMap: () => void;
   onOpenMap: () => void;
   onExportMap: () => void;
+  onExportImage: () => void;
+  onDetectTerrain: () => void;
+  onExportGazetteer: () => void;
   onImportMap: () => void;
   onOpenSettings: () => void;
+  onOpenTables: () => void;
+  onOpenLog: () => void;
   onMapNameChange: (name: string) => void;
   onStatsClick: (filter: StatsFilterType) => void;
   selectedCount: number;
   onClearSelection: () => void;
   zoom: number;
   onZoomChange: (zoom: number) => void;
+  history: MapHistory;
+  onUndo: () => void;
+  onRedo: () => void;
+  onUndoTo: (index: number) => void;
+  pathTool: PathTool | null;
+  onPathToolChange: (tool: PathTool | null) => void;
+  playerView: boolean;
+  onTogglePlayerView: () => void;
+  playMode: boolean;
+  onTogglePlayMode: () => void;
+  onExportPlayerMap: (format: 'html' | 'json' | 'window') => void;
 }
 
 const ZOOM_PRESETS = [0.25, 0.5, 0.75, 1, 1.25, 1.5, 2, 3];
@@ -25,19 +47,39 @@ const Toolbar: React.FC<ToolbarProps> = ({
   onNewMap,
   onOpenMap,
   onExportMap,
+  onExportImage,
+  onDetectTerrain,
+  onExportGazetteer,
   onImportMap,
   onOpenSettings,
+  onOpenTables,
+  onOpenLog,
   onMapNameChange,
   onStatsClick,
   selectedCount,
   onClearSelection,
   zoom,
   onZoomChange,
+  history,
+  onUndo,
+  onRedo,
+  onUndoTo,
+  pathTool,
+  onPathToolChange,
+  playerView,
+  onTogglePlayerView,
+  playMode,
+  onTogglePlayMode,
+  onExportPlayerMap,
 }) => {
   const [isEditingName, setIsEditingName] = useState(false);
   const [editedName, setEditedName] = useState('');
   const [showMapsMenu, setShowMapsMenu] = useState(false);
+  const [showHistoryMenu, setShowHistoryMenu] = useState(false);
+  const [showPathsMenu, setShowPathsMenu] = useState(false);
   const mapsMenuRef = useRef<HTMLDivElement>(null);
+  const historyMenuRef = useRef<HTMLDivElement>(null);
+  const pathsMenuRef = useRef<HTMLDivElement>(null);
   
   // Close menu when clicking outside
   useEffect(() => {
@@ -52,6 +94,30 @@ const Toolbar: React.FC<ToolbarProps> = ({
     }
   }, [showMapsMenu]);
   
+  useEffect(() => {
+    const handleClickOutside = (e: MouseEvent) => {
+      if (historyMenuRef.current && !historyMenuRef.current.contains(e.target as Node)) {
+        setShowHistoryMenu(false);
+      }
+    };
+    if (showHistoryMenu) {
+      document.addEventListener('mousedown', handleClickOutside);
+      return () => document.removeEventListener('mousedown', handleClickOutside);
+    }
+  }, [showHistoryMenu]);
+  
+  useEffect(() => {
+    const handleClickOutside = (e: MouseEvent) => {
+      if (pathsMenuRef.current && !pathsMenuRef.current.contains(e.target as Node)) {
+        setShowPathsMenu(false);
+      }
+    };
+    if (showPathsMenu) {
+      document.addEventListener('mousedown', handleClickOutside);
+      return () => document.removeEventListener('mousedown', handleClickOutside);
+    }
+  }, [showPathsMenu]);
+  
   const handleStartEdit = useCallback(() => {
     if (map) {
       setEditedName(map.name);
@@ -124,6 +190,52 @@ const Toolbar: React.FC<ToolbarProps> = ({
                     Export
                   </button>
                 )}
+                {map && (
+                  <button 
+                    className="toolbar-dropdown-item"
+                    onClick={() => { onExportImage(); setShowMapsMenu(false); }}
+                  >
+                    Export Image (SVG / PNG)...
+                  </button>
+                )}
+                {map?.imageOverlay && !playerView && (
+                  <button 
+                    className="toolbar-dropdown-item"
+                    onClick={() => { onDetectTerrain(); setShowMapsMenu(false); }}
+                  >
+                    Detect Terrain from Image...
+                  </button>
+                )}
+                {map && (
+                  <button 
+                    className="toolbar-dropdown-item"
+                    onClick={() => { onExportGazetteer(); setShowMapsMenu(false); }}
+                  >
+                    Export Gazetteer (Markdown)
+                  </button>
+                )}
+                {map && (
+                  <>
+                    <button 
+                      className="toolbar-dropdown-item"
+                      onClick={() => { onExportPlayerMap('window'); setShowMapsMenu(false); }}
+                    >
+                      Open Player Window
+                    </button>
+                    <button 
+                      className="toolbar-dropdown-item"
+                      onClick={() => { onExportPlayerMap('html'); setShowMapsMenu(false); }}
+                    >
+                      Export Player Map (HTML)
+                    </button>
+                    <button 
+                      className="toolbar-dropdown-item"
+                      onClick={() => { onExportPlayerMap('json'); setShowMapsMenu(false); }}
+                    >
+                      Export Player Map (JSON)
+                    </button>
+                  </>
+                )}
                 <button 
                   className="toolbar-dropdown-item"
                   onClick={() => { onImportMap(); setShowMapsMenu(false); }}
@@ -161,10 +273,115 @@ const Toolbar: React.FC<ToolbarProps> = ({
                 </span>
               )}
               <span className="text-muted text-sm">
-                ({map.gridConfig.cols} × {map.gridConfig.rows})
+                ({map.mode === 'unbounded'
+                  ? `${map.hexes.length} hexes`
+                  : `${map.gridConfig.cols} × ${map.gridConfig.rows}`})
               </span>
             </div>
             
+            <div className="toolbar-divider" />
+            
+            {/* Undo/redo */}
+            <div className="toolbar-section">
+              <button
+                className="btn btn-ghost btn-sm"
+                onClick={onUndo}
+                disabled={history.past.length === 0}
+                title={history.past.length > 0
+                  ? `Undo ${history.past[history.past.length - 1].label} (Ctrl+Z)`
+                  : 'Nothing to undo'}
+              >
+                ↶
+              </button>
+              <button
+                className="btn btn-ghost btn-sm"
+                onClick={onRedo}
+                disabled={history.future.length === 0}
+                title={history.future.length > 0
+                  ? `Redo ${history.future[0].label} (Ctrl+Shift+Z)`
+                  : 'Nothing to redo'}
+              >
+                ↷
+              </button>
+              <div className="toolbar-dropdown" ref={historyMenuRef}>
+                <button
+                  className="btn btn-ghost btn-sm"
+                  onClick={() => setShowHistoryMenu(!showHistoryMenu)}
+                  disabled={history.past.length === 0 && history.future.length === 0}
+                  title="History"
+                >
+                  History ▾
+                </button>
+                {showHistoryMenu && (
+                  <div className="toolbar-dropdown-menu history-menu">
+                    {[...history.future].reverse().map((entry, i) => (
+                      <div
+                        key={`future-${i}`}
+                        className="toolbar-dropdown-item history-item history-item-undone"
+                      >
+                        {entry.label}
+                      </div>
+                    ))}
+                    <div className="toolbar-dropdown-item history-item history-item-current">
+                      Current state
+                    </div>
+                    {history.past.map((entry, index) => ({ entry, index })).reverse().map(({ entry, index }) => (
+                      <button
+                        key={`past-${index}`}
+                        className="toolbar-dropdown-item history-item"
+                        onClick={() => { onUndoTo(index); setShowHistoryMenu(false); }}
+                        title="Undo back to before this change"
+                      >
+                        <span>{entry.label}</span>
+                        <span className="text-muted text-sm">
+                          {new Date(entry.timestamp).toLocaleTimeString()}
+                        </span>
+                      </button>
+                    ))}
+                  </div>
+                )}
+              </div>
+            </div>
+            
+            <div className="toolbar-divider" />
+            
+            {/* Path tools (GM only) */}
+            {!playerView && (
+              <div className="toolbar-section">
+                <div className="toolbar-dropdown" ref={pathsMenuRef}>
+                  <button
+                    className={`btn btn-sm ${pathTool ? 'btn-primary' : 'btn-ghost'}`}
+                    onClick={() => setShowPathsMenu(!showPathsMenu)}
+                    title="Draw rivers, roads and trails"
+                  >
+                    Paths ▾
+                  </button>
+                  {showPathsMenu && (
+                    <div className="toolbar-dropdown-menu">
+                      {PATH_TYPES.map(type => (
+                        <button
+                          key={type}
+                          className="toolbar-dropdown-item"
+                          onClick={() => { onPathToolChange({ mode: 'draw', pathType: type }); setShowPathsMenu(false); }}
+                        >
+                          <span className="path-swatch" style={{ background: PATH_STYLES[type].color }} />
+                          Draw {PATH_STYLES[type].label}
+                        </button>
+                      ))}
+                      <div className="toolbar-dropdown-divider" />
+                      <button
+                        className="toolbar-dropdown-item"
+                        onClick={() => { onPathToolChange({ mode: 'erase' }); setShowPathsMenu(false); }}
+                        disabled={!map.paths?.length}
+                      >
+                        Erase Path
+                      </button>
+                    </div>
+                  )}
+                </div>
+              </div>
+            )}
+            
             {/* Selection info */}
             {selectedCount > 0 && (
               <>
@@ -185,8 +402,8 @@ const Toolbar: React.FC<ToolbarProps> = ({
       
       {/* Center section */}
       <div className="toolbar-center">
-        {/* Stats */}
-        {stats && (
+        {/* Stats (hidden in player view, they count GM-only data) */}
+        {stats && !playerView && (
           <div className="toolbar-stats">
             <button 
               className="toolbar-stat-btn"
@@ -286,6 +503,34 @@ const Toolbar: React.FC<ToolbarProps> = ({
       
       {/* Right section */}
       <div className="toolbar-right">
+        {map && (
+          <button
+            className={`btn btn-sm ${playerView ? 'btn-primary' : 'btn-ghost'}`}
+            onClick={onTogglePlayerView}
+            title="Show the map as players see it"
+          >
+            👁 Player View
+          </button>
+        )}
+        {map && (
+          <button
+            className={`btn btn-sm ${playMode ? 'btn-primary' : 'btn-ghost'}`}
+            onClick={onTogglePlayMode}
+            title="Move the party token hex by hex"
+          >
+            🥾 Play
+          </button>
+        )}
+        {map && !playerView && (
+          <button className="btn btn-ghost btn-sm" onClick={onOpenLog} title="Session log">
+            📜 Log
+          </button>
+        )}
+        {map && (
+          <button className="btn btn-ghost btn-sm" onClick={onOpenTables} title="Edit generator tables">
+            Tables
+          </button>
+        )}
         <button className="btn btn-ghost btn-icon" onClick={onOpenSettings} title="Settings">
           ⚙
         </button>
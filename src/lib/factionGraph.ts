@@ -0,0 +1,97 @@
+import type { Faction, FactionRelationshipStatus } from './types';
+
+// ============================================
+// FACTION RELATIONSHIPS
+// Each faction keeps its own list, so the two sides of a pair can disagree;
+// a faction with no entry for another counts as indifferent to it
+// ============================================
+
+/**
+ * How one faction sees another
+ */
+export function getRelationshipStatus(from: Faction, to: Faction): FactionRelationshipStatus {
+  return from.relationships.find(r => r.factionId === to.id)?.status || 'indifference';
+}
+
+/**
+ * Set a relationship on both sides at once, so the pair always agrees
+ */
+export function setMutualRelationship(
+  factions: Faction[],
+  aId: string,
+  bId: string,
+  status: FactionRelationshipStatus
+): Faction[] {
+  const setOn = (faction: Faction, otherId: string): Faction => ({
+    ...faction,
+    relationships: faction.relationships.some(r => r.factionId === otherId)
+      ? faction.relationships.map(r => r.factionId === otherId ? { ...r, status } : r)
+      : [...faction.relationships, { factionId: otherId, status }],
+  });
+
+  return factions.map(f => {
+    if (f.id === aId) return setOn(f, bId);
+    if (f.id === bId) return setOn(f, aId);
+    return f;
+  });
+}
+
+// ============================================
+// GRAPH
+// ============================================
+
+export interface RelationshipEdge {
+  a: Faction;
+  b: Faction;
+  aToB: FactionRelationshipStatus;   // How a sees b
+  bToA: FactionRelationshipStatus;   // How b sees a
+  asymmetric: boolean;
+}
+
+/**
+ * One edge per pair of factions where at least one side lists the other
+ * (regions have no relationships and are left out)
+ */
+export function getRelationshipEdges(factions: Faction[]): RelationshipEdge[] {
+  const nodes = factions.filter(f => f.type !== 'region');
+  const edges: RelationshipEdge[] = [];
+
+  for (let i = 0; i < nodes.length; i++) {
+    for (let j = i + 1; j < nodes.length; j++) {
+      const a = nodes[i];
+      const b = nodes[j];
+      const listed = a.relationships.some(r => r.factionId === b.id)
+        || b.relationships.some(r => r.factionId === a.id);
+      if (!listed) continue;
+
+      const aToB = getRelationshipStatus(a, b);
+      const bToA = getRelationshipStatus(b, a);
+      edges.push({ a, b, aToB, bToA, asymmetric: aToB !== bToA });
+    }
+  }
+
+  return edges;
+}
+
+/**
+ * Node positions for the graph: factions evenly spaced on a circle, the first at the top
+ */
+export function layoutFactionGraph(
+  factions: Faction[],
+  center: { x: number; y: number },
+  radius: number
+): Map<string, { x: number; y: number }> {
+  const positions = new Map<string, { x: number; y: number }>();
+  factions.forEach((faction, i) => {
+    if (factions.length === 1) {
+      positions.set(faction.id, center);
+      return;
+    }
+    const angle = (2 * Math.PI * i) / factions.length - Math.PI / 2;
+    positions.set(faction.id, {
+      x: center.x + radius * Math.cos(angle),
+      y: center.y + radius * Math.sin(angle),
+    });
+  });
+  return positions;
+}
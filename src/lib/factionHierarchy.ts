@@ -0,0 +1,148 @@
+import type { Faction, FactionRelationshipStatus } from './types';
+import { coordToKey } from './types';
+
+// ============================================
+// FACTION HIERARCHY
+// Factions can be vassals of a liege faction and members of a region;
+// regions can sit inside larger regions. Links that point at a missing
+// faction or one of the wrong type are ignored.
+// ============================================
+
+/**
+ * The faction's liege, or the region enclosing a region
+ */
+export function getParent(factions: Faction[], faction: Faction): Faction | undefined {
+  if (!faction.parentId) return undefined;
+  const parent = factions.find(f => f.id === faction.parentId);
+  return parent && parent.type === faction.type && parent.id !== faction.id ? parent : undefined;
+}
+
+/**
+ * The region a faction belongs to (for a region, the region enclosing it)
+ */
+export function getRegion(factions: Faction[], faction: Faction): Faction | undefined {
+  if (faction.type === 'region') return getParent(factions, faction);
+  const region = faction.regionId ? factions.find(f => f.id === faction.regionId) : undefined;
+  return region?.type === 'region' ? region : undefined;
+}
+
+/**
+ * Direct vassals of a faction, or the sub-regions and member factions of a region
+ */
+export function getChildren(factions: Faction[], parent: Faction): Faction[] {
+  return factions.filter(f =>
+    getParent(factions, f) === parent || (parent.type === 'region' && f.type !== 'region' && getRegion(factions, f) === parent)
+  );
+}
+
+/**
+ * Everything below a faction or region, at any depth
+ */
+export function getDescendants(factions: Faction[], root: Faction): Faction[] {
+  const found = new Map<string, Faction>();
+  const visit = (parent: Faction) => {
+    for (const child of getChildren(factions, parent)) {
+      if (child.id === root.id || found.has(child.id)) continue;
+      found.set(child.id, child);
+      visit(child);
+    }
+  };
+  visit(root);
+  return Array.from(found.values());
+}
+
+/**
+ * Lieges (or enclosing regions) from the nearest up
+ */
+export function getAncestors(factions: Faction[], faction: Faction): Faction[] {
+  const ancestors: Faction[] = [];
+  let parent = getParent(factions, faction);
+  while (parent && parent.id !== faction.id && !ancestors.includes(parent)) {
+    ancestors.push(parent);
+    parent = getParent(factions, parent);
+  }
+  return ancestors;
+}
+
+/**
+ * Factions (or regions) in tree order, each after its parent and indented by
+ * depth; anything caught in a loop is listed at the top level
+ */
+export function flattenHierarchy(factions: Faction[], type: Faction['type']): { faction: Faction; depth: number }[] {
+  const list = factions.filter(f => f.type === type);
+  const rows: { faction: Faction; depth: number }[] = [];
+  const seen = new Set<string>();
+  const visit = (faction: Faction, depth: number) => {
+    if (seen.has(faction.id)) return;
+    seen.add(faction.id);
+    rows.push({ faction, depth });
+    list.filter(f => getParent(factions, f) === faction).forEach(f => visit(f, depth + 1));
+  };
+
+  list.filter(f => !getParent(factions, f)).forEach(f => visit(f, 0));
+  list.forEach(f => visit(f, 0));
+  return rows;
+}
+
+/**
+ * Factions (or regions) that can be made the parent without creating a loop
+ */
+export function getParentOptions(factions: Faction[], faction: Faction): Faction[] {
+  const below = new Set(getDescendants(factions, faction).map(f => f.id));
+  return factions.filter(f => f.type === faction.type && f.id !== faction.id && !below.has(f.id));
+}
+
+/**
+ * Hexes held by a faction and everything below it, each counted once
+ */
+export function getTerritoryRollup(factions: Faction[], faction: Faction): number {
+  const keys = new Set<string>();
+  for (const f of [faction, ...getDescendants(factions, faction)]) {
+    f.domainHexes.forEach(c => keys.add(coordToKey(c)));
+  }
+  return keys.size;
+}
+
+/**
+ * Point links at a removed (or absorbed) faction or region somewhere else:
+ * its vassals, sub-regions and members pass to `replacementId` (usually its
+ * own parent), or become independent without one
+ */
+export function reassignHierarchyLinks(factions: Faction[], removedId: string, replacementId?: string): Faction[] {
+  const replace = (id: string | undefined, self: string) =>
+    id === removedId ? (replacementId !== self ? replacementId : undefined) : id;
+
+  return factions
+    .filter(f => f.id !== removedId)
+    .map(f => f.parentId === removedId || f.regionId === removedId
+      ? { ...f, parentId: replace(f.parentId, f.id), regionId: replace(f.regionId, f.id) }
+      : f
+    );
+}
+
+// ============================================
+// RELATIONSHIP INHERITANCE
+// ============================================
+
+export interface EffectiveRelationship {
+  status: FactionRelationshipStatus;
+  inheritedFrom?: Faction;          // Liege whose relationship applies, if not the faction's own
+}
+
+/**
+ * How a faction stands towards another, counting relationships inherited from
+ * its lieges (for vassals that inherit); indifference if nobody lists one
+ */
+export function getEffectiveRelationship(factions: Faction[], from: Faction, to: Faction): EffectiveRelationship {
+  const own = from.relationships.find(r => r.factionId === to.id);
+  if (own) return { status: own.status };
+  if (from.type === 'faction' && from.inheritRelationships) {
+    // Climb while each liege also inherits from its own
+    for (const liege of getAncestors(factions, from)) {
+      const inherited = liege.relationships.find(r => r.factionId === to.id);
+      if (inherited) return { status: inherited.status, inheritedFrom: liege };
+      if (!liege.inheritRelationships) break;
+    }
+  }
+  return { status: 'indifference' };
+}
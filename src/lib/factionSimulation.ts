@@ -0,0 +1,213 @@
+import type { CampaignMap, Faction, FactionRelationshipStatus, HexCoord } from './types';
+import { coordToKey, RELATIONSHIP_LABELS } from './types';
+import { getNeighbors, getDisplayCoord, coordEquals } from './hexUtils';
+import { addLogEntry, createLogEntry, getCalendar } from './sessionLog';
+import type { DomainInfo } from './generator/types';
+import { findContestedHexes } from './generator/politicalGenerator';
+import { reassignHierarchyLinks } from './factionHierarchy';
+import { rollDie, pickRandom, chanceIn6 } from './generator/tableSystem';
+import type { RandomSource } from './generator/random';
+
+// ============================================
+// FACTION TURNS
+// Between sessions the factions fight, grow, absorb their allies and
+// drift in and out of friendship; each turn's events go to the session log
+// ============================================
+
+// Worst to best; relationships drift one step at a time
+const RELATIONSHIP_LADDER: FactionRelationshipStatus[] = [
+  'open_war', 'hostility', 'indifference', 'peace_trade', 'alliance',
+];
+
+const RAID_CHANCE_IN_6 = 2;          // War with no contested hexes: attacker seizes a border hex
+const GROWTH_CHANCE_IN_6 = 1;        // Claim an unclaimed neighboring hex
+const MERGE_CHANCE_IN_6 = 1;         // Larger ally absorbs one at most half its size
+const DRIFT_CHANCE_IN_6 = 1;         // Relationship moves one step along the ladder
+
+export type FactionTurnEventKind = 'capture' | 'growth' | 'merge' | 'diplomacy';
+
+export interface FactionTurnEvent {
+  kind: FactionTurnEventKind;
+  text: string;
+  hexCoord?: HexCoord;
+}
+
+export interface FactionTurnResult {
+  map: CampaignMap;
+  turn: number;
+  events: FactionTurnEvent[];
+}
+
+function toDomain(faction: Faction): DomainInfo {
+  return {
+    centerHex: faction.sourceHexCoord,
+    hexes: faction.domainHexes,
+    size: faction.domainHexes.length > 1 ? 'large' : 'small',
+    settlementType: 'city', // Doesn't matter for contested hexes
+  };
+}
+
+function getRelationship(a: Faction, b: Faction): FactionRelationshipStatus | undefined {
+  return a.relationships.find(r => r.factionId === b.id)?.status
+    ?? b.relationships.find(r => r.factionId === a.id)?.status;
+}
+
+/**
+ * Set the relationship on both sides so the factions agree
+ */
+function setRelationship(a: Faction, b: Faction, status: FactionRelationshipStatus): void {
+  for (const [from, to] of [[a, b], [b, a]]) {
+    from.relationships = [
+      ...from.relationships.filter(r => r.factionId !== to.id),
+      { factionId: to.id, status },
+    ];
+  }
+}
+
+function removeHex(faction: Faction, coord: HexCoord): void {
+  faction.domainHexes = faction.domainHexes.filter(c => !coordEquals(c, coord));
+}
+
+function addHex(faction: Faction, coord: HexCoord): void {
+  if (!faction.domainHexes.some(c => coordEquals(c, coord))) {
+    faction.domainHexes = [...faction.domainHexes, coord];
+  }
+}
+
+/**
+ * On-map hexes next to a faction's domain that it doesn't hold yet
+ */
+function getBorderHexes(faction: Faction, onMap: Set<string>): HexCoord[] {
+  const held = new Set(faction.domainHexes.map(coordToKey));
+  const border = new Map<string, HexCoord>();
+  for (const hex of faction.domainHexes) {
+    for (const neighbor of getNeighbors(hex)) {
+      const key = coordToKey(neighbor);
+      if (onMap.has(key) && !held.has(key)) border.set(key, neighbor);
+    }
+  }
+  return Array.from(border.values());
+}
+
+/**
+ * Fight over the hexes two warring factions both claim (opposed d6, ties
+ * change nothing); with nothing contested, one side may raid a border hex.
+ * Factions never lose their seat.
+ */
+function resolveWar(a: Faction, b: Faction, onMap: Set<string>, where: (c: HexCoord) => string, rng: RandomSource): FactionTurnEvent[] {
+  const events: FactionTurnEvent[] = [];
+  const contested = findContestedHexes(toDomain(a), toDomain(b));
+
+  if (contested.length > 0) {
+    for (const coord of contested) {
+      const rollA = rollDie(6, rng);
+      const rollB = rollDie(6, rng);
+      if (rollA === rollB) continue;
+      const [winner, loser] = rollA > rollB ? [a, b] : [b, a];
+      if (coordEquals(loser.sourceHexCoord, coord)) continue;
+      removeHex(loser, coord);
+      events.push({ kind: 'capture', text: `${winner.name} drove ${loser.name} out of ${where(coord)}`, hexCoord: coord });
+    }
+    return events;
+  }
+
+  if (!chanceIn6(RAID_CHANCE_IN_6, rng)) return events;
+  const [attacker, defender] = rng() < 0.5 ? [a, b] : [b, a];
+  const reachable = new Set(getBorderHexes(attacker, onMap).map(coordToKey));
+  const targets = defender.domainHexes.filter(c =>
+    reachable.has(coordToKey(c)) && !coordEquals(c, defender.sourceHexCoord)
+  );
+  if (targets.length === 0) return events;
+
+  const coord = pickRandom(targets, rng);
+  removeHex(defender, coord);
+  addHex(attacker, coord);
+  events.push({ kind: 'capture', text: `${attacker.name} seized ${where(coord)} from ${defender.name}`, hexCoord: coord });
+  return events;
+}
+
+/**
+ * Play one faction turn: wars, then growth, alliance mergers and diplomatic
+ * drift. Only factions take part (regions are left alone). The events are
+ * logged on the current in-game day.
+ */
+export function advanceFactionTurn(map: CampaignMap, rng: RandomSource = Math.random): FactionTurnResult {
+  const turn = (map.factionTurn || 0) + 1;
+  const where = (coord: HexCoord) => getDisplayCoord(coord, map.gridConfig);
+  const onMap = new Set(map.hexes.map(h => coordToKey(h.coord)));
+  const events: FactionTurnEvent[] = [];
+
+  // Work on copies; regions pass through untouched
+  let factions = map.factions.map(f => f.type === 'faction'
+    ? { ...f, domainHexes: [...f.domainHexes], relationships: [...f.relationships] }
+    : f
+  );
+  const active = () => factions.filter(f => f.type === 'faction');
+  const eachPair = (fn: (a: Faction, b: Faction) => void) => {
+    const list = active();
+    for (let i = 0; i < list.length; i++) {
+      for (let j = i + 1; j < list.length; j++) fn(list[i], list[j]);
+    }
+  };
+
+  // War
+  eachPair((a, b) => {
+    if (getRelationship(a, b) === 'open_war') {
+      events.push(...resolveWar(a, b, onMap, where, rng));
+    }
+  });
+
+  // Growth into unclaimed land
+  const claimed = new Set(active().flatMap(f => f.domainHexes.map(coordToKey)));
+  for (const faction of active()) {
+    if (faction.domainHexes.length === 0 || !chanceIn6(GROWTH_CHANCE_IN_6, rng)) continue;
+    const open = getBorderHexes(faction, onMap).filter(c => !claimed.has(coordToKey(c)));
+    if (open.length === 0) continue;
+    const coord = pickRandom(open, rng);
+    addHex(faction, coord);
+    claimed.add(coordToKey(coord));
+    events.push({ kind: 'growth', text: `${faction.name} expanded into ${where(coord)}`, hexCoord: coord });
+  }
+
+  // Alliances: the larger ally may absorb a much smaller one
+  const absorbed = new Map<string, string>(); // Absorbed faction -> the ally that took it
+  eachPair((a, b) => {
+    if (absorbed.has(a.id) || absorbed.has(b.id) || getRelationship(a, b) !== 'alliance') return;
+    const [larger, smaller] = a.domainHexes.length >= b.domainHexes.length ? [a, b] : [b, a];
+    if (smaller.domainHexes.length * 2 > larger.domainHexes.length) return;
+    if (!chanceIn6(MERGE_CHANCE_IN_6, rng)) return;
+    smaller.domainHexes.forEach(c => addHex(larger, c));
+    absorbed.set(smaller.id, larger.id);
+    events.push({ kind: 'merge', text: `${larger.name} absorbed its ally ${smaller.name}`, hexCoord: smaller.sourceHexCoord });
+  });
+  for (const [smallerId, largerId] of absorbed) {
+    factions = reassignHierarchyLinks(factions, smallerId, largerId)
+      .map(f => ({ ...f, relationships: f.relationships.filter(r => r.factionId !== smallerId) }));
+  }
+
+  // Diplomacy: relationships drift a step at a time
+  eachPair((a, b) => {
+    const status = getRelationship(a, b);
+    if (!status || !chanceIn6(DRIFT_CHANCE_IN_6, rng)) return;
+    const index = RELATIONSHIP_LADDER.indexOf(status);
+    let next = index + (rng() < 0.5 ? -1 : 1);
+    if (next < 0 || next >= RELATIONSHIP_LADDER.length) next = index - (next - index);
+    const nextStatus = RELATIONSHIP_LADDER[next];
+    setRelationship(a, b, nextStatus);
+    events.push({
+      kind: 'diplomacy',
+      text: `${a.name} and ${b.name}: ${RELATIONSHIP_LABELS[status].label} → ${RELATIONSHIP_LABELS[nextStatus].label}`,
+    });
+  });
+
+  const day = getCalendar(map).currentDay;
+  let next: CampaignMap = { ...map, factions, factionTurn: turn, updatedAt: new Date().toISOString() };
+  if (events.length === 0) {
+    next = addLogEntry(next, createLogEntry('faction', `Faction turn ${turn}: all quiet`, undefined, day));
+  }
+  for (const event of events) {
+    next = addLogEntry(next, createLogEntry('faction', `Faction turn ${turn}: ${event.text}`, event.hexCoord, day));
+  }
+
+  return { map: next, turn, events };
+}
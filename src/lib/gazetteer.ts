@@ -0,0 +1,304 @@
+import type { CampaignMap, Faction, Hex } from './types';
+import type { SettlementExpansion, DungeonStocking, LairRoom } from './generator/types';
+import { findMonsterStats } from './generator/monsterStats';
+import { coordToKey, getEffectiveTerrain, hexHasUserData, DEFAULT_TERRAIN_TYPES, RELATIONSHIP_LABELS } from './types';
+import { axialToOffset, getDisplayCoord, getHexAt } from './hexUtils';
+import { detailsToFeatureNotes, formatGeneratedDetails, formatLabel } from './featureUtils';
+import { getPathsAtHex, getPathLabel } from './paths';
+import { getParent, getRegion, getChildren, getTerritoryRollup, getEffectiveRelationship } from './factionHierarchy';
+import { downloadFile, getMapFileStem } from './storage';
+
+// ============================================
+// GAZETTEER (Markdown hex key)
+// ============================================
+
+export interface GazetteerOptions {
+  includeEmptyHexes: boolean;        // Hexes with no feature, name, tags or notes
+  includeOriginalDetails: boolean;   // Generated details the GM has since edited
+  includeFactions: boolean;
+}
+
+export const DEFAULT_GAZETTEER_OPTIONS: GazetteerOptions = {
+  includeEmptyHexes: false,
+  includeOriginalDetails: false,
+  includeFactions: true,
+};
+
+/**
+ * Keep user text from breaking out of a table cell
+ */
+function tableCell(text: string): string {
+  return text.replace(/\|/g, '\\|').replace(/\n/g, ' ');
+}
+
+/**
+ * Multi-line user text as a Markdown paragraph (hard line breaks)
+ */
+function paragraph(text: string): string {
+  return text.trim().split('\n').join('  \n');
+}
+
+function hexTitle(hex: Hex, map: CampaignMap): string {
+  const coord = getDisplayCoord(hex.coord, map.gridConfig);
+  return hex.campaignData?.name ? `${coord} · ${hex.campaignData.name}` : coord;
+}
+
+/**
+ * Feature notes as shown in the hex panel: the GM's notes, or the generated details
+ */
+function getFeatureNotes(hex: Hex): Record<string, string> {
+  const notes = hex.campaignData?.featureNotes;
+  if (notes && Object.values(notes).some(Boolean)) return notes;
+  return hex.feature ? detailsToFeatureNotes(hex.feature.details) : {};
+}
+
+/**
+ * Expanded settlement: NPC roster, shops and rumors (with the GM's truth rating)
+ */
+function renderSettlementExpansion(settlement: SettlementExpansion, map: CampaignMap): string[] {
+  const lines: string[] = [];
+  if (settlement.npcs.length > 0) {
+    lines.push('**NPCs.**', '');
+    for (const npc of settlement.npcs) {
+      lines.push(`- ${npc.name}, ${npc.occupation.toLowerCase()}: ${npc.personality.toLowerCase()}; wants ${npc.want.toLowerCase()}`);
+    }
+    lines.push('');
+  }
+  if (settlement.shops.length > 0) {
+    lines.push(`**Shops & services.** ${settlement.shops.map(s => `${s.service} (${s.name}, ${s.quality.toLowerCase()})`).join(', ')}`, '');
+  }
+  if (settlement.rumors.length > 0) {
+    lines.push('**Rumors.**', '');
+    for (const rumor of settlement.rumors) {
+      lines.push(`- ${rumor.text} → ${getDisplayCoord(rumor.hexCoord, map.gridConfig)} *(${rumor.truth.toLowerCase()})*`);
+    }
+    lines.push('');
+  }
+  return lines;
+}
+
+/**
+ * Lair: the monster's stats from the campaign's monster list, then its chambers
+ */
+function renderLair(details: Record<string, unknown>, map: CampaignMap): string[] {
+  const lines: string[] = [];
+  const monsterType = typeof details.monsterType === 'string' ? details.monsterType : '';
+  const stats = monsterType ? findMonsterStats(monsterType, map.settings.monsterStats || []) : undefined;
+  if (stats) {
+    lines.push(`**${stats.name}.** HD ${stats.hd}, AC ${stats.ac}${stats.notes ? `. ${stats.notes}` : ''}`, '');
+  }
+  const rooms = Array.isArray(details.rooms) ? details.rooms as LairRoom[] : [];
+  rooms.forEach((room, i) => {
+    const creatures = room.creatures > 0 ? `, ${room.creatures} × ${monsterType.toLowerCase()}` : '';
+    lines.push(`${i + 1}. *${room.name}:* ${room.feature.toLowerCase()}${creatures}${room.hasTreasure ? ', hoard' : ''}`);
+  });
+  if (rooms.length > 0) lines.push('');
+  return lines;
+}
+
+/**
+ * Stocked dungeon: entrances, then a numbered room key per level
+ */
+function renderDungeonStocking(dungeon: DungeonStocking): string[] {
+  const lines: string[] = [
+    `**Entrances.** ${dungeon.entrances.map(e => `${e.description} (to level ${e.toLevel})`).join(', ')}`,
+    '',
+  ];
+  for (const level of dungeon.levels) {
+    lines.push(`**Level ${level.depth}** — ${level.ruler === 'boss' ? 'boss' : 'faction'}: ${level.rulerName}`, '');
+    for (const room of level.rooms) {
+      const treasure = room.treasure ? `, with ${room.treasure.toLowerCase()}` : '';
+      lines.push(`${room.number}. *${formatLabel(room.content)}:* ${room.description}${treasure}`);
+    }
+    lines.push('');
+  }
+  return lines;
+}
+
+function renderHexSection(
+  hex: Hex,
+  map: CampaignMap,
+  factionsByHex: Map<string, Faction[]>,
+  options: GazetteerOptions
+): string {
+  const data = hex.campaignData || {};
+  const terrains = [...DEFAULT_TERRAIN_TYPES, ...(map.settings.customTerrainTypes || [])];
+  const terrainId = getEffectiveTerrain(hex);
+  const lines: string[] = [`### ${hexTitle(hex, map)}`, ''];
+
+  const facts: string[] = [`**Terrain:** ${terrains.find(t => t.id === terrainId)?.name || terrainId}`];
+  if (hex.featureType) {
+    const subtype = hex.feature?.details.type;
+    facts.push(`**Feature:** ${formatLabel(hex.featureType)}${typeof subtype === 'string' ? ` (${formatLabel(subtype)})` : ''}`);
+  }
+  const factions = factionsByHex.get(coordToKey(hex.coord)) || [];
+  if (factions.length > 0) {
+    facts.push(`**Controlled by:** ${factions.map(f => f.name).join(', ')}`);
+  }
+  const paths = getPathsAtHex(map.paths || [], hex.coord);
+  if (paths.length > 0) {
+    facts.push(`**Paths:** ${paths.map(getPathLabel).join(', ')}`);
+  }
+  if (data.tags?.length) {
+    facts.push(`**Tags:** ${data.tags.join(', ')}`);
+  }
+  if (!data.explored) {
+    facts.push('*Unexplored*');
+  }
+  if (data.hidden) {
+    facts.push('*Hidden from players*');
+  }
+  lines.push(facts.join('  \n'), '');
+
+  const featureNotes = Object.entries(getFeatureNotes(hex)).filter(([, value]) => value);
+  if (featureNotes.length > 0) {
+    for (const [label, value] of featureNotes) {
+      lines.push(`- **${label}:** ${paragraph(value)}`);
+    }
+    lines.push('');
+  }
+
+  if (hex.feature?.settlement) {
+    lines.push(...renderSettlementExpansion(hex.feature.settlement, map));
+  }
+  if (hex.featureType === 'lair' && hex.feature) {
+    lines.push(...renderLair(hex.feature.details, map));
+  }
+  if (hex.feature?.dungeon) {
+    lines.push(...renderDungeonStocking(hex.feature.dungeon));
+  }
+
+  if (options.includeOriginalDetails && hex.feature?.originalDetails && data.featureNotes) {
+    const original = formatGeneratedDetails(hex.feature.originalDetails);
+    if (original) {
+      lines.push('> *Originally generated:*', ...original.split('\n').map(l => `> ${l}  `), '');
+    }
+  }
+
+  const notes = Object.entries(data.notes || {}).filter(([, value]) => value.trim());
+  for (const [key, value] of notes) {
+    lines.push(`**${key}.** ${paragraph(value)}`, '');
+  }
+
+  if (data.playerNotes?.trim()) {
+    lines.push(`**Player notes.** ${paragraph(data.playerNotes)}`, '');
+  }
+
+  return lines.join('\n');
+}
+
+function renderFactionSection(faction: Faction, map: CampaignMap): string {
+  const lines: string[] = [`### ${faction.name}`, ''];
+
+  const facts = [`**Hexes:** ${faction.domainHexes.length}`];
+  if (faction.type !== 'region') {
+    const source = getHexAt(map.hexes, faction.sourceHexCoord);
+    facts.unshift(`**Seat:** ${source ? hexTitle(source, map) : getDisplayCoord(faction.sourceHexCoord, map.gridConfig)}`);
+  }
+  const parent = getParent(map.factions, faction);
+  const region = faction.type !== 'region' ? getRegion(map.factions, faction) : undefined;
+  const children = getChildren(map.factions, faction);
+  if (parent) facts.push(`**${faction.type === 'region' ? 'Part of' : 'Liege'}:** ${parent.name}`);
+  if (region) facts.push(`**Region:** ${region.name}`);
+  if (children.length > 0) {
+    facts.push(`**${faction.type === 'region' ? 'Contains' : 'Vassals'}:** ${children.map(c => c.name).join(', ')}`);
+    facts.push(`**Total hexes:** ${getTerritoryRollup(map.factions, faction)}`);
+  }
+  lines.push(facts.join('  \n'), '');
+
+  for (const [key, value] of Object.entries(faction.notes || {})) {
+    if (value.trim()) {
+      lines.push(`**${key}.** ${paragraph(value)}`, '');
+    }
+  }
+
+  if (faction.domainHexes.length > 0) {
+    const coords = faction.domainHexes
+      .map(c => ({ coord: c, ...axialToOffset(c, map.gridConfig) }))
+      .sort((a, b) => a.col - b.col || a.row - b.row)
+      .map(c => getDisplayCoord(c.coord, map.gridConfig));
+    lines.push(`**Domain:** ${coords.join(', ')}`, '');
+  }
+
+  // Own relationships, plus any inherited from a liege
+  const relationships = map.factions
+    .filter(other => other.id !== faction.id)
+    .filter(other => faction.relationships.some(r => r.factionId === other.id)
+      || getEffectiveRelationship(map.factions, faction, other).inheritedFrom)
+    .map(other => ({ other, ...getEffectiveRelationship(map.factions, faction, other) }));
+  if (relationships.length > 0) {
+    lines.push('| Faction | Relationship |', '| --- | --- |');
+    for (const { other, status, inheritedFrom } of relationships) {
+      const via = inheritedFrom ? ` (via ${tableCell(inheritedFrom.name)})` : '';
+      lines.push(`| ${tableCell(other.name)} | ${RELATIONSHIP_LABELS[status].label}${via} |`);
+    }
+    lines.push('');
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Build a Markdown gazetteer of the map: one section per keyed hex, in
+ * column/row order, followed by factions and regions. Suitable for printing
+ * as-is or converting to PDF.
+ */
+export function buildGazetteer(map: CampaignMap, options: GazetteerOptions = DEFAULT_GAZETTEER_OPTIONS): string {
+  const factionsByHex = new Map<string, Faction[]>();
+  for (const faction of map.factions) {
+    for (const coord of faction.domainHexes) {
+      const key = coordToKey(coord);
+      factionsByHex.set(key, [...(factionsByHex.get(key) || []), faction]);
+    }
+  }
+
+  const hexes = map.hexes
+    .filter(h => options.includeEmptyHexes || h.featureType || hexHasUserData(h))
+    .map(h => ({ hex: h, ...axialToOffset(h.coord, map.gridConfig) }))
+    .sort((a, b) => a.col - b.col || a.row - b.row)
+    .map(h => h.hex);
+
+  const factions = options.includeFactions ? map.factions.filter(f => f.type !== 'region') : [];
+  const regions = options.includeFactions ? map.factions.filter(f => f.type === 'region') : [];
+
+  const parts: string[] = [
+    `# ${map.name}`,
+    '',
+    (map.mode === 'unbounded' ? `${map.hexes.length} hexes · ` : `${map.gridConfig.cols} × ${map.gridConfig.rows} hexes · `) +
+      `${map.hexes.filter(h => h.campaignData?.explored).length} explored` +
+      (map.seed ? ` · seed \`${map.seed}\`` : ''),
+    '',
+    '## Hexes',
+    '',
+  ];
+
+  if (hexes.length === 0) {
+    parts.push('*No keyed hexes.*', '');
+  }
+  for (const hex of hexes) {
+    parts.push(renderHexSection(hex, map, factionsByHex, options));
+  }
+
+  if (factions.length > 0) {
+    parts.push('## Factions', '');
+    for (const faction of factions) {
+      parts.push(renderFactionSection(faction, map));
+    }
+  }
+
+  if (regions.length > 0) {
+    parts.push('## Regions', '');
+    for (const region of regions) {
+      parts.push(renderFactionSection(region, map));
+    }
+  }
+
+  return parts.join('\n').replace(/\n{3,}/g, '\n\n').trimEnd() + '\n';
+}
+
+/**
+ * Download the gazetteer as a Markdown file
+ */
+export function exportGazetteer(map: CampaignMap, options?: GazetteerOptions): void {
+  downloadFile(buildGazetteer(map, options), `${getMapFileStem(map)}.gazetteer.md`, 'text/markdown');
+}
@@ -9,12 +9,13 @@ import { rollOnTable, pickRandom } from './tableSystem';
 import { STARTING_HEX_BIOME, NEXT_HEX_BIOME } from './tables/biomes';
 import { getNeighbors } from '../hexUtils';
 import { coordToKey } from '../types';
+import type { RandomSource } from './random';
 
 /**
  * Generate a random starting biome
  */
-export function generateStartingBiome(): BiomeType {
-  const result = rollOnTable(STARTING_HEX_BIOME);
+export function generateStartingBiome(rng: RandomSource = Math.random): BiomeType {
+  const result = rollOnTable(STARTING_HEX_BIOME, rng);
   return result.value as BiomeType;
 }
 
@@ -22,16 +23,16 @@ export function generateStartingBiome(): BiomeType {
  * Generate biome for a hex based on its neighbors
  * Uses the "Next Hex" table from PDF p.8
  */
-export function generateNextBiome(neighborBiomes: BiomeType[]): BiomeType {
-  const result = rollOnTable(NEXT_HEX_BIOME);
+export function generateNextBiome(neighborBiomes: BiomeType[], rng: RandomSource = Math.random): BiomeType {
+  const result = rollOnTable(NEXT_HEX_BIOME, rng);
   
   if (result.value === 'same') {
     // Use a random neighbor's biome
     if (neighborBiomes.length > 0) {
-      return pickRandom(neighborBiomes);
+      return pickRandom(neighborBiomes, rng);
     }
     // No neighbors, generate a starting biome
-    return generateStartingBiome();
+    return generateStartingBiome(rng);
   }
   
   return result.value as BiomeType;
@@ -69,11 +70,13 @@ export interface TerrainGenerationResult {
  * @param targetCoords - The hexes to generate terrain for
  * @param existingTerrain - Map of existing hex terrain (coord key -> terrain ID)
  * @param options - Generation options
+ * @param rng - Random source (defaults to Math.random)
  */
 export function generateTerrain(
   targetCoords: HexCoord[],
   existingTerrain: Map<string, string>,
-  options: TerrainGeneratorOptions
+  options: TerrainGeneratorOptions,
+  rng: RandomSource = Math.random
 ): TerrainGenerationResult[] {
   const results: TerrainGenerationResult[] = [];
   
@@ -128,10 +131,10 @@ export function generateTerrain(
         }
       }
       
-      biome = generateNextBiome(neighborBiomes);
+      biome = generateNextBiome(neighborBiomes, rng);
     } else {
       // Pure random - use starting biome table
-      biome = generateStartingBiome();
+      biome = generateStartingBiome(rng);
     }
     
     generatedBiomes.set(key, biome);
@@ -153,7 +156,8 @@ export function generateTerrainSpiral(
   centerCoord: HexCoord,
   allCoords: HexCoord[],
   existingTerrain: Map<string, string>,
-  options: TerrainGeneratorOptions
+  options: TerrainGeneratorOptions,
+  rng: RandomSource = Math.random
 ): TerrainGenerationResult[] {
   // Sort coords by distance from center (closest first)
   const sortedCoords = [...allCoords].sort((a, b) => {
@@ -162,7 +166,7 @@ export function generateTerrainSpiral(
     return distA - distB;
   });
   
-  return generateTerrain(sortedCoords, existingTerrain, options);
+  return generateTerrain(sortedCoords, existingTerrain, options, rng);
 }
 
 export default {
@@ -0,0 +1,105 @@
+// ============================================
+// DUNGEON GENERATOR (stocking)
+// Rooms, a boss or faction per level, and entrances for a dungeon feature
+// ============================================
+
+import type {
+  DungeonRoom,
+  DungeonRoomContent,
+  DungeonLevel,
+  DungeonEntrance,
+  DungeonStocking,
+} from './types';
+import { rollOnTable, rollDice, rollDie, chanceIn6 } from './tableSystem';
+import { DUNGEON_TABLES } from './tables/dungeons';
+import type { RandomSource } from './random';
+
+export const ROOMS_PER_LEVEL_DICE = '1d6+5';
+
+export const MONSTERS_PER_ROOM_DICE = '1d6';
+
+export const ENTRANCE_COUNT_DICE = '1d3';
+
+// Chance in 6 that a room also holds treasure, by what else is in it
+export const ROOM_TREASURE_CHANCE: Record<Exclude<DungeonRoomContent, 'treasure'>, number> = {
+  monster: 3,
+  trap: 2,
+  empty: 1,
+};
+
+/**
+ * Number of levels recorded on a dungeon feature (details.levels), at least 1
+ */
+export function getDungeonLevelCount(details: Record<string, unknown>): number {
+  const levels = parseInt(String(details.levels ?? ''), 10);
+  return Number.isFinite(levels) && levels > 0 ? levels : 1;
+}
+
+// ============================================
+// ROOMS & LEVELS
+// ============================================
+
+/**
+ * Stock one room: contents from the 1d6 ratio table, then a treasure check
+ */
+export function stockRoom(number: number, rng: RandomSource = Math.random): DungeonRoom {
+  const tables = DUNGEON_TABLES.room;
+  const content = rollOnTable(tables.contents, rng).value as DungeonRoomContent;
+
+  switch (content) {
+    case 'treasure':
+      return { number, content, description: rollOnTable(tables.treasure, rng).value };
+    case 'monster': {
+      const count = rollDice(MONSTERS_PER_ROOM_DICE, rng);
+      const room: DungeonRoom = { number, content, description: `${count} × ${rollOnTable(tables.monster, rng).value}` };
+      if (chanceIn6(ROOM_TREASURE_CHANCE.monster, rng)) room.treasure = rollOnTable(tables.treasure, rng).value;
+      return room;
+    }
+    case 'trap': {
+      const room: DungeonRoom = { number, content, description: rollOnTable(tables.trap, rng).value };
+      if (chanceIn6(ROOM_TREASURE_CHANCE.trap, rng)) room.treasure = rollOnTable(tables.treasure, rng).value;
+      return room;
+    }
+    default: {
+      const room: DungeonRoom = { number, content: 'empty', description: rollOnTable(tables.empty, rng).value };
+      if (chanceIn6(ROOM_TREASURE_CHANCE.empty, rng)) room.treasure = rollOnTable(tables.treasure, rng).value;
+      return room;
+    }
+  }
+}
+
+/**
+ * Stock a level: room count, rooms, and the boss or faction that holds it
+ */
+export function stockLevel(depth: number, rng: RandomSource = Math.random): DungeonLevel {
+  const tables = DUNGEON_TABLES.level;
+  const roomCount = rollDice(ROOMS_PER_LEVEL_DICE, rng);
+  const rooms = Array.from({ length: roomCount }, (_, i) => stockRoom(i + 1, rng));
+
+  const ruler = rollOnTable(tables.ruler, rng).value === 'faction' ? 'faction' : 'boss';
+  const rulerName = ruler === 'faction'
+    ? rollOnTable(tables.faction, rng).value
+    : `${rollOnTable(tables.bossTrait, rng).value} chief of the ${rollOnTable(DUNGEON_TABLES.room.monster, rng).value.toLowerCase()}`;
+
+  return { depth, ruler, rulerName, rooms };
+}
+
+// ============================================
+// DUNGEON
+// ============================================
+
+/**
+ * Stock a whole dungeon: every level, plus 1d3 entrances
+ * The first entrance always leads to level 1; the others may drop in deeper
+ */
+export function stockDungeon(levelCount: number, rng: RandomSource = Math.random): DungeonStocking {
+  const levels = Array.from({ length: Math.max(1, levelCount) }, (_, i) => stockLevel(i + 1, rng));
+
+  const entranceCount = rollDice(ENTRANCE_COUNT_DICE, rng);
+  const entrances: DungeonEntrance[] = Array.from({ length: entranceCount }, (_, i) => ({
+    description: rollOnTable(DUNGEON_TABLES.entrance, rng).value,
+    toLevel: i === 0 ? 1 : rollDie(levels.length, rng),
+  }));
+
+  return { levels, entrances };
+}
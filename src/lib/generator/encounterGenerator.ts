@@ -0,0 +1,96 @@
+// ============================================
+// ENCOUNTER GENERATOR (wandering monsters)
+// ============================================
+
+import type { TerrainType } from '../types';
+import { DEFAULT_TERRAIN_TYPES } from '../types';
+import type { GeneratedEncounter, TimeOfDay } from './types';
+import { rollOnTable, rollDie, rollDice, pickRandom } from './tableSystem';
+import { BIOME_ENCOUNTER_TABLES } from './tables/biomes';
+import { TERRAIN_TO_BIOME, rollDisposition } from './featureGenerator';
+import type { RandomSource } from './random';
+
+export const DEFAULT_ENCOUNTER_CHANCE = 1;
+
+// Extra chance in 6 when travelling or camping after dark
+export const NIGHT_ENCOUNTER_BONUS = 1;
+
+export const NUMBER_APPEARING_DICE = '2d4';
+
+export const TIME_OF_DAY_OPTIONS: { value: TimeOfDay; label: string }[] = [
+  { value: 'day', label: 'Day' },
+  { value: 'night', label: 'Night' },
+];
+
+/**
+ * Chance in 6 of an encounter in a terrain at a time of day
+ */
+export function getEncounterChance(
+  terrainId: string,
+  timeOfDay: TimeOfDay,
+  customTerrainTypes: TerrainType[] = []
+): number {
+  const terrain = [...DEFAULT_TERRAIN_TYPES, ...customTerrainTypes].find(t => t.id === terrainId);
+  const base = terrain?.encounterChance ?? DEFAULT_ENCOUNTER_CHANCE;
+  return Math.min(6, base + (timeOfDay === 'night' ? NIGHT_ENCOUNTER_BONUS : 0));
+}
+
+/**
+ * Roll who turns up: creature from the terrain's biome table, number appearing
+ * and disposition (2d6). Terrains without a table use a random biome, as lairs do.
+ */
+function rollEncounterDetails(terrainId: string, rng: RandomSource) {
+  const mapped = TERRAIN_TO_BIOME[terrainId] || terrainId;
+  const biome = BIOME_ENCOUNTER_TABLES[mapped]
+    ? mapped
+    : pickRandom(Object.keys(BIOME_ENCOUNTER_TABLES), rng);
+
+  return {
+    biome,
+    creature: rollOnTable(BIOME_ENCOUNTER_TABLES[biome], rng).value,
+    numberAppearing: rollDice(NUMBER_APPEARING_DICE, rng),
+    disposition: rollDisposition(rng),
+  };
+}
+
+/**
+ * Check for a wandering encounter in a hex
+ * With `force`, skips the chance roll and always produces an encounter.
+ */
+export function rollEncounter(
+  terrainId: string,
+  options: { timeOfDay: TimeOfDay; customTerrainTypes?: TerrainType[]; force?: boolean },
+  rng: RandomSource = Math.random
+): GeneratedEncounter {
+  const chance = getEncounterChance(terrainId, options.timeOfDay, options.customTerrainTypes);
+  const result: GeneratedEncounter = {
+    terrainId,
+    timeOfDay: options.timeOfDay,
+    chance,
+    occurred: true,
+  };
+
+  if (!options.force) {
+    result.checkRoll = rollDie(6, rng);
+    result.occurred = result.checkRoll <= chance;
+  }
+
+  if (result.occurred) {
+    Object.assign(result, rollEncounterDetails(terrainId, rng));
+  }
+  return result;
+}
+
+/**
+ * One-line summary of an encounter for the session log
+ */
+export function formatEncounter(encounter: GeneratedEncounter): string {
+  const check = encounter.checkRoll !== undefined
+    ? ` (rolled ${encounter.checkRoll} vs ${encounter.chance}-in-6)`
+    : '';
+  const when = encounter.timeOfDay === 'night' ? ' at night' : '';
+  if (!encounter.occurred) {
+    return `No encounter${when}${check}`;
+  }
+  return `${encounter.numberAppearing} × ${encounter.creature}, ${encounter.disposition?.toLowerCase()}${when}${check}`;
+}
@@ -11,9 +11,14 @@ import type {
   GeneratedFeature,
   GeneratedLandmark,
   GeneratedSettlement,
+  GeneratedLair,
+  LairRoom,
 } from './types';
 import { 
   rollOnTable, 
+  rollDie,
+  rollDice,
+  pickRandom,
   percentageCheck,
 } from './tableSystem';
 import {
@@ -26,6 +31,8 @@ import {
   LANDMARK_CONTENT,
   DISPOSITION,
   LAIR_LAYOUT,
+  LAIR_TREASURE,
+  LAIR_ROOM_FEATURE,
   DUNGEON_LEVELS,
 } from './tables/features';
 import {
@@ -41,6 +48,8 @@ import {
 import { SETTLEMENT_TABLES } from './tables/settlements';
 import { BIOME_ENCOUNTER_TABLES } from './tables/biomes';
 import { generateNameForSettlement } from './nameGenerator';
+import { findMonsterStats } from './monsterStats';
+import { type RandomSource, deriveRandom } from './random';
 
 // ============================================
 // FEATURE TYPE GENERATION
@@ -49,16 +58,16 @@ import { generateNameForSettlement } from './nameGenerator';
 /**
  * Roll for what type of feature is in a hex
  */
-export function rollFeatureType(): FeatureType {
-  const result = rollOnTable(HEX_FEATURE);
+export function rollFeatureType(rng: RandomSource = Math.random): FeatureType {
+  const result = rollOnTable(HEX_FEATURE, rng);
   return result.value as FeatureType;
 }
 
 /**
  * Roll for settlement type
  */
-export function rollSettlementType(): SettlementType {
-  const result = rollOnTable(SETTLEMENT_TYPE);
+export function rollSettlementType(rng: RandomSource = Math.random): SettlementType {
+  const result = rollOnTable(SETTLEMENT_TYPE, rng);
   return result.value as SettlementType;
 }
 
@@ -69,15 +78,18 @@ export function rollSettlementType(): SettlementType {
 /**
  * Roll for landmark category (natural/artificial/magic)
  */
-export function rollLandmarkCategory(): LandmarkCategory {
-  const result = rollOnTable(LANDMARK_CATEGORY);
+export function rollLandmarkCategory(rng: RandomSource = Math.random): LandmarkCategory {
+  const result = rollOnTable(LANDMARK_CATEGORY, rng);
   return result.value as LandmarkCategory;
 }
 
 /**
  * Roll for landmark subcategory based on category
  */
-export function rollLandmarkSubCategory(category: LandmarkCategory): LandmarkSubCategory {
+export function rollLandmarkSubCategory(
+  category: LandmarkCategory,
+  rng: RandomSource = Math.random
+): LandmarkSubCategory {
   let table;
   switch (category) {
     case 'natural':
@@ -90,42 +102,42 @@ export function rollLandmarkSubCategory(category: LandmarkCategory): LandmarkSub
       table = MAGIC_LANDMARK_TYPE;
       break;
   }
-  const result = rollOnTable(table);
+  const result = rollOnTable(table, rng);
   return result.value as LandmarkSubCategory;
 }
 
 /**
  * Roll for the specific landmark name based on subcategory
  */
-export function rollLandmarkName(subCategory: LandmarkSubCategory): string {
+export function rollLandmarkName(subCategory: LandmarkSubCategory, rng: RandomSource = Math.random): string {
   const table = LANDMARK_DETAIL_TABLES[subCategory];
   if (!table) {
     console.warn(`No table found for subcategory: ${subCategory}`);
     return 'Unknown landmark';
   }
-  const result = rollOnTable(table);
+  const result = rollOnTable(table, rng);
   return result.value;
 }
 
 /**
  * Roll for landmark content type
  */
-export function rollLandmarkContent(): LandmarkContent {
-  const result = rollOnTable(LANDMARK_CONTENT);
+export function rollLandmarkContent(rng: RandomSource = Math.random): LandmarkContent {
+  const result = rollOnTable(LANDMARK_CONTENT, rng);
   return result.value as LandmarkContent;
 }
 
 /**
  * Check if landmark has treasure based on content type
  */
-export function checkLandmarkTreasure(content: LandmarkContent): boolean {
+export function checkLandmarkTreasure(content: LandmarkContent, rng: RandomSource = Math.random): boolean {
   switch (content) {
     case 'hazard':
-      return percentageCheck(25);
+      return percentageCheck(25, rng);
     case 'empty':
-      return percentageCheck(15);
+      return percentageCheck(15, rng);
     case 'monsters':
-      return percentageCheck(50);
+      return percentageCheck(50, rng);
     case 'special':
       return true; // Variable - DM decides
     default:
@@ -136,12 +148,12 @@ export function checkLandmarkTreasure(content: LandmarkContent): boolean {
 /**
  * Generate a complete landmark
  */
-export function generateLandmark(): GeneratedLandmark {
-  const category = rollLandmarkCategory();
-  const subCategory = rollLandmarkSubCategory(category);
-  const nature = rollLandmarkName(subCategory); // "Nature" per the Sandbox Generator book
-  const content = rollLandmarkContent();
-  const hasTreasure = checkLandmarkTreasure(content);
+export function generateLandmark(rng: RandomSource = Math.random): GeneratedLandmark {
+  const category = rollLandmarkCategory(rng);
+  const subCategory = rollLandmarkSubCategory(category, rng);
+  const nature = rollLandmarkName(subCategory, rng); // "Nature" per the Sandbox Generator book
+  const content = rollLandmarkContent(rng);
+  const hasTreasure = checkLandmarkTreasure(content, rng);
 
   const landmark: GeneratedLandmark = {
     category,
@@ -153,27 +165,27 @@ export function generateLandmark(): GeneratedLandmark {
 
   // Add content-specific details (flattened for display)
   if (content === 'hazard') {
-    const hazardResult = rollOnTable(HAZARD_TABLE);
+    const hazardResult = rollOnTable(HAZARD_TABLE, rng);
     landmark.hazard = hazardResult.value;
   } else if (content === 'empty') {
-    const infoResult = rollOnTable(EMPTY_INFO_TABLE);
+    const infoResult = rollOnTable(EMPTY_INFO_TABLE, rng);
     landmark.information = infoResult.value;
   } else if (content === 'special') {
-    const specialResult = rollOnTable(SPECIAL_TABLE);
+    const specialResult = rollOnTable(SPECIAL_TABLE, rng);
     landmark.special = specialResult.value;
 
     // Roll on the appropriate sub-table based on special type
     if (specialResult.value === 'Arbitrate a dispute') {
-      const disputeResult = rollOnTable(DISPUTES_TABLE);
+      const disputeResult = rollOnTable(DISPUTES_TABLE, rng);
       landmark.dispute = disputeResult.value;
     } else if (specialResult.value === 'Prevent a threat') {
-      const threatResult = rollOnTable(THREATS_TABLE);
+      const threatResult = rollOnTable(THREATS_TABLE, rng);
       landmark.threat = threatResult.value;
     } else if (specialResult.value === 'Uncover a mystery') {
-      const mysteryResult = rollOnTable(MYSTERIES_TABLE);
+      const mysteryResult = rollOnTable(MYSTERIES_TABLE, rng);
       landmark.mystery = mysteryResult.value;
     } else if (specialResult.value === 'NPC(s)/Monster(s) in need') {
-      const problemResult = rollOnTable(NPC_PROBLEMS_TABLE);
+      const problemResult = rollOnTable(NPC_PROBLEMS_TABLE, rng);
       landmark.npcProblem = problemResult.value;
     }
     // "Solve a puzzle/riddle" and "Related to landmark" don't have sub-tables
@@ -190,8 +202,8 @@ export function generateLandmark(): GeneratedLandmark {
 /**
  * Check if a 1-in-6 chance succeeds (roll 1 on d6)
  */
-function oneInSixChance(): boolean {
-  return Math.floor(Math.random() * 6) + 1 === 1;
+function oneInSixChance(rng: RandomSource): boolean {
+  return rollDie(6, rng) === 1;
 }
 
 /**
@@ -201,17 +213,17 @@ function oneInSixChance(): boolean {
  * - disposition (always)
  * - secret (1-in-6 chance)
  */
-function generateHamletDetails(): Record<string, string> {
+function generateHamletDetails(rng: RandomSource): Record<string, string> {
   const tables = SETTLEMENT_TABLES.hamlet;
   const details: Record<string, string> = {};
   
-  details.building = rollOnTable(tables.building).value;
-  details.layout = rollOnTable(tables.layout).value;
-  details.disposition = rollOnTable(tables.disposition).value;
+  details.building = rollOnTable(tables.building, rng).value;
+  details.layout = rollOnTable(tables.layout, rng).value;
+  details.disposition = rollOnTable(tables.disposition, rng).value;
   
   // Secret is only rolled on 1-in-6 chance
-  if (oneInSixChance()) {
-    details.secret = rollOnTable(tables.secret).value;
+  if (oneInSixChance(rng)) {
+    details.secret = rollOnTable(tables.secret, rng).value;
   }
   
   return details;
@@ -230,37 +242,37 @@ function generateHamletDetails(): Record<string, string> {
  * - secret (1-in-6 chance)
  * - event (1-in-6 chance)
  */
-function generateVillageDetails(): Record<string, string> {
+function generateVillageDetails(rng: RandomSource): Record<string, string> {
   const tables = SETTLEMENT_TABLES.village;
   const details: Record<string, string> = {};
   
-  details.size = rollOnTable(tables.size).value;
-  details.layout = rollOnTable(tables.layout).value;
-  details.disposition = rollOnTable(tables.disposition).value;
-  details.ruler = rollOnTable(tables.ruler).value;
+  details.size = rollOnTable(tables.size, rng).value;
+  details.layout = rollOnTable(tables.layout, rng).value;
+  details.disposition = rollOnTable(tables.disposition, rng).value;
+  details.ruler = rollOnTable(tables.ruler, rng).value;
   
   // Additional occupation (1-in-6 chance)
-  if (oneInSixChance()) {
-    details.occupation = rollOnTable(tables.occupation).value;
+  if (oneInSixChance(rng)) {
+    details.occupation = rollOnTable(tables.occupation, rng).value;
   }
   
   // Special location (always have at least one)
-  details.specialLocation = rollOnTable(tables.specialLocation).value;
+  details.specialLocation = rollOnTable(tables.specialLocation, rng).value;
   
   // Defense (roll once for small/medium villages)
-  details.defense = rollOnTable(tables.defense).value;
+  details.defense = rollOnTable(tables.defense, rng).value;
   
   // Notable NPC (always have at least one)
-  details.notableNpc = rollOnTable(tables.notableNpc).value;
+  details.notableNpc = rollOnTable(tables.notableNpc, rng).value;
   
   // Secret (1-in-6 chance)
-  if (oneInSixChance()) {
-    details.secret = rollOnTable(tables.secret).value;
+  if (oneInSixChance(rng)) {
+    details.secret = rollOnTable(tables.secret, rng).value;
   }
   
   // Event (1-in-6 chance)
-  if (oneInSixChance()) {
-    details.event = rollOnTable(tables.event).value;
+  if (oneInSixChance(rng)) {
+    details.event = rollOnTable(tables.event, rng).value;
   }
   
   return details;
@@ -278,35 +290,35 @@ function generateVillageDetails(): Record<string, string> {
  * - disposition (always)
  * - event (1-in-6 chance)
  */
-function generateCityDetails(): Record<string, string> {
+function generateCityDetails(rng: RandomSource): Record<string, string> {
   const tables = SETTLEMENT_TABLES.city;
   const details: Record<string, string> = {};
   
-  details.size = rollOnTable(tables.size).value;
-  details.disposition = rollOnTable(tables.disposition).value;
-  details.ruler = rollOnTable(tables.ruler).value;
-  details.appearance = rollOnTable(tables.appearance).value;
+  details.size = rollOnTable(tables.size, rng).value;
+  details.disposition = rollOnTable(tables.disposition, rng).value;
+  details.ruler = rollOnTable(tables.ruler, rng).value;
+  details.appearance = rollOnTable(tables.appearance, rng).value;
   
   // Occupation (at least one)
-  details.occupation = rollOnTable(tables.occupation).value;
+  details.occupation = rollOnTable(tables.occupation, rng).value;
   
   // Characteristic (roll twice, filter "Nothing special")
-  const char1 = rollOnTable(tables.characteristic).value;
-  const char2 = rollOnTable(tables.characteristic).value;
+  const char1 = rollOnTable(tables.characteristic, rng).value;
+  const char2 = rollOnTable(tables.characteristic, rng).value;
   const characteristics = [char1, char2].filter(c => c !== 'Nothing special');
   if (characteristics.length > 0) {
     details.characteristic = characteristics.join(', ');
   }
   
   // Special location
-  details.specialLocation = rollOnTable(tables.specialLocation).value;
+  details.specialLocation = rollOnTable(tables.specialLocation, rng).value;
   
   // Notable NPC
-  details.notableNpc = rollOnTable(tables.notableNpc).value;
+  details.notableNpc = rollOnTable(tables.notableNpc, rng).value;
   
   // Event (1-in-6 chance)
-  if (oneInSixChance()) {
-    details.event = rollOnTable(tables.event).value;
+  if (oneInSixChance(rng)) {
+    details.event = rollOnTable(tables.event, rng).value;
   }
   
   return details;
@@ -322,24 +334,24 @@ function generateCityDetails(): Record<string, string> {
  * - disposition (always)
  * - event (1-in-6 chance)
  */
-function generateCastleDetails(): Record<string, string> {
+function generateCastleDetails(rng: RandomSource): Record<string, string> {
   const tables = SETTLEMENT_TABLES.castle;
   const details: Record<string, string> = {};
   
-  details.condition = rollOnTable(tables.condition).value;
-  details.keepShape = rollOnTable(tables.keepShape).value;
-  details.disposition = rollOnTable(tables.disposition).value;
+  details.condition = rollOnTable(tables.condition, rng).value;
+  details.keepShape = rollOnTable(tables.keepShape, rng).value;
+  details.disposition = rollOnTable(tables.disposition, rng).value;
   
   // Keep has 1d3+1 levels
-  const keepLevels = Math.floor(Math.random() * 3) + 2; // 2-4 levels
+  const keepLevels = rollDie(3, rng) + 1; // 2-4 levels
   details.keepLevels = String(keepLevels);
   
   // Roll 1d4 defensive structures
-  const numDefenses = Math.floor(Math.random() * 4) + 1;
+  const numDefenses = rollDie(4, rng);
   const defenses: string[] = [];
   const usedDefenses = new Set<string>();
   for (let i = 0; i < numDefenses; i++) {
-    const defense = rollOnTable(tables.defensiveStructure).value;
+    const defense = rollOnTable(tables.defensiveStructure, rng).value;
     if (!usedDefenses.has(defense)) {
       usedDefenses.add(defense);
       defenses.push(defense);
@@ -349,12 +361,12 @@ function generateCastleDetails(): Record<string, string> {
   
   // If has stone walls, roll for wall shape
   if (defenses.includes('Stone walls and towers')) {
-    details.wallShape = rollOnTable(tables.wallShape).value;
+    details.wallShape = rollOnTable(tables.wallShape, rng).value;
   }
   
   // Event (1-in-6 chance)
-  if (oneInSixChance()) {
-    details.event = rollOnTable(tables.event).value;
+  if (oneInSixChance(rng)) {
+    details.event = rollOnTable(tables.event, rng).value;
   }
   
   return details;
@@ -368,15 +380,15 @@ function generateCastleDetails(): Record<string, string> {
  * - topLevel
  * - disposition
  */
-function generateTowerDetails(): Record<string, string> {
+function generateTowerDetails(rng: RandomSource): Record<string, string> {
   const tables = SETTLEMENT_TABLES.tower;
   const details: Record<string, string> = {};
   
-  details.levels = rollOnTable(tables.levels).value;
-  details.material = rollOnTable(tables.material).value;
-  details.shape = rollOnTable(tables.shape).value;
-  details.topLevel = rollOnTable(tables.topLevel).value;
-  details.disposition = rollOnTable(tables.disposition).value;
+  details.levels = rollOnTable(tables.levels, rng).value;
+  details.material = rollOnTable(tables.material, rng).value;
+  details.shape = rollOnTable(tables.shape, rng).value;
+  details.topLevel = rollOnTable(tables.topLevel, rng).value;
+  details.disposition = rollOnTable(tables.disposition, rng).value;
   
   return details;
 }
@@ -390,17 +402,17 @@ function generateTowerDetails(): Record<string, string> {
  * - disposition
  * - event (1-in-6 chance)
  */
-function generateAbbeyDetails(): Record<string, string> {
+function generateAbbeyDetails(rng: RandomSource): Record<string, string> {
   const tables = SETTLEMENT_TABLES.abbey;
   const details: Record<string, string> = {};
   
-  details.size = rollOnTable(tables.size).value;
-  details.disposition = rollOnTable(tables.disposition).value;
-  details.garden = rollOnTable(tables.garden).value;
+  details.size = rollOnTable(tables.size, rng).value;
+  details.disposition = rollOnTable(tables.disposition, rng).value;
+  details.garden = rollOnTable(tables.garden, rng).value;
   
   // Farming (roll twice for variety)
-  const farming1 = rollOnTable(tables.farming).value;
-  const farming2 = rollOnTable(tables.farming).value;
+  const farming1 = rollOnTable(tables.farming, rng).value;
+  const farming2 = rollOnTable(tables.farming, rng).value;
   if (farming1 === farming2) {
     details.farming = farming1;
   } else {
@@ -409,12 +421,12 @@ function generateAbbeyDetails(): Record<string, string> {
   
   // Fame (only for major abbeys)
   if (details.size === 'major') {
-    details.fame = rollOnTable(tables.fame).value;
+    details.fame = rollOnTable(tables.fame, rng).value;
   }
   
   // Event (1-in-6 chance)
-  if (oneInSixChance()) {
-    details.event = rollOnTable(tables.event).value;
+  if (oneInSixChance(rng)) {
+    details.event = rollOnTable(tables.event, rng).value;
   }
   
   return details;
@@ -423,20 +435,23 @@ function generateAbbeyDetails(): Record<string, string> {
 /**
  * Generate settlement details based on type - dispatches to type-specific generators
  */
-export function generateSettlementDetails(type: SettlementType): Record<string, string> {
+export function generateSettlementDetails(
+  type: SettlementType,
+  rng: RandomSource = Math.random
+): Record<string, string> {
   switch (type) {
     case 'hamlet':
-      return generateHamletDetails();
+      return generateHamletDetails(rng);
     case 'village':
-      return generateVillageDetails();
+      return generateVillageDetails(rng);
     case 'city':
-      return generateCityDetails();
+      return generateCityDetails(rng);
     case 'castle':
-      return generateCastleDetails();
+      return generateCastleDetails(rng);
     case 'tower':
-      return generateTowerDetails();
+      return generateTowerDetails(rng);
     case 'abbey':
-      return generateAbbeyDetails();
+      return generateAbbeyDetails(rng);
     default:
       return {};
   }
@@ -445,10 +460,10 @@ export function generateSettlementDetails(type: SettlementType): Record<string,
 /**
  * Generate a complete settlement - returns flat structure with all details at top level
  */
-export function generateSettlement(type?: SettlementType): GeneratedSettlement {
-  const settlementType = type || rollSettlementType();
-  const name = generateNameForSettlement(settlementType);
-  const details = generateSettlementDetails(settlementType);
+export function generateSettlement(type?: SettlementType, rng: RandomSource = Math.random): GeneratedSettlement {
+  const settlementType = type || rollSettlementType(rng);
+  const name = generateNameForSettlement(settlementType, rng);
+  const details = generateSettlementDetails(settlementType, rng);
   
   // Extract size if present
   const size = details.size as 'small' | 'medium' | 'big' | 'major' | undefined;
@@ -472,18 +487,20 @@ export function generateSettlement(type?: SettlementType): GeneratedSettlement {
 /**
  * Roll for disposition (2d6)
  */
-export function rollDisposition(): string {
-  const result = rollOnTable(DISPOSITION);
+export function rollDisposition(rng: RandomSource = Math.random): string {
+  const result = rollOnTable(DISPOSITION, rng);
   return result.value;
 }
 
 /**
  * Map terrain IDs to biome types for encounter tables
  */
-const TERRAIN_TO_BIOME: Record<string, string> = {
+export const TERRAIN_TO_BIOME: Record<string, string> = {
   plains: 'grassland',
   grassland: 'grassland',
   forest: 'forest',
+  deciduous_forest: 'forest',
+  dense_forest: 'forest',
   hills: 'hills',
   swamp: 'marsh',
   marsh: 'marsh',
@@ -491,16 +508,70 @@ const TERRAIN_TO_BIOME: Record<string, string> = {
   mountains: 'mountains',
 };
 
+// Creatures in a lair when the monster list gives no number appearing
+export const LAIR_NUMBER_DICE = '3d6';
+
+// Chambers for each LAIR_LAYOUT result, entrance first
+// (a hub has 1d3 branches, a complex 1d4+3 rooms; edited layouts get 1d3 chambers)
+const LAIR_LAYOUT_ROOMS: Record<string, (rng: RandomSource) => string[]> = {
+  'Single chamber': () => ['Chamber'],
+  'Two connected chambers': () => ['Entrance chamber', 'Inner chamber'],
+  'Three chambers in a row': () => ['Entrance chamber', 'Middle chamber', 'Back chamber'],
+  'Central hub with branches': rng => [
+    'Central hub',
+    ...Array.from({ length: rollDie(3, rng) }, (_, i) => `Branch ${i + 1}`),
+  ],
+  'Complex multi-room': rng => [
+    'Entrance',
+    ...Array.from({ length: rollDie(4, rng) + 2 }, (_, i) => `Room ${i + 2}`),
+  ],
+};
+
+/**
+ * Split the creatures inside the lair between its chambers
+ * The hoard and the biggest group are in the deepest chamber
+ */
+function generateLairRooms(layout: string, inside: number, rng: RandomSource): LairRoom[] {
+  const names = (LAIR_LAYOUT_ROOMS[layout] || (r => Array.from({ length: rollDie(3, r) }, (_, i) => `Chamber ${i + 1}`)))(rng);
+  const counts = names.map(() => 0);
+  for (let i = 0; i < inside; i++) {
+    // Half the creatures stay with the hoard, the rest are spread around
+    const index = i % 2 === 0 ? names.length - 1 : rollDie(names.length, rng) - 1;
+    counts[index]++;
+  }
+  return names.map((name, i) => ({
+    name,
+    feature: rollOnTable(LAIR_ROOM_FEATURE, rng).value,
+    creatures: counts[i],
+    hasTreasure: i === names.length - 1,
+  }));
+}
+
+/**
+ * Roll what a lair holds: number of creatures (from the monster list's
+ * number appearing, or LAIR_NUMBER_DICE), a treasure hoard, and its chambers
+ */
+export function generateLairContents(
+  monsterType: string,
+  layout: string,
+  percentOutside: number,
+  rng: RandomSource = Math.random
+): Pick<GeneratedLair, 'numberAppearing' | 'treasure' | 'rooms'> {
+  const numberAppearing = rollDice(findMonsterStats(monsterType)?.numberAppearing || LAIR_NUMBER_DICE, rng);
+  const inside = numberAppearing - Math.round(numberAppearing * percentOutside / 100);
+  const treasure = `${rollOnTable(LAIR_TREASURE, rng).value} (about ${rollDie(6, rng) * 100} gp)`;
+
+  return {
+    numberAppearing,
+    treasure,
+    rooms: generateLairRooms(layout, inside, rng),
+  };
+}
+
 /**
  * Generate a lair
  */
-export function generateLair(biome?: string): { 
-  monsterType: string; 
-  layout: string;
-  disposition: string;
-  percentOutside: number;
-  details?: Record<string, string>;
-} {
+export function generateLair(biome?: string, rng: RandomSource = Math.random): GeneratedLair {
   // Get monster type from biome if provided
   let monsterType = 'Unknown creature';
   
@@ -510,7 +581,7 @@ export function generateLair(biome?: string): {
   if (effectiveBiome) {
     const table = BIOME_ENCOUNTER_TABLES[effectiveBiome];
     if (table) {
-      const result = rollOnTable(table);
+      const result = rollOnTable(table, rng);
       monsterType = result.value;
     }
   }
@@ -518,29 +589,32 @@ export function generateLair(biome?: string): {
   // Fallback: pick a random biome table if no biome specified
   if (monsterType === 'Unknown creature') {
     const biomes = ['grassland', 'forest', 'hills', 'marsh', 'mountains'];
-    const randomBiome = biomes[Math.floor(Math.random() * biomes.length)];
+    const randomBiome = pickRandom(biomes, rng);
     const table = BIOME_ENCOUNTER_TABLES[randomBiome];
     if (table) {
-      const result = rollOnTable(table);
+      const result = rollOnTable(table, rng);
       monsterType = result.value;
     }
   }
   
   // Get layout
-  const layoutResult = rollOnTable(LAIR_LAYOUT);
+  const layoutResult = rollOnTable(LAIR_LAYOUT, rng);
   const layout = layoutResult.value;
   
   // Get disposition
-  const disposition = rollDisposition();
+  const disposition = rollDisposition(rng);
   
   // What percentage of monsters are outside (1d6 * 10%)
-  const percentOutside = (Math.floor(Math.random() * 6) + 1) * 10;
+  const percentOutside = rollDie(6, rng) * 10;
   
   return {
     monsterType,
     layout,
     disposition,
     percentOutside,
+    // Rolled from a derived source so seeds from before lairs had contents
+    // still give the same maps
+    ...generateLairContents(monsterType, layout, percentOutside, deriveRandom(rng, 'lair')),
   };
 }
 
@@ -551,22 +625,22 @@ export function generateLair(biome?: string): {
 /**
  * Generate a dungeon
  */
-export function generateDungeon(): {
+export function generateDungeon(rng: RandomSource = Math.random): {
   levels: number;
   disposition: string;
   details?: Record<string, string>;
 } {
   // Get number of levels
-  const levelsResult = rollOnTable(DUNGEON_LEVELS);
+  const levelsResult = rollOnTable(DUNGEON_LEVELS, rng);
   let levels: number;
   if (levelsResult.value === '4+') {
-    levels = 4 + Math.floor(Math.random() * 3); // 4-6 levels
+    levels = 3 + rollDie(3, rng); // 4-6 levels
   } else {
     levels = parseInt(levelsResult.value);
   }
   
   // Dungeons have multiple factions, so disposition is complex
-  const disposition = rollDisposition();
+  const disposition = rollDisposition(rng);
   
   return {
     levels,
@@ -583,43 +657,45 @@ export function generateDungeon(): {
  * @param forceType - Force a specific feature type
  * @param forceSettlementType - Force a specific settlement type (only used if forceType is 'settlement')
  * @param terrainOrBiome - The terrain ID or biome type (used for lair monster generation)
+ * @param rng - Random source (defaults to Math.random)
  */
 export function generateFeature(
   forceType?: FeatureType, 
   forceSettlementType?: SettlementType,
-  terrainOrBiome?: string
+  terrainOrBiome?: string,
+  rng: RandomSource = Math.random
 ): GeneratedFeature {
-  const featureType = forceType || rollFeatureType();
+  const featureType = forceType || rollFeatureType(rng);
   
   switch (featureType) {
     case 'landmark':
       return {
         type: 'landmark',
-        data: generateLandmark(),
+        data: generateLandmark(rng),
       };
     
     case 'settlement':
       return {
         type: 'settlement',
-        data: generateSettlement(forceSettlementType),
+        data: generateSettlement(forceSettlementType, rng),
       };
     
     case 'lair':
       return {
         type: 'lair',
-        data: generateLair(terrainOrBiome),
+        data: generateLair(terrainOrBiome, rng),
       };
     
     case 'dungeon':
       return {
         type: 'dungeon',
-        data: generateDungeon(),
+        data: generateDungeon(rng),
       };
     
     default:
       return {
         type: 'landmark',
-        data: generateLandmark(),
+        data: generateLandmark(rng),
       };
   }
 }
@@ -627,12 +703,12 @@ export function generateFeature(
 /**
  * Generate lair monster based on biome
  */
-export function generateLairMonster(biome: string): string {
+export function generateLairMonster(biome: string, rng: RandomSource = Math.random): string {
   const table = BIOME_ENCOUNTER_TABLES[biome];
   if (!table) {
     return 'Unknown creature';
   }
-  const result = rollOnTable(table);
+  const result = rollOnTable(table, rng);
   return result.value;
 }
 
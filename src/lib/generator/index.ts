@@ -5,14 +5,23 @@
 // Types
 export * from './types';
 
+// Random source
+export * from './random';
+
 // Table system
 export * from './tableSystem';
+export * from './tableRegistry';
 
 // Generators
 export * from './biomeGenerator';
 export * from './nameGenerator';
 export * from './featureGenerator';
+export * from './encounterGenerator';
+export * from './townsfolkGenerator';
+export * from './dungeonGenerator';
+export * from './monsterStats';
 export * from './politicalGenerator';
+export * from './riverGenerator';
 
 // Tables (for direct access if needed)
 export { default as biomeTables } from './tables/biomes';
@@ -20,3 +29,5 @@ export { default as featureTables } from './tables/features';
 export { default as landmarkTables } from './tables/landmarks';
 export { default as nameTables } from './tables/names';
 export { default as settlementTables } from './tables/settlements';
+export { default as townsfolkTables } from './tables/townsfolk';
+export { default as dungeonTables } from './tables/dungeons';
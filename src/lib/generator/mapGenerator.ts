@@ -16,6 +16,7 @@ import {
 } from './biomeGenerator';
 import { generateFeature, rollFeatureType } from './featureGenerator';
 import { percentageCheck } from './tableSystem';
+import type { RandomSource } from './random';
 
 // ============================================
 // SPIRAL COORDINATE GENERATION
@@ -156,7 +157,8 @@ function generateSingleHex(
   coord: HexCoord,
   generatedBiomes: Map<string, BiomeType>,
   options: MapGenerationOptions,
-  isFirst: boolean
+  isFirst: boolean,
+  rng: RandomSource
 ): HexGenerationResult {
   const key = coordToKey(coord);
   
@@ -166,7 +168,7 @@ function generateSingleHex(
   if (isFirst && options.startingBiome) {
     biome = options.startingBiome;
   } else if (isFirst) {
-    biome = generateStartingBiome();
+    biome = generateStartingBiome(rng);
   } else {
     // Get neighbor biomes
     const neighbors = getNeighbors(coord);
@@ -180,7 +182,7 @@ function generateSingleHex(
       }
     }
     
-    biome = generateNextBiome(neighborBiomes);
+    biome = generateNextBiome(neighborBiomes, rng);
   }
   
   const terrainId = biomeToTerrainId(biome);
@@ -193,8 +195,8 @@ function generateSingleHex(
   };
   
   // Generate feature if enabled
-  if (options.generateFeatures && percentageCheck(options.featureChance)) {
-    const featureType = rollFeatureType();
+  if (options.generateFeatures && percentageCheck(options.featureChance, rng)) {
+    const featureType = rollFeatureType(rng);
     
     // Check if this feature type is enabled
     const shouldGenerate = 
@@ -205,7 +207,7 @@ function generateSingleHex(
     
     if (shouldGenerate) {
       result.featureType = featureType;
-      result.feature = generateFeature(featureType, undefined, terrainId);
+      result.feature = generateFeature(featureType, undefined, terrainId, rng);
     }
   }
   
@@ -215,11 +217,13 @@ function generateSingleHex(
 /**
  * Generate terrain and features for a 19-hex region
  * This is the "piece together" method for existing maps
+ * Pass a seeded rng (see createSeededRandom) for reproducible results
  */
 export function generateRegion(
   centerCoord: HexCoord,
   existingTerrain: Map<string, string>,
-  options: Partial<MapGenerationOptions> = {}
+  options: Partial<MapGenerationOptions> = {},
+  rng: RandomSource = Math.random
 ): HexGenerationResult[] {
   const opts = { ...DEFAULT_GENERATION_OPTIONS, ...options };
   const results: HexGenerationResult[] = [];
@@ -241,7 +245,7 @@ export function generateRegion(
     const coord = targetCoords[i];
     const isFirst = i === 0 && !hasAnyNeighborTerrain(coord, generatedBiomes);
     
-    const result = generateSingleHex(coord, generatedBiomes, opts, isFirst);
+    const result = generateSingleHex(coord, generatedBiomes, opts, isFirst, rng);
     results.push(result);
   }
   
@@ -251,15 +255,20 @@ export function generateRegion(
 /**
  * Generate terrain and features for an entire map
  * Uses spiral from center for good neighbor influence
+ * The same seeded rng and options always produce the same map
+ * @param surroundingTerrain - Fixed terrain just outside the map (by coord key)
+ *   that edge hexes take as neighbors, so the map blends into its surroundings
  */
 export function generateFullMap(
   allCoords: HexCoord[],
   centerCoord: HexCoord,
-  options: Partial<MapGenerationOptions> = {}
+  options: Partial<MapGenerationOptions> = {},
+  rng: RandomSource = Math.random,
+  surroundingTerrain?: Map<string, string>
 ): HexGenerationResult[] {
   const opts = { ...DEFAULT_GENERATION_OPTIONS, ...options };
   const results: HexGenerationResult[] = [];
-  const generatedBiomes = new Map<string, BiomeType>();
+  const generatedBiomes = surroundingTerrain ? terrainToBiomeMap(surroundingTerrain) : new Map<string, BiomeType>();
   
   // Create a set of valid coords for quick lookup
   const validCoords = new Set(allCoords.map(c => coordToKey(c)));
@@ -281,7 +290,7 @@ export function generateFullMap(
     const coord = orderedCoords[i];
     const isFirst = i === 0;
     
-    const result = generateSingleHex(coord, generatedBiomes, opts, isFirst);
+    const result = generateSingleHex(coord, generatedBiomes, opts, isFirst, rng);
     results.push(result);
   }
   
@@ -293,18 +302,20 @@ export function generateFullMap(
  * @param coords - Coordinates to generate features for
  * @param options - Generation options
  * @param existingTerrain - Optional map of coord keys to terrain IDs (for lair monster generation)
+ * @param rng - Random source (defaults to Math.random)
  */
 export function generateFeaturesOnly(
   coords: HexCoord[],
   options: Partial<MapGenerationOptions> = {},
-  existingTerrain?: Map<string, string>
+  existingTerrain?: Map<string, string>,
+  rng: RandomSource = Math.random
 ): HexGenerationResult[] {
   const opts = { ...DEFAULT_GENERATION_OPTIONS, ...options, generateTerrain: false };
   const results: HexGenerationResult[] = [];
   
   for (const coord of coords) {
-    if (percentageCheck(opts.featureChance)) {
-      const featureType = rollFeatureType();
+    if (percentageCheck(opts.featureChance, rng)) {
+      const featureType = rollFeatureType(rng);
       
       const shouldGenerate = 
         (featureType === 'landmark' && opts.includeLandmarks) ||
@@ -321,7 +332,7 @@ export function generateFeaturesOnly(
           terrainId, // Pass through for reference
           biome: 'grassland', // Placeholder
           featureType,
-          feature: generateFeature(featureType, undefined, terrainId),
+          feature: generateFeature(featureType, undefined, terrainId, rng),
         });
       }
     }
@@ -334,30 +345,36 @@ export function generateFeaturesOnly(
 // HELPER FUNCTIONS
 // ============================================
 
+const TERRAIN_BIOMES: Record<string, BiomeType> = {
+  plains: 'grassland',
+  forest: 'forest',
+  deciduous_forest: 'forest',
+  dense_forest: 'forest',
+  hills: 'hills',
+  swamp: 'marsh',
+  marsh: 'marsh',
+  mountain: 'mountains',
+  desert: 'grassland',
+  wasteland: 'grassland',
+  tundra: 'grassland',
+  water: 'grassland',
+};
+
+/**
+ * The biome a terrain type belongs to (grassland for anything unrecognized)
+ */
+export function terrainToBiome(terrainId: string): BiomeType {
+  return TERRAIN_BIOMES[terrainId] || 'grassland';
+}
+
 /**
  * Convert terrain map to biome map
  */
 function terrainToBiomeMap(terrainMap: Map<string, string>): Map<string, BiomeType> {
   const biomeMap = new Map<string, BiomeType>();
   
-  const terrainToBiome: Record<string, BiomeType> = {
-    plains: 'grassland',
-    forest: 'forest',
-    deciduous_forest: 'forest',
-    dense_forest: 'forest',
-    hills: 'hills',
-    swamp: 'marsh',
-    marsh: 'marsh',
-    mountain: 'mountains',
-    desert: 'grassland',
-    wasteland: 'grassland',
-    tundra: 'grassland',
-    water: 'grassland',
-  };
-  
   for (const [key, terrainId] of terrainMap) {
-    const biome = terrainToBiome[terrainId] || 'grassland';
-    biomeMap.set(key, biome);
+    biomeMap.set(key, terrainToBiome(terrainId));
   }
   
   return biomeMap;
@@ -435,5 +452,6 @@ export default {
   generateFullMap,
   generateFeaturesOnly,
   applyGenerationResults,
+  terrainToBiome,
   DEFAULT_GENERATION_OPTIONS,
 };
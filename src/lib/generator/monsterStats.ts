@@ -0,0 +1,85 @@
+// ============================================
+// MONSTER STATS
+// User-provided stat references (HD/AC), matched to generated monsters by name
+// ============================================
+
+import type { MonsterStats } from './types';
+import { isValidDiceFormula } from './tableSystem';
+
+// Stats for the campaign currently open (set alongside its tables)
+let activeMonsterStats: MonsterStats[] = [];
+
+/**
+ * Set the monster list generators should look stats up in
+ */
+export function setActiveMonsterStats(stats: MonsterStats[] = []): void {
+  activeMonsterStats = stats;
+}
+
+/**
+ * Compare names ignoring case and simple plurals ("Wolves" matches "Wolf")
+ */
+function normalizeMonsterName(name: string): string {
+  const lower = name.trim().toLowerCase();
+  if (lower.endsWith('ves')) return `${lower.slice(0, -3)}f`;
+  if (lower.endsWith('ies')) return `${lower.slice(0, -3)}y`;
+  if (lower.endsWith('s') && !lower.endsWith('ss')) return lower.slice(0, -1);
+  return lower;
+}
+
+/**
+ * Find the stats for a monster by name (in the active campaign's list by default)
+ */
+export function findMonsterStats(
+  name: string,
+  stats: MonsterStats[] = activeMonsterStats
+): MonsterStats | undefined {
+  const key = normalizeMonsterName(name);
+  return stats.find(s => normalizeMonsterName(s.name) === key);
+}
+
+// ============================================
+// TEXT FORMAT
+// One monster per line: Name | HD | AC | No. appearing | Notes
+// ============================================
+
+export const MONSTER_LIST_FORMAT = 'Name | HD | AC | No. appearing | Notes';
+
+/**
+ * Parse a pasted monster list; lines starting with # are comments
+ */
+export function parseMonsterList(text: string): { monsters: MonsterStats[]; errors: string[] } {
+  const monsters: MonsterStats[] = [];
+  const errors: string[] = [];
+
+  text.split('\n').forEach((line, i) => {
+    if (!line.trim() || line.trim().startsWith('#')) return;
+    const [name = '', hd = '', ac = '', numberAppearing = '', notes = ''] = line.split('|').map(p => p.trim());
+    if (!name || !hd || !ac) {
+      errors.push(`Line ${i + 1}: needs at least a name, HD and AC`);
+      return;
+    }
+    if (numberAppearing && !isValidDiceFormula(numberAppearing)) {
+      errors.push(`Line ${i + 1}: "${numberAppearing}" is not a dice formula (e.g. 2d6)`);
+      return;
+    }
+    monsters.push({
+      name,
+      hd,
+      ac,
+      numberAppearing: numberAppearing || undefined,
+      notes: notes || undefined,
+    });
+  });
+
+  return { monsters, errors };
+}
+
+/**
+ * Write a monster list back out in the text format
+ */
+export function formatMonsterList(monsters: MonsterStats[]): string {
+  return monsters
+    .map(m => [m.name, m.hd, m.ac, m.numberAppearing || '', m.notes || ''].join(' | ').replace(/( \| )+$/, ''))
+    .join('\n');
+}
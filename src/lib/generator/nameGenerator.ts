@@ -12,78 +12,79 @@ import {
   ABBEY_NAME_PREFIXES,
   SAINTS,
 } from './tables/names';
+import type { RandomSource } from './random';
 
 /**
  * Pick a random component from a named list
  */
-function pickComponent(letter: string): string {
+function pickComponent(letter: string, rng: RandomSource): string {
   const components = NAME_COMPONENTS[letter];
   if (!components) {
     console.warn(`Unknown name component: ${letter}`);
     return '';
   }
-  return pickRandom(components);
+  return pickRandom(components, rng);
 }
 
 /**
  * Generate a settlement name using the structure tables
  */
-export function generateSettlementName(): string {
-  const result = rollOnTable(NAME_STRUCTURE);
+export function generateSettlementName(rng: RandomSource = Math.random): string {
+  const result = rollOnTable(NAME_STRUCTURE, rng);
   const structure = result.value;
   
   // Parse the structure and build the name
-  return buildNameFromStructure(structure);
+  return buildNameFromStructure(structure, rng);
 }
 
 /**
  * Build a name from a structure pattern
  * Structure examples: BA, BF, D-by-sea, Dington, etc.
  */
-function buildNameFromStructure(structure: string): string {
+function buildNameFromStructure(structure: string, rng: RandomSource): string {
   // Handle special suffixed patterns first
   if (structure === 'D-by-sea') {
-    return `${pickComponent('D')}-by-sea`;
+    return `${pickComponent('D', rng)}-by-sea`;
   }
   if (structure === 'D-in-D') {
-    return `${pickComponent('D')}-in-${pickComponent('D')}`;
+    return `${pickComponent('D', rng)}-in-${pickComponent('D', rng)}`;
   }
   if (structure === 'D-le-D') {
-    return `${pickComponent('D')}-le-${pickComponent('D')}`;
+    return `${pickComponent('D', rng)}-le-${pickComponent('D', rng)}`;
   }
   if (structure === 'D-les-bains') {
-    return `${pickComponent('D')}-les-bains`;
+    return `${pickComponent('D', rng)}-les-bains`;
   }
   if (structure === 'D-on-the-hill') {
-    return `${pickComponent('D')}-on-the-hill`;
+    return `${pickComponent('D', rng)}-on-the-hill`;
   }
   if (structure === 'Dington') {
-    return `${pickComponent('D')}ington`;
+    return `${pickComponent('D', rng)}ington`;
   }
   if (structure === 'Dsby') {
-    return `${pickComponent('D')}sby`;
+    return `${pickComponent('D', rng)}sby`;
   }
   if (structure === 'Dthorpe') {
-    return `${pickComponent('D')}thorpe`;
+    return `${pickComponent('D', rng)}thorpe`;
   }
   if (structure === 'Dton') {
-    return `${pickComponent('D')}ton`;
+    return `${pickComponent('D', rng)}ton`;
   }
   if (structure === 'Trou-au-D') {
-    return `Trou-au-${pickComponent('D')}`;
+    return `Trou-au-${pickComponent('D', rng)}`;
   }
   if (structure === 'Trou-de-D') {
-    return `Trou-de-${pickComponent('D')}`;
+    return `Trou-de-${pickComponent('D', rng)}`;
   }
   if (structure === 'Val-D') {
-    return `Val-${pickComponent('D')}`;
+    return `Val-${pickComponent('D', rng)}`;
   }
   
   // Handle simple letter combinations (BA, BF, BHF, etc.)
   const parts: string[] = [];
   for (const letter of structure) {
     if (NAME_COMPONENTS[letter]) {
-      parts.push(pickComponent(letter));
+      parts.push(pickComponent(letter, rng));
     }
   }
   
@@ -103,26 +104,26 @@ function buildNameFromStructure(structure: string): string {
 /**
  * Generate a castle name (FirstPart + SecondPart)
  */
-export function generateCastleName(): string {
-  const first = pickRandom(CASTLE_NAME_FIRST);
-  const second = pickRandom(CASTLE_NAME_SECOND);
+export function generateCastleName(rng: RandomSource = Math.random): string {
+  const first = pickRandom(CASTLE_NAME_FIRST, rng);
+  const second = pickRandom(CASTLE_NAME_SECOND, rng);
   return `${first}${second}`;
 }
 
 /**
  * Generate an abbey name
  */
-export function generateAbbeyName(): string {
+export function generateAbbeyName(rng: RandomSource = Math.random): string {
   // 80% chance of Saint-based name, 20% other prefix
-  const roll = d30();
+  const roll = d30(rng);
   
   if (roll <= 24) {
     // Saint-based name
-    const saint = pickRandom(SAINTS);
+    const saint = pickRandom(SAINTS, rng);
     return `Saint-${saint}`;
   } else {
     // Other abbey name
-    return pickRandom(ABBEY_NAME_PREFIXES);
+    return pickRandom(ABBEY_NAME_PREFIXES, rng);
   }
 }
 
@@ -130,47 +131,51 @@ export function generateAbbeyName(): string {
  * Generate a tower name (uses wizard/location naming)
  * Towers are named after their wizard or location
  */
-export function generateTowerName(): string {
+export function generateTowerName(rng: RandomSource = Math.random): string {
   // Use adjective + noun or location-based name
   const patterns = [
-    () => `${pickComponent('E')} Tower`,           // "Black Tower"
-    () => `Tower of ${pickComponent('B')}`,        // "Tower of Shadows"
-    () => `${pickComponent('C')}'s Tower`,         // "John's Tower"
-    () => `The ${pickComponent('E')} Spire`,       // "The Dark Spire"
-    () => `${pickComponent('B')} Tower`,           // "Moon Tower"
+    () => `${pickComponent('E', rng)} Tower`,     // "Black Tower"
+    () => `Tower of ${pickComponent('B', rng)}`,  // "Tower of Shadows"
+    () => `${pickComponent('C', rng)}'s Tower`,   // "John's Tower"
+    () => `The ${pickComponent('E', rng)} Spire`, // "The Dark Spire"
+    () => `${pickComponent('B', rng)} Tower`,     // "Moon Tower"
   ];
   
-  return pickRandom(patterns)();
+  return pickRandom(patterns, rng)();
 }
 
 /**
  * Generate a name appropriate for a settlement type
  */
-export function generateNameForSettlement(type: SettlementType): string {
+export function generateNameForSettlement(type: SettlementType, rng: RandomSource = Math.random): string {
   switch (type) {
     case 'castle':
-      return generateCastleName();
+      return generateCastleName(rng);
     case 'abbey':
-      return generateAbbeyName();
+      return generateAbbeyName(rng);
     case 'tower':
-      return generateTowerName();
+      return generateTowerName(rng);
     case 'hamlet':
     case 'village':
     case 'city':
     default:
-      return generateSettlementName();
+      return generateSettlementName(rng);
   }
 }
 
 /**
  * Generate multiple name options for user to choose from
  */
-export function generateNameOptions(type: SettlementType, count: number = 5): string[] {
+export function generateNameOptions(
+  type: SettlementType,
+  count: number = 5,
+  rng: RandomSource = Math.random
+): string[] {
   const names: string[] = [];
   const usedNames = new Set<string>();
   
   while (names.length < count) {
-    const name = generateNameForSettlement(type);
+    const name = generateNameForSettlement(type, rng);
     if (!usedNames.has(name)) {
       usedNames.add(name);
       names.push(name);
@@ -196,38 +201,38 @@ const FACTION_TYPES = [
 /**
  * Generate a faction name
  */
-export function generateFactionName(): string {
+export function generateFactionName(rng: RandomSource = Math.random): string {
   const patterns = [
     // "The [Adjective] [Noun]s" - e.g., "The Silver Hawks"
-    () => `The ${pickComponent('E')} ${pickComponent('B')}s`,
+    () => `The ${pickComponent('E', rng)} ${pickComponent('B', rng)}s`,
     // "Order of the [Noun]" - e.g., "Order of the Rose"
-    () => `Order of the ${pickComponent('B')}`,
+    () => `Order of the ${pickComponent('B', rng)}`,
     // "House [Name]" - e.g., "House Galgar"
-    () => `House ${pickComponent('D')}`,
+    () => `House ${pickComponent('D', rng)}`,
     // "The [Noun] [FactionType]" - e.g., "The Dragon Guild"
-    () => `The ${pickComponent('B')} ${pickRandom(FACTION_TYPES)}`,
+    () => `The ${pickComponent('B', rng)} ${pickRandom(FACTION_TYPES, rng)}`,
     // "[Adjective] [FactionType]" - e.g., "Golden Alliance"
-    () => `${pickComponent('E')} ${pickRandom(FACTION_TYPES)}`,
+    () => `${pickComponent('E', rng)} ${pickRandom(FACTION_TYPES, rng)}`,
     // "Knights of [Name]" - e.g., "Knights of Vanau"
-    () => `Knights of ${pickComponent('D')}`,
+    () => `Knights of ${pickComponent('D', rng)}`,
     // "The [Name] [FactionType]" - e.g., "The Rundur Compact"
-    () => `The ${pickComponent('D')} ${pickRandom(FACTION_TYPES)}`,
+    () => `The ${pickComponent('D', rng)} ${pickRandom(FACTION_TYPES, rng)}`,
     // "[Prefix] [Adjective] [Noun]" - e.g., "Brotherhood of the Black Rose"
-    () => `${pickRandom(FACTION_PREFIXES)} the ${pickComponent('E')} ${pickComponent('B')}`,
+    () => `${pickRandom(FACTION_PREFIXES, rng)} the ${pickComponent('E', rng)} ${pickComponent('B', rng)}`,
   ];
   
-  return pickRandom(patterns)();
+  return pickRandom(patterns, rng)();
 }
 
 /**
  * Generate multiple faction name options
  */
-export function generateFactionNameOptions(count: number = 5): string[] {
+export function generateFactionNameOptions(count: number = 5, rng: RandomSource = Math.random): string[] {
   const names: string[] = [];
   const usedNames = new Set<string>();
   
   while (names.length < count) {
-    const name = generateFactionName();
+    const name = generateFactionName(rng);
     if (!usedNames.has(name)) {
       usedNames.add(name);
       names.push(name);
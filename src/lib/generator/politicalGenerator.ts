@@ -4,10 +4,11 @@
 
 import type { HexCoord, Faction, FactionRelationshipStatus } from '../types';
 import type { SettlementType, DomainInfo } from './types';
-import { rollOnTable, chanceIn6 } from './tableSystem';
+import { rollOnTable, pickRandom, chanceIn6 } from './tableSystem';
 import { FACTION_RELATIONSHIP } from './tables/features';
-import { getNeighbors } from '../hexUtils';
+import { getNeighbors, hexDistance } from '../hexUtils';
 import { coordToKey } from '../types';
+import type { RandomSource } from './random';
 
 // ============================================
 // DOMAIN GENERATION
@@ -84,8 +85,8 @@ export function createDomain(
 /**
  * Roll for relationship between two factions
  */
-export function rollFactionRelationship(): FactionRelationshipStatus {
-  const result = rollOnTable(FACTION_RELATIONSHIP);
+export function rollFactionRelationship(rng: RandomSource = Math.random): FactionRelationshipStatus {
+  const result = rollOnTable(FACTION_RELATIONSHIP, rng);
   return result.value as FactionRelationshipStatus;
 }
 
@@ -93,8 +94,8 @@ export function rollFactionRelationship(): FactionRelationshipStatus {
  * Check if two domains with overlapping hexes belong to the same faction
  * According to PDF: 3-in-6 chance they belong to the same faction
  */
-export function checkSameFaction(): boolean {
-  return chanceIn6(3);
+export function checkSameFaction(rng: RandomSource = Math.random): boolean {
+  return chanceIn6(3, rng);
 }
 
 /**
@@ -144,6 +145,7 @@ export function domainsAreNeighbors(domain1: DomainInfo, domain2: DomainInfo): b
 
 /**
  * Generate a unique faction ID
+ * IDs are not part of the seeded output, so they use the global RNG
  */
 function generateFactionId(): string {
   return `faction-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
@@ -156,7 +158,8 @@ export function createFactionFromSettlement(
   settlementName: string,
   settlementType: SettlementType,
   centerCoord: HexCoord,
-  color?: string
+  color?: string,
+  rng: RandomSource = Math.random
 ): Faction | null {
   const domain = createDomain(centerCoord, settlementType);
   
@@ -165,7 +168,7 @@ export function createFactionFromSettlement(
   }
   
   // Generate a color if not provided
-  const factionColor = color || generateFactionColor();
+  const factionColor = color || generateFactionColor(rng);
   
   return {
     id: generateFactionId(),
@@ -181,13 +184,13 @@ export function createFactionFromSettlement(
 /**
  * Generate a random faction color
  */
-function generateFactionColor(): string {
+function generateFactionColor(rng: RandomSource): string {
   const colors = [
     '#e94560', '#4ade80', '#60a5fa', '#fbbf24', '#a78bfa',
     '#f472b6', '#34d399', '#38bdf8', '#fb923c', '#c084fc',
     '#f87171', '#22d3d3', '#818cf8', '#facc15', '#f97316',
   ];
-  return colors[Math.floor(Math.random() * colors.length)];
+  return pickRandom(colors, rng);
 }
 
 /**
@@ -195,7 +198,8 @@ function generateFactionColor(): string {
  */
 export function generateFactionRelationships(
   newFaction: Faction,
-  existingFactions: Faction[]
+  existingFactions: Faction[],
+  rng: RandomSource = Math.random
 ): void {
   // Only generate relationships with neighboring factions
   const newDomain: DomainInfo = {
@@ -214,7 +218,7 @@ export function generateFactionRelationships(
     };
     
     if (domainsAreNeighbors(newDomain, existingDomain)) {
-      const relationship = rollFactionRelationship();
+      const relationship = rollFactionRelationship(rng);
       
       // Add relationship to new faction
       newFaction.relationships.push({
@@ -231,6 +235,43 @@ export function generateFactionRelationships(
   }
 }
 
+// ============================================
+// FEUDAL HIERARCHY
+// ============================================
+
+const LIEGE_RANGE = 6;               // Max hexes between a castle and the city it can swear to
+
+/**
+ * Let castles swear fealty to a nearby city: each castle within range of a
+ * city becomes a vassal of the nearest one 3-in-6, allied with it and
+ * inheriting its relationships. Castles near the same city share a liege.
+ */
+export function assignLieges(
+  factions: Faction[],
+  seatTypes: Map<string, SettlementType>,
+  rng: RandomSource = Math.random
+): void {
+  const cities = factions.filter(f => seatTypes.get(f.id) === 'city');
+
+  for (const castle of factions.filter(f => seatTypes.get(f.id) === 'castle')) {
+    const inRange = cities
+      .map(city => ({ city, distance: hexDistance(city.sourceHexCoord, castle.sourceHexCoord) }))
+      .filter(c => c.distance <= LIEGE_RANGE)
+      .sort((a, b) => a.distance - b.distance);
+    if (inRange.length === 0 || !checkSameFaction(rng)) continue;
+
+    const liege = inRange[0].city;
+    castle.parentId = liege.id;
+    castle.inheritRelationships = true;
+    for (const [from, to] of [[castle, liege], [liege, castle]]) {
+      from.relationships = [
+        ...from.relationships.filter(r => r.factionId !== to.id),
+        { factionId: to.id, status: 'alliance' },
+      ];
+    }
+  }
+}
+
 /**
  * Analyze which hexes are contested between factions
  */
@@ -268,5 +309,6 @@ export default {
   domainsAreNeighbors,
   createFactionFromSettlement,
   generateFactionRelationships,
+  assignLieges,
   analyzeContestedHexes,
 };
@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest';
+import { createSeededRandom, deriveRandom } from './random';
+import { generateFullMap } from './mapGenerator';
+import type { HexCoord } from '../types';
+
+const draw = (rng: () => number, n: number) => Array.from({ length: n }, () => rng());
+
+describe('createSeededRandom', () => {
+  it('gives the same sequence for the same seed', () => {
+    expect(draw(createSeededRandom('k3x9q2mf'), 20)).toEqual(draw(createSeededRandom('k3x9q2mf'), 20));
+  });
+
+  it('gives different sequences for different seeds', () => {
+    expect(draw(createSeededRandom('a'), 5)).not.toEqual(draw(createSeededRandom('b'), 5));
+  });
+
+  it('stays in [0, 1)', () => {
+    for (const n of draw(createSeededRandom(42), 1000)) {
+      expect(n).toBeGreaterThanOrEqual(0);
+      expect(n).toBeLessThan(1);
+    }
+  });
+});
+
+describe('deriveRandom', () => {
+  it('does not draw from the parent sequence', () => {
+    const plain = createSeededRandom('seed');
+    const forked = createSeededRandom('seed');
+    draw(plain, 3);
+    draw(forked, 3);
+    draw(deriveRandom(forked, 'lair'), 10);
+    expect(draw(forked, 5)).toEqual(draw(plain, 5));
+  });
+
+  it('is reproducible from the parent state and label', () => {
+    const a = deriveRandom(createSeededRandom('seed'), 'lair');
+    const b = deriveRandom(createSeededRandom('seed'), 'lair');
+    const c = deriveRandom(createSeededRandom('seed'), 'dungeon');
+    const first = draw(a, 5);
+    expect(draw(b, 5)).toEqual(first);
+    expect(draw(c, 5)).not.toEqual(first);
+  });
+
+  it('returns unseeded sources as they are', () => {
+    expect(deriveRandom(Math.random, 'lair')).toBe(Math.random);
+  });
+});
+
+describe('seeded map generation', () => {
+  const coords: HexCoord[] = [];
+  for (let q = -5; q <= 5; q++) {
+    for (let r = -5; r <= 5; r++) coords.push({ q, r });
+  }
+  const generate = (seed: string) =>
+    generateFullMap(coords, { q: 0, r: 0 }, { featureChance: 50 }, createSeededRandom(seed));
+
+  it('reproduces the same map from the same seed', () => {
+    expect(generate('campaign')).toEqual(generate('campaign'));
+  });
+
+  it('generates a different map from another seed', () => {
+    const terrain = (seed: string) => generate(seed).map(r => r.terrainId);
+    expect(terrain('campaign')).not.toEqual(terrain('other'));
+  });
+});
@@ -0,0 +1,66 @@
+// ============================================
+// SEEDABLE RANDOM NUMBER GENERATION
+// ============================================
+
+/**
+ * A source of random numbers in [0, 1), same contract as Math.random
+ * Every generator function accepts one so results can be reproduced from a seed
+ */
+export type RandomSource = () => number;
+
+/**
+ * Hash a seed string into a 32-bit integer (xmur3)
+ */
+function hashSeed(seed: string): number {
+  let h = 1779033703 ^ seed.length;
+  for (let i = 0; i < seed.length; i++) {
+    h = Math.imul(h ^ seed.charCodeAt(i), 3432918353);
+    h = (h << 13) | (h >>> 19);
+  }
+  h = Math.imul(h ^ (h >>> 16), 2246822507);
+  h = Math.imul(h ^ (h >>> 13), 3266489909);
+  return (h ^ (h >>> 16)) >>> 0;
+}
+
+// Current state of each seeded source, so it can be forked without drawing
+const seededStates = new WeakMap<RandomSource, () => number>();
+
+/**
+ * Create a deterministic random source from a seed (mulberry32)
+ * The same seed always produces the same sequence of numbers
+ */
+export function createSeededRandom(seed: string | number): RandomSource {
+  let state = hashSeed(String(seed));
+  const rng = () => {
+    state = (state + 0x6D2B79F5) | 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+  seededStates.set(rng, () => state);
+  return rng;
+}
+
+/**
+ * A separate source for extra rolls that mustn't shift a seeded sequence,
+ * seeded from the parent's current state without drawing from it
+ * Unseeded sources (e.g. Math.random) are returned as they are.
+ */
+export function deriveRandom(rng: RandomSource, label: string): RandomSource {
+  const state = seededStates.get(rng);
+  return state ? createSeededRandom(`${state()}:${label}`) : rng;
+}
+
+/**
+ * Generate a short, shareable seed string (e.g. "k3x9q2mf")
+ */
+export function generateSeed(): string {
+  return Math.random().toString(36).substr(2, 8);
+}
+
+export default {
+  createSeededRandom,
+  deriveRandom,
+  generateSeed,
+};
@@ -0,0 +1,136 @@
+// ============================================
+// RIVER GENERATOR
+// Rivers rise in mountains and flow downhill to water or the map edge
+// ============================================
+
+import type { HexCoord } from '../types';
+import { coordToKey, keyToCoord } from '../types';
+import { getNeighbors, hexDistance } from '../hexUtils';
+import { percentageCheck, pickRandom } from './tableSystem';
+import type { RandomSource } from './random';
+
+/**
+ * Rough elevation for each terrain type (higher flows into lower)
+ */
+const TERRAIN_ELEVATION: Record<string, number> = {
+  mountain: 5,
+  hills: 4,
+  tundra: 3,
+  forest: 3,
+  deciduous_forest: 3,
+  dense_forest: 3,
+  plains: 2,
+  desert: 2,
+  wasteland: 2,
+  swamp: 1,
+  marsh: 1,
+  water: 0,
+};
+
+const DEFAULT_ELEVATION = 2;
+
+export interface RiverGenerationOptions {
+  sourceChance: number;     // Percentage chance a mountain hex is a river source
+  maxRivers: number;
+  minLength: number;        // Shorter rivers are discarded
+  maxLength: number;
+}
+
+export const DEFAULT_RIVER_OPTIONS: RiverGenerationOptions = {
+  sourceChance: 25,
+  maxRivers: 6,
+  minLength: 4,
+  maxLength: 40,
+};
+
+function getElevation(terrainId: string | undefined): number {
+  return terrainId !== undefined ? TERRAIN_ELEVATION[terrainId] ?? DEFAULT_ELEVATION : DEFAULT_ELEVATION;
+}
+
+/**
+ * Trace a single river downhill from a source hex
+ * Stops on reaching water, joining an existing river, or when no hex is
+ * lower or level (a map edge or an enclosed basin)
+ */
+function traceRiver(
+  source: HexCoord,
+  terrain: Map<string, string>,
+  riverHexes: Set<string>,
+  maxLength: number,
+  rng: RandomSource
+): HexCoord[] {
+  const course: HexCoord[] = [source];
+  const visited = new Set([coordToKey(source)]);
+  let current = source;
+
+  while (course.length < maxLength) {
+    const currentElevation = getElevation(terrain.get(coordToKey(current)));
+    const neighbors = getNeighbors(current).filter(n => {
+      const key = coordToKey(n);
+      return terrain.has(key) && !visited.has(key);
+    });
+
+    // Flow into water or an existing river and stop
+    const outlet = neighbors.find(n => {
+      const key = coordToKey(n);
+      return terrain.get(key) === 'water' || riverHexes.has(key);
+    });
+    if (outlet) {
+      course.push(outlet);
+      break;
+    }
+
+    const downhill = neighbors.filter(n => getElevation(terrain.get(coordToKey(n))) <= currentElevation);
+    if (downhill.length === 0) break;
+
+    // Prefer the lowest hexes, then the ones heading away from the source
+    const lowest = Math.min(...downhill.map(n => getElevation(terrain.get(coordToKey(n)))));
+    const lowestHexes = downhill.filter(n => getElevation(terrain.get(coordToKey(n))) === lowest);
+    const farthest = Math.max(...lowestHexes.map(n => hexDistance(source, n)));
+    const next = pickRandom(lowestHexes.filter(n => hexDistance(source, n) === farthest), rng);
+
+    course.push(next);
+    visited.add(coordToKey(next));
+    current = next;
+  }
+
+  return course;
+}
+
+/**
+ * Generate rivers for a map
+ * @param terrain - Map of coord keys to terrain IDs, in generation order
+ * @param options - River options
+ * @param rng - Random source (defaults to Math.random)
+ * @returns One ordered list of hexes per river, source first
+ */
+export function generateRivers(
+  terrain: Map<string, string>,
+  options: Partial<RiverGenerationOptions> = {},
+  rng: RandomSource = Math.random
+): HexCoord[][] {
+  const opts = { ...DEFAULT_RIVER_OPTIONS, ...options };
+  const rivers: HexCoord[][] = [];
+  const riverHexes = new Set<string>();
+
+  for (const [key, terrainId] of terrain) {
+    if (rivers.length >= opts.maxRivers) break;
+    if (terrainId !== 'mountain' || riverHexes.has(key)) continue;
+    if (!percentageCheck(opts.sourceChance, rng)) continue;
+
+    const course = traceRiver(keyToCoord(key), terrain, riverHexes, opts.maxLength, rng);
+    if (course.length < opts.minLength) continue;
+
+    rivers.push(course);
+    for (const coord of course) {
+      riverHexes.add(coordToKey(coord));
+    }
+  }
+
+  return rivers;
+}
+
+export default {
+  generateRivers,
+  DEFAULT_RIVER_OPTIONS,
+};
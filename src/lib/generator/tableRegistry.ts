@@ -0,0 +1,168 @@
+// ============================================
+// TABLE REGISTRY
+// Built-in tables plus per-campaign user overrides
+// ============================================
+
+import type { RollableTable } from './types';
+import biomeTables from './tables/biomes';
+import featureTables from './tables/features';
+import landmarkTables from './tables/landmarks';
+import nameTables from './tables/names';
+import settlementTables from './tables/settlements';
+import townsfolkTables from './tables/townsfolk';
+import dungeonTables from './tables/dungeons';
+
+/**
+ * Check whether a value is a rollable table definition
+ */
+function isRollableTable(value: unknown): value is RollableTable {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    typeof (value as RollableTable).id === 'string' &&
+    typeof (value as RollableTable).diceFormula === 'string' &&
+    Array.isArray((value as RollableTable).entries)
+  );
+}
+
+/**
+ * Walk a (possibly nested) table module export and collect every table
+ */
+function collectTables(source: unknown, into: Map<string, RollableTable>): void {
+  if (isRollableTable(source)) {
+    if (!into.has(source.id)) {
+      into.set(source.id, source);
+    }
+    return;
+  }
+  if (typeof source === 'object' && source !== null && !Array.isArray(source)) {
+    for (const value of Object.values(source)) {
+      collectTables(value, into);
+    }
+  }
+}
+
+const DEFAULT_TABLES = new Map<string, RollableTable>();
+for (const tableModule of [biomeTables, featureTables, landmarkTables, nameTables, settlementTables, townsfolkTables, dungeonTables]) {
+  collectTables(tableModule, DEFAULT_TABLES);
+}
+
+// User tables for the campaign currently open (replace built-ins by id)
+let activeUserTables = new Map<string, RollableTable>();
+
+// ============================================
+// LOOKUP
+// ============================================
+
+/**
+ * All built-in tables, in declaration order
+ */
+export function getDefaultTables(): RollableTable[] {
+  return [...DEFAULT_TABLES.values()];
+}
+
+/**
+ * Get the built-in version of a table
+ */
+export function getDefaultTable(id: string): RollableTable | undefined {
+  return DEFAULT_TABLES.get(id);
+}
+
+/**
+ * Check if a table ID belongs to a built-in table
+ */
+export function isBuiltInTable(id: string): boolean {
+  return DEFAULT_TABLES.has(id);
+}
+
+/**
+ * Set the user tables that generators should roll on
+ * Called whenever the open campaign (or its tables) changes
+ */
+export function setActiveUserTables(tables: RollableTable[] = []): void {
+  activeUserTables = new Map(tables.map(t => [t.id, t]));
+}
+
+/**
+ * Get a table by ID, preferring the user's version over the built-in one
+ */
+export function getTable(id: string): RollableTable | undefined {
+  return activeUserTables.get(id) || DEFAULT_TABLES.get(id);
+}
+
+/**
+ * Swap a built-in table for the user's version if one exists
+ */
+export function resolveTable(table: RollableTable): RollableTable {
+  return activeUserTables.get(table.id) || table;
+}
+
+/**
+ * Merge built-in and user tables into a single list
+ * User tables replace built-ins with the same ID; custom tables come last
+ */
+export function mergeTables(userTables: RollableTable[] = []): RollableTable[] {
+  const userById = new Map(userTables.map(t => [t.id, t]));
+  const merged = getDefaultTables().map(t => userById.get(t.id) || t);
+  for (const table of userTables) {
+    if (!DEFAULT_TABLES.has(table.id)) {
+      merged.push(table);
+    }
+  }
+  return merged;
+}
+
+// ============================================
+// EDITING HELPERS
+// ============================================
+
+/**
+ * Create a copy of a table under a new ID
+ */
+export function cloneTable(table: RollableTable, existingIds: Set<string>): RollableTable {
+  let n = 1;
+  let id = `${table.id}-copy`;
+  while (existingIds.has(id)) {
+    n++;
+    id = `${table.id}-copy-${n}`;
+  }
+  return {
+    ...table,
+    id,
+    name: `${table.name} (Copy)`,
+    entries: table.entries.map(e => ({ ...e })),
+  };
+}
+
+/**
+ * Create an empty custom table
+ */
+export function createCustomTable(existingIds: Set<string>): RollableTable {
+  let n = 1;
+  let id = 'custom-table-1';
+  while (existingIds.has(id)) {
+    n++;
+    id = `custom-table-${n}`;
+  }
+  return {
+    id,
+    name: `Custom Table ${n}`,
+    category: 'custom',
+    diceFormula: '1d6',
+    entries: [
+      { id: 'e1', min: 1, max: 6, value: 'New entry' },
+    ],
+  };
+}
+
+export default {
+  getDefaultTables,
+  getDefaultTable,
+  isBuiltInTable,
+  setActiveUserTables,
+  getTable,
+  resolveTable,
+  mergeTables,
+  cloneTable,
+  createCustomTable,
+};
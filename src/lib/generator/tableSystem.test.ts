@@ -0,0 +1,89 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import type { RollableTable, TableEntry } from './types';
+import { isValidDiceFormula, parseDiceFormula, rollDice, rollOnTable, validateTable } from './tableSystem';
+import { setActiveUserTables } from './tableRegistry';
+import { createSeededRandom } from './random';
+
+function makeTable(id: string, entries: Partial<TableEntry>[], diceFormula = '1d1'): RollableTable {
+  return {
+    id,
+    name: id,
+    category: 'test',
+    diceFormula,
+    entries: entries.map((e, i) => ({ id: `${id}-${i}`, min: i + 1, max: i + 1, value: id, ...e })),
+  };
+}
+
+afterEach(() => setActiveUserTables([]));
+
+describe('dice formulas', () => {
+  it('parses count, sides and modifier', () => {
+    expect(parseDiceFormula('2d6+1')).toEqual({ count: 2, sides: 6, modifier: 1 });
+    expect(parseDiceFormula('1D20-2')).toEqual({ count: 1, sides: 20, modifier: -2 });
+  });
+
+  it('rejects formulas that cannot be rolled', () => {
+    for (const formula of ['d6', '0d6', '1d0', '2d6 + 1', 'abc', '']) {
+      expect(isValidDiceFormula(formula)).toBe(false);
+      expect(() => parseDiceFormula(formula)).toThrow('Invalid dice formula');
+    }
+    expect(isValidDiceFormula('1d100')).toBe(true);
+  });
+
+  it('rolls within range', () => {
+    const rng = createSeededRandom('dice');
+    for (let i = 0; i < 200; i++) {
+      const roll = rollDice('2d6+1', rng);
+      expect(roll).toBeGreaterThanOrEqual(3);
+      expect(roll).toBeLessThanOrEqual(13);
+    }
+  });
+});
+
+describe('rollOnTable', () => {
+  it('flattens each level of a subtable chain once', () => {
+    const c = makeTable('c', [{}]);
+    const b = makeTable('b', [{ subTable: 'c' }]);
+    const a = makeTable('a', [{ subTable: 'b' }]);
+    setActiveUserTables([a, b, c]);
+
+    const result = rollOnTable(a);
+    expect(result.value).toBe('a: b: c');
+    expect(result.subResults?.[0].value).toBe('b');
+    expect(result.subResults?.[0].subResults?.[0].value).toBe('c');
+  });
+
+  it('fills [sub] placeholders and rolls the subtable count times', () => {
+    const gem = makeTable('gem', [{ value: 'ruby' }]);
+    const hoard = makeTable('hoard', [{ value: 'a chest of [sub]', subTable: 'gem', subTableCount: 2 }]);
+    setActiveUserTables([hoard, gem]);
+
+    expect(rollOnTable(hoard).value).toBe('a chest of ruby, ruby');
+  });
+
+  it('stops following subtable links that loop', () => {
+    const loop = makeTable('loop', [{ subTable: 'loop' }]);
+    setActiveUserTables([loop]);
+
+    expect(rollOnTable(loop).value).toBe(Array(6).fill('loop').join(': '));
+  });
+
+  it('uses the campaign version of a table', () => {
+    const builtIn = makeTable('terrain', [{ value: 'built-in' }]);
+    setActiveUserTables([makeTable('terrain', [{ value: 'edited' }])]);
+
+    expect(rollOnTable(builtIn).value).toBe('edited');
+  });
+});
+
+describe('validateTable', () => {
+  it('reports an invalid dice formula', () => {
+    const errors = validateTable(makeTable('t', [{}], '2x6'), new Set(['t']));
+    expect(errors).toContain('Invalid dice formula "2x6" (use e.g. 1d6, 2d6, 1d20+1)');
+  });
+
+  it('reports links to unknown tables', () => {
+    const errors = validateTable(makeTable('t', [{ subTable: 'missing' }]), new Set(['t']));
+    expect(errors.some(e => e.includes('missing'))).toBe(true);
+  });
+});
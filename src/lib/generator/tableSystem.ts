@@ -3,13 +3,28 @@
 // ============================================
 
 import type { RollableTable, TableEntry, RollResult } from './types';
+import type { RandomSource } from './random';
+import { resolveTable, getTable } from './tableRegistry';
+
+// Guards against subtable links that loop back on themselves
+const MAX_SUBTABLE_DEPTH = 5;
+
+const DICE_FORMULA = /^(\d+)d(\d+)([+-]\d+)?$/i;
+
+/**
+ * Check a dice formula before it's saved: at least one die of at least one side
+ */
+export function isValidDiceFormula(formula: string): boolean {
+  const match = formula.match(DICE_FORMULA);
+  return !!match && parseInt(match[1], 10) > 0 && parseInt(match[2], 10) > 0;
+}
 
 /**
  * Parse a dice formula like "1d6", "2d10", "1d100"
  */
 export function parseDiceFormula(formula: string): { count: number; sides: number; modifier: number } {
-  const match = formula.match(/^(\d+)d(\d+)([+-]\d+)?$/i);
-  if (!match) {
+  const match = formula.match(DICE_FORMULA);
+  if (!match || !isValidDiceFormula(formula)) {
     throw new Error(`Invalid dice formula: ${formula}`);
   }
   return {
@@ -21,19 +36,20 @@ export function parseDiceFormula(formula: string): { count: number; sides: numbe
 
 /**
  * Roll a single die with N sides
+ * All rolls accept an optional random source so results can be seeded
  */
-export function rollDie(sides: number): number {
-  return Math.floor(Math.random() * sides) + 1;
+export function rollDie(sides: number, rng: RandomSource = Math.random): number {
+  return Math.floor(rng() * sides) + 1;
 }
 
 /**
  * Roll dice according to a formula (e.g., "2d6+1")
  */
-export function rollDice(formula: string): number {
+export function rollDice(formula: string, rng: RandomSource = Math.random): number {
   const { count, sides, modifier } = parseDiceFormula(formula);
   let total = modifier;
   for (let i = 0; i < count; i++) {
-    total += rollDie(sides);
+    total += rollDie(sides, rng);
   }
   return total;
 }
@@ -41,21 +57,21 @@ export function rollDice(formula: string): number {
 /**
  * Roll a specific die type
  */
-export function d4(): number { return rollDie(4); }
-export function d6(): number { return rollDie(6); }
-export function d8(): number { return rollDie(8); }
-export function d10(): number { return rollDie(10); }
-export function d12(): number { return rollDie(12); }
-export function d20(): number { return rollDie(20); }
-export function d100(): number { return rollDie(100); }
-export function d24(): number { return rollDie(24); }
-export function d30(): number { return rollDie(30); }
+export function d4(rng: RandomSource = Math.random): number { return rollDie(4, rng); }
+export function d6(rng: RandomSource = Math.random): number { return rollDie(6, rng); }
+export function d8(rng: RandomSource = Math.random): number { return rollDie(8, rng); }
+export function d10(rng: RandomSource = Math.random): number { return rollDie(10, rng); }
+export function d12(rng: RandomSource = Math.random): number { return rollDie(12, rng); }
+export function d20(rng: RandomSource = Math.random): number { return rollDie(20, rng); }
+export function d100(rng: RandomSource = Math.random): number { return rollDie(100, rng); }
+export function d24(rng: RandomSource = Math.random): number { return rollDie(24, rng); }
+export function d30(rng: RandomSource = Math.random): number { return rollDie(30, rng); }
 
 /**
  * Roll 2d6 (common for encounter tables)
  */
-export function roll2d6(): number {
-  return d6() + d6();
+export function roll2d6(rng: RandomSource = Math.random): number {
+  return d6(rng) + d6(rng);
 }
 
 /**
@@ -67,37 +83,68 @@ export function findEntry(table: RollableTable, roll: number): TableEntry | unde
 
 /**
  * Roll on a table and return the result
+ * Uses the campaign's version of the table if the user has edited it, and
+ * follows subtable links (the value includes the flattened subtable results)
  */
-export function rollOnTable(table: RollableTable): RollResult {
-  const roll = rollDice(table.diceFormula);
-  const entry = findEntry(table, roll);
+export function rollOnTable(table: RollableTable, rng: RandomSource = Math.random): RollResult {
+  const result = rollTableEntry(table, rng, 0);
+  return result.subResults ? { ...result, value: flattenRollResult(result) } : result;
+}
+
+/**
+ * Roll on a table, following subtable links; every value is its entry's own
+ * text, so the result is flattened once at the top
+ */
+function rollTableEntry(table: RollableTable, rng: RandomSource, depth: number): RollResult {
+  const activeTable = resolveTable(table);
+  const roll = rollDice(activeTable.diceFormula, rng);
+  const entry = findEntry(activeTable, roll);
   
   if (!entry) {
-    console.warn(`No entry found for roll ${roll} on table ${table.id}`);
+    console.warn(`No entry found for roll ${roll} on table ${activeTable.id}`);
     return {
-      tableId: table.id,
+      tableId: activeTable.id,
       roll,
       value: 'Unknown',
     };
   }
   
-  return {
-    tableId: table.id,
+  const result: RollResult = {
+    tableId: activeTable.id,
     roll,
     value: entry.value,
   };
+  
+  if (entry.subTable) {
+    const subTable = getTable(entry.subTable);
+    if (!subTable) {
+      console.warn(`Subtable not found: ${entry.subTable}`);
+    } else if (depth >= MAX_SUBTABLE_DEPTH) {
+      console.warn(`Subtable depth limit reached at ${entry.subTable}`);
+    } else {
+      const count = entry.subTableCount || 1;
+      result.subResults = [];
+      for (let i = 0; i < count; i++) {
+        result.subResults.push(rollTableEntry(subTable, rng, depth + 1));
+      }
+    }
+  }
+  
+  return result;
 }
 
 /**
  * Roll on a table with subtable resolution
  * @param table The table to roll on
  * @param allTables Map of all available tables for subtable lookups
+ * @param rng Random source (defaults to Math.random)
  */
 export function rollOnTableWithSubtables(
   table: RollableTable,
-  allTables: Map<string, RollableTable>
+  allTables: Map<string, RollableTable>,
+  rng: RandomSource = Math.random
 ): RollResult {
-  const roll = rollDice(table.diceFormula);
+  const roll = rollDice(table.diceFormula, rng);
   const entry = findEntry(table, roll);
   
   if (!entry) {
@@ -122,7 +169,7 @@ export function rollOnTableWithSubtables(
       const count = entry.subTableCount || 1;
       result.subResults = [];
       for (let i = 0; i < count; i++) {
-        result.subResults.push(rollOnTableWithSubtables(subTable, allTables));
+        result.subResults.push(rollOnTableWithSubtables(subTable, allTables, rng));
       }
     } else {
       console.warn(`Subtable not found: ${entry.subTable}`);
@@ -135,34 +182,102 @@ export function rollOnTableWithSubtables(
 /**
  * Pick a random item from an array
  */
-export function pickRandom<T>(array: T[]): T {
-  return array[Math.floor(Math.random() * array.length)];
+export function pickRandom<T>(array: T[], rng: RandomSource = Math.random): T {
+  return array[Math.floor(rng() * array.length)];
 }
 
 /**
  * Pick N random items from an array (without replacement)
  */
-export function pickRandomN<T>(array: T[], n: number): T[] {
-  const shuffled = [...array].sort(() => Math.random() - 0.5);
+export function pickRandomN<T>(array: T[], n: number, rng: RandomSource = Math.random): T[] {
+  // Fisher-Yates shuffle so a seeded source gives a stable order
+  const shuffled = [...array];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(rng() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
   return shuffled.slice(0, Math.min(n, array.length));
 }
 
 /**
  * Roll a percentage check (1d100 <= threshold)
  */
-export function percentageCheck(threshold: number): boolean {
-  return d100() <= threshold;
+export function percentageCheck(threshold: number, rng: RandomSource = Math.random): boolean {
+  return d100(rng) <= threshold;
 }
 
 /**
  * Roll a X-in-6 check (common in OSR games)
  */
-export function chanceIn6(x: number): boolean {
-  return d6() <= x;
+export function chanceIn6(x: number, rng: RandomSource = Math.random): boolean {
+  return d6(rng) <= x;
+}
+
+/**
+ * Get the lowest and highest possible totals for a dice formula
+ */
+export function getDiceRange(formula: string): { min: number; max: number } {
+  const { count, sides, modifier } = parseDiceFormula(formula);
+  return {
+    min: count + modifier,
+    max: count * sides + modifier,
+  };
+}
+
+/**
+ * Check a table definition for problems
+ * Returns a list of human-readable errors (empty if the table is valid)
+ * @param knownTableIds IDs that subtable links may point at
+ */
+export function validateTable(table: RollableTable, knownTableIds: Set<string>): string[] {
+  const errors: string[] = [];
+  
+  if (!table.id.trim()) errors.push('Table ID is required');
+  if (!table.name.trim()) errors.push('Table name is required');
+  if (table.entries.length === 0) errors.push('Table has no entries');
+  
+  let range: { min: number; max: number } | null = null;
+  try {
+    range = getDiceRange(table.diceFormula);
+  } catch {
+    errors.push(`Invalid dice formula "${table.diceFormula}" (use e.g. 1d6, 2d6, 1d20+1)`);
+  }
+  
+  for (const entry of table.entries) {
+    if (entry.min > entry.max) {
+      errors.push(`Entry "${entry.value}" has min ${entry.min} greater than max ${entry.max}`);
+    }
+    if (entry.subTable && !knownTableIds.has(entry.subTable)) {
+      errors.push(`Entry "${entry.value}" links to unknown table "${entry.subTable}"`);
+    }
+    if (entry.subTable === table.id) {
+      errors.push(`Entry "${entry.value}" links to its own table`);
+    }
+  }
+  
+  // Every possible roll should hit exactly one entry
+  if (range) {
+    const gaps: number[] = [];
+    const overlaps: number[] = [];
+    for (let roll = range.min; roll <= range.max; roll++) {
+      const hits = table.entries.filter(e => roll >= e.min && roll <= e.max).length;
+      if (hits === 0) gaps.push(roll);
+      if (hits > 1) overlaps.push(roll);
+    }
+    if (gaps.length > 0) {
+      errors.push(`No entry for roll${gaps.length > 1 ? 's' : ''} ${gaps.join(', ')}`);
+    }
+    if (overlaps.length > 0) {
+      errors.push(`Multiple entries for roll${overlaps.length > 1 ? 's' : ''} ${overlaps.join(', ')}`);
+    }
+  }
+  
+  return errors;
 }
 
 /**
  * Flatten a roll result with subtables into a single string
+ * (rollOnTable results already come flattened)
  */
 export function flattenRollResult(result: RollResult): string {
   let output = result.value;
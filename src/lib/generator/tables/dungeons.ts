@@ -0,0 +1,148 @@
+// ============================================
+// DUNGEON STOCKING TABLES (rooms, level rulers, entrances)
+// ============================================
+
+import type { RollableTable } from '../types';
+
+// Helper for simple numbered entries
+function createEntries(values: string[], startAt: number = 1): { id: string; min: number; max: number; value: string }[] {
+  return values.map((value, index) => ({
+    id: `e${index + 1}`,
+    min: startAt + index,
+    max: startAt + index,
+    value,
+  }));
+}
+
+// ============================================
+// ROOM TABLES
+// ============================================
+
+/**
+ * Room contents (1d6), classic stocking ratios: 1/3 monster, 1/6 trap,
+ * 1/6 unguarded treasure, 1/3 empty
+ */
+export const DUNGEON_ROOM_CONTENTS: RollableTable = {
+  id: 'dungeon-room-contents',
+  name: 'Dungeon Room Contents',
+  category: 'dungeons',
+  diceFormula: '1d6',
+  entries: [
+    { id: 'e1', min: 1, max: 2, value: 'monster' },
+    { id: 'e2', min: 3, max: 3, value: 'trap' },
+    { id: 'e3', min: 4, max: 4, value: 'treasure' },
+    { id: 'e4', min: 5, max: 6, value: 'empty' },
+  ],
+};
+
+export const DUNGEON_MONSTER: RollableTable = {
+  id: 'dungeon-monster',
+  name: 'Dungeon Monster',
+  category: 'dungeons',
+  diceFormula: '2d6',
+  entries: createEntries([
+    'Ogres', 'Ghouls', 'Giant spiders', 'Goblins', 'Skeletons', 'Giant rats',
+    'Kobolds', 'Zombies', 'Orcs', 'Carrion crawlers', 'Gelatinous cubes',
+  ], 2),
+};
+
+export const DUNGEON_TRAP: RollableTable = {
+  id: 'dungeon-trap',
+  name: 'Dungeon Trap',
+  category: 'dungeons',
+  diceFormula: '1d8',
+  entries: createEntries([
+    'Pit', 'Falling block', 'Poison needle', 'Dart volley',
+    'Gas cloud', 'Collapsing floor', 'Alarm bell', 'Teleporter',
+  ]),
+};
+
+export const DUNGEON_TREASURE: RollableTable = {
+  id: 'dungeon-treasure',
+  name: 'Dungeon Treasure',
+  category: 'dungeons',
+  diceFormula: '1d6',
+  entries: createEntries([
+    'Coins', 'Coins', 'Gems', 'Jewelry', 'Art object', 'Magic item',
+  ]),
+};
+
+export const DUNGEON_EMPTY_ROOM: RollableTable = {
+  id: 'dungeon-empty-room',
+  name: 'Dungeon Empty Room',
+  category: 'dungeons',
+  diceFormula: '1d8',
+  entries: createEntries([
+    'Rubble', 'Old campsite', 'Scattered bones', 'Defaced shrine',
+    'Fungus garden', 'Dripping water', 'Broken furniture', 'Strange mural',
+  ]),
+};
+
+// ============================================
+// LEVEL TABLES
+// ============================================
+
+/**
+ * Who holds a level (1d6): a single boss (1-3) or a faction (4-6)
+ */
+export const DUNGEON_LEVEL_RULER: RollableTable = {
+  id: 'dungeon-level-ruler',
+  name: 'Dungeon Level Ruler',
+  category: 'dungeons',
+  diceFormula: '1d6',
+  entries: [
+    { id: 'e1', min: 1, max: 3, value: 'boss' },
+    { id: 'e2', min: 4, max: 6, value: 'faction' },
+  ],
+};
+
+export const DUNGEON_BOSS_TRAIT: RollableTable = {
+  id: 'dungeon-boss-trait',
+  name: 'Dungeon Boss Trait',
+  category: 'dungeons',
+  diceFormula: '1d6',
+  entries: createEntries([
+    'Ancient', 'Cursed', 'Giant', 'Sorcerous', 'Undead', 'Two-headed',
+  ]),
+};
+
+export const DUNGEON_FACTION: RollableTable = {
+  id: 'dungeon-faction',
+  name: 'Dungeon Faction',
+  category: 'dungeons',
+  diceFormula: '1d8',
+  entries: createEntries([
+    'Goblin tribe', 'Cultists', 'Bandits', 'Restless dead', 'Kobold warren',
+    'Rival adventurers', 'Fungus folk', 'Lizardmen',
+  ]),
+};
+
+export const DUNGEON_ENTRANCE: RollableTable = {
+  id: 'dungeon-entrance',
+  name: 'Dungeon Entrance',
+  category: 'dungeons',
+  diceFormula: '1d8',
+  entries: createEntries([
+    'Cave mouth', 'Collapsed stair', 'Well shaft', 'Hidden trapdoor',
+    'Ruined gatehouse', 'Sinkhole', 'Sewer grate', 'Crypt door',
+  ]),
+};
+
+// Export grouped for the stocking generator
+export const DUNGEON_TABLES = {
+  room: {
+    contents: DUNGEON_ROOM_CONTENTS,
+    monster: DUNGEON_MONSTER,
+    trap: DUNGEON_TRAP,
+    treasure: DUNGEON_TREASURE,
+    empty: DUNGEON_EMPTY_ROOM,
+  },
+  level: {
+    ruler: DUNGEON_LEVEL_RULER,
+    bossTrait: DUNGEON_BOSS_TRAIT,
+    faction: DUNGEON_FACTION,
+  },
+  entrance: DUNGEON_ENTRANCE,
+};
+
+export default DUNGEON_TABLES;
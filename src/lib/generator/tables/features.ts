@@ -197,6 +197,47 @@ export const LAIR_LAYOUT: RollableTable = {
   ],
 };
 
+/**
+ * Lair treasure hoard (1d8)
+ */
+export const LAIR_TREASURE: RollableTable = {
+  id: 'lair-treasure',
+  name: 'Lair Treasure',
+  description: 'What the lair\'s creatures have hoarded',
+  category: 'features',
+  diceFormula: '1d8',
+  entries: [
+    { id: 'e1', min: 1, max: 2, value: 'Scattered coins' },
+    { id: 'e2', min: 3, max: 3, value: 'Coins and gems' },
+    { id: 'e3', min: 4, max: 4, value: 'Coins and jewelry' },
+    { id: 'e4', min: 5, max: 5, value: 'Trade goods' },
+    { id: 'e5', min: 6, max: 6, value: 'Art objects' },
+    { id: 'e6', min: 7, max: 7, value: 'Coins and a magic item' },
+    { id: 'e7', min: 8, max: 8, value: 'Hoard: coins, gems and magic items' },
+  ],
+};
+
+/**
+ * What fills a lair chamber (1d8)
+ */
+export const LAIR_ROOM_FEATURE: RollableTable = {
+  id: 'lair-room-feature',
+  name: 'Lair Room Feature',
+  description: 'What is in each chamber of a lair',
+  category: 'features',
+  diceFormula: '1d8',
+  entries: [
+    { id: 'e1', min: 1, max: 1, value: 'Bones and refuse' },
+    { id: 'e2', min: 2, max: 2, value: 'Sleeping nests' },
+    { id: 'e3', min: 3, max: 3, value: 'Food store' },
+    { id: 'e4', min: 4, max: 4, value: 'Fire pit' },
+    { id: 'e5', min: 5, max: 5, value: 'Pool of water' },
+    { id: 'e6', min: 6, max: 6, value: 'Crude shrine' },
+    { id: 'e7', min: 7, max: 7, value: 'Captive' },
+    { id: 'e8', min: 8, max: 8, value: 'Bare rock' },
+  ],
+};
+
 /**
  * Dungeon levels table (1d6)
  */
@@ -226,5 +267,7 @@ export default {
   DISPOSITION,
   EVENT_TIMING,
   LAIR_LAYOUT,
+  LAIR_TREASURE,
+  LAIR_ROOM_FEATURE,
   DUNGEON_LEVELS,
 };
@@ -489,8 +489,8 @@ export const ABBEY_EVENT: RollableTable = {
 // ============================================
 
 export const DISPOSITION: RollableTable = {
-  id: 'disposition',
-  name: 'Disposition',
+  id: 'settlement-disposition',
+  name: 'Settlement Disposition',
   category: 'settlements',
   diceFormula: '2d6',
   entries: [
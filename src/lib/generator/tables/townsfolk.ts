@@ -0,0 +1,221 @@
+// ============================================
+// TOWNSFOLK TABLES (settlement expansion: NPCs, shops, rumors)
+// ============================================
+
+import type { RollableTable } from '../types';
+
+// Helper for simple numbered entries
+function createEntries(values: string[], startAt: number = 1): { id: string; min: number; max: number; value: string }[] {
+  return values.map((value, index) => ({
+    id: `e${index + 1}`,
+    min: startAt + index,
+    max: startAt + index,
+    value,
+  }));
+}
+
+// ============================================
+// NPC TABLES
+// ============================================
+
+export const NPC_FIRST_NAME: RollableTable = {
+  id: 'npc-first-name',
+  name: 'NPC First Name',
+  category: 'townsfolk',
+  diceFormula: '1d30',
+  entries: createEntries([
+    'Ada', 'Aldric', 'Bertha', 'Bram', 'Cedric', 'Dora', 'Edda', 'Edmund',
+    'Elsa', 'Fenwick', 'Gilda', 'Godwin', 'Hilda', 'Hugo', 'Ida', 'Jory',
+    'Kestrel', 'Leofric', 'Maud', 'Merric', 'Nell', 'Osric', 'Petra', 'Quill',
+    'Rowena', 'Sigurd', 'Tamsin', 'Ulric', 'Wenna', 'Wystan',
+  ]),
+};
+
+export const NPC_SURNAME: RollableTable = {
+  id: 'npc-surname',
+  name: 'NPC Surname',
+  category: 'townsfolk',
+  diceFormula: '1d20',
+  entries: createEntries([
+    'Ashdown', 'Barrow', 'Blackwood', 'Brewer', 'Cobb', 'Crane', 'Fairweather', 'Fletcher',
+    'Greaves', 'Hale', 'Holt', 'Marsh', 'Mercer', 'Oakes', 'Pike', 'Reed',
+    'Stone', 'Thatcher', 'Tull', 'Wren',
+  ]),
+};
+
+export const NPC_OCCUPATION: RollableTable = {
+  id: 'npc-occupation',
+  name: 'NPC Occupation',
+  category: 'townsfolk',
+  diceFormula: '1d20',
+  entries: createEntries([
+    'Baker', 'Beggar', 'Blacksmith', 'Brewer', 'Carpenter', 'Farmer', 'Fisher', 'Guard',
+    'Healer', 'Hunter', 'Innkeeper', 'Merchant', 'Miller', 'Minstrel', 'Priest', 'Scribe',
+    'Shepherd', 'Tanner', 'Thief', 'Weaver',
+  ]),
+};
+
+export const NPC_PERSONALITY: RollableTable = {
+  id: 'npc-personality',
+  name: 'NPC Personality',
+  category: 'townsfolk',
+  diceFormula: '1d20',
+  entries: createEntries([
+    'Boastful', 'Cheerful', 'Curious', 'Cynical', 'Devout', 'Forgetful', 'Generous', 'Gloomy',
+    'Gossipy', 'Greedy', 'Honest', 'Hot-tempered', 'Lazy', 'Nervous', 'Pompous', 'Rude',
+    'Secretive', 'Shy', 'Suspicious', 'Warm',
+  ]),
+};
+
+export const NPC_WANT: RollableTable = {
+  id: 'npc-want',
+  name: 'NPC Want',
+  category: 'townsfolk',
+  diceFormula: '1d12',
+  entries: createEntries([
+    'To pay off a debt', 'Revenge on a rival', 'A cure for a sick relative', 'To leave this place',
+    'To find a missing person', 'Recognition', 'Wealth', 'To marry well',
+    'To keep a secret buried', 'Protection from a threat', 'A rare item', 'To atone for a crime',
+  ]),
+};
+
+// ============================================
+// SHOP TABLES
+// ============================================
+
+export const SHOP_QUALITY: RollableTable = {
+  id: 'shop-quality',
+  name: 'Shop Quality',
+  category: 'townsfolk',
+  diceFormula: '2d6',
+  entries: [
+    { id: 'e1', min: 2, max: 3, value: 'Shoddy' },
+    { id: 'e2', min: 4, max: 6, value: 'Modest' },
+    { id: 'e3', min: 7, max: 9, value: 'Average' },
+    { id: 'e4', min: 10, max: 11, value: 'Good' },
+    { id: 'e5', min: 12, max: 12, value: 'Excellent' },
+  ],
+};
+
+/**
+ * Shops and services, with the smallest settlement tier that has one
+ * Tiers: hamlet/tower 0, small village 1 ... big city 6 (see getSettlementTier)
+ */
+export const SETTLEMENT_SERVICES: { service: string; minTier: number }[] = [
+  { service: 'Tavern', minTier: 0 },
+  { service: 'General store', minTier: 1 },
+  { service: 'Blacksmith', minTier: 1 },
+  { service: 'Inn', minTier: 2 },
+  { service: 'Stable', minTier: 2 },
+  { service: 'Healer', minTier: 2 },
+  { service: 'Tailor', minTier: 3 },
+  { service: 'Bowyer', minTier: 3 },
+  { service: 'Armorer', minTier: 4 },
+  { service: 'Weaponsmith', minTier: 4 },
+  { service: 'Alchemist', minTier: 4 },
+  { service: 'Moneychanger', minTier: 5 },
+  { service: 'Sage', minTier: 5 },
+  { service: 'Jeweler', minTier: 5 },
+  { service: 'Magic shop', minTier: 6 },
+  { service: 'Hireling hall', minTier: 6 },
+];
+
+// ============================================
+// RUMOR TABLES
+// {place} is replaced with the feature the rumor is about
+// ============================================
+
+export const RUMOR_TRUTH: RollableTable = {
+  id: 'rumor-truth',
+  name: 'Rumor Truth',
+  category: 'townsfolk',
+  diceFormula: '1d6',
+  entries: [
+    { id: 'e1', min: 1, max: 3, value: 'True' },
+    { id: 'e2', min: 4, max: 5, value: 'Partly true' },
+    { id: 'e3', min: 6, max: 6, value: 'False' },
+  ],
+};
+
+export const RUMOR_SETTLEMENT: RollableTable = {
+  id: 'rumor-settlement',
+  name: 'Rumor (Settlement)',
+  category: 'townsfolk',
+  diceFormula: '1d6',
+  entries: createEntries([
+    '{place} is hiring swords and paying well',
+    'Traders from {place} have stopped coming',
+    'A stranger from {place} paid in very old coins',
+    'Sickness has broken out in {place}',
+    'There is a festival coming at {place}',
+    'Whoever rules {place} is plotting against us',
+  ]),
+};
+
+export const RUMOR_LANDMARK: RollableTable = {
+  id: 'rumor-landmark',
+  name: 'Rumor (Landmark)',
+  category: 'townsfolk',
+  diceFormula: '1d6',
+  entries: createEntries([
+    'Strange lights were seen at {place}',
+    'Something is buried at {place}',
+    'A shepherd went to {place} and came back changed',
+    'Pilgrims have started visiting {place}',
+    'Bandits use {place} as a meeting point',
+    'Drinking near {place} cures fevers',
+  ]),
+};
+
+export const RUMOR_LAIR: RollableTable = {
+  id: 'rumor-lair',
+  name: 'Rumor (Lair)',
+  category: 'townsfolk',
+  diceFormula: '1d6',
+  entries: createEntries([
+    'Something has been taking livestock near {place}',
+    'Hunters won\'t go near {place} any more',
+    'Tracks as big as a cartwheel lead to {place}',
+    'A child swears they saw a monster at {place}',
+    'There is a bounty on whatever lives at {place}',
+    'The beast at {place} guards a hoard',
+  ]),
+};
+
+export const RUMOR_DUNGEON: RollableTable = {
+  id: 'rumor-dungeon',
+  name: 'Rumor (Dungeon)',
+  category: 'townsfolk',
+  diceFormula: '1d6',
+  entries: createEntries([
+    'There is treasure beneath {place}',
+    'Adventurers went into {place} last month and never came out',
+    'A map to {place} is for sale, cheap',
+    'Something crawled out of {place} at the new moon',
+    'An old wizard was buried in {place}',
+    'Cultists have been seen going into {place}',
+  ]),
+};
+
+// Export grouped for the expansion generator
+export const TOWNSFOLK_TABLES = {
+  npc: {
+    firstName: NPC_FIRST_NAME,
+    surname: NPC_SURNAME,
+    occupation: NPC_OCCUPATION,
+    personality: NPC_PERSONALITY,
+    want: NPC_WANT,
+  },
+  shop: {
+    quality: SHOP_QUALITY,
+  },
+  rumor: {
+    truth: RUMOR_TRUTH,
+    settlement: RUMOR_SETTLEMENT,
+    landmark: RUMOR_LANDMARK,
+    lair: RUMOR_LAIR,
+    dungeon: RUMOR_DUNGEON,
+  },
+};
+
+export default TOWNSFOLK_TABLES;
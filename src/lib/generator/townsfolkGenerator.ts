@@ -0,0 +1,169 @@
+// ============================================
+// TOWNSFOLK GENERATOR (settlement expansion)
+// NPC rosters, shops and rumors for a settlement hex
+// ============================================
+
+import type { CampaignMap, Hex, HexCoord } from '../types';
+import type {
+  SettlementType,
+  SettlementNpc,
+  SettlementShop,
+  SettlementRumor,
+  SettlementExpansion,
+} from './types';
+import { rollOnTable, pickRandom, pickRandomN } from './tableSystem';
+import { TOWNSFOLK_TABLES, SETTLEMENT_SERVICES } from './tables/townsfolk';
+import { NAME_ADJECTIVES, NAME_NOUNS } from './tables/names';
+import { coordToKey } from '../types';
+import { hexDistance, hexToPixel } from '../hexUtils';
+import type { RandomSource } from './random';
+
+// Rumors only point at features within this many hexes
+export const RUMOR_RADIUS = 6;
+
+// Services that go by a sign ("The Golden Boar") rather than the owner's name
+const SIGN_NAMED_SERVICES = ['Tavern', 'Inn'];
+
+const COMPASS_POINTS = ['east', 'north-east', 'north', 'north-west', 'west', 'south-west', 'south', 'south-east'];
+
+/**
+ * Size tier of a settlement, used to scale the roster and the services on offer
+ * Hamlet/tower 0, villages 1-3 and cities 4-6 by VILLAGE_SIZE/CITY_SIZE,
+ * castle 2, abbey 1 (small) or 2 (major)
+ */
+export function getSettlementTier(type: SettlementType, size?: string): number {
+  switch (type) {
+    case 'village':
+      return size === 'big' ? 3 : size === 'medium' ? 2 : 1;
+    case 'city':
+      return size === 'big' ? 6 : size === 'medium' ? 5 : 4;
+    case 'castle':
+      return 2;
+    case 'abbey':
+      return size === 'major' ? 2 : 1;
+    default:
+      return 0;
+  }
+}
+
+// ============================================
+// NPCS & SHOPS
+// ============================================
+
+/**
+ * Roll a named NPC
+ */
+export function generateNpc(rng: RandomSource = Math.random): SettlementNpc {
+  const tables = TOWNSFOLK_TABLES.npc;
+  return {
+    name: `${rollOnTable(tables.firstName, rng).value} ${rollOnTable(tables.surname, rng).value}`,
+    occupation: rollOnTable(tables.occupation, rng).value,
+    personality: rollOnTable(tables.personality, rng).value,
+    want: rollOnTable(tables.want, rng).value,
+  };
+}
+
+function possessive(name: string): string {
+  return name.endsWith('s') ? `${name}'` : `${name}'s`;
+}
+
+/**
+ * Every service available at the tier, each with a name and a quality
+ */
+function generateShops(tier: number, rng: RandomSource): SettlementShop[] {
+  return SETTLEMENT_SERVICES
+    .filter(s => s.minTier <= tier)
+    .map(({ service }) => ({
+      service,
+      name: SIGN_NAMED_SERVICES.includes(service)
+        ? `The ${pickRandom(NAME_ADJECTIVES, rng)} ${pickRandom(NAME_NOUNS, rng)}`
+        : possessive(rollOnTable(TOWNSFOLK_TABLES.npc.surname, rng).value),
+      quality: rollOnTable(TOWNSFOLK_TABLES.shop.quality, rng).value,
+    }));
+}
+
+// ============================================
+// RUMORS
+// ============================================
+
+/**
+ * How locals refer to a featured hex: its name, or "the <kind>"
+ */
+function describePlace(hex: Hex): string {
+  const name = hex.campaignData?.name || hex.feature?.name;
+  if (name) return name;
+
+  const details = hex.feature?.details || {};
+  const kind = hex.featureType === 'settlement' && typeof details.type === 'string'
+    ? details.type
+    : hex.featureType === 'landmark' && typeof details.nature === 'string'
+      ? details.nature
+      : hex.featureType || 'place';
+  return `the ${kind.toLowerCase()}`;
+}
+
+/**
+ * Compass direction from one hex to another, as drawn on the map
+ */
+function getDirection(from: HexCoord, to: HexCoord, map: CampaignMap): string {
+  const a = hexToPixel(from, map.gridConfig);
+  const b = hexToPixel(to, map.gridConfig);
+  const angle = Math.atan2(a.y - b.y, b.x - a.x);  // Screen y grows downwards
+  const index = Math.round(angle / (Math.PI / 4));
+  return COMPASS_POINTS[(index + 8) % 8];
+}
+
+/**
+ * Featured hexes near a settlement that rumors can point at
+ */
+export function findRumorSites(map: CampaignMap, coord: HexCoord, radius: number = RUMOR_RADIUS): Hex[] {
+  const ownKey = coordToKey(coord);
+  return map.hexes
+    .filter(h => h.featureType && h.feature && coordToKey(h.coord) !== ownKey)
+    .filter(h => hexDistance(coord, h.coord) <= radius);
+}
+
+/**
+ * Roll a rumor about a featured hex, with its direction and distance from the settlement
+ */
+function generateRumor(map: CampaignMap, from: HexCoord, site: Hex, rng: RandomSource): SettlementRumor {
+  const tables = TOWNSFOLK_TABLES.rumor;
+  const template = rollOnTable(tables[site.featureType || 'landmark'], rng).value;
+  const text = template
+    .replace('{place}', describePlace(site))
+    .replace(/^./, c => c.toUpperCase());
+  const distance = hexDistance(from, site.coord);
+
+  return {
+    text: `${text} (${distance} ${distance === 1 ? 'hex' : 'hexes'} ${getDirection(from, site.coord, map)})`,
+    truth: rollOnTable(tables.truth, rng).value,
+    hexCoord: site.coord,
+  };
+}
+
+// ============================================
+// EXPANSION
+// ============================================
+
+/**
+ * Expand the settlement in a hex: an NPC roster (3 + tier), the shops and services
+ * its size supports, and rumors about real features nearby (2 + tier/2, as many as there are)
+ */
+export function expandSettlement(
+  map: CampaignMap,
+  coord: HexCoord,
+  rng: RandomSource = Math.random
+): SettlementExpansion {
+  const hex = map.hexes.find(h => coordToKey(h.coord) === coordToKey(coord));
+  const details = hex?.feature?.details || {};
+  const type = (typeof details.type === 'string' ? details.type : 'village') as SettlementType;
+  const tier = getSettlementTier(type, typeof details.size === 'string' ? details.size : undefined);
+
+  const npcs = Array.from({ length: 3 + tier }, () => generateNpc(rng));
+  const shops = generateShops(tier, rng);
+  const sites = pickRandomN(findRumorSites(map, coord), 2 + Math.ceil(tier / 2), rng);
+  const rumors = sites.map(site => generateRumor(map, coord, site, rng));
+
+  return { npcs, shops, rumors };
+}
+
@@ -108,16 +108,119 @@ export interface GeneratedSettlement {
   details: Record<string, string | string[]>;
 }
 
+export interface LairRoom {
+  name: string;              // e.g. "Entrance", "Branch 2"
+  feature: string;           // LAIR_ROOM_FEATURE value
+  creatures: number;         // How many of the lair's creatures are in here
+  hasTreasure: boolean;
+}
+
 export interface GeneratedLair {
   monsterType: string;
+  layout: string;
+  disposition: string;
+  percentOutside: number;
+  numberAppearing: number;
+  treasure: string;
+  rooms: LairRoom[];         // One per chamber of the layout, entrance first
   details?: Record<string, string>;
 }
 
+/**
+ * A user-provided stat reference for a monster (matched to generated monsters by name)
+ */
+export interface MonsterStats {
+  name: string;
+  hd: string;                // Hit dice, e.g. "2+1"
+  ac: string;                // Armor class, e.g. "6 [13]"
+  numberAppearing?: string;  // Dice for a lair, e.g. "3d6" (default LAIR_NUMBER_DICE)
+  notes?: string;
+}
+
 export interface GeneratedDungeon {
   levels: number;
   details?: Record<string, string>;
 }
 
+// ============================================
+// SETTLEMENT EXPANSION TYPES
+// ============================================
+
+export interface SettlementNpc {
+  name: string;
+  occupation: string;
+  personality: string;
+  want: string;
+}
+
+export interface SettlementShop {
+  service: string;   // e.g. "Blacksmith"
+  name: string;      // e.g. "The Iron Fox"
+  quality: string;
+}
+
+export interface SettlementRumor {
+  text: string;
+  truth: string;                        // RUMOR_TRUTH value (GM-only)
+  hexCoord: { q: number; r: number };   // The featured hex the rumor points at
+}
+
+/**
+ * On-demand detail for a settlement hex: who lives there, what can be bought, what people say
+ */
+export interface SettlementExpansion {
+  npcs: SettlementNpc[];
+  shops: SettlementShop[];
+  rumors: SettlementRumor[];
+}
+
+// ============================================
+// DUNGEON STOCKING TYPES
+// ============================================
+
+export type DungeonRoomContent = 'monster' | 'trap' | 'treasure' | 'empty';
+
+export interface DungeonRoom {
+  number: number;            // Keyed within its level, from 1
+  content: DungeonRoomContent;
+  description: string;       // e.g. "4 × Skeletons", "Poison needle", "Gems"
+  treasure?: string;         // Treasure found with a monster, trap or empty room
+}
+
+export interface DungeonLevel {
+  depth: number;             // 1 = nearest the surface
+  ruler: 'boss' | 'faction';
+  rulerName: string;         // e.g. "Cursed Ogre", "Goblin tribe"
+  rooms: DungeonRoom[];
+}
+
+export interface DungeonEntrance {
+  description: string;
+  toLevel: number;
+}
+
+/**
+ * Stocked contents of a dungeon feature, level by level
+ */
+export interface DungeonStocking {
+  levels: DungeonLevel[];
+  entrances: DungeonEntrance[];
+}
+
+export type TimeOfDay = 'day' | 'night';
+
+export interface GeneratedEncounter {
+  terrainId: string;
+  timeOfDay: TimeOfDay;
+  chance: number;          // X in 6
+  checkRoll?: number;      // d6 rolled against the chance (absent when the check was skipped)
+  occurred: boolean;
+  biome?: string;          // Encounter table used
+  creature?: string;
+  numberAppearing?: number;
+  disposition?: string;
+}
+
 export type GeneratedFeature = 
   | { type: 'landmark'; data: GeneratedLandmark }
   | { type: 'settlement'; data: GeneratedSettlement }
@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest';
+import type { GridConfig } from './types';
+import { DEFAULT_GRID_CONFIG } from './types';
+import { offsetToPixel } from './hexUtils';
+import { type CalibrationPoint, solveGridCalibration } from './gridCalibration';
+
+// Hex centers as they would be clicked on an image drawn with `actual`
+function clicks(actual: GridConfig, cells: Array<[number, number]>, jitter = 0): CalibrationPoint[] {
+  return cells.map(([col, row], i) => {
+    const { x, y } = offsetToPixel(col, row, actual);
+    const nudge = jitter * (i % 2 === 0 ? 1 : -1);
+    return { x: x + nudge, y: y - nudge, col, row };
+  });
+}
+
+const CELLS: Array<[number, number]> = [[1, 1], [6, 1], [2, 5], [8, 7], [4, 3]];
+
+describe('solveGridCalibration', () => {
+  it('recovers an unrotated pointy-top grid', () => {
+    const actual: GridConfig = { ...DEFAULT_GRID_CONFIG, originX: 120, originY: 85, hexSize: 40 };
+    const { updates, error } = solveGridCalibration(clicks(actual, CELLS), DEFAULT_GRID_CONFIG);
+
+    expect(updates.originX).toBe(120);
+    expect(updates.originY).toBe(85);
+    expect(updates.hexSize).toBe(40);
+    expect(updates.colSpacing).toBeCloseTo(40 * Math.sqrt(3), 1);
+    expect(updates.rowSpacing).toBeCloseTo(60, 1);
+    expect(updates.rotation).toBeCloseTo(0, 2);
+    expect(error).toBeLessThan(0.1);
+  });
+
+  it('recovers rotation and uneven spacing on a flat-top grid', () => {
+    const base: GridConfig = { ...DEFAULT_GRID_CONFIG, orientation: 'flat-top' };
+    const actual: GridConfig = { ...base, originX: -30, originY: 210, colSpacing: 52, rowSpacing: 58, rotation: 7.5 };
+    const { updates, error } = solveGridCalibration(clicks(actual, CELLS), base);
+
+    expect(updates.originX).toBeCloseTo(-30, 1);
+    expect(updates.originY).toBeCloseTo(210, 1);
+    expect(updates.colSpacing).toBeCloseTo(52, 2);
+    expect(updates.rowSpacing).toBeCloseTo(58, 2);
+    expect(updates.rotation).toBeCloseTo(7.5, 2);
+    expect(error).toBeLessThan(0.1);
+  });
+
+  it('averages out imprecise clicks and reports the error', () => {
+    const actual: GridConfig = { ...DEFAULT_GRID_CONFIG, originX: 120, originY: 85, hexSize: 40 };
+    const { updates, error } = solveGridCalibration(clicks(actual, CELLS, 3), DEFAULT_GRID_CONFIG);
+
+    expect(updates.hexSize).toBeCloseTo(40, 0);
+    expect(error).toBeGreaterThan(1);
+    expect(error).toBeLessThan(5);
+  });
+
+  it('needs at least three points', () => {
+    const actual = { ...DEFAULT_GRID_CONFIG };
+    expect(() => solveGridCalibration(clicks(actual, CELLS.slice(0, 2)), actual)).toThrow('at least 3');
+  });
+
+  it('rejects points along one line', () => {
+    const actual = { ...DEFAULT_GRID_CONFIG };
+    const row: Array<[number, number]> = [[1, 2], [3, 2], [6, 2]];
+    expect(() => solveGridCalibration(clicks(actual, row), actual)).toThrow('not all in one line');
+  });
+});
@@ -0,0 +1,108 @@
+import type { GridConfig } from './types';
+import { getGridUnits, offsetToPixel } from './hexUtils';
+
+// ============================================
+// GRID CALIBRATION
+// Line the grid up with a scanned map from a few hex centers clicked on the
+// image: a least-squares fit gives the origin, spacing and rotation
+// ============================================
+
+export const MIN_CALIBRATION_POINTS = 3;
+
+/**
+ * A hex center clicked on the image, and the hex (column and row) it belongs to
+ */
+export interface CalibrationPoint {
+  x: number;
+  y: number;
+  col: number;
+  row: number;
+}
+
+export interface CalibrationResult {
+  updates: Partial<GridConfig>;      // Origin, hex size, spacing and rotation
+  error: number;                     // Average distance (px) from each click to its fitted hex center
+}
+
+const round = (n: number, places: number) => Math.round(n * 10 ** places) / 10 ** places;
+
+/**
+ * Solve a 3×3 linear system (Cramer's rule); null if it has no single solution
+ */
+function solve3(m: number[][], b: number[]): number[] | null {
+  const det = (a: number[][]) =>
+    a[0][0] * (a[1][1] * a[2][2] - a[1][2] * a[2][1])
+    - a[0][1] * (a[1][0] * a[2][2] - a[1][2] * a[2][0])
+    + a[0][2] * (a[1][0] * a[2][1] - a[1][1] * a[2][0]);
+
+  const d = det(m);
+  if (Math.abs(d) < 1e-9) return null;
+  return [0, 1, 2].map(col => det(m.map((row, i) => row.map((v, j) => j === col ? b[i] : v))) / d);
+}
+
+/**
+ * Fit the grid to the clicked points. Orientation, offsets and the starting
+ * column/row are kept from `config`; everything else is solved for.
+ * Throws if there are too few points or they all lie along one line.
+ */
+export function solveGridCalibration(points: CalibrationPoint[], config: GridConfig): CalibrationResult {
+  if (points.length < MIN_CALIBRATION_POINTS) {
+    throw new Error(`Click at least ${MIN_CALIBRATION_POINTS} hex centers`);
+  }
+
+  // Each point gives x = ox + a·u + b·v and y = oy + c·u + d·v, where (u, v)
+  // is the hex's place in the unrotated grid; least squares over all points
+  const units = points.map(p => getGridUnits(p.col, p.row, config));
+  const normal = [[0, 0, 0], [0, 0, 0], [0, 0, 0]];
+  const rhsX = [0, 0, 0];
+  const rhsY = [0, 0, 0];
+  units.forEach(({ u, v }, i) => {
+    const basis = [1, u, v];
+    for (let r = 0; r < 3; r++) {
+      for (let c = 0; c < 3; c++) normal[r][c] += basis[r] * basis[c];
+      rhsX[r] += basis[r] * points[i].x;
+      rhsY[r] += basis[r] * points[i].y;
+    }
+  });
+
+  const fitX = solve3(normal, rhsX);
+  const fitY = solve3(normal, rhsY);
+  if (!fitX || !fitY) {
+    throw new Error('Pick hexes that are not all in one line');
+  }
+  const [originX, a, b] = fitX;
+  const [originY, c, d] = fitY;
+
+  // The column axis is (a, c) and the row axis (b, d): their lengths are the
+  // spacing, and the rotation is averaged from both directions
+  const colSpacing = Math.hypot(a, c);
+  const rowSpacing = Math.hypot(b, d);
+  const colAngle = Math.atan2(c, a);
+  const rowAngle = Math.atan2(-b, d);
+  const rotation = Math.atan2(Math.sin(colAngle) + Math.sin(rowAngle), Math.cos(colAngle) + Math.cos(rowAngle)) * 180 / Math.PI;
+  if (colSpacing < 1 || rowSpacing < 1) {
+    throw new Error('Those hexes are too close together; check their coordinates');
+  }
+
+  // Hex radius that best matches the spacing
+  const hexSize = config.orientation === 'pointy-top'
+    ? (colSpacing / Math.sqrt(3) + rowSpacing / 1.5) / 2
+    : (colSpacing / 1.5 + rowSpacing / Math.sqrt(3)) / 2;
+
+  const updates: Partial<GridConfig> = {
+    originX: round(originX, 1),
+    originY: round(originY, 1),
+    hexSize: round(hexSize, 1),
+    colSpacing: round(colSpacing, 2),
+    rowSpacing: round(rowSpacing, 2),
+    rotation: round(rotation, 2),
+  };
+
+  const fitted = { ...config, ...updates };
+  const error = points.reduce((sum, p) => {
+    const center = offsetToPixel(p.col, p.row, fitted);
+    return sum + Math.hypot(center.x - p.x, center.y - p.y);
+  }, 0) / points.length;
+
+  return { updates, error };
+}
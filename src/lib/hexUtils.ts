@@ -135,7 +135,40 @@ export function getHexSpacing(config: GridConfig): { horizSpacing: number; vertS
 }
 
 /**
- * Convert offset coordinates to pixel position
+ * Position of a hex center in units of column and row spacing from the
+ * origin, before rotation (offset rows/columns land on half steps)
+ */
+export function getGridUnits(col: number, row: number, config: GridConfig): { u: number; v: number } {
+  if (config.orientation === 'pointy-top') {
+    // Pointy-top: rows interlock, odd rows shift right
+    const isOffsetRow = config.rowOffset === 'odd' ? Math.abs(row % 2) === 1 : row % 2 === 0;
+    return {
+      u: col - config.startCol + (isOffsetRow ? 0.5 : 0),
+      v: row - config.startRow,
+    };
+  } else {
+    // Flat-top: columns interlock, odd columns shift down
+    const isOffsetCol = config.colOffset === 'odd' ? Math.abs(col % 2) === 1 : col % 2 === 0;
+    return {
+      u: col - config.startCol,
+      v: row - config.startRow + (isOffsetCol ? 0.5 : 0),
+    };
+  }
+}
+
+/**
+ * Rotate a vector by the grid rotation (degrees, clockwise on screen)
+ */
+function rotate(x: number, y: number, degrees: number): { x: number; y: number } {
+  if (!degrees) return { x, y };
+  const angle = degrees * Math.PI / 180;
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+  return { x: x * cos - y * sin, y: x * sin + y * cos };
+}
+
+/**
+ * Convert offset coordinates to pixel position; the grid is rotated about the origin
  */
 export function offsetToPixel(
   col: number,
@@ -143,26 +176,10 @@ export function offsetToPixel(
   config: GridConfig
 ): { x: number; y: number } {
   const { horizSpacing, vertSpacing } = getHexSpacing(config);
+  const { u, v } = getGridUnits(col, row, config);
+  const offset = rotate(u * horizSpacing, v * vertSpacing, config.rotation || 0);
   
-  let x: number, y: number;
-  
-  if (config.orientation === 'pointy-top') {
-    // Pointy-top: rows interlock, odd rows shift right
-    const isOffsetRow = config.rowOffset === 'odd' ? row % 2 === 1 : row % 2 === 0;
-    const xOffset = isOffsetRow ? horizSpacing / 2 : 0;
-    
-    x = config.originX + (col - config.startCol) * horizSpacing + xOffset;
-    y = config.originY + (row - config.startRow) * vertSpacing;
-  } else {
-    // Flat-top: columns interlock, odd columns shift down
-    const isOffsetCol = config.colOffset === 'odd' ? col % 2 === 1 : col % 2 === 0;
-    const yOffset = isOffsetCol ? vertSpacing / 2 : 0;
-    
-    x = config.originX + (col - config.startCol) * horizSpacing;
-    y = config.originY + (row - config.startRow) * vertSpacing + yOffset;
-  }
-  
-  return { x, y };
+  return { x: config.originX + offset.x, y: config.originY + offset.y };
 }
 
 /**
@@ -175,29 +192,35 @@ export function hexToPixel(coord: HexCoord, config: GridConfig): { x: number; y:
 
 /**
  * Convert pixel position to the nearest hex coordinate
+ * Honors custom spacing and rotation
  */
 export function pixelToHex(
   px: number, 
   py: number, 
   config: GridConfig
 ): HexCoord {
-  const size = config.hexSize;
-  
-  // Adjust for origin
-  const x = px - config.originX;
-  const y = py - config.originY;
+  const { horizSpacing, vertSpacing } = getHexSpacing(config);
   
-  let q: number, r: number;
+  // Undo the rotation to find roughly which column and row the point is in
+  const local = rotate(px - config.originX, py - config.originY, -(config.rotation || 0));
+  const approxCol = Math.round(config.startCol + local.x / horizSpacing);
+  const approxRow = Math.round(config.startRow + local.y / vertSpacing);
   
-  if (config.orientation === 'pointy-top') {
-    q = (Math.sqrt(3) / 3 * x - 1 / 3 * y) / size;
-    r = (2 / 3 * y) / size;
-  } else {
-    q = (2 / 3 * x) / size;
-    r = (-1 / 3 * x + Math.sqrt(3) / 3 * y) / size;
+  // Half-step offsets mean the nearest center can be one column or row over
+  let best = { col: approxCol, row: approxRow };
+  let bestDistance = Infinity;
+  for (let col = approxCol - 1; col <= approxCol + 1; col++) {
+    for (let row = approxRow - 1; row <= approxRow + 1; row++) {
+      const center = offsetToPixel(col, row, config);
+      const distance = Math.hypot(center.x - px, center.y - py);
+      if (distance < bestDistance) {
+        bestDistance = distance;
+        best = { col, row };
+      }
+    }
   }
   
-  return axialRound({ q, r });
+  return offsetToAxial(best.col, best.row, config);
 }
 
 /**
@@ -228,28 +251,38 @@ function axialRound(coord: { q: number; r: number }): HexCoord {
 // ============================================
 
 /**
- * Generate hex polygon points for SVG
+ * Corner positions of a hex, clockwise; edge i runs from corner i to corner i + 1
+ * Hexes turn with the grid rotation
  */
-export function getHexPoints(cx: number, cy: number, config: GridConfig): string {
+export function getHexCorners(cx: number, cy: number, config: GridConfig): { x: number; y: number }[] {
   const size = config.hexSize;
-  const points: string[] = [];
+  const rotation = (config.rotation || 0) * Math.PI / 180;
+  const corners: { x: number; y: number }[] = [];
   
   for (let i = 0; i < 6; i++) {
-    let angle: number;
+    let angle = rotation;
     if (config.orientation === 'pointy-top') {
       // Pointy-top: first vertex at top (270 degrees / -90 degrees)
-      angle = (Math.PI / 3) * i - Math.PI / 2;
+      angle += (Math.PI / 3) * i - Math.PI / 2;
     } else {
       // Flat-top: first vertex at right (0 degrees)
-      angle = (Math.PI / 3) * i;
+      angle += (Math.PI / 3) * i;
     }
     
-    const x = cx + size * Math.cos(angle);
-    const y = cy + size * Math.sin(angle);
-    points.push(`${x},${y}`);
+    corners.push({
+      x: cx + size * Math.cos(angle),
+      y: cy + size * Math.sin(angle),
+    });
   }
   
-  return points.join(' ');
+  return corners;
+}
+
+/**
+ * Generate hex polygon points for SVG
+ */
+export function getHexPoints(cx: number, cy: number, config: GridConfig): string {
+  return getHexCorners(cx, cy, config).map(p => `${p.x},${p.y}`).join(' ');
 }
 
 // ============================================
@@ -290,6 +323,25 @@ export function hexDistance(a: HexCoord, b: HexCoord): number {
   return (Math.abs(a.q - b.q) + Math.abs(a.q + a.r - b.q - b.r) + Math.abs(a.r - b.r)) / 2;
 }
 
+/**
+ * Get the straight line of hexes from a to b (inclusive)
+ */
+export function hexLine(a: HexCoord, b: HexCoord): HexCoord[] {
+  const distance = hexDistance(a, b);
+  if (distance === 0) return [a];
+
+  // Nudge off hex edges so rounding is consistent
+  const line: HexCoord[] = [];
+  for (let i = 0; i <= distance; i++) {
+    const t = i / distance;
+    line.push(axialRound({
+      q: a.q + (b.q - a.q) * t + 1e-6,
+      r: a.r + (b.r - a.r) * t + 1e-6,
+    }));
+  }
+  return line;
+}
+
 /**
  * Get hex at coordinate from array
  */
@@ -347,13 +399,16 @@ export function calculateViewBox(
   let minY = Infinity, maxY = -Infinity;
   
   const { width: hexWidth, height: hexHeight } = getHexDimensions(config);
+  // A rotated hex can reach out to its full radius in any direction
+  const halfWidth = config.rotation ? config.hexSize : hexWidth / 2;
+  const halfHeight = config.rotation ? config.hexSize : hexHeight / 2;
   
   for (const hex of hexes) {
     const { x, y } = hexToPixel(hex.coord, config);
-    minX = Math.min(minX, x - hexWidth / 2);
-    maxX = Math.max(maxX, x + hexWidth / 2);
-    minY = Math.min(minY, y - hexHeight / 2);
-    maxY = Math.max(maxY, y + hexHeight / 2);
+    minX = Math.min(minX, x - halfWidth);
+    maxX = Math.max(maxX, x + halfWidth);
+    minY = Math.min(minY, y - halfHeight);
+    maxY = Math.max(maxY, y + halfHeight);
   }
   
   return {
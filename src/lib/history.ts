@@ -0,0 +1,258 @@
+import type { CampaignMap, Hex } from './types';
+import { coordToKey } from './types';
+
+// ============================================
+// UNDO/REDO HISTORY
+// ============================================
+
+/**
+ * A single recorded change
+ * `map` is the snapshot to restore when the change is undone (past stack)
+ * or re-applied (future stack). Map updates are immutable, so snapshots
+ * share unchanged hexes and factions with the live map.
+ */
+export interface HistoryEntry {
+  label: string;
+  map: CampaignMap;
+  timestamp: number;
+}
+
+export interface MapHistory {
+  past: HistoryEntry[];    // Oldest first
+  future: HistoryEntry[];  // Next redo first
+}
+
+export const MAX_HISTORY_ENTRIES = 100;
+
+// Repeated changes with the same label inside this window (e.g. typing
+// into a note) are merged into one entry
+export const HISTORY_COALESCE_MS = 1000;
+
+/**
+ * Create an empty history
+ */
+export function createHistory(): MapHistory {
+  return { past: [], future: [] };
+}
+
+/**
+ * Record a change. `previousMap` is the map as it was before the change.
+ * Clears the redo stack.
+ */
+export function pushHistory(
+  history: MapHistory,
+  label: string,
+  previousMap: CampaignMap,
+  now: number = Date.now()
+): MapHistory {
+  const last = history.past[history.past.length - 1];
+
+  if (
+    last &&
+    history.future.length === 0 &&
+    last.label === label &&
+    now - last.timestamp < HISTORY_COALESCE_MS
+  ) {
+    // Keep the older snapshot, just extend the window
+    const past = [...history.past];
+    past[past.length - 1] = { ...last, timestamp: now };
+    return { past, future: [] };
+  }
+
+  const past = [...history.past, { label, map: previousMap, timestamp: now }];
+  if (past.length > MAX_HISTORY_ENTRIES) {
+    past.splice(0, past.length - MAX_HISTORY_ENTRIES);
+  }
+
+  return { past, future: [] };
+}
+
+/**
+ * Undo the most recent change
+ * Returns null if there is nothing to undo
+ */
+export function undoHistory(
+  history: MapHistory,
+  currentMap: CampaignMap
+): { history: MapHistory; map: CampaignMap } | null {
+  return undoToIndex(history, currentMap, history.past.length - 1);
+}
+
+/**
+ * Undo every change back to (and including) past[index]
+ * Used by the history list to jump to an earlier state
+ */
+export function undoToIndex(
+  history: MapHistory,
+  currentMap: CampaignMap,
+  index: number
+): { history: MapHistory; map: CampaignMap } | null {
+  if (index < 0 || index >= history.past.length) return null;
+
+  const undone = history.past.slice(index);
+  const future = [...history.future];
+
+  // Walk backwards so each redo entry holds the state after its change
+  let afterMap = currentMap;
+  for (let i = undone.length - 1; i >= 0; i--) {
+    future.unshift({ label: undone[i].label, map: afterMap, timestamp: undone[i].timestamp });
+    afterMap = undone[i].map;
+  }
+
+  return {
+    history: { past: history.past.slice(0, index), future },
+    map: afterMap,
+  };
+}
+
+/**
+ * Redo the most recently undone change
+ * Returns null if there is nothing to redo
+ */
+export function redoHistory(
+  history: MapHistory,
+  currentMap: CampaignMap
+): { history: MapHistory; map: CampaignMap } | null {
+  const [next, ...future] = history.future;
+  if (!next) return null;
+
+  return {
+    history: {
+      past: [...history.past, { label: next.label, map: currentMap, timestamp: next.timestamp }],
+      future,
+    },
+    map: next.map,
+  };
+}
+
+export function canUndo(history: MapHistory): boolean {
+  return history.past.length > 0;
+}
+
+export function canRedo(history: MapHistory): boolean {
+  return history.future.length > 0;
+}
+
+// ============================================
+// PERSISTENCE
+// Snapshots share hexes with their neighbors in memory, but would be stored
+// as full copies. Stored entries keep only the hexes that differ instead.
+// ============================================
+
+type HexChange = [key: string, hex: Hex | null];   // null = hex removed
+
+export interface StoredHistoryEntry {
+  label: string;
+  timestamp: number;
+  map: Omit<CampaignMap, 'hexes'>;
+  hexChanges: HexChange[];    // Turns the neighboring state's hexes into this entry's
+}
+
+export interface StoredHistory {
+  past: StoredHistoryEntry[];   // Each diffed against the next entry (the last against the live map)
+  future: StoredHistoryEntry[]; // Each diffed against the previous entry (the first against the live map)
+}
+
+/**
+ * Hexes that changed between two states (by reference; map updates are immutable)
+ */
+function diffHexes(from: Hex[], to: Hex[]): HexChange[] {
+  const fromByKey = new Map(from.map(h => [coordToKey(h.coord), h]));
+  const changes: HexChange[] = [];
+  for (const hex of to) {
+    const key = coordToKey(hex.coord);
+    if (fromByKey.get(key) !== hex) changes.push([key, hex]);
+    fromByKey.delete(key);
+  }
+  for (const key of fromByKey.keys()) {
+    changes.push([key, null]);
+  }
+  return changes;
+}
+
+function applyHexChanges(hexes: Hex[], changes: HexChange[]): Hex[] {
+  if (changes.length === 0) return hexes;
+  const changed = new Map(changes);
+  const result: Hex[] = [];
+  for (const hex of hexes) {
+    const key = coordToKey(hex.coord);
+    if (!changed.has(key)) {
+      result.push(hex);
+      continue;
+    }
+    const replacement = changed.get(key);
+    if (replacement) result.push(replacement);
+    changed.delete(key);
+  }
+  // Hexes that only exist in this state (e.g. before a grid resize)
+  for (const hex of changed.values()) {
+    if (hex) result.push(hex);
+  }
+  return result;
+}
+
+function toStoredEntry(entry: HistoryEntry, neighbor: CampaignMap): StoredHistoryEntry {
+  const { hexes, ...map } = entry.map;
+  // Background images are large; only keep one that differs from the neighbor's
+  if (map.imageOverlay && map.imageOverlay.src === neighbor.imageOverlay?.src) {
+    map.imageOverlay = { ...map.imageOverlay, src: '' };
+  }
+  return {
+    label: entry.label,
+    timestamp: entry.timestamp,
+    map,
+    hexChanges: diffHexes(neighbor.hexes, hexes),
+  };
+}
+
+function fromStoredEntry(entry: StoredHistoryEntry, neighbor: CampaignMap): HistoryEntry {
+  const map = { ...entry.map, hexes: applyHexChanges(neighbor.hexes, entry.hexChanges) } as CampaignMap;
+  if (map.imageOverlay && !map.imageOverlay.src && neighbor.imageOverlay?.src) {
+    map.imageOverlay = { ...map.imageOverlay, src: neighbor.imageOverlay.src };
+  }
+  return { label: entry.label, timestamp: entry.timestamp, map };
+}
+
+/**
+ * Convert a history to its stored form, relative to the live map
+ */
+export function compactHistory(history: MapHistory, currentMap: CampaignMap): StoredHistory {
+  const past: StoredHistoryEntry[] = [];
+  let neighbor = currentMap;
+  for (let i = history.past.length - 1; i >= 0; i--) {
+    past.unshift(toStoredEntry(history.past[i], neighbor));
+    neighbor = history.past[i].map;
+  }
+
+  const future: StoredHistoryEntry[] = [];
+  neighbor = currentMap;
+  for (const entry of history.future) {
+    future.push(toStoredEntry(entry, neighbor));
+    neighbor = entry.map;
+  }
+
+  return { past, future };
+}
+
+/**
+ * Rebuild a history from its stored form around the live map
+ */
+export function expandHistory(stored: StoredHistory, currentMap: CampaignMap): MapHistory {
+  const past: HistoryEntry[] = [];
+  let neighbor = currentMap;
+  for (let i = stored.past.length - 1; i >= 0; i--) {
+    const entry = fromStoredEntry(stored.past[i], neighbor);
+    past.unshift(entry);
+    neighbor = entry.map;
+  }
+
+  const future: HistoryEntry[] = [];
+  neighbor = currentMap;
+  for (const storedEntry of stored.future) {
+    const entry = fromStoredEntry(storedEntry, neighbor);
+    future.push(entry);
+    neighbor = entry.map;
+  }
+
+  return { past, future };
+}
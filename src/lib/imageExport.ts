@@ -0,0 +1,236 @@
+import type { CampaignMap, MapPathType } from './types';
+import { DEFAULT_TERRAIN_TYPES, getEffectiveTerrain } from './types';
+import { renderMapSvg, getFactionColor, escapeXml, FEATURE_MARKERS } from './svgRenderer';
+import { PATH_STYLES, PATH_TYPES } from './paths';
+import { formatLabel } from './featureUtils';
+import { downloadFile, getMapFileStem } from './storage';
+
+// ============================================
+// MAP IMAGE EXPORT (SVG / PNG)
+// ============================================
+
+export type MapImageFormat = 'svg' | 'png';
+
+export interface MapImageOptions {
+  format: MapImageFormat;
+  scale: number;           // PNG pixels per map unit (ignored for SVG)
+  showTitle: boolean;      // Map name above the map
+  showLegend: boolean;     // Terrain, feature, path and faction key beside the map
+  showImage: boolean;      // Include the background image of image-mode maps
+}
+
+export const DEFAULT_MAP_IMAGE_OPTIONS: MapImageOptions = {
+  format: 'png',
+  scale: 2,
+  showTitle: true,
+  showLegend: true,
+  showImage: true,
+};
+
+export const MAP_IMAGE_SCALES = [1, 2, 3, 4];
+
+// Most browsers refuse to allocate canvases larger than this on a side
+const MAX_CANVAS_SIDE = 16384;
+
+const BACKGROUND_COLOR = '#ffffff';
+const TEXT_COLOR = '#1a1a2e';
+const MUTED_COLOR = '#666666';
+const MARGIN = 24;
+const TITLE_HEIGHT = 48;
+const LEGEND_WIDTH = 200;
+const LEGEND_ROW = 18;
+const LEGEND_GAP = 10;
+
+interface LegendEntry {
+  label: string;
+  swatch: string;          // SVG markup drawn in a 14x14 box at the row origin
+}
+
+interface LegendSection {
+  title: string;
+  entries: LegendEntry[];
+}
+
+/**
+ * Collect the legend entries for what actually appears on the map
+ */
+function buildLegendSections(map: CampaignMap): LegendSection[] {
+  const { settings } = map;
+  const sections: LegendSection[] = [];
+  const opacity = settings.hexFillOpacity ?? 0.5;
+
+  if (settings.showTerrainColors) {
+    const used = new Set(map.hexes.map(h => getEffectiveTerrain(h)));
+    const entries = [...DEFAULT_TERRAIN_TYPES, ...(settings.customTerrainTypes || [])]
+      .filter(t => used.has(t.id))
+      .map(t => ({
+        label: t.name,
+        swatch: `<rect width="14" height="14" fill="${t.color}" fill-opacity="${opacity}" stroke="rgba(0,0,0,0.3)"/>`,
+      }));
+    if (entries.length > 0) sections.push({ title: 'Terrain', entries });
+  }
+
+  const featureTypes = new Set<string>(map.hexes.flatMap(h => (h.featureType ? [h.featureType] : [])));
+  const features = Object.entries(FEATURE_MARKERS)
+    .filter(([type]) => featureTypes.has(type))
+    .map(([type, marker]) => ({
+      label: formatLabel(type),
+      swatch: `<circle cx="7" cy="7" r="7" fill="${marker.color}"/><text x="7" y="7" font-size="9" font-weight="bold" fill="#000" text-anchor="middle" dominant-baseline="central">${marker.symbol}</text>`,
+    }));
+  if (features.length > 0) sections.push({ title: 'Features', entries: features });
+
+  const pathTypes = new Set<MapPathType>((map.paths || []).map(p => p.type));
+  const paths = PATH_TYPES.filter(t => pathTypes.has(t)).map(type => {
+    const style = PATH_STYLES[type];
+    const dash = style.dashArray ? ` stroke-dasharray="${style.dashArray}"` : '';
+    return {
+      label: style.label,
+      swatch: `<line x1="0" y1="7" x2="14" y2="7" stroke="${style.color}" stroke-width="3"${dash} stroke-linecap="round"/>`,
+    };
+  });
+  if (paths.length > 0) sections.push({ title: 'Paths', entries: paths });
+
+  if (settings.showFactionTerritories) {
+    const factions = map.factions
+      .filter(f => f.domainHexes.length > 0)
+      .map(f => ({
+        label: f.name,
+        swatch: `<rect x="1.5" y="1.5" width="11" height="11" fill="none" stroke="${getFactionColor(f.id, map.factions)}" stroke-width="3"${f.type === 'region' ? ' stroke-dasharray="4,2"' : ''}/>`,
+      }));
+    if (factions.length > 0) sections.push({ title: 'Factions', entries: factions });
+  }
+
+  return sections;
+}
+
+function legendHeight(sections: LegendSection[]): number {
+  return sections.reduce((total, s) => total + LEGEND_ROW * (s.entries.length + 1) + LEGEND_GAP, 0);
+}
+
+function renderLegend(sections: LegendSection[]): string {
+  const parts: string[] = [];
+  let y = 0;
+  for (const section of sections) {
+    parts.push(
+      `<text x="0" y="${y + 12}" font-size="12" font-weight="bold" fill="${TEXT_COLOR}">${escapeXml(section.title)}</text>`
+    );
+    y += LEGEND_ROW;
+    for (const entry of section.entries) {
+      parts.push(
+        `<g transform="translate(0, ${y})">${entry.swatch}` +
+        `<text x="22" y="11" font-size="11" fill="${TEXT_COLOR}">${escapeXml(entry.label)}</text></g>`
+      );
+      y += LEGEND_ROW;
+    }
+    y += LEGEND_GAP;
+  }
+  return parts.join('');
+}
+
+/**
+ * Build a printable SVG of the map with an optional title block and legend
+ * Grid, coordinates and terrain colors follow the map's display settings.
+ */
+export function buildMapImageSvg(
+  map: CampaignMap,
+  options: MapImageOptions
+): { svg: string; width: number; height: number } {
+  const { settings } = map;
+  const { svg: mapSvg, viewBox } = renderMapSvg(map, {
+    showGrid: settings.showGrid,
+    showCoordinates: settings.showCoordinates,
+    showTerrainColors: settings.showTerrainColors,
+    showFeatures: true,
+    showPaths: true,
+    factions: settings.showFactionTerritories ? map.factions : undefined,
+    showImage: options.showImage,
+  });
+
+  const sections = options.showLegend ? buildLegendSections(map) : [];
+  const mapWidth = Math.ceil(viewBox.width);
+  const mapHeight = Math.ceil(viewBox.height);
+  const top = options.showTitle ? MARGIN + TITLE_HEIGHT : MARGIN;
+  const legendX = MARGIN + mapWidth + MARGIN;
+
+  const width = sections.length > 0 ? legendX + LEGEND_WIDTH + MARGIN : MARGIN + mapWidth + MARGIN;
+  const height = top + Math.max(mapHeight, legendHeight(sections)) + MARGIN;
+
+  const parts = [
+    `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${width} ${height}" width="${width}" height="${height}" font-family="sans-serif">`,
+    `<rect width="${width}" height="${height}" fill="${BACKGROUND_COLOR}"/>`,
+  ];
+
+  if (options.showTitle) {
+    parts.push(
+      `<text x="${MARGIN}" y="${MARGIN + 22}" font-size="22" font-weight="bold" fill="${TEXT_COLOR}">${escapeXml(map.name)}</text>`,
+      `<text x="${MARGIN}" y="${MARGIN + 40}" font-size="11" fill="${MUTED_COLOR}">${map.mode === 'unbounded' ? map.hexes.length : `${map.gridConfig.cols} × ${map.gridConfig.rows}`} hexes</text>`
+    );
+  }
+
+  parts.push(`<g transform="translate(${MARGIN}, ${top})">${mapSvg}</g>`);
+
+  if (sections.length > 0) {
+    parts.push(`<g transform="translate(${legendX}, ${top})">${renderLegend(sections)}</g>`);
+  }
+
+  parts.push('</svg>');
+  return { svg: parts.join(''), width, height };
+}
+
+/**
+ * Rasterize SVG markup to a PNG blob via an offscreen canvas
+ */
+export function rasterizeSvg(svg: string, width: number, height: number, scale: number): Promise<Blob> {
+  const canvasWidth = Math.round(width * scale);
+  const canvasHeight = Math.round(height * scale);
+  if (canvasWidth > MAX_CANVAS_SIDE || canvasHeight > MAX_CANVAS_SIDE) {
+    return Promise.reject(new Error(
+      `Image would be ${canvasWidth} × ${canvasHeight} pixels; choose a smaller scale`
+    ));
+  }
+
+  return new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(new Blob([svg], { type: 'image/svg+xml' }));
+    const img = new Image();
+
+    img.onload = () => {
+      URL.revokeObjectURL(url);
+      const canvas = document.createElement('canvas');
+      canvas.width = canvasWidth;
+      canvas.height = canvasHeight;
+      const ctx = canvas.getContext('2d');
+      if (!ctx) {
+        reject(new Error('Canvas is not supported in this browser'));
+        return;
+      }
+      ctx.drawImage(img, 0, 0, canvasWidth, canvasHeight);
+      canvas.toBlob(blob => {
+        if (blob) resolve(blob);
+        else reject(new Error('Failed to encode PNG'));
+      }, 'image/png');
+    };
+
+    img.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error('Failed to render map image'));
+    };
+
+    img.src = url;
+  });
+}
+
+/**
+ * Export the map as an SVG or PNG download
+ */
+export async function exportMapImage(map: CampaignMap, options: MapImageOptions): Promise<void> {
+  const { svg, width, height } = buildMapImageSvg(map, options);
+  const stem = getMapFileStem(map);
+
+  if (options.format === 'svg') {
+    downloadFile(svg, `${stem}.svg`, 'image/svg+xml');
+    return;
+  }
+
+  const png = await rasterizeSvg(svg, width, height, options.scale);
+  downloadFile(png, `${stem}.png`, 'image/png');
+}
@@ -10,6 +10,7 @@ import {
   DEFAULT_CAMPAIGN_SETTINGS,
 } from './types';
 import { generateGridCoords } from './hexUtils';
+import { CURRENT_SCHEMA_VERSION } from './mapSchema';
 
 // ============================================
 // MAP CREATION
@@ -49,6 +50,7 @@ export function createMap(options: CreateMapOptions): CampaignMap {
     name: options.name,
     createdAt: now,
     updatedAt: now,
+    schemaVersion: CURRENT_SCHEMA_VERSION,
     mode: options.mode,
     gridConfig,
     hexes,
@@ -107,6 +109,12 @@ export function updateGridConfig(
   map: CampaignMap,
   updates: Partial<GridConfig>
 ): CampaignMap {
+  // An unbounded map's columns and rows follow its hexes (see unboundedMap)
+  if (map.mode === 'unbounded') {
+    const { cols: _cols, rows: _rows, startCol: _startCol, startRow: _startRow, ...rest } = updates;
+    updates = rest;
+  }
+  
   const newConfig = { ...map.gridConfig, ...updates };
   
   // Check if dimensions changed
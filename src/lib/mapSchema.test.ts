@@ -0,0 +1,96 @@
+import { describe, it, expect } from 'vitest';
+import { CURRENT_SCHEMA_VERSION, migrateMap, parseMapData, validateMap } from './mapSchema';
+import { createMap } from './mapFactory';
+import { type Hex, DEFAULT_CAMPAIGN_SETTINGS, DEFAULT_GRID_CONFIG } from './types';
+
+// A map as saved before schema versions existed
+function legacyMap(): Record<string, unknown> {
+  return {
+    id: 'map-1',
+    name: 'Old Map',
+    updatedAt: '2023-05-01T00:00:00.000Z',
+    mode: 'generated',
+    gridConfig: { cols: 2, rows: 1 },
+    hexes: [
+      {
+        coord: { q: 0, r: 0 },
+        terrainId: 'forest',
+        featureType: 'settlement',
+        feature: { type: 'settlement', details: { name: 'Ashford', type: 'village', population: 120 } },
+      },
+      { coord: { q: 1, r: 0 }, terrainId: 'hills' },
+    ],
+    factions: [{ id: 'f1', name: 'The Crown', sourceHexCoord: { q: 0, r: 0 } }],
+    settings: { showGrid: false },
+  };
+}
+
+describe('migrateMap', () => {
+  it('brings an unversioned map up to the current version', () => {
+    const map = migrateMap(legacyMap());
+    expect(map.schemaVersion).toBe(CURRENT_SCHEMA_VERSION);
+    expect(map.createdAt).toBe('2023-05-01T00:00:00.000Z');
+    expect(map.gridConfig).toEqual({ ...DEFAULT_GRID_CONFIG, cols: 2, rows: 1 });
+    expect(map.settings).toEqual({ ...DEFAULT_CAMPAIGN_SETTINGS, showGrid: false });
+    expect(map.factions).toEqual([{ type: 'faction', domainHexes: [], relationships: [], id: 'f1', name: 'The Crown', sourceHexCoord: { q: 0, r: 0 } }]);
+    expect(map.paths).toEqual([]);
+  });
+
+  it('turns generated feature details into editable notes (v2)', () => {
+    const [settlement, plain] = migrateMap(legacyMap()).hexes as unknown as Hex[];
+    expect(settlement.feature?.originalDetails).toEqual({ name: 'Ashford', type: 'village', population: 120 });
+    expect(settlement.feature?.originalFeatureType).toBe('settlement');
+    expect(settlement.campaignData?.featureNotes).toEqual({ Type: 'Village', Population: '120' });
+    expect(plain.campaignData).toBeUndefined();
+  });
+
+  it('keeps notes the GM already edited or cleared', () => {
+    const data = legacyMap();
+    data.schemaVersion = 1;
+    (data.hexes as Array<Record<string, unknown>>)[0].campaignData = { deletedFeatureNotes: ['Type'] };
+    const [settlement] = migrateMap(data).hexes as unknown as Hex[];
+    expect(settlement.campaignData).toEqual({ deletedFeatureNotes: ['Type'] });
+  });
+
+  it('leaves a current map unchanged', () => {
+    const map = createMap({ name: 'New', mode: 'blank' });
+    expect(migrateMap(map as unknown as Record<string, unknown>)).toEqual(map);
+  });
+
+  it('refuses maps from a newer version', () => {
+    expect(() => migrateMap({ ...legacyMap(), schemaVersion: CURRENT_SCHEMA_VERSION + 1 })).toThrow('newer version');
+  });
+});
+
+describe('parseMapData', () => {
+  it('accepts a migrated legacy map', () => {
+    expect(parseMapData(legacyMap()).name).toBe('Old Map');
+  });
+
+  it('accepts a new map', () => {
+    expect(validateMap(createMap({ name: 'New', mode: 'blank' }))).toEqual([]);
+  });
+
+  it('reports where the data is wrong', () => {
+    const data = { ...legacyMap(), name: 7, hexes: [{ coord: { q: 0 }, terrainId: 'forest' }] };
+    expect(() => parseMapData(data)).toThrow(/name: expected text[\s\S]*hexes\[0\]\.coord/);
+  });
+
+  it('rejects tables with a bad dice formula', () => {
+    const data = {
+      ...legacyMap(),
+      tables: [{ id: 't', name: 'T', category: 'custom', diceFormula: '2x6', entries: [] }],
+    };
+    expect(() => parseMapData(data)).toThrow('tables[0].diceFormula: expected a dice formula like 1d6 or 2d6+1');
+  });
+
+  it('rejects monster stats with a bad number appearing', () => {
+    const data = legacyMap();
+    data.settings = { monsterStats: [{ name: 'Goblin', hd: '1-1', ac: '6', numberAppearing: 'lots' }] };
+    expect(() => parseMapData(data)).toThrow('settings.monsterStats[0].numberAppearing: expected a dice formula like 2d6');
+  });
+
+  it('rejects data that is not a map', () => {
+    expect(() => parseMapData([])).toThrow('Not a map file');
+  });
+});
@@ -0,0 +1,468 @@
+import type { CampaignMap } from './types';
+import { DEFAULT_CAMPAIGN_SETTINGS, DEFAULT_GRID_CONFIG, RELATIONSHIP_LABELS } from './types';
+import { detailsToFeatureNotes } from './featureUtils';
+import { PATH_TYPES } from './paths';
+import { SESSION_LOG_KINDS } from './sessionLog';
+import { isValidDiceFormula } from './generator/tableSystem';
+
+// ============================================
+// MAP SCHEMA VERSIONING
+// Saved and imported maps are migrated to the current schema, then validated
+// ============================================
+
+export const CURRENT_SCHEMA_VERSION = 3;
+
+// Errors beyond this are summarized as "...and N more"
+const MAX_REPORTED_ERRORS = 15;
+
+type RawMap = Record<string, unknown>;
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function asArray(value: unknown): unknown[] {
+  return Array.isArray(value) ? value : [];
+}
+
+/**
+ * Migrations, keyed by the version they upgrade *to*
+ * Each one takes a map at the previous version and returns it at its own version.
+ */
+const MIGRATIONS: Record<number, (map: RawMap) => RawMap> = {
+  // v1: unversioned saves - fill in collections and settings added over time
+  1: (map) => ({
+    ...map,
+    createdAt: map.createdAt ?? map.updatedAt ?? new Date().toISOString(),
+    updatedAt: map.updatedAt ?? new Date().toISOString(),
+    gridConfig: isRecord(map.gridConfig) ? { ...DEFAULT_GRID_CONFIG, ...map.gridConfig } : map.gridConfig,
+    factions: asArray(map.factions).map(f => isRecord(f) ? {
+      type: 'faction',
+      domainHexes: [],
+      relationships: [],
+      ...f,
+    } : f),
+    settings: { ...DEFAULT_CAMPAIGN_SETTINGS, ...(isRecord(map.settings) ? map.settings : {}) },
+  }),
+
+  // v2: feature notes - generated details used to be shown straight from the feature
+  2: (map) => !Array.isArray(map.hexes) ? map : ({
+    ...map,
+    hexes: map.hexes.map(hex => {
+      if (!isRecord(hex) || !isRecord(hex.feature) || !isRecord(hex.feature.details)) return hex;
+      const feature = hex.feature;
+      const campaignData = isRecord(hex.campaignData) ? hex.campaignData : {};
+      return {
+        ...hex,
+        feature: {
+          ...feature,
+          originalDetails: feature.originalDetails ?? feature.details,
+          originalFeatureType: feature.originalFeatureType ?? feature.type,
+        },
+        // Notes the GM cleared on purpose leave deletedFeatureNotes behind
+        campaignData: campaignData.featureNotes === undefined && campaignData.deletedFeatureNotes === undefined
+          ? { ...campaignData, featureNotes: detailsToFeatureNotes(feature.details as Record<string, unknown>) }
+          : campaignData,
+      };
+    }),
+  }),
+
+  // v3: rivers, roads and trails
+  3: (map) => ({
+    ...map,
+    paths: asArray(map.paths),
+  }),
+};
+
+/**
+ * Bring raw map data up to the current schema version
+ */
+export function migrateMap(data: RawMap): RawMap {
+  const from = typeof data.schemaVersion === 'number' ? data.schemaVersion : 0;
+  if (from > CURRENT_SCHEMA_VERSION) {
+    throw new Error(
+      `This map was saved by a newer version of Campaign Mapper (schema ${from}, this version reads up to ${CURRENT_SCHEMA_VERSION})`
+    );
+  }
+
+  let map = data;
+  for (let version = from + 1; version <= CURRENT_SCHEMA_VERSION; version++) {
+    map = { ...MIGRATIONS[version](map), schemaVersion: version };
+  }
+  return map;
+}
+
+// ============================================
+// VALIDATION
+// ============================================
+
+/**
+ * Collects "path: problem" messages while walking a value
+ */
+function createChecker(errors: string[]) {
+  const fail = (path: string, problem: string) => errors.push(`${path}: ${problem}`);
+
+  return {
+    string(value: unknown, path: string, required = true): boolean {
+      if (value === undefined && !required) return true;
+      if (typeof value !== 'string') {
+        fail(path, 'expected text');
+        return false;
+      }
+      return true;
+    },
+    number(value: unknown, path: string, required = true): boolean {
+      if (value === undefined && !required) return true;
+      if (typeof value !== 'number' || !Number.isFinite(value)) {
+        fail(path, 'expected a number');
+        return false;
+      }
+      return true;
+    },
+    boolean(value: unknown, path: string, required = true): boolean {
+      if (value === undefined && !required) return true;
+      if (typeof value !== 'boolean') {
+        fail(path, 'expected true or false');
+        return false;
+      }
+      return true;
+    },
+    oneOf(value: unknown, allowed: readonly string[], path: string, required = true): boolean {
+      if (value === undefined && !required) return true;
+      if (typeof value !== 'string' || !allowed.includes(value)) {
+        fail(path, `expected one of ${allowed.join(', ')}`);
+        return false;
+      }
+      return true;
+    },
+    record(value: unknown, path: string, required = true): value is Record<string, unknown> {
+      if (value === undefined && !required) return false;
+      if (!isRecord(value)) {
+        fail(path, 'expected an object');
+        return false;
+      }
+      return true;
+    },
+    array(value: unknown, path: string, required = true): value is unknown[] {
+      if (value === undefined && !required) return false;
+      if (!Array.isArray(value)) {
+        fail(path, 'expected a list');
+        return false;
+      }
+      return true;
+    },
+    stringRecord(value: unknown, path: string): void {
+      if (value === undefined) return;
+      if (!isRecord(value)) {
+        fail(path, 'expected an object');
+        return;
+      }
+      for (const [key, v] of Object.entries(value)) {
+        if (typeof v !== 'string') fail(`${path}.${key}`, 'expected text');
+      }
+    },
+    stringArray(value: unknown, path: string): void {
+      if (value === undefined) return;
+      if (!Array.isArray(value) || value.some(v => typeof v !== 'string')) {
+        fail(path, 'expected a list of text');
+      }
+    },
+    coord(value: unknown, path: string): boolean {
+      if (!isRecord(value) || !Number.isInteger(value.q) || !Number.isInteger(value.r)) {
+        fail(path, 'expected a hex coordinate {q, r}');
+        return false;
+      }
+      return true;
+    },
+    fail,
+  };
+}
+
+/**
+ * Check map data against the current schema
+ * Returns a list of human-readable errors (empty if the map is valid)
+ */
+export function validateMap(data: unknown): string[] {
+  const errors: string[] = [];
+  const check = createChecker(errors);
+
+  if (!check.record(data, 'map')) return errors;
+  const map = data;
+
+  check.string(map.id, 'id');
+  check.string(map.name, 'name');
+  check.string(map.createdAt, 'createdAt');
+  check.string(map.updatedAt, 'updatedAt');
+  check.oneOf(map.mode, ['overlay', 'generated', 'blank', 'unbounded'], 'mode');
+  check.number(map.schemaVersion, 'schemaVersion');
+  check.string(map.seed, 'seed', false);
+  if (check.record(map.generationOptions, 'generationOptions', false)) {
+    const generation = map.generationOptions;
+    for (const key of [
+      'generateTerrain', 'generateFeatures', 'includeLandmarks',
+      'includeSettlements', 'includeLairs', 'includeDungeons',
+    ]) {
+      check.boolean(generation[key], `generationOptions.${key}`, false);
+    }
+    check.number(generation.featureChance, 'generationOptions.featureChance', false);
+    check.string(generation.startingBiome, 'generationOptions.startingBiome', false);
+  }
+  check.string(map.notes, 'notes', false);
+
+  if (check.record(map.gridConfig, 'gridConfig')) {
+    const grid = map.gridConfig;
+    check.oneOf(grid.orientation, ['flat-top', 'pointy-top'], 'gridConfig.orientation');
+    check.oneOf(grid.rowOffset, ['odd', 'even'], 'gridConfig.rowOffset');
+    check.oneOf(grid.colOffset, ['odd', 'even'], 'gridConfig.colOffset');
+    for (const key of ['originX', 'originY', 'startCol', 'startRow']) {
+      check.number(grid[key], `gridConfig.${key}`);
+    }
+    for (const key of ['rotation', 'colSpacing', 'rowSpacing']) {
+      check.number(grid[key], `gridConfig.${key}`, false);
+    }
+    if (check.number(grid.hexSize, 'gridConfig.hexSize') && (grid.hexSize as number) <= 0) {
+      check.fail('gridConfig.hexSize', 'must be greater than 0');
+    }
+    for (const key of ['cols', 'rows']) {
+      if (!Number.isInteger(grid[key]) || (grid[key] as number) < 1) {
+        check.fail(`gridConfig.${key}`, 'expected a whole number of at least 1');
+      }
+    }
+  }
+
+  if (check.array(map.hexes, 'hexes')) {
+    const seen = new Set<string>();
+    map.hexes.forEach((hex, i) => {
+      const path = `hexes[${i}]`;
+      if (!check.record(hex, path)) return;
+      if (check.coord(hex.coord, `${path}.coord`)) {
+        const { q, r } = hex.coord as { q: number; r: number };
+        const key = `${q},${r}`;
+        if (seen.has(key)) check.fail(`${path}.coord`, `duplicate hex ${key}`);
+        seen.add(key);
+      }
+      check.string(hex.terrainId, `${path}.terrainId`);
+      check.string(hex.detectedTerrainId, `${path}.detectedTerrainId`, false);
+      check.string(hex.childMapId, `${path}.childMapId`, false);
+      check.oneOf(hex.featureType, ['landmark', 'settlement', 'lair', 'dungeon'], `${path}.featureType`, false);
+      if (check.record(hex.feature, `${path}.feature`, false)) {
+        check.record(hex.feature.details, `${path}.feature.details`);
+        check.record(hex.feature.originalDetails, `${path}.feature.originalDetails`, false);
+        if (check.record(hex.feature.settlement, `${path}.feature.settlement`, false)) {
+          const settlement = hex.feature.settlement;
+          check.array(settlement.npcs, `${path}.feature.settlement.npcs`);
+          check.array(settlement.shops, `${path}.feature.settlement.shops`);
+          if (check.array(settlement.rumors, `${path}.feature.settlement.rumors`)) {
+            settlement.rumors.forEach((rumor, j) => {
+              const rumorPath = `${path}.feature.settlement.rumors[${j}]`;
+              if (!check.record(rumor, rumorPath)) return;
+              check.string(rumor.text, `${rumorPath}.text`);
+              check.coord(rumor.hexCoord, `${rumorPath}.hexCoord`);
+            });
+          }
+        }
+        if (check.record(hex.feature.dungeon, `${path}.feature.dungeon`, false)) {
+          const dungeon = hex.feature.dungeon;
+          check.array(dungeon.entrances, `${path}.feature.dungeon.entrances`);
+          if (check.array(dungeon.levels, `${path}.feature.dungeon.levels`)) {
+            dungeon.levels.forEach((level, j) => {
+              const levelPath = `${path}.feature.dungeon.levels[${j}]`;
+              if (!check.record(level, levelPath)) return;
+              check.string(level.rulerName, `${levelPath}.rulerName`);
+              check.array(level.rooms, `${levelPath}.rooms`);
+            });
+          }
+        }
+      }
+      if (check.record(hex.campaignData, `${path}.campaignData`, false)) {
+        const data = hex.campaignData;
+        check.string(data.name, `${path}.campaignData.name`, false);
+        check.string(data.playerNotes, `${path}.campaignData.playerNotes`, false);
+        check.string(data.terrainOverride, `${path}.campaignData.terrainOverride`, false);
+        check.stringArray(data.tags, `${path}.campaignData.tags`);
+        check.stringRecord(data.notes, `${path}.campaignData.notes`);
+        check.stringArray(data.deletedNotes, `${path}.campaignData.deletedNotes`);
+        check.stringRecord(data.featureNotes, `${path}.campaignData.featureNotes`);
+        check.stringArray(data.deletedFeatureNotes, `${path}.campaignData.deletedFeatureNotes`);
+        check.boolean(data.explored, `${path}.campaignData.explored`, false);
+        check.boolean(data.hidden, `${path}.campaignData.hidden`, false);
+        check.string(data.lastVisited, `${path}.campaignData.lastVisited`, false);
+        check.number(data.lastVisitedDay, `${path}.campaignData.lastVisitedDay`, false);
+      }
+    });
+  }
+
+  if (check.array(map.factions, 'factions')) {
+    map.factions.forEach((faction, i) => {
+      const path = `factions[${i}]`;
+      if (!check.record(faction, path)) return;
+      check.string(faction.id, `${path}.id`);
+      check.string(faction.name, `${path}.name`);
+      check.oneOf(faction.type, ['faction', 'region'], `${path}.type`);
+      check.string(faction.color, `${path}.color`, false);
+      check.coord(faction.sourceHexCoord, `${path}.sourceHexCoord`);
+      if (check.array(faction.domainHexes, `${path}.domainHexes`)) {
+        faction.domainHexes.forEach((c, j) => check.coord(c, `${path}.domainHexes[${j}]`));
+      }
+      if (check.array(faction.relationships, `${path}.relationships`)) {
+        faction.relationships.forEach((rel, j) => {
+          const relPath = `${path}.relationships[${j}]`;
+          if (!check.record(rel, relPath)) return;
+          check.string(rel.factionId, `${relPath}.factionId`);
+          check.oneOf(rel.status, Object.keys(RELATIONSHIP_LABELS), `${relPath}.status`);
+        });
+      }
+      check.string(faction.parentId, `${path}.parentId`, false);
+      check.string(faction.regionId, `${path}.regionId`, false);
+      check.boolean(faction.inheritRelationships, `${path}.inheritRelationships`, false);
+      check.stringRecord(faction.notes, `${path}.notes`);
+    });
+  }
+  check.number(map.factionTurn, 'factionTurn', false);
+
+  if (check.array(map.paths, 'paths', false)) {
+    map.paths.forEach((p, i) => {
+      const path = `paths[${i}]`;
+      if (!check.record(p, path)) return;
+      check.string(p.id, `${path}.id`);
+      check.oneOf(p.type, PATH_TYPES, `${path}.type`);
+      check.string(p.name, `${path}.name`, false);
+      if (check.array(p.coords, `${path}.coords`)) {
+        p.coords.forEach((c, j) => check.coord(c, `${path}.coords[${j}]`));
+      }
+    });
+  }
+
+  if (check.array(map.sessionLog, 'sessionLog', false)) {
+    map.sessionLog.forEach((entry, i) => {
+      const path = `sessionLog[${i}]`;
+      if (!check.record(entry, path)) return;
+      check.string(entry.id, `${path}.id`);
+      check.oneOf(entry.kind, SESSION_LOG_KINDS, `${path}.kind`);
+      check.string(entry.timestamp, `${path}.timestamp`);
+      check.number(entry.day, `${path}.day`, false);
+      check.string(entry.text, `${path}.text`);
+      if (entry.hexCoord !== undefined) check.coord(entry.hexCoord, `${path}.hexCoord`);
+    });
+  }
+
+  if (check.record(map.calendar, 'calendar', false)) {
+    const calendar = map.calendar;
+    for (const key of ['currentDay', 'daysPerMonth', 'startYear']) {
+      check.number(calendar[key], `calendar.${key}`);
+    }
+    check.number(calendar.dayProgress, 'calendar.dayProgress', false);
+    if (typeof calendar.daysPerMonth === 'number' && calendar.daysPerMonth < 1) {
+      check.fail('calendar.daysPerMonth', 'expected at least 1');
+    }
+    if (check.array(calendar.monthNames, 'calendar.monthNames')) {
+      check.stringArray(calendar.monthNames, 'calendar.monthNames');
+      if (calendar.monthNames.length === 0) check.fail('calendar.monthNames', 'expected at least one month');
+    }
+  }
+
+  if (map.partyCoord !== undefined) check.coord(map.partyCoord, 'partyCoord');
+
+  if (check.record(map.parentMap, 'parentMap', false)) {
+    check.string(map.parentMap.mapId, 'parentMap.mapId');
+    check.coord(map.parentMap.coord, 'parentMap.coord');
+  }
+
+  if (check.record(map.imageOverlay, 'imageOverlay', false)) {
+    const image = map.imageOverlay;
+    check.string(image.src, 'imageOverlay.src');
+    check.number(image.width, 'imageOverlay.width');
+    check.number(image.height, 'imageOverlay.height');
+    check.number(image.opacity, 'imageOverlay.opacity');
+    check.boolean(image.visible, 'imageOverlay.visible');
+  }
+
+  if (check.array(map.tables, 'tables', false)) {
+    map.tables.forEach((table, i) => {
+      const path = `tables[${i}]`;
+      if (!check.record(table, path)) return;
+      check.string(table.id, `${path}.id`);
+      check.string(table.name, `${path}.name`);
+      if (check.string(table.diceFormula, `${path}.diceFormula`) && !isValidDiceFormula(table.diceFormula as string)) {
+        check.fail(`${path}.diceFormula`, 'expected a dice formula like 1d6 or 2d6+1');
+      }
+      if (check.array(table.entries, `${path}.entries`)) {
+        table.entries.forEach((entry, j) => {
+          const entryPath = `${path}.entries[${j}]`;
+          if (!check.record(entry, entryPath)) return;
+          check.number(entry.min, `${entryPath}.min`);
+          check.number(entry.max, `${entryPath}.max`);
+          check.string(entry.value, `${entryPath}.value`);
+        });
+      }
+    });
+  }
+
+  if (check.record(map.settings, 'settings')) {
+    const settings = map.settings;
+    for (const key of [
+      'showDataIndicators', 'showFactionTerritories', 'showExploredStatus',
+      'showTerrainColors', 'showGrid', 'showCoordinates',
+    ]) {
+      check.boolean(settings[key], `settings.${key}`);
+    }
+    check.number(settings.hexFillOpacity, 'settings.hexFillOpacity');
+    check.stringArray(settings.availableTags, 'settings.availableTags');
+    if (check.array(settings.customTerrainTypes, 'settings.customTerrainTypes')) {
+      settings.customTerrainTypes.forEach((terrain, i) => {
+        const path = `settings.customTerrainTypes[${i}]`;
+        if (!check.record(terrain, path)) return;
+        check.string(terrain.id, `${path}.id`);
+        check.string(terrain.name, `${path}.name`);
+        check.string(terrain.color, `${path}.color`);
+        check.number(terrain.movementCost, `${path}.movementCost`, false);
+        check.number(terrain.encounterChance, `${path}.encounterChance`, false);
+      });
+    }
+    if (check.array(settings.monsterStats, 'settings.monsterStats', false)) {
+      settings.monsterStats.forEach((monster, i) => {
+        const path = `settings.monsterStats[${i}]`;
+        if (!check.record(monster, path)) return;
+        for (const key of ['name', 'hd', 'ac']) {
+          check.string(monster[key], `${path}.${key}`);
+        }
+        check.string(monster.numberAppearing, `${path}.numberAppearing`, false);
+        if (typeof monster.numberAppearing === 'string' && !isValidDiceFormula(monster.numberAppearing)) {
+          check.fail(`${path}.numberAppearing`, 'expected a dice formula like 2d6');
+        }
+        check.string(monster.notes, `${path}.notes`, false);
+      });
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Format validation errors for display, trimming long lists
+ */
+export function formatValidationErrors(errors: string[]): string {
+  const shown = errors.slice(0, MAX_REPORTED_ERRORS).map(e => `• ${e}`);
+  if (errors.length > MAX_REPORTED_ERRORS) {
+    shown.push(`…and ${errors.length - MAX_REPORTED_ERRORS} more`);
+  }
+  return shown.join('\n');
+}
+
+/**
+ * Migrate and validate parsed map data
+ * Throws with a readable report if the data can't be used as a map.
+ */
+export function parseMapData(data: unknown): CampaignMap {
+  if (!isRecord(data)) {
+    throw new Error('Not a map file (expected a JSON object)');
+  }
+
+  const migrated = migrateMap(data);
+  const errors = validateMap(migrated);
+  if (errors.length > 0) {
+    throw new Error(`Invalid map data:\n${formatValidationErrors(errors)}`);
+  }
+
+  return migrated as unknown as CampaignMap;
+}
@@ -0,0 +1,193 @@
+import type { CampaignMap, GridConfig, HexCoord } from './types';
+import { coordToKey } from './types';
+import { hexToPixel, getNeighbors, offsetToAxial } from './hexUtils';
+import { createMap } from './mapFactory';
+import { generateFullMap, applyGenerationResults, terrainToBiome } from './generator/mapGenerator';
+import type { RandomSource } from './generator/random';
+
+// ============================================
+// NESTED MAPS
+// A hex on a large-scale map (a kingdom, a continent) can open into a child
+// map at a finer scale. The child is generated to match the parent hex's
+// terrain, with edges that blend into the neighboring parent hexes.
+// ============================================
+
+export const DEFAULT_SUBMAP_SIZE = 7;
+
+// Stop walking up parent links past this depth (guards against link loops)
+const MAX_MAP_DEPTH = 10;
+
+export interface SubMapOptions {
+  name: string;
+  cols: number;
+  rows: number;
+  generateTerrain: boolean;          // Match the parent hex and its neighbors
+  generateFeatures: boolean;
+}
+
+/**
+ * One step in the breadcrumb from the top-level map down to the current one
+ */
+export interface MapTrailEntry {
+  mapId: string;
+  name: string;
+  coord: HexCoord;                   // The hex on this map that the next map expands
+}
+
+/**
+ * Grid for a sub-map: the parent's hex layout without any image alignment
+ */
+function getSubMapGrid(parent: CampaignMap, cols: number, rows: number): Partial<GridConfig> {
+  const { orientation, rowOffset, colOffset } = parent.gridConfig;
+  return { orientation, rowOffset, colOffset, cols, rows };
+}
+
+const angleBetween = (a: number, b: number) => Math.abs(Math.atan2(Math.sin(a - b), Math.cos(a - b)));
+
+/**
+ * Terrain for the ring of hexes just outside a sub-map, by coord key: each
+ * takes the terrain of the parent neighbor lying in the same direction.
+ * Neighbors off the parent map or of unknown terrain are left out.
+ */
+export function getSurroundingTerrain(
+  parent: CampaignMap,
+  coord: HexCoord,
+  childConfig: GridConfig,
+  childCoords: HexCoord[]
+): Map<string, string> {
+  const parentHexes = new Map(parent.hexes.map(h => [coordToKey(h.coord), h]));
+  const center = hexToPixel(coord, parent.gridConfig);
+  const rotation = (parent.gridConfig.rotation || 0) * Math.PI / 180;
+
+  // Direction to each neighbor in the unrotated parent grid
+  const neighbors = getNeighbors(coord)
+    .map(n => {
+      const hex = parentHexes.get(coordToKey(n));
+      const p = hexToPixel(n, parent.gridConfig);
+      return { terrainId: hex?.terrainId, angle: Math.atan2(p.y - center.y, p.x - center.x) - rotation };
+    })
+    .filter((n): n is { terrainId: string; angle: number } => !!n.terrainId && n.terrainId !== 'unknown');
+
+  const surrounding = new Map<string, string>();
+  if (neighbors.length === 0) return surrounding;
+
+  const inside = new Set(childCoords.map(coordToKey));
+  const xs = childCoords.map(c => hexToPixel(c, childConfig).x);
+  const ys = childCoords.map(c => hexToPixel(c, childConfig).y);
+  const midX = (Math.min(...xs) + Math.max(...xs)) / 2;
+  const midY = (Math.min(...ys) + Math.max(...ys)) / 2;
+
+  for (const child of childCoords) {
+    for (const outside of getNeighbors(child)) {
+      const key = coordToKey(outside);
+      if (inside.has(key) || surrounding.has(key)) continue;
+
+      const p = hexToPixel(outside, childConfig);
+      const angle = Math.atan2(p.y - midY, p.x - midX);
+      let best = neighbors[0];
+      for (const n of neighbors) {
+        if (angleBetween(n.angle, angle) < angleBetween(best.angle, angle)) best = n;
+      }
+      surrounding.set(key, best.terrainId);
+    }
+  }
+
+  return surrounding;
+}
+
+/**
+ * Create a finer-scale map for a parent hex, sharing the parent's settings
+ * and tables. With generateTerrain, the middle takes after the parent hex
+ * and the edges after its neighbors.
+ */
+export function createSubMap(
+  parent: CampaignMap,
+  coord: HexCoord,
+  options: SubMapOptions,
+  rng: RandomSource = Math.random
+): CampaignMap {
+  const parentHex = parent.hexes.find(h => h.coord.q === coord.q && h.coord.r === coord.r);
+  const parentTerrain = parentHex?.terrainId || 'unknown';
+
+  let child = createMap({
+    name: options.name,
+    mode: options.generateTerrain ? 'generated' : 'blank',
+    gridConfig: getSubMapGrid(parent, options.cols, options.rows),
+    defaultTerrain: parentTerrain,
+  });
+  child = {
+    ...child,
+    settings: { ...parent.settings },
+    tables: parent.tables,
+    parentMap: { mapId: parent.id, coord },
+  };
+
+  if (options.generateTerrain) {
+    const { gridConfig } = child;
+    const centerCoord = offsetToAxial(
+      Math.floor(gridConfig.cols / 2) + gridConfig.startCol,
+      Math.floor(gridConfig.rows / 2) + gridConfig.startRow,
+      gridConfig
+    );
+    const allCoords = child.hexes.map(h => h.coord);
+    const surrounding = getSurroundingTerrain(parent, coord, gridConfig, allCoords);
+
+    const results = generateFullMap(allCoords, centerCoord, {
+      generateTerrain: true,
+      generateFeatures: options.generateFeatures,
+      startingBiome: parentTerrain !== 'unknown' ? terrainToBiome(parentTerrain) : undefined,
+    }, rng, surrounding);
+    child = { ...child, hexes: applyGenerationResults(child.hexes, results) };
+  }
+
+  return child;
+}
+
+/**
+ * Point a parent hex at its sub-map
+ */
+export function linkSubMap(parent: CampaignMap, coord: HexCoord, childMapId: string): CampaignMap {
+  return {
+    ...parent,
+    hexes: parent.hexes.map(h =>
+      h.coord.q === coord.q && h.coord.r === coord.r ? { ...h, childMapId } : h
+    ),
+  };
+}
+
+/**
+ * Remove a parent hex's sub-map link (the sub-map itself is left alone)
+ */
+export function unlinkSubMap(parent: CampaignMap, coord: HexCoord): CampaignMap {
+  return {
+    ...parent,
+    hexes: parent.hexes.map(h => {
+      if (h.coord.q !== coord.q || h.coord.r !== coord.r) return h;
+      const { childMapId: _, ...rest } = h;
+      return rest;
+    }),
+  };
+}
+
+/**
+ * The maps above this one, top-level map first. Stops at a missing parent
+ * or a link loop.
+ */
+export async function getMapTrail(
+  map: CampaignMap,
+  load: (id: string) => Promise<CampaignMap | null>
+): Promise<MapTrailEntry[]> {
+  const trail: MapTrailEntry[] = [];
+  const visited = new Set([map.id]);
+  let link = map.parentMap;
+
+  while (link && !visited.has(link.mapId) && trail.length < MAX_MAP_DEPTH) {
+    visited.add(link.mapId);
+    const parent = await load(link.mapId);
+    if (!parent) break;
+    trail.unshift({ mapId: parent.id, name: parent.name, coord: link.coord });
+    link = parent.parentMap;
+  }
+
+  return trail;
+}
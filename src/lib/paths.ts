@@ -0,0 +1,100 @@
+import type { CampaignMap, HexCoord, MapPath, MapPathType } from './types';
+import { coordToKey } from './types';
+import { coordEquals, hexDistance, hexLine } from './hexUtils';
+
+// ============================================
+// PATH STYLES
+// ============================================
+
+export interface PathStyle {
+  label: string;
+  color: string;
+  width: number;                     // Stroke width as a fraction of hex size
+  dashArray?: string;
+}
+
+export const PATH_TYPES: MapPathType[] = ['river', 'road', 'trail'];
+
+export const PATH_STYLES: Record<MapPathType, PathStyle> = {
+  river: { label: 'River', color: '#3b7dd8', width: 0.18 },
+  road: { label: 'Road', color: '#8b5a2b', width: 0.14 },
+  trail: { label: 'Trail', color: '#a0825a', width: 0.08, dashArray: '6,4' },
+};
+
+// ============================================
+// PATH CREATION
+// ============================================
+
+/**
+ * Create a new path
+ */
+export function createPath(type: MapPathType, coords: HexCoord[], name?: string): MapPath {
+  return {
+    id: `path-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+    type,
+    name,
+    coords,
+  };
+}
+
+/**
+ * Append a hex to a path being drawn
+ * Non-adjacent hexes are joined with a straight line of hexes so the
+ * path always steps between neighbors. Clicking the previous hex again
+ * steps back one hex.
+ */
+export function extendPathCoords(coords: HexCoord[], next: HexCoord): HexCoord[] {
+  if (coords.length === 0) return [next];
+
+  const last = coords[coords.length - 1];
+  if (coordEquals(last, next)) return coords;
+
+  if (coords.length > 1 && coordEquals(coords[coords.length - 2], next)) {
+    return coords.slice(0, -1);
+  }
+
+  if (hexDistance(last, next) === 1) return [...coords, next];
+  return [...coords, ...hexLine(last, next).slice(1)];
+}
+
+// ============================================
+// MAP OPERATIONS
+// ============================================
+
+/**
+ * Add a path to the map
+ */
+export function addPath(map: CampaignMap, path: MapPath): CampaignMap {
+  return {
+    ...map,
+    paths: [...(map.paths || []), path],
+    updatedAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * Remove a path from the map
+ */
+export function removePath(map: CampaignMap, pathId: string): CampaignMap {
+  return {
+    ...map,
+    paths: (map.paths || []).filter(p => p.id !== pathId),
+    updatedAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * Get every path that passes through a hex
+ */
+export function getPathsAtHex(paths: MapPath[], coord: HexCoord): MapPath[] {
+  const key = coordToKey(coord);
+  return paths.filter(p => p.coords.some(c => coordToKey(c) === key));
+}
+
+/**
+ * Display name for a path ("Road", "River Aldwyn")
+ */
+export function getPathLabel(path: MapPath): string {
+  const typeLabel = PATH_STYLES[path.type].label;
+  return path.name ? `${typeLabel} ${path.name}` : typeLabel;
+}
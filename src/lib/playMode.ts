@@ -0,0 +1,88 @@
+import type { CampaignMap, HexCoord } from './types';
+import { coordToKey, getEffectiveTerrain } from './types';
+import { getNeighbors, hexDistance, getDisplayCoord } from './hexUtils';
+import { getStepDays, formatTravelDays } from './travel';
+import { advanceTime, recordVisit, addLogEntry, createLogEntry, getCalendar } from './sessionLog';
+import type { GeneratedEncounter } from './generator/types';
+import { rollEncounter, formatEncounter } from './generator/encounterGenerator';
+import type { RandomSource } from './generator/random';
+
+// ============================================
+// PLAY MODE (party movement)
+// ============================================
+
+export interface PartyMoveResult {
+  map: CampaignMap;
+  days: number;                      // Travel time of the move (0 when placing the party)
+  encounter?: GeneratedEncounter;    // Set when an encounter check was made
+}
+
+/**
+ * Mark hexes explored without touching ones that already are
+ */
+function revealHexes(map: CampaignMap, coords: HexCoord[]): CampaignMap {
+  const keys = new Set(coords.map(coordToKey));
+  let changed = false;
+  const hexes = map.hexes.map(hex => {
+    if (hex.campaignData?.explored || !keys.has(coordToKey(hex.coord))) return hex;
+    changed = true;
+    return { ...hex, campaignData: { ...hex.campaignData, explored: true } };
+  });
+  return changed ? { ...map, hexes } : map;
+}
+
+/**
+ * Why the party can't move to a hex, or null if it can
+ */
+export function getPartyMoveBlocker(map: CampaignMap, to: HexCoord): string | null {
+  const key = coordToKey(to);
+  if (!map.hexes.some(h => coordToKey(h.coord) === key)) return 'That hex is off the map';
+  if (!map.partyCoord) return null;
+  if (hexDistance(map.partyCoord, to) !== 1) return 'The party moves one hex at a time';
+  if (getStepDays(map, map.partyCoord, to) <= 0) return 'That hex is impassable';
+  return null;
+}
+
+/**
+ * Move the party token into an adjacent hex (or place it, if it isn't on the
+ * map yet): advances the calendar by the travel time, logs the visit, reveals
+ * the hex and its neighbors, and optionally checks for a wandering encounter.
+ * Returns null if the move is blocked (see getPartyMoveBlocker).
+ */
+export function moveParty(
+  map: CampaignMap,
+  to: HexCoord,
+  options: { checkEncounters: boolean },
+  rng: RandomSource = Math.random
+): PartyMoveResult | null {
+  if (getPartyMoveBlocker(map, to)) return null;
+
+  const days = map.partyCoord ? getStepDays(map, map.partyCoord, to) : 0;
+  let next = advanceTime(map, days);
+  next = recordVisit({ ...next, partyCoord: to }, to);
+  next = revealHexes(next, getNeighbors(to));
+
+  let encounter: GeneratedEncounter | undefined;
+  if (options.checkEncounters && days > 0) {
+    const hex = next.hexes.find(h => coordToKey(h.coord) === coordToKey(to))!;
+    encounter = rollEncounter(getEffectiveTerrain(hex), {
+      timeOfDay: 'day',
+      customTerrainTypes: next.settings.customTerrainTypes,
+    }, rng);
+    if (encounter.occurred) {
+      next = addLogEntry(next, createLogEntry('encounter', formatEncounter(encounter), to, getCalendar(next).currentDay));
+    }
+  }
+
+  return { map: next, days, encounter };
+}
+
+/**
+ * Undo-history label for a party move
+ */
+export function describePartyMove(map: CampaignMap, result: PartyMoveResult, to: HexCoord): string {
+  const where = getDisplayCoord(to, map.gridConfig);
+  return result.days > 0
+    ? `Move party to ${where} (${formatTravelDays(result.days)})`
+    : `Place party at ${where}`;
+}
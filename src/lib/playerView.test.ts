@@ -0,0 +1,33 @@
+import { describe, it, expect } from 'vitest';
+import type { CampaignMap } from './types';
+import { createMap } from './mapFactory';
+import { createPlayerMap } from './playerView';
+
+function gmMap(): CampaignMap {
+  const map = createMap({ name: 'Realm', mode: 'blank', gridConfig: { cols: 3, rows: 3 }, defaultTerrain: 'plains' });
+  return {
+    ...map,
+    settings: {
+      ...map.settings,
+      availableTags: ['ambush'],
+      monsterStats: [{ name: 'Goblin', hd: '1-1', ac: '6', notes: 'Secretly serve the lich' }],
+    },
+  };
+}
+
+describe('createPlayerMap', () => {
+  it('leaves out the monster stats and their GM notes', () => {
+    const player = createPlayerMap(gmMap());
+    expect(player.settings).not.toHaveProperty('monsterStats');
+    expect(JSON.stringify(player)).not.toContain('Secretly serve the lich');
+  });
+
+  it('copies only the display settings players need', () => {
+    const map = gmMap();
+    const settings = { ...map.settings, showGrid: false, gmOnlyOption: 'spoiler' } as CampaignMap['settings'];
+    const player = createPlayerMap({ ...map, settings });
+    expect(player.settings).not.toHaveProperty('gmOnlyOption');
+    expect(player.settings).toMatchObject({ showGrid: false, showExploredStatus: true, showDataIndicators: false });
+    expect(player.settings.availableTags).toEqual([]);
+  });
+});
@@ -0,0 +1,294 @@
+import type { CampaignMap, CampaignSettings, Faction, FeatureType, Hex, MapPath } from './types';
+import { coordToKey, getEffectiveTerrain, DEFAULT_TERRAIN_TYPES } from './types';
+import { getNeighbors, getDisplayCoord } from './hexUtils';
+import { detailsToFeatureNotes, formatLabel } from './featureUtils';
+import { renderMapSvg, escapeXml } from './svgRenderer';
+
+// ============================================
+// PLAYER VIEW
+// A copy of the map with everything GM-only stripped out
+// ============================================
+
+// Generated detail keys that are GM-only (e.g. HAMLET_SECRET / VILLAGE_SECRET rolls)
+export const GM_ONLY_DETAIL_KEYS = ['secret'];
+
+// Feature types players never see, even in explored hexes
+export const GM_ONLY_FEATURE_TYPES: FeatureType[] = ['lair'];
+
+export interface PlayerVisibility {
+  explored: Set<string>;   // Explored hexes: terrain, name, feature and player notes
+  visible: Set<string>;    // Explored hexes plus their neighbors: terrain only
+}
+
+/**
+ * Work out which hexes players can see
+ * Hidden hexes stay fogged even when explored or adjacent to an explored hex
+ */
+export function getPlayerVisibility(map: CampaignMap): PlayerVisibility {
+  const hidden = new Set(
+    map.hexes.filter(h => h.campaignData?.hidden).map(h => coordToKey(h.coord))
+  );
+  const onMap = new Set(map.hexes.map(h => coordToKey(h.coord)));
+  const explored = new Set<string>();
+  const visible = new Set<string>();
+
+  for (const hex of map.hexes) {
+    const key = coordToKey(hex.coord);
+    if (!hex.campaignData?.explored || hidden.has(key)) continue;
+
+    explored.add(key);
+    visible.add(key);
+    for (const neighbor of getNeighbors(hex.coord)) {
+      const neighborKey = coordToKey(neighbor);
+      if (onMap.has(neighborKey) && !hidden.has(neighborKey)) {
+        visible.add(neighborKey);
+      }
+    }
+  }
+
+  return { explored, visible };
+}
+
+/**
+ * Remove GM-only keys from generated feature details
+ */
+function stripGmDetails(details: Record<string, unknown>): Record<string, unknown> {
+  const result: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(details)) {
+    if (!GM_ONLY_DETAIL_KEYS.includes(key)) {
+      result[key] = value;
+    }
+  }
+  return result;
+}
+
+/**
+ * Player copy of an explored hex: name, terrain, public feature details and player notes
+ */
+function toPlayerHex(hex: Hex): Hex {
+  const playerHex: Hex = {
+    coord: hex.coord,
+    terrainId: getEffectiveTerrain(hex),
+    campaignData: {
+      name: hex.campaignData?.name,
+      playerNotes: hex.campaignData?.playerNotes,
+      explored: true,
+    },
+  };
+
+  if (hex.featureType && hex.feature && !GM_ONLY_FEATURE_TYPES.includes(hex.featureType)) {
+    playerHex.featureType = hex.featureType;
+    playerHex.feature = {
+      type: hex.feature.type,
+      name: hex.feature.name,
+      details: stripGmDetails(hex.feature.details),
+    };
+  }
+
+  return playerHex;
+}
+
+/**
+ * Split paths into the stretches that run through visible hexes
+ */
+function toPlayerPaths(paths: MapPath[], visible: Set<string>): MapPath[] {
+  const result: MapPath[] = [];
+  for (const path of paths) {
+    let run: MapPath['coords'] = [];
+    let part = 0;
+    const flush = () => {
+      if (run.length > 1) {
+        result.push({ ...path, id: part === 0 ? path.id : `${path.id}-${part}`, coords: run });
+        part++;
+      }
+      run = [];
+    };
+    for (const coord of path.coords) {
+      if (visible.has(coordToKey(coord))) {
+        run.push(coord);
+      } else {
+        flush();
+      }
+    }
+    flush();
+  }
+  return result;
+}
+
+/**
+ * Player copy of a faction: name and color, limited to explored territory
+ */
+function toPlayerFaction(faction: Faction, explored: Set<string>): Faction | null {
+  const domainHexes = faction.domainHexes.filter(c => explored.has(coordToKey(c)));
+  if (domainHexes.length === 0) return null;
+
+  return {
+    id: faction.id,
+    name: faction.name,
+    type: faction.type,
+    color: faction.color,
+    sourceHexCoord: explored.has(coordToKey(faction.sourceHexCoord))
+      ? faction.sourceHexCoord
+      : domainHexes[0],
+    domainHexes,
+    relationships: [],
+  };
+}
+
+/**
+ * Player copy of the campaign settings: display options and the terrain
+ * types needed to draw the map. Anything else (tags, monster stats) stays
+ * with the GM.
+ */
+function toPlayerSettings(settings: CampaignSettings): CampaignSettings {
+  return {
+    showDataIndicators: false,
+    showFactionTerritories: settings.showFactionTerritories,
+    showExploredStatus: true,
+    showTerrainColors: settings.showTerrainColors,
+    showGrid: settings.showGrid,
+    showCoordinates: settings.showCoordinates,
+    hexFillOpacity: settings.hexFillOpacity,
+    availableTags: [],
+    customTerrainTypes: settings.customTerrainTypes,
+  };
+}
+
+/**
+ * Create the player-facing copy of a map
+ * Unexplored and hidden hexes keep only their coordinate (terrain 'unknown');
+ * GM notes, tags, lairs, feature secrets, tables, monster stats and the seed
+ * are removed.
+ */
+export function createPlayerMap(map: CampaignMap): CampaignMap {
+  const { explored, visible } = getPlayerVisibility(map);
+
+  const hexes = map.hexes.map(hex => {
+    const key = coordToKey(hex.coord);
+    if (explored.has(key)) return toPlayerHex(hex);
+    if (visible.has(key)) return { coord: hex.coord, terrainId: getEffectiveTerrain(hex) };
+    return { coord: hex.coord, terrainId: 'unknown' };
+  });
+
+  return {
+    id: map.id,
+    name: map.name,
+    createdAt: map.createdAt,
+    updatedAt: map.updatedAt,
+    schemaVersion: map.schemaVersion,
+    mode: map.mode,
+    gridConfig: map.gridConfig,
+    hexes,
+    factions: map.factions
+      .map(f => toPlayerFaction(f, explored))
+      .filter((f): f is Faction => f !== null),
+    paths: toPlayerPaths(map.paths || [], visible),
+    partyCoord: map.partyCoord,
+    imageOverlay: map.imageOverlay,
+    settings: toPlayerSettings(map.settings),
+  };
+}
+
+/**
+ * Public details for a hex in a player map, as label/value pairs
+ */
+export function getPlayerHexDetails(hex: Hex): Record<string, string> {
+  if (!hex.feature) return {};
+  return detailsToFeatureNotes(hex.feature.details);
+}
+
+// ============================================
+// STANDALONE HTML BUNDLE
+// ============================================
+
+/**
+ * Build a self-contained HTML page of the player map
+ * Clicking an explored hex shows its public details; no app needed to view it
+ */
+export function buildPlayerHtml(map: CampaignMap): string {
+  const { visible } = getPlayerVisibility(map);
+  const playerMap = createPlayerMap(map);
+  const terrains = [...DEFAULT_TERRAIN_TYPES, ...(map.settings.customTerrainTypes || [])];
+
+  const fogKeys = new Set(
+    playerMap.hexes.map(h => coordToKey(h.coord)).filter(key => !visible.has(key))
+  );
+  const { svg } = renderMapSvg(playerMap, {
+    showGrid: map.settings.showGrid,
+    showCoordinates: map.settings.showCoordinates,
+    showTerrainColors: map.settings.showTerrainColors,
+    showFeatures: true,
+    showPaths: true,
+    fogKeys,
+    interactive: true,
+  });
+
+  // Info shown when a hex is clicked (explored hexes only)
+  const hexInfo: Record<string, { title: string; lines: string[]; notes?: string }> = {};
+  for (const hex of playerMap.hexes) {
+    if (!hex.campaignData?.explored) continue;
+    const terrain = terrains.find(t => t.id === hex.terrainId);
+    const coord = getDisplayCoord(hex.coord, map.gridConfig);
+    const lines = [`Terrain: ${terrain?.name || hex.terrainId}`];
+    if (hex.featureType) {
+      lines.push(`Feature: ${formatLabel(hex.featureType)}`);
+      for (const [label, value] of Object.entries(getPlayerHexDetails(hex))) {
+        lines.push(`${label}: ${value}`);
+      }
+    }
+    hexInfo[coordToKey(hex.coord)] = {
+      title: hex.campaignData.name ? `${coord} · ${hex.campaignData.name}` : coord,
+      lines,
+      notes: hex.campaignData.playerNotes,
+    };
+  }
+
+  // Keep embedded JSON from closing the script tag
+  const data = JSON.stringify(hexInfo).replace(/</g, '\\u003c');
+  const title = escapeXml(map.name);
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${title}</title>
+<style>
+  body { margin: 0; display: flex; height: 100vh; background: #1a1a2e; color: #eee; font-family: sans-serif; }
+  #map { flex: 1; overflow: auto; }
+  #map svg { display: block; max-width: none; }
+  #map [data-key] { cursor: pointer; }
+  #info { width: 300px; padding: 16px; background: #16213e; overflow-y: auto; }
+  #info h1 { font-size: 18px; margin: 0 0 12px; }
+  #info h2 { font-size: 15px; margin: 0 0 8px; }
+  #info p { font-size: 13px; margin: 4px 0; white-space: pre-wrap; }
+  .muted { color: #999; }
+</style>
+</head>
+<body>
+<div id="map">${svg}</div>
+<div id="info">
+  <h1>${title}</h1>
+  <div id="details"><p class="muted">Click an explored hex for details.</p></div>
+</div>
+<script type="application/json" id="hex-data">${data}</script>
+<script>
+  var hexData = JSON.parse(document.getElementById('hex-data').textContent);
+  var details = document.getElementById('details');
+  function esc(s) { var d = document.createElement('div'); d.textContent = s; return d.innerHTML; }
+  document.getElementById('map').addEventListener('click', function (e) {
+    var el = e.target.closest('[data-key]');
+    if (!el) return;
+    var info = hexData[el.getAttribute('data-key')];
+    if (!info) {
+      details.innerHTML = '<p class="muted">Unexplored.</p>';
+      return;
+    }
+    details.innerHTML = '<h2>' + esc(info.title) + '</h2>' +
+      info.lines.map(function (l) { return '<p>' + esc(l) + '</p>'; }).join('') +
+      (info.notes ? '<p>' + esc(info.notes) + '</p>' : '');
+  });
+</script>
+</body>
+</html>
+`;
+}
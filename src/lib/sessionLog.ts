@@ -0,0 +1,158 @@
+import type { CampaignCalendar, CampaignMap, HexCoord, SessionLogEntry, SessionLogKind } from './types';
+import { DEFAULT_CAMPAIGN_CALENDAR, coordToKey } from './types';
+import { getDisplayCoord } from './hexUtils';
+import { formatLabel } from './featureUtils';
+
+// ============================================
+// CALENDAR
+// ============================================
+
+export function getCalendar(map: CampaignMap): CampaignCalendar {
+  return map.calendar || DEFAULT_CAMPAIGN_CALENDAR;
+}
+
+/**
+ * In-game date of a day number ("3 March, Year 1")
+ */
+export function formatGameDate(day: number, calendar: CampaignCalendar): string {
+  const index = Math.max(0, day - 1);
+  const daysPerYear = calendar.daysPerMonth * calendar.monthNames.length;
+  const year = calendar.startYear + Math.floor(index / daysPerYear);
+  const month = calendar.monthNames[Math.floor((index % daysPerYear) / calendar.daysPerMonth)];
+  return `${(index % calendar.daysPerMonth) + 1} ${month}, Year ${year}`;
+}
+
+/**
+ * Move the calendar to another day (never before day 1), starting it fresh
+ */
+export function setCurrentDay(map: CampaignMap, day: number): CampaignMap {
+  return {
+    ...map,
+    calendar: { ...getCalendar(map), currentDay: Math.max(1, Math.round(day)), dayProgress: 0 },
+    updatedAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * Pass time in (possibly fractional) days; part days carry over to the next move
+ */
+export function advanceTime(map: CampaignMap, days: number): CampaignMap {
+  const calendar = getCalendar(map);
+  const total = (calendar.dayProgress || 0) + days;
+  const whole = Math.floor(total + 1e-9);
+  return {
+    ...map,
+    calendar: {
+      ...calendar,
+      currentDay: calendar.currentDay + whole,
+      dayProgress: Math.max(0, total - whole),
+    },
+    updatedAt: new Date().toISOString(),
+  };
+}
+
+// ============================================
+// SESSION LOG
+// ============================================
+
+export const SESSION_LOG_KINDS: SessionLogKind[] = ['visit', 'encounter', 'faction', 'note'];
+
+export const SESSION_LOG_ICONS: Record<SessionLogKind, string> = {
+  visit: '🥾',
+  encounter: '⚔',
+  faction: '⚑',
+  note: '✎',
+};
+
+/**
+ * Create a log entry stamped with the current time and in-game day
+ */
+export function createLogEntry(
+  kind: SessionLogKind,
+  text: string,
+  hexCoord?: HexCoord,
+  day?: number
+): SessionLogEntry {
+  return {
+    id: `log-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+    kind,
+    timestamp: new Date().toISOString(),
+    day,
+    text,
+    hexCoord,
+  };
+}
+
+/**
+ * Append an entry to the map's session log
+ */
+export function addLogEntry(map: CampaignMap, entry: SessionLogEntry): CampaignMap {
+  return {
+    ...map,
+    sessionLog: [...(map.sessionLog || []), entry],
+    updatedAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * Remove an entry from the map's session log
+ */
+export function removeLogEntry(map: CampaignMap, entryId: string): CampaignMap {
+  return {
+    ...map,
+    sessionLog: (map.sessionLog || []).filter(e => e.id !== entryId),
+    updatedAt: new Date().toISOString(),
+  };
+}
+
+// ============================================
+// PARTY VISITS
+// ============================================
+
+/**
+ * Record the party entering a hex on the current in-game day: logs what they
+ * found there and marks the hex explored and visited
+ */
+export function recordVisit(map: CampaignMap, coord: HexCoord): CampaignMap {
+  const key = coordToKey(coord);
+  const hex = map.hexes.find(h => coordToKey(h.coord) === key);
+  if (!hex) return map;
+
+  const day = getCalendar(map).currentDay;
+  const now = new Date().toISOString();
+  const name = hex.campaignData?.name;
+  let text = `Entered ${getDisplayCoord(coord, map.gridConfig)}${name ? ` · ${name}` : ''}`;
+  if (hex.featureType) {
+    const subtype = hex.feature?.details.type;
+    text += `. Found: ${formatLabel(typeof subtype === 'string' ? subtype : hex.featureType)}`;
+  }
+
+  const hexes = map.hexes.map(h => h !== hex ? h : {
+    ...h,
+    campaignData: {
+      ...h.campaignData,
+      explored: true,
+      lastVisited: now,
+      lastVisitedDay: day,
+      modifiedAt: now,
+    },
+  });
+
+  return addLogEntry({ ...map, hexes }, createLogEntry('visit', text, coord, day));
+}
+
+export type TrailScope = 'off' | 'session' | 'all';
+
+/**
+ * Hexes the party entered, in order
+ * 'session' keeps the visits logged on the same real-world date as the latest one.
+ */
+export function getPartyTrail(entries: SessionLogEntry[], scope: TrailScope): HexCoord[] {
+  if (scope === 'off') return [];
+  let visits = entries.filter(e => e.kind === 'visit' && e.hexCoord);
+  if (scope === 'session' && visits.length > 0) {
+    const lastDate = new Date(visits[visits.length - 1].timestamp).toDateString();
+    visits = visits.filter(e => new Date(e.timestamp).toDateString() === lastDate);
+  }
+  return visits.map(e => e.hexCoord!);
+}
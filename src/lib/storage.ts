@@ -1,9 +1,15 @@
-import type { CampaignMap, AppSettings, MapReference } from './types';
-import { DEFAULT_APP_SETTINGS } from './types';
+import type { CampaignMap, AppSettings, Hex, MapMode, MapReference } from './types';
+import { DEFAULT_APP_SETTINGS, coordToKey } from './types';
+import { parseMapData } from './mapSchema';
+import { type MapHistory, type StoredHistory, compactHistory, expandHistory } from './history';
 
 const STORAGE_PREFIX = 'campaign-mapper';
 const SETTINGS_KEY = `${STORAGE_PREFIX}-settings`;
-const MAP_PREFIX = `${STORAGE_PREFIX}-map-`;
+const MAP_PREFIX = `${STORAGE_PREFIX}-map-`;     // Maps saved before the move to IndexedDB
+const MAP_DB_NAME = 'campaign-mapper-maps';
+const MAPS_STORE = 'maps';
+const HEXES_STORE = 'hexes';
+const HISTORY_STORE = 'history';
 const IMAGE_DB_NAME = 'campaign-mapper-images';
 const IMAGE_STORE_NAME = 'images';
 
@@ -98,129 +104,400 @@ export function saveAppSettings(settings: AppSettings): void {
 }
 
 // ============================================
-// MAP STORAGE
+// INDEXEDDB FOR MAPS
+// Map documents (everything but hexes), hexes and undo history live in
+// separate stores so a save only rewrites the hexes that changed.
 // ============================================
 
-function getMapKey(id: string): string {
-  return `${MAP_PREFIX}${id}`;
+interface StoredMapDocument extends Omit<CampaignMap, 'hexes'> {
+  hexKeys: string[];                 // Hex order on the map
+}
+
+interface StoredHex {
+  mapId: string;
+  key: string;                       // coordToKey of the hex
+  hex: Hex;
+}
+
+interface StoredHistoryRecord extends StoredHistory {
+  mapId: string;
+}
+
+let mapDb: IDBDatabase | null = null;
+
+async function getMapDb(): Promise<IDBDatabase> {
+  if (mapDb) return mapDb;
+  
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(MAP_DB_NAME, 1);
+    
+    request.onerror = () => reject(new Error('Failed to open map database'));
+    
+    request.onsuccess = () => {
+      mapDb = request.result;
+      resolve(mapDb);
+    };
+    
+    request.onupgradeneeded = (event) => {
+      const db = (event.target as IDBOpenDBRequest).result;
+      if (!db.objectStoreNames.contains(MAPS_STORE)) {
+        db.createObjectStore(MAPS_STORE, { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains(HEXES_STORE)) {
+        db.createObjectStore(HEXES_STORE, { keyPath: ['mapId', 'key'] });
+      }
+      if (!db.objectStoreNames.contains(HISTORY_STORE)) {
+        db.createObjectStore(HISTORY_STORE, { keyPath: 'mapId' });
+      }
+    };
+  });
 }
 
+/**
+ * Turn a failed storage operation into a readable error
+ */
+function storageError(error: DOMException | null | undefined, action: string): Error {
+  if (error?.name === 'QuotaExceededError') {
+    return new Error(
+      `Failed to ${action}: browser storage is full. Export and delete maps you no longer need, or free up space for this site, then try again.`
+    );
+  }
+  return new Error(`Failed to ${action}${error?.message ? `: ${error.message}` : ''}`);
+}
+
+function requestResult<T>(request: IDBRequest<T>, action: string): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(storageError(request.error, action));
+  });
+}
+
+function transactionDone(tx: IDBTransaction, action: string): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(storageError(tx.error, action));
+    tx.onabort = () => reject(storageError(tx.error, action));
+  });
+}
+
+// All hex records of one map
+function hexRange(mapId: string): IDBKeyRange {
+  return IDBKeyRange.bound([mapId, ''], [mapId, '\uffff']);
+}
+
+// What each map looked like when last written, so saves can skip unchanged
+// hexes (updates are immutable, so an unchanged hex is the same object)
+const savedHexes = new Map<string, Map<string, Hex>>();
+const savedImages = new Map<string, string>();
+
+// ============================================
+// MAP STORAGE
+// ============================================
+
 function getImageKey(mapId: string): string {
   return `${mapId}-image`;
 }
 
-export async function loadMap(id: string): Promise<CampaignMap | null> {
-  try {
-    const saved = localStorage.getItem(getMapKey(id));
-    if (saved) {
-      const map = JSON.parse(saved) as CampaignMap;
+let legacyMigration: Promise<MapReference[]> | null = null;
+let legacyFailures: MapReference[] = [];
+
+/**
+ * List entry for a legacy map that couldn't be migrated, from whatever of its
+ * saved data is readable
+ */
+function getLegacyMapReference(id: string, data: unknown, error: Error): MapReference {
+  const raw = (typeof data === 'object' && data !== null ? data : {}) as Record<string, unknown>;
+  return {
+    id,
+    name: typeof raw.name === 'string' ? raw.name : id,
+    updatedAt: typeof raw.updatedAt === 'string' ? raw.updatedAt : new Date(0).toISOString(),
+    mode: typeof raw.mode === 'string' ? raw.mode as MapMode : 'blank',
+    hexCount: Array.isArray(raw.hexes) ? raw.hexes.length : 0,
+    migrationError: error.message,
+  };
+}
+
+/**
+ * Move maps saved by older versions (one localStorage entry per map) into
+ * IndexedDB. Runs once per session before the first map is read or written;
+ * maps that fail to migrate stay in localStorage and are returned.
+ */
+function migrateLegacyMaps(): Promise<MapReference[]> {
+  if (!legacyMigration) {
+    legacyMigration = (async () => {
+      const keys: string[] = [];
+      for (let i = 0; i < localStorage.length; i++) {
+        const key = localStorage.key(i);
+        if (key?.startsWith(MAP_PREFIX)) keys.push(key);
+      }
       
-      // Load image from IndexedDB if this is an overlay map
-      if (map.imageOverlay && !map.imageOverlay.src) {
-        const imageSrc = await loadImageFromDb(getImageKey(id));
-        if (imageSrc) {
-          map.imageOverlay.src = imageSrc;
+      const failures: MapReference[] = [];
+      for (const key of keys) {
+        let data: unknown = null;
+        try {
+          data = JSON.parse(localStorage.getItem(key) || 'null');
+          await writeMap(parseMapData(data));
+          localStorage.removeItem(key);
+        } catch (e) {
+          console.error(`Failed to move ${key} to IndexedDB; leaving it in localStorage:`, e);
+          failures.push(getLegacyMapReference(key.slice(MAP_PREFIX.length), data, e as Error));
         }
       }
-      
-      return map;
-    }
-  } catch (e) {
-    console.error(`Failed to load map ${id}:`, e);
+      legacyFailures = failures;
+      return failures;
+    })();
   }
-  return null;
+  return legacyMigration;
 }
 
-export async function saveMap(map: CampaignMap): Promise<void> {
-  try {
-    map.updatedAt = new Date().toISOString();
-    
-    // If there's an image overlay, store the image separately in IndexedDB
-    let mapToSave = map;
-    if (map.imageOverlay?.src) {
-      // Save image to IndexedDB
+/**
+ * Maps saved by older versions that are still waiting to be migrated
+ * Any that failed before are tried again first (storage may have been freed).
+ */
+export function listUnmigratedMaps(): Promise<MapReference[]> {
+  if (legacyFailures.length > 0) {
+    legacyMigration = null;
+    legacyFailures = [];
+  }
+  return migrateLegacyMaps();
+}
+
+/**
+ * Write a map (and optionally its history) in one transaction
+ */
+async function writeMap(map: CampaignMap, history?: MapHistory): Promise<void> {
+  // Images are large and rarely change, so only write them when they do
+  if (map.imageOverlay?.src && savedImages.get(map.id) !== map.imageOverlay.src) {
+    try {
       await saveImageToDb(getImageKey(map.id), map.imageOverlay.src);
-      
-      // Save map without the image data (just keep metadata)
-      mapToSave = {
-        ...map,
-        imageOverlay: {
-          ...map.imageOverlay,
-          src: '', // Clear src from localStorage copy
-        },
-      };
+    } catch (e) {
+      throw storageError(e as DOMException, 'save map image');
+    }
+    savedImages.set(map.id, map.imageOverlay.src);
+  }
+  
+  const { hexes, ...rest } = map;
+  const doc: StoredMapDocument = {
+    ...rest,
+    // The image itself is kept in the image store
+    imageOverlay: rest.imageOverlay ? { ...rest.imageOverlay, src: '' } : undefined,
+    hexKeys: hexes.map(h => coordToKey(h.coord)),
+  };
+  
+  const db = await getMapDb();
+  const tx = db.transaction([MAPS_STORE, HEXES_STORE, HISTORY_STORE], 'readwrite');
+  const done = transactionDone(tx, 'save map');
+  tx.objectStore(MAPS_STORE).put(doc);
+  
+  const hexStore = tx.objectStore(HEXES_STORE);
+  const previous = savedHexes.get(map.id);
+  const current = new Map<string, Hex>();
+  if (!previous) {
+    hexStore.delete(hexRange(map.id));
+  }
+  for (const hex of hexes) {
+    const key = coordToKey(hex.coord);
+    current.set(key, hex);
+    if (previous?.get(key) !== hex) {
+      hexStore.put({ mapId: map.id, key, hex } satisfies StoredHex);
     }
-    
-    localStorage.setItem(getMapKey(map.id), JSON.stringify(mapToSave));
-    
-    // Update recent maps in settings
-    const settings = loadAppSettings();
-    const ref: MapReference = {
-      id: map.id,
-      name: map.name,
-      updatedAt: map.updatedAt,
-      mode: map.mode,
-      hexCount: map.hexes.length,
-    };
-    
-    // Remove existing reference and add to front
-    settings.recentMaps = settings.recentMaps.filter(r => r.id !== map.id);
-    settings.recentMaps.unshift(ref);
-    
-    // Keep only last 10 maps
-    settings.recentMaps = settings.recentMaps.slice(0, 10);
-    
-    saveAppSettings(settings);
-  } catch (e) {
-    console.error('Failed to save map:', e);
-    throw new Error('Failed to save map. Storage may be full.');
   }
+  for (const key of previous?.keys() ?? []) {
+    if (!current.has(key)) {
+      hexStore.delete([map.id, key]);
+    }
+  }
+  
+  // History is stored relative to the saved map, so without one any old history no longer applies
+  if (history) {
+    tx.objectStore(HISTORY_STORE).put({ mapId: map.id, ...compactHistory(history, map) } satisfies StoredHistoryRecord);
+  } else {
+    tx.objectStore(HISTORY_STORE).delete(map.id);
+  }
+  
+  await done;
+  savedHexes.set(map.id, current);
 }
 
-export async function deleteMap(id: string): Promise<void> {
+/**
+ * Load a saved map, migrating it to the current schema
+ * Returns null if there is no such map; throws if the saved data is unreadable,
+ * so a broken map is never opened (and auto-saved over).
+ */
+export async function loadMap(id: string): Promise<CampaignMap | null> {
+  await migrateLegacyMaps();
+  const db = await getMapDb();
+  const tx = db.transaction([MAPS_STORE, HEXES_STORE], 'readonly');
+  const [doc, hexRecords] = await Promise.all([
+    requestResult(tx.objectStore(MAPS_STORE).get(id) as IDBRequest<StoredMapDocument | undefined>, 'load map'),
+    requestResult(tx.objectStore(HEXES_STORE).getAll(hexRange(id)) as IDBRequest<StoredHex[]>, 'load map'),
+  ]);
+  if (!doc) return null;
+  
+  const { hexKeys, ...rest } = doc;
+  const hexesByKey = new Map(hexRecords.map(r => [r.key, r.hex]));
+  const hexes = hexKeys
+    .map(key => hexesByKey.get(key))
+    .filter((h): h is Hex => h !== undefined);
+  
+  let map: CampaignMap;
   try {
-    localStorage.removeItem(getMapKey(id));
-    
-    // Also delete image from IndexedDB
+    map = parseMapData({ ...rest, hexes });
+  } catch (e) {
+    console.error(`Failed to load map ${id}:`, e);
+    throw new Error(`Saved map could not be read. ${(e as Error).message}`);
+  }
+  if (hexes.length !== hexKeys.length) {
+    console.warn(`Map ${id} is missing ${hexKeys.length - hexes.length} hexes`);
+  }
+  
+  // Load image from IndexedDB if this is an overlay map
+  if (map.imageOverlay && !map.imageOverlay.src) {
     try {
-      await deleteImageFromDb(getImageKey(id));
-    } catch {
-      // Ignore if image doesn't exist
+      const imageSrc = await loadImageFromDb(getImageKey(id));
+      if (imageSrc) {
+        map.imageOverlay.src = imageSrc;
+        savedImages.set(id, imageSrc);
+      }
+    } catch (e) {
+      console.error(`Failed to load image for map ${id}:`, e);
     }
-    
-    // Remove from recent maps
-    const settings = loadAppSettings();
-    settings.recentMaps = settings.recentMaps.filter(r => r.id !== id);
-    saveAppSettings(settings);
-  } catch (e) {
-    console.error(`Failed to delete map ${id}:`, e);
   }
+  
+  savedHexes.set(id, new Map(map.hexes.map(h => [coordToKey(h.coord), h])));
+  return map;
 }
 
-export function listMaps(): MapReference[] {
-  const settings = loadAppSettings();
+/**
+ * Load the undo history saved with a map
+ * Must be called with the map as returned by loadMap (history is stored relative to it)
+ */
+export async function loadHistory(map: CampaignMap): Promise<MapHistory | null> {
+  const db = await getMapDb();
+  const tx = db.transaction(HISTORY_STORE, 'readonly');
+  const record = await requestResult(
+    tx.objectStore(HISTORY_STORE).get(map.id) as IDBRequest<StoredHistoryRecord | undefined>,
+    'load history'
+  );
+  return record ? expandHistory(record, map) : null;
+}
+
+/**
+ * Save a map, and its undo history if given (otherwise any saved history is cleared)
+ * Only hexes that changed since the last save are written. Throws a readable
+ * error if storage is full.
+ */
+export async function saveMap(map: CampaignMap, history?: MapHistory): Promise<void> {
+  await migrateLegacyMaps();
+  map.updatedAt = new Date().toISOString();
   
-  // Verify maps still exist and update references
-  const validMaps: MapReference[] = [];
-  for (const ref of settings.recentMaps) {
-    if (localStorage.getItem(getMapKey(ref.id))) {
-      validMaps.push(ref);
-    }
+  try {
+    await writeMap(map, history);
+  } catch (e) {
+    console.error('Failed to save map:', e);
+    throw e;
   }
   
-  // Update settings if we removed any stale references
-  if (validMaps.length !== settings.recentMaps.length) {
-    settings.recentMaps = validMaps;
-    saveAppSettings(settings);
+  // Update recent maps in settings
+  const settings = loadAppSettings();
+  const ref: MapReference = {
+    id: map.id,
+    name: map.name,
+    updatedAt: map.updatedAt,
+    mode: map.mode,
+    hexCount: map.hexes.length,
+    parentId: map.parentMap?.mapId,
+  };
+  
+  // Remove existing reference and add to front
+  settings.recentMaps = settings.recentMaps.filter(r => r.id !== map.id);
+  settings.recentMaps.unshift(ref);
+  
+  // Keep only last 10 maps
+  settings.recentMaps = settings.recentMaps.slice(0, 10);
+  
+  saveAppSettings(settings);
+}
+
+export async function deleteMap(id: string): Promise<void> {
+  await migrateLegacyMaps();
+  const db = await getMapDb();
+  const tx = db.transaction([MAPS_STORE, HEXES_STORE, HISTORY_STORE], 'readwrite');
+  const done = transactionDone(tx, 'delete map');
+  tx.objectStore(MAPS_STORE).delete(id);
+  tx.objectStore(HEXES_STORE).delete(hexRange(id));
+  tx.objectStore(HISTORY_STORE).delete(id);
+  await done;
+  
+  savedHexes.delete(id);
+  savedImages.delete(id);
+  
+  // A legacy map that never migrated lives only in localStorage
+  localStorage.removeItem(`${MAP_PREFIX}${id}`);
+  legacyFailures = legacyFailures.filter(r => r.id !== id);
+  
+  // Also delete image from IndexedDB
+  try {
+    await deleteImageFromDb(getImageKey(id));
+  } catch {
+    // Ignore if image doesn't exist
   }
   
-  return validMaps;
+  // Remove from recent maps
+  const settings = loadAppSettings();
+  settings.recentMaps = settings.recentMaps.filter(r => r.id !== id);
+  saveAppSettings(settings);
+}
+
+/**
+ * All saved maps, most recently updated first
+ * Legacy maps that couldn't be migrated are included, marked with the error.
+ */
+export async function listMaps(): Promise<MapReference[]> {
+  const unmigrated = await listUnmigratedMaps();
+  const db = await getMapDb();
+  const tx = db.transaction(MAPS_STORE, 'readonly');
+  const docs = await requestResult(tx.objectStore(MAPS_STORE).getAll() as IDBRequest<StoredMapDocument[]>, 'list maps');
+  
+  return [
+    ...docs.map((doc): MapReference => ({
+      id: doc.id,
+      name: doc.name,
+      updatedAt: doc.updatedAt,
+      mode: doc.mode,
+      hexCount: doc.hexKeys.length,
+      parentId: doc.parentMap?.mapId,
+    })),
+    ...unmigrated,
+  ].sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
 }
 
 // ============================================
 // EXPORT / IMPORT
 // ============================================
 
+/**
+ * Trigger a browser download of text or binary content
+ */
+export function downloadFile(content: string | Blob, fileName: string, mimeType: string): void {
+  const blob = content instanceof Blob ? content : new Blob([content], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+  
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  a.click();
+  
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Safe file name stem for a map ("My Map" -> "My_Map")
+ */
+export function getMapFileStem(map: CampaignMap): string {
+  return map.name.replace(/\s+/g, '_');
+}
+
 export async function exportMap(map: CampaignMap): Promise<void> {
   // For export, include the full image data
   const exportData = { ...map };
@@ -228,21 +505,13 @@ export async function exportMap(map: CampaignMap): Promise<void> {
   // If image was stored separately, load it for export
   if (map.imageOverlay && !map.imageOverlay.src) {
     const imageSrc = await loadImageFromDb(getImageKey(map.id));
-    if (imageSrc && exportData.imageOverlay) {
-      exportData.imageOverlay.src = imageSrc;
+    if (imageSrc) {
+      exportData.imageOverlay = { ...map.imageOverlay, src: imageSrc };
     }
   }
   
   const dataStr = JSON.stringify(exportData, null, 2);
-  const blob = new Blob([dataStr], { type: 'application/json' });
-  const url = URL.createObjectURL(blob);
-  
-  const a = document.createElement('a');
-  a.href = url;
-  a.download = `${map.name.replace(/\s+/g, '_')}.campmap.json`;
-  a.click();
-  
-  URL.revokeObjectURL(url);
+  downloadFile(dataStr, `${getMapFileStem(map)}.campmap.json`, 'application/json');
 }
 
 export function importMap(file: File): Promise<CampaignMap> {
@@ -250,21 +519,24 @@ export function importMap(file: File): Promise<CampaignMap> {
     const reader = new FileReader();
     
     reader.onload = (event) => {
+      let data: unknown;
       try {
-        const map = JSON.parse(event.target?.result as string) as CampaignMap;
-        
-        // Validate required fields
-        if (!map.id || !map.name || !map.hexes || !map.gridConfig) {
-          throw new Error('Invalid map file: missing required fields');
-        }
+        data = JSON.parse(event.target?.result as string);
+      } catch {
+        reject(new Error('Failed to parse map file (not valid JSON)'));
+        return;
+      }
+      
+      try {
+        const map = parseMapData(data);
         
         // Generate new ID to avoid conflicts
         map.id = `map-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
         map.updatedAt = new Date().toISOString();
         
         resolve(map);
-      } catch {
-        reject(new Error('Failed to parse map file'));
+      } catch (e) {
+        reject(e);
       }
     };
     
@@ -347,25 +619,18 @@ export function loadImageAsDataUrl(
 // STORAGE STATS
 // ============================================
 
-export function getStorageUsage(): { used: number; available: number; percentage: number } {
-  let used = 0;
-  
-  for (let i = 0; i < localStorage.length; i++) {
-    const key = localStorage.key(i);
-    if (key?.startsWith(STORAGE_PREFIX)) {
-      const value = localStorage.getItem(key);
-      if (value) {
-        used += key.length + value.length;
-      }
-    }
+/**
+ * Storage used by this site (maps, images and settings) and the browser's quota
+ */
+export async function getStorageUsage(): Promise<{ used: number; available: number; percentage: number }> {
+  if (!navigator.storage?.estimate) {
+    return { used: 0, available: 0, percentage: 0 };
   }
   
-  // Estimate available (most browsers allow ~5-10MB)
-  const estimatedTotal = 5 * 1024 * 1024; // 5MB in characters
-  
+  const { usage = 0, quota = 0 } = await navigator.storage.estimate();
   return {
-    used,
-    available: estimatedTotal - used,
-    percentage: (used / estimatedTotal) * 100,
+    used: usage,
+    available: quota - usage,
+    percentage: quota > 0 ? (usage / quota) * 100 : 0,
   };
 }
@@ -0,0 +1,241 @@
+import type { CampaignMap, Faction, Hex, TerrainType } from './types';
+import { coordToKey, getEffectiveTerrain, DEFAULT_TERRAIN_TYPES } from './types';
+import { hexToPixel, getHexPoints, getHexDimensions, calculateViewBox, getDisplayCoord } from './hexUtils';
+import { PATH_STYLES } from './paths';
+import { getBorderPath, getContestedHexes, getHatchStripes, TERRITORY_BORDER_WIDTH, CONTESTED_HATCH_OPACITY } from './territory';
+
+// ============================================
+// STANDALONE SVG RENDERING
+// Builds map SVG markup outside React (exports, player bundles)
+// ============================================
+
+export interface SvgRenderOptions {
+  showGrid: boolean;
+  showCoordinates: boolean;
+  showTerrainColors: boolean;
+  showFeatures: boolean;
+  showPaths: boolean;
+  fogKeys?: Set<string>;         // Hexes drawn as fog of war
+  factions?: Faction[];          // Draw these factions' territory borders
+  showImage?: boolean;           // Include the image overlay (image-mode maps)
+  interactive?: boolean;         // Tag hexes with data-key for click handling
+  padding?: number;
+}
+
+export const FOG_COLOR = '#1a1a2e';
+
+// Feature markers (match the map view)
+export const FEATURE_MARKERS: Record<string, { color: string; symbol: string }> = {
+  landmark: { color: '#60a5fa', symbol: '◎' },
+  settlement: { color: '#fbbf24', symbol: '⌂' },
+  lair: { color: '#f87171', symbol: '☠' },
+  dungeon: { color: '#a78bfa', symbol: '⚓' },
+};
+
+const FACTION_PALETTE = [
+  '#e94560', '#4ade80', '#60a5fa', '#fbbf24', '#a78bfa',
+  '#f472b6', '#34d399', '#38bdf8', '#fb923c', '#c084fc',
+];
+
+/**
+ * A faction's color, or a consistent palette color derived from its ID
+ */
+export function getFactionColor(factionId: string, factions: Faction[]): string {
+  const faction = factions.find(f => f.id === factionId);
+  if (faction?.color) return faction.color;
+
+  let hash = 0;
+  for (let i = 0; i < factionId.length; i++) {
+    hash = ((hash << 5) - hash) + factionId.charCodeAt(i);
+    hash = hash & hash;
+  }
+
+  return FACTION_PALETTE[Math.abs(hash) % FACTION_PALETTE.length];
+}
+
+/**
+ * Escape text for use in XML/HTML content and attributes
+ */
+export function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function getTerrain(terrainId: string, customTerrains: TerrainType[]): TerrainType {
+  return [...DEFAULT_TERRAIN_TYPES, ...customTerrains].find(t => t.id === terrainId) || {
+    id: terrainId,
+    name: terrainId,
+    color: '#808080',
+  };
+}
+
+function renderHex(map: CampaignMap, hex: Hex, options: SvgRenderOptions): string {
+  const { gridConfig, settings } = map;
+  const { x, y } = hexToPixel(hex.coord, gridConfig);
+  const key = coordToKey(hex.coord);
+  const fogged = options.fogKeys?.has(key) ?? false;
+  const terrain = getTerrain(getEffectiveTerrain(hex), settings.customTerrainTypes || []);
+
+  let fill = 'none';
+  let fillOpacity = 0;
+  if (fogged) {
+    fill = FOG_COLOR;
+    fillOpacity = 1;
+  } else if (options.showTerrainColors) {
+    fill = terrain.color;
+    fillOpacity = settings.hexFillOpacity ?? 0.5;
+  }
+
+  const stroke = options.showGrid ? ' stroke="rgba(0,0,0,0.3)" stroke-width="1"' : ' stroke="none"';
+  const dataKey = options.interactive ? ` data-key="${key}"` : '';
+  const parts: string[] = [
+    `<polygon points="${getHexPoints(0, 0, gridConfig)}" fill="${fill}" fill-opacity="${fillOpacity}"${stroke}/>`,
+  ];
+
+  if (!fogged) {
+    const size = gridConfig.hexSize;
+    const { height } = getHexDimensions(gridConfig);
+    const pointy = gridConfig.orientation === 'pointy-top';
+
+    if (options.showTerrainColors && terrain.symbol) {
+      parts.push(
+        `<text x="0" y="0" font-size="${Math.round(size * 0.45)}" font-weight="600" fill="rgba(0,0,0,0.5)" text-anchor="middle" dominant-baseline="middle">${escapeXml(terrain.symbol)}</text>`
+      );
+    }
+
+    const marker = hex.featureType && options.showFeatures ? FEATURE_MARKERS[hex.featureType] : undefined;
+    if (marker) {
+      const cx = pointy ? 0 : size * 0.7;
+      const cy = pointy ? -height * 0.32 : -size * 0.4;
+      parts.push(
+        `<circle cx="${cx}" cy="${cy}" r="8" fill="${marker.color}"/>` +
+        `<text x="${cx}" y="${cy}" font-size="9" font-weight="bold" fill="#000" text-anchor="middle" dominant-baseline="central">${marker.symbol}</text>`
+      );
+    }
+
+    if (options.showCoordinates) {
+      parts.push(
+        `<text x="0" y="${pointy ? height * 0.35 : size * 0.8}" font-size="8" font-family="monospace" fill="rgba(0,0,0,0.4)" text-anchor="middle">${getDisplayCoord(hex.coord, gridConfig)}</text>`
+      );
+    }
+  }
+
+  return `<g transform="translate(${x}, ${y})"${dataKey}>${parts.join('')}</g>`;
+}
+
+function renderPaths(map: CampaignMap, options: SvgRenderOptions): string {
+  const paths = [...(map.paths || [])].sort((a, b) => (a.type === 'river' ? 0 : 1) - (b.type === 'river' ? 0 : 1));
+  const lines: string[] = [];
+
+  for (const path of paths) {
+    const style = PATH_STYLES[path.type];
+    const strokeWidth = Math.max(1.5, map.gridConfig.hexSize * style.width);
+    const dash = style.dashArray ? ` stroke-dasharray="${style.dashArray}"` : '';
+
+    // Break the line wherever it passes through fog
+    let run: string[] = [];
+    const flush = () => {
+      if (run.length > 1) {
+        lines.push(
+          `<polyline points="${run.join(' ')}" fill="none" stroke="${style.color}" stroke-width="${strokeWidth}"${dash} stroke-linecap="round" stroke-linejoin="round"/>`
+        );
+      }
+      run = [];
+    };
+    for (const coord of path.coords) {
+      if (options.fogKeys?.has(coordToKey(coord))) {
+        flush();
+        continue;
+      }
+      const { x, y } = hexToPixel(coord, map.gridConfig);
+      run.push(`${x},${y}`);
+    }
+    flush();
+  }
+
+  return lines.join('');
+}
+
+/**
+ * Territory borders (clipped to each domain, dashed for regions) over
+ * hatching on contested hexes; fogged hexes are left out
+ */
+function renderTerritories(map: CampaignMap, factions: Faction[], options: SvgRenderOptions): string {
+  const { gridConfig } = map;
+  const isVisible = (coord: { q: number; r: number }) => !options.fogKeys?.has(coordToKey(coord));
+  const hexPolygon = (coord: { q: number; r: number }, attrs = '') => {
+    const { x, y } = hexToPixel(coord, gridConfig);
+    return `<polygon points="${getHexPoints(x, y, gridConfig)}"${attrs}/>`;
+  };
+  const strokeWidth = gridConfig.hexSize * TERRITORY_BORDER_WIDTH;
+  const defs: string[] = [];
+  const parts: string[] = [];
+
+  // One hatch pattern per set of rival claimants
+  const patterns = new Map<string, string>();
+  for (const hex of getContestedHexes(factions).filter(h => isVisible(h.coord))) {
+    const combo = hex.factionIds.join('|');
+    let id = patterns.get(combo);
+    if (!id) {
+      id = `contested-${patterns.size}`;
+      patterns.set(combo, id);
+      const { size, stripes } = getHatchStripes(hex.factionIds.map(f => getFactionColor(f, factions)), gridConfig);
+      defs.push(
+        `<pattern id="${id}" width="${size}" height="${size}" patternUnits="userSpaceOnUse" patternTransform="rotate(45)">` +
+        stripes.map(s => `<rect x="${s.x}" y="0" width="${s.width}" height="${size}" fill="${s.color}"/>`).join('') +
+        '</pattern>'
+      );
+    }
+    parts.push(hexPolygon(hex.coord, ` fill="url(#${id})" fill-opacity="${CONTESTED_HATCH_OPACITY}"`));
+  }
+
+  factions.forEach((faction, i) => {
+    const hexes = faction.domainHexes.filter(isVisible);
+    if (hexes.length === 0) return;
+    const clipId = `territory-${i}`;
+    const dash = faction.type === 'region' ? ` stroke-dasharray="${strokeWidth * 2},${strokeWidth}"` : '';
+    defs.push(`<clipPath id="${clipId}">${hexes.map(c => hexPolygon(c)).join('')}</clipPath>`);
+    parts.push(
+      `<path d="${getBorderPath(hexes, gridConfig)}" fill="none" stroke="${getFactionColor(faction.id, factions)}" stroke-width="${strokeWidth}"${dash} stroke-linecap="round" clip-path="url(#${clipId})"/>`
+    );
+  });
+
+  return `<defs>${defs.join('')}</defs>${parts.join('')}`;
+}
+
+/**
+ * Render a map as a standalone SVG document
+ * Returns the markup plus the viewBox used, so callers can add overlays
+ */
+export function renderMapSvg(
+  map: CampaignMap,
+  options: SvgRenderOptions
+): { svg: string; viewBox: { minX: number; minY: number; width: number; height: number } } {
+  // Image maps keep the image's own frame, like the map view
+  const image = options.showImage && map.imageOverlay?.visible && map.imageOverlay.src
+    ? map.imageOverlay
+    : undefined;
+  const viewBox = image
+    ? { minX: 0, minY: 0, width: image.width, height: image.height }
+    : calculateViewBox(map.hexes, map.gridConfig, options.padding ?? map.gridConfig.hexSize);
+  const hexes = map.hexes.map(hex => renderHex(map, hex, options)).join('');
+  const paths = options.showPaths ? renderPaths(map, options) : '';
+  const territories = options.factions ? renderTerritories(map, options.factions, options) : '';
+
+  const svg = [
+    `<svg xmlns="http://www.w3.org/2000/svg" viewBox="${viewBox.minX} ${viewBox.minY} ${viewBox.width} ${viewBox.height}" width="${Math.ceil(viewBox.width)}" height="${Math.ceil(viewBox.height)}" font-family="sans-serif">`,
+    image
+      ? `<image href="${escapeXml(image.src)}" x="0" y="0" width="${image.width}" height="${image.height}" opacity="${image.opacity}"/>`
+      : '',
+    `<g class="hexes">${hexes}</g>`,
+    territories ? `<g class="territories" pointer-events="none">${territories}</g>` : '',
+    paths ? `<g class="paths" pointer-events="none">${paths}</g>` : '',
+    '</svg>',
+  ].join('');
+
+  return { svg, viewBox };
+}
@@ -0,0 +1,232 @@
+import type { GridConfig, Hex, TerrainType } from './types';
+import { coordToKey } from './types';
+import { hexToPixel, getHexCorners } from './hexUtils';
+
+// ============================================
+// TERRAIN DETECTION
+// Reads terrain off a scanned map: sample the overlay image under each hex,
+// group the hex colors into clusters and match each cluster to the terrain
+// whose color is closest. The user reviews the matches before they're applied.
+// ============================================
+
+export type RGB = [number, number, number];
+
+export const DEFAULT_CLUSTER_COUNT = 8;
+export const MAX_CLUSTER_COUNT = 16;
+
+// How far out from the center to sample, as fractions of the way to each
+// corner and edge midpoint; stays clear of grid lines drawn on the scan
+const SAMPLE_RINGS = [0.25, 0.45, 0.65];
+
+const KMEANS_ITERATIONS = 20;
+
+export interface TerrainCluster {
+  color: string;                     // Average color of the hexes in the cluster
+  hexKeys: string[];
+  terrainId: string;                 // Closest terrain by color; the user can remap it
+}
+
+export interface TerrainDetectionOptions {
+  clusterCount: number;
+  onlyUnknown: boolean;              // Skip hexes that already have a terrain
+}
+
+/**
+ * Load the overlay image at its map size and read back its pixels
+ */
+export function loadImagePixels(src: string, width: number, height: number): Promise<ImageData> {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+
+    img.onload = () => {
+      const canvas = document.createElement('canvas');
+      canvas.width = width;
+      canvas.height = height;
+      const ctx = canvas.getContext('2d');
+      if (!ctx) {
+        reject(new Error('Canvas is not supported in this browser'));
+        return;
+      }
+      ctx.drawImage(img, 0, 0, width, height);
+      try {
+        resolve(ctx.getImageData(0, 0, width, height));
+      } catch {
+        reject(new Error('Could not read the image pixels'));
+      }
+    };
+
+    img.onerror = () => reject(new Error('Failed to load the overlay image'));
+    img.src = src;
+  });
+}
+
+export function rgbToHex([r, g, b]: RGB): string {
+  return '#' + [r, g, b].map(c => Math.round(c).toString(16).padStart(2, '0')).join('');
+}
+
+export function hexToRgb(color: string): RGB {
+  const value = color.replace('#', '');
+  const full = value.length === 3 ? value.split('').map(c => c + c).join('') : value;
+  const n = parseInt(full, 16);
+  return [(n >> 16) & 255, (n >> 8) & 255, n & 255];
+}
+
+/**
+ * Perceptual distance between two colors (the "redmean" approximation)
+ */
+export function colorDistance(a: RGB, b: RGB): number {
+  const rMean = (a[0] + b[0]) / 2;
+  const dr = a[0] - b[0];
+  const dg = a[1] - b[1];
+  const db = a[2] - b[2];
+  return Math.sqrt((2 + rMean / 256) * dr * dr + 4 * dg * dg + (2 + (255 - rMean) / 256) * db * db);
+}
+
+/**
+ * Average color inside a hex, or null if the hex lies off the image
+ */
+export function sampleHexColor(pixels: ImageData, hex: Hex, config: GridConfig): RGB | null {
+  const center = hexToPixel(hex.coord, config);
+  const corners = getHexCorners(center.x, center.y, config);
+  // Aim at each corner and each edge midpoint
+  const targets = corners.flatMap((corner, i) => {
+    const next = corners[(i + 1) % 6];
+    return [corner, { x: (corner.x + next.x) / 2, y: (corner.y + next.y) / 2 }];
+  });
+  const points = [center, ...SAMPLE_RINGS.flatMap(t => targets.map(p => ({
+    x: center.x + (p.x - center.x) * t,
+    y: center.y + (p.y - center.y) * t,
+  })))];
+
+  const sum: RGB = [0, 0, 0];
+  let count = 0;
+  for (const { x, y } of points) {
+    const px = Math.floor(x);
+    const py = Math.floor(y);
+    if (px < 0 || py < 0 || px >= pixels.width || py >= pixels.height) continue;
+    const i = (py * pixels.width + px) * 4;
+    if (pixels.data[i + 3] === 0) continue; // Transparent
+    sum[0] += pixels.data[i];
+    sum[1] += pixels.data[i + 1];
+    sum[2] += pixels.data[i + 2];
+    count++;
+  }
+
+  return count > 0 ? [sum[0] / count, sum[1] / count, sum[2] / count] : null;
+}
+
+/**
+ * Group colors into at most `k` clusters (k-means, seeded with the most
+ * spread-out colors so the result is the same every run). Returns the
+ * cluster centers and the cluster index of each color.
+ */
+export function clusterColors(colors: RGB[], k: number): { centers: RGB[]; assignments: number[] } {
+  if (colors.length === 0) return { centers: [], assignments: [] };
+
+  // Farthest-point seeding: start from the first color, then keep adding
+  // whichever color is farthest from every center so far
+  const centers: RGB[] = [colors[0]];
+  while (centers.length < Math.min(k, colors.length)) {
+    let farthest = -1;
+    let farthestDistance = 0;
+    colors.forEach((color, i) => {
+      const d = Math.min(...centers.map(c => colorDistance(c, color)));
+      if (d > farthestDistance) {
+        farthestDistance = d;
+        farthest = i;
+      }
+    });
+    if (farthest < 0) break; // Fewer distinct colors than clusters
+    centers.push(colors[farthest]);
+  }
+
+  const nearest = (color: RGB) => {
+    let best = 0;
+    centers.forEach((c, i) => {
+      if (colorDistance(c, color) < colorDistance(centers[best], color)) best = i;
+    });
+    return best;
+  };
+
+  let assignments = colors.map(nearest);
+  for (let iteration = 0; iteration < KMEANS_ITERATIONS; iteration++) {
+    centers.forEach((_, i) => {
+      const members = colors.filter((_, j) => assignments[j] === i);
+      if (members.length === 0) return;
+      centers[i] = [0, 1, 2].map(ch => members.reduce((s, m) => s + m[ch], 0) / members.length) as RGB;
+    });
+    const next = colors.map(nearest);
+    const changed = next.some((a, i) => a !== assignments[i]);
+    assignments = next;
+    if (!changed) break;
+  }
+
+  return { centers, assignments };
+}
+
+/**
+ * The terrain whose color is closest (never 'unknown')
+ */
+export function findNearestTerrain(color: RGB, terrains: TerrainType[]): string {
+  let best = 'unknown';
+  let bestDistance = Infinity;
+  for (const terrain of terrains) {
+    if (terrain.id === 'unknown') continue;
+    const d = colorDistance(color, hexToRgb(terrain.color));
+    if (d < bestDistance) {
+      bestDistance = d;
+      best = terrain.id;
+    }
+  }
+  return best;
+}
+
+/**
+ * Sample every hex, cluster the colors and suggest a terrain for each
+ * cluster, largest cluster first
+ */
+export function detectTerrain(
+  pixels: ImageData,
+  hexes: Hex[],
+  config: GridConfig,
+  terrains: TerrainType[],
+  options: TerrainDetectionOptions
+): TerrainCluster[] {
+  const sampled: { key: string; color: RGB }[] = [];
+  for (const hex of hexes) {
+    if (options.onlyUnknown && hex.terrainId !== 'unknown') continue;
+    const color = sampleHexColor(pixels, hex, config);
+    if (color) sampled.push({ key: coordToKey(hex.coord), color });
+  }
+
+  const { centers, assignments } = clusterColors(sampled.map(s => s.color), options.clusterCount);
+  return centers
+    .map((center, i) => ({
+      color: rgbToHex(center),
+      hexKeys: sampled.filter((_, j) => assignments[j] === i).map(s => s.key),
+      terrainId: findNearestTerrain(center, terrains),
+    }))
+    .filter(cluster => cluster.hexKeys.length > 0)
+    .sort((a, b) => b.hexKeys.length - a.hexKeys.length);
+}
+
+/**
+ * Set the terrain of each clustered hex; the detected terrain is kept as
+ * `detectedTerrain`. Clusters with an empty terrainId are left unchanged.
+ */
+export function applyTerrainDetection(hexes: Hex[], clusters: TerrainCluster[]): { hexes: Hex[]; changed: number } {
+  const terrainByKey = new Map<string, string>();
+  for (const cluster of clusters) {
+    if (!cluster.terrainId) continue;
+    cluster.hexKeys.forEach(key => terrainByKey.set(key, cluster.terrainId));
+  }
+
+  let changed = 0;
+  const next = hexes.map(hex => {
+    const terrainId = terrainByKey.get(coordToKey(hex.coord));
+    if (!terrainId) return hex;
+    changed++;
+    return { ...hex, terrainId, detectedTerrain: terrainId };
+  });
+  return { hexes: next, changed };
+}
@@ -0,0 +1,103 @@
+import type { Faction, GridConfig, HexCoord } from './types';
+import { coordToKey, keyToCoord } from './types';
+import { hexToPixel, getHexCorners, getNeighbors } from './hexUtils';
+import { analyzeContestedHexes } from './generator/politicalGenerator';
+import { getAncestors } from './factionHierarchy';
+
+// ============================================
+// TERRITORY BORDERS
+// Domains drawn the way printed hexcrawl maps do: an outline along the outer
+// edges of each faction's hexes, with hatching where rival claims overlap
+// ============================================
+
+// Border stroke width as a fraction of hex size. Borders are clipped to the
+// domain, so only the inner half shows and neighboring borders sit side by side.
+export const TERRITORY_BORDER_WIDTH = 0.2;
+
+// Width of each color band in contested-hex hatching, as a fraction of hex size
+const HATCH_STRIPE_WIDTH = 0.15;
+
+export const CONTESTED_HATCH_OPACITY = 0.45;
+
+/**
+ * SVG path data for the outer edges of a domain: every hex edge that doesn't
+ * face another hex of the same domain
+ */
+export function getBorderPath(domainHexes: HexCoord[], config: GridConfig): string {
+  const keys = new Set(domainHexes.map(coordToKey));
+  const segments: string[] = [];
+  const round = (n: number) => Math.round(n * 100) / 100;
+
+  for (const coord of domainHexes) {
+    const center = hexToPixel(coord, config);
+    const corners = getHexCorners(center.x, center.y, config);
+
+    for (const neighbor of getNeighbors(coord)) {
+      if (keys.has(coordToKey(neighbor))) continue;
+
+      // The shared edge is the one facing the neighbor's center
+      const other = hexToPixel(neighbor, config);
+      const toward = Math.atan2(other.y - center.y, other.x - center.x);
+      let best = 0;
+      let bestDiff = Infinity;
+      for (let i = 0; i < 6; i++) {
+        const a = corners[i];
+        const b = corners[(i + 1) % 6];
+        const mid = Math.atan2((a.y + b.y) / 2 - center.y, (a.x + b.x) / 2 - center.x);
+        const diff = Math.abs(Math.atan2(Math.sin(toward - mid), Math.cos(toward - mid)));
+        if (diff < bestDiff) {
+          bestDiff = diff;
+          best = i;
+        }
+      }
+
+      const a = corners[best];
+      const b = corners[(best + 1) % 6];
+      segments.push(`M${round(a.x)},${round(a.y)}L${round(b.x)},${round(b.y)}`);
+    }
+  }
+
+  return segments.join('');
+}
+
+export interface ContestedHex {
+  coord: HexCoord;
+  factionIds: string[];              // Rival claimants, in faction list order
+}
+
+/**
+ * Hexes claimed by rival factions. Regions don't contest anything, and a
+ * liege doesn't contest its own vassal's land.
+ */
+export function getContestedHexes(factions: Faction[]): ContestedHex[] {
+  const claimants = factions.filter(f => f.type !== 'region');
+  const contested: ContestedHex[] = [];
+
+  for (const [key, ids] of analyzeContestedHexes(claimants)) {
+    const claims = claimants.filter(f => ids.includes(f.id));
+    const overlords = new Set(claims.flatMap(f => getAncestors(factions, f).map(a => a.id)));
+    const rivals = claims.filter(f => !overlords.has(f.id)).map(f => f.id);
+    if (rivals.length > 1) {
+      contested.push({ coord: keyToCoord(key), factionIds: rivals });
+    }
+  }
+
+  return contested;
+}
+
+/**
+ * Diagonal hatching with a band for each color: the pattern tile size and the
+ * x offset and width of each band (rotate the pattern 45° when drawing it)
+ */
+export function getHatchStripes(
+  colors: string[],
+  config: GridConfig
+): { size: number; stripes: { x: number; width: number; color: string }[] } {
+  const width = Math.max(2, config.hexSize * HATCH_STRIPE_WIDTH);
+  // Leave a clear band after the colors so the terrain shows through
+  const size = width * (colors.length + 1);
+  return {
+    size,
+    stripes: colors.map((color, i) => ({ x: i * width, width, color })),
+  };
+}
@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest';
+import type { CampaignMap, HexCoord } from './types';
+import { coordToKey } from './types';
+import { createMap } from './mapFactory';
+import { offsetToAxial } from './hexUtils';
+import { createPath } from './paths';
+import { findRoute, formatTravelDays, getMovementCost } from './travel';
+
+// A 7×3 plains map; hexes are addressed by column and row
+function makeMap(terrain: Record<string, string> = {}): CampaignMap {
+  const map = createMap({ name: 'Travel', mode: 'blank', gridConfig: { cols: 7, rows: 3 }, defaultTerrain: 'plains' });
+  return {
+    ...map,
+    hexes: map.hexes.map(h => ({ ...h, terrainId: terrain[coordToKey(h.coord)] ?? h.terrainId })),
+  };
+}
+
+const map = makeMap();
+const at = (col: number, row: number): HexCoord => offsetToAxial(col, row, map.gridConfig);
+
+describe('findRoute', () => {
+  it('goes straight across open ground', () => {
+    const route = findRoute(map, at(1, 2), at(7, 2))!;
+    expect(route.totalDays).toBe(6);
+    expect(route.steps).toHaveLength(7);
+    expect(route.steps[0]).toMatchObject({ coord: at(1, 2), days: 0 });
+    expect(route.steps[6].coord).toEqual(at(7, 2));
+  });
+
+  it('goes around slow terrain when that is quicker', () => {
+    const rough = makeMap({ [coordToKey(at(4, 2))]: 'mountain' });
+    const route = findRoute(rough, at(3, 2), at(5, 2))!;
+    expect(route.totalDays).toBe(3);
+    expect(route.steps.some(s => coordToKey(s.coord) === coordToKey(at(4, 2)))).toBe(false);
+  });
+
+  it('returns null when water cuts the goal off', () => {
+    const water: Record<string, string> = {};
+    for (let row = 1; row <= 3; row++) water[coordToKey(at(4, row))] = 'water';
+    expect(findRoute(makeMap(water), at(1, 2), at(7, 2))).toBeNull();
+  });
+
+  it('returns null for hexes off the map', () => {
+    expect(findRoute(map, at(1, 2), { q: 100, r: 100 })).toBeNull();
+  });
+
+  it('follows roads at their travel multiplier', () => {
+    const road = [1, 2, 3, 4, 5, 6, 7].map(col => at(col, 2));
+    const route = findRoute({ ...map, paths: [createPath('road', road)] }, at(1, 2), at(7, 2))!;
+    expect(route.totalDays).toBe(3);
+    expect(route.steps.slice(1).every(s => s.onPath === 'road' && s.days === 0.5)).toBe(true);
+  });
+
+  it('finds the cheapest of several routes', () => {
+    // A ridge of hills along the middle row; the top row is clear
+    const hills: Record<string, string> = {};
+    for (let col = 2; col <= 6; col++) hills[coordToKey(at(col, 2))] = 'hills';
+    const route = findRoute(makeMap(hills), at(1, 2), at(7, 2))!;
+    expect(route.totalDays).toBe(7);
+  });
+});
+
+describe('movement costs', () => {
+  it('uses custom terrain costs and defaults unknown terrain to a day', () => {
+    expect(getMovementCost('mountain')).toBe(3);
+    expect(getMovementCost('lava', [{ id: 'lava', name: 'Lava', color: '#f00', movementCost: 4 }])).toBe(4);
+    expect(getMovementCost('nowhere')).toBe(1);
+  });
+
+  it('formats days', () => {
+    expect(formatTravelDays(1)).toBe('1 day');
+    expect(formatTravelDays(3.5)).toBe('3.5 days');
+  });
+});
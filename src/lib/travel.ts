@@ -0,0 +1,208 @@
+import type { CampaignMap, HexCoord, MapPath, MapPathType, TerrainType } from './types';
+import { coordToKey, keyToCoord, getEffectiveTerrain, DEFAULT_TERRAIN_TYPES } from './types';
+import { getNeighbors, hexDistance } from './hexUtils';
+
+// ============================================
+// MOVEMENT COSTS
+// ============================================
+
+export const DEFAULT_MOVEMENT_COST = 1;
+
+/**
+ * Travel time multiplier when moving along a path between two hexes
+ * Rivers don't speed up travel on foot
+ */
+export const PATH_TRAVEL_MULTIPLIERS: Record<MapPathType, number> = {
+  road: 0.5,
+  trail: 0.75,
+  river: 1,
+};
+
+/**
+ * Days to cross one hex of a terrain type (0 = impassable)
+ */
+export function getMovementCost(terrainId: string, customTerrainTypes: TerrainType[] = []): number {
+  const terrain = [...DEFAULT_TERRAIN_TYPES, ...customTerrainTypes].find(t => t.id === terrainId);
+  return terrain?.movementCost ?? DEFAULT_MOVEMENT_COST;
+}
+
+function edgeKey(a: HexCoord, b: HexCoord): string {
+  const ka = coordToKey(a);
+  const kb = coordToKey(b);
+  return ka < kb ? `${ka}|${kb}` : `${kb}|${ka}`;
+}
+
+/**
+ * Index the fastest path type along each hex edge covered by a path
+ */
+function buildPathEdges(paths: MapPath[]): Map<string, MapPathType> {
+  const edges = new Map<string, MapPathType>();
+  for (const path of paths) {
+    for (let i = 1; i < path.coords.length; i++) {
+      const key = edgeKey(path.coords[i - 1], path.coords[i]);
+      const existing = edges.get(key);
+      if (!existing || PATH_TRAVEL_MULTIPLIERS[path.type] < PATH_TRAVEL_MULTIPLIERS[existing]) {
+        edges.set(key, path.type);
+      }
+    }
+  }
+  return edges;
+}
+
+/**
+ * Days to move between two adjacent hexes (0 = impassable)
+ * Uses the destination's terrain and any road or trail joining the two hexes.
+ */
+export function getStepDays(map: CampaignMap, from: HexCoord, to: HexCoord): number {
+  const toKey = coordToKey(to);
+  const hex = map.hexes.find(h => coordToKey(h.coord) === toKey);
+  if (!hex) return 0;
+
+  const type = buildPathEdges(map.paths || []).get(edgeKey(from, to));
+  const cost = getMovementCost(getEffectiveTerrain(hex), map.settings.customTerrainTypes || []);
+  return cost * (type ? PATH_TRAVEL_MULTIPLIERS[type] : 1);
+}
+
+// ============================================
+// ROUTE FINDING
+// ============================================
+
+export interface RouteStep {
+  coord: HexCoord;
+  terrainId: string;
+  days: number;            // Days to enter this hex (0 for the start)
+  onPath?: MapPathType;    // Set when the step follows a road or trail
+}
+
+export interface TravelRoute {
+  steps: RouteStep[];
+  totalDays: number;
+}
+
+// Binary min-heap of [priority, key] entries for the A* open set
+type OpenSet = Array<[number, string]>;
+
+function heapPush(heap: OpenSet, priority: number, key: string): void {
+  heap.push([priority, key]);
+  let i = heap.length - 1;
+  while (i > 0) {
+    const parent = (i - 1) >> 1;
+    if (heap[parent][0] <= heap[i][0]) break;
+    [heap[parent], heap[i]] = [heap[i], heap[parent]];
+    i = parent;
+  }
+}
+
+function heapPop(heap: OpenSet): string | undefined {
+  if (heap.length === 0) return undefined;
+  const top = heap[0];
+  const last = heap.pop()!;
+  if (heap.length > 0) {
+    heap[0] = last;
+    let i = 0;
+    for (;;) {
+      const left = i * 2 + 1;
+      const right = left + 1;
+      let smallest = i;
+      if (left < heap.length && heap[left][0] < heap[smallest][0]) smallest = left;
+      if (right < heap.length && heap[right][0] < heap[smallest][0]) smallest = right;
+      if (smallest === i) break;
+      [heap[smallest], heap[i]] = [heap[i], heap[smallest]];
+      i = smallest;
+    }
+  }
+  return top[1];
+}
+
+/**
+ * Find the quickest overland route between two hexes (A*)
+ * Entering a hex costs its terrain's movementCost in days; following a
+ * road or trail between two hexes applies the path's multiplier.
+ * Returns null if either hex is off the map or the goal can't be reached.
+ */
+export function findRoute(map: CampaignMap, from: HexCoord, to: HexCoord): TravelRoute | null {
+  const customTerrainTypes = map.settings.customTerrainTypes || [];
+  const terrainByKey = new Map(map.hexes.map(h => [coordToKey(h.coord), getEffectiveTerrain(h)]));
+  const startKey = coordToKey(from);
+  const goalKey = coordToKey(to);
+  if (!terrainByKey.has(startKey) || !terrainByKey.has(goalKey)) return null;
+
+  const pathEdges = buildPathEdges(map.paths || []);
+  const edgeMultiplier = (a: HexCoord, b: HexCoord): number => {
+    const type = pathEdges.get(edgeKey(a, b));
+    return type ? PATH_TRAVEL_MULTIPLIERS[type] : 1;
+  };
+
+  // Cheapest possible step keeps the heuristic admissible
+  const positiveCosts = [...terrainByKey.values()]
+    .map(t => getMovementCost(t, customTerrainTypes))
+    .filter(c => c > 0);
+  const minMultiplier = Math.min(1, ...[...pathEdges.values()].map(t => PATH_TRAVEL_MULTIPLIERS[t]));
+  const minStepCost = positiveCosts.length > 0 ? Math.min(...positiveCosts) * minMultiplier : 0;
+
+  const costSoFar = new Map<string, number>([[startKey, 0]]);
+  const cameFrom = new Map<string, string>();
+  const closed = new Set<string>();
+  const open: OpenSet = [];
+  heapPush(open, 0, startKey);
+
+  while (open.length > 0) {
+    const currentKey = heapPop(open)!;
+    if (currentKey === goalKey) break;
+    if (closed.has(currentKey)) continue;
+    closed.add(currentKey);
+
+    const current = keyToCoord(currentKey);
+    for (const neighbor of getNeighbors(current)) {
+      const neighborKey = coordToKey(neighbor);
+      const terrainId = terrainByKey.get(neighborKey);
+      if (terrainId === undefined || closed.has(neighborKey)) continue;
+
+      const terrainCost = getMovementCost(terrainId, customTerrainTypes);
+      if (terrainCost <= 0) continue;
+
+      const newCost = costSoFar.get(currentKey)! + terrainCost * edgeMultiplier(current, neighbor);
+      if (newCost < (costSoFar.get(neighborKey) ?? Infinity)) {
+        costSoFar.set(neighborKey, newCost);
+        cameFrom.set(neighborKey, currentKey);
+        heapPush(open, newCost + hexDistance(neighbor, to) * minStepCost, neighborKey);
+      }
+    }
+  }
+
+  if (!costSoFar.has(goalKey)) return null;
+
+  // Walk back from the goal to rebuild the route
+  const keys: string[] = [goalKey];
+  while (keys[0] !== startKey) {
+    keys.unshift(cameFrom.get(keys[0])!);
+  }
+
+  const steps: RouteStep[] = keys.map((key, i) => {
+    const coord = keyToCoord(key);
+    const terrainId = terrainByKey.get(key)!;
+    if (i === 0) return { coord, terrainId, days: 0 };
+
+    const previous = keyToCoord(keys[i - 1]);
+    const multiplier = edgeMultiplier(previous, coord);
+    return {
+      coord,
+      terrainId,
+      days: getMovementCost(terrainId, customTerrainTypes) * multiplier,
+      onPath: multiplier < 1 ? pathEdges.get(edgeKey(previous, coord)) : undefined,
+    };
+  });
+
+  return {
+    steps,
+    totalDays: costSoFar.get(goalKey)!,
+  };
+}
+
+/**
+ * Format a travel time for display ("1 day", "3.5 days")
+ */
+export function formatTravelDays(days: number): string {
+  const rounded = Math.round(days * 100) / 100;
+  return `${rounded} day${rounded === 1 ? '' : 's'}`;
+}
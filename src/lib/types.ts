@@ -1,3 +1,6 @@
+import type { RollableTable, SettlementExpansion, DungeonStocking, MonsterStats } from './generator/types';
+import type { MapGenerationOptions } from './generator/mapGenerator';
+
 // ============================================
 // CORE COORDINATE SYSTEM
 // ============================================
@@ -39,25 +42,27 @@ export interface TerrainType {
   color: string;           // Hex color for filling
   symbol?: string;         // Optional symbol/icon
   description?: string;
+  movementCost?: number;   // Days to cross one hex on foot (default 1, 0 = impassable)
+  encounterChance?: number; // Chance in 6 of a wandering encounter per check (default 1)
 }
 
 /**
  * Default terrain types
  */
 export const DEFAULT_TERRAIN_TYPES: TerrainType[] = [
-  { id: 'plains', name: 'Plains', color: '#90EE90', symbol: '~' },
-  { id: 'forest', name: 'Forest', color: '#228B22', symbol: 'T' },
-  { id: 'deciduous_forest', name: 'Deciduous Forest', color: '#5a8a4a', symbol: 't' },
-  { id: 'dense_forest', name: 'Dense Forest', color: '#1a3d1a', symbol: 'T' },
-  { id: 'hills', name: 'Hills', color: '#D2B48C', symbol: '^' },
-  { id: 'mountain', name: 'Mountain', color: '#8B4513', symbol: 'M' },
-  { id: 'swamp', name: 'Swamp', color: '#708090', symbol: '=' },
-  { id: 'marsh', name: 'Marsh', color: '#6B8E23', symbol: '=' },
-  { id: 'water', name: 'Water', color: '#4A90D9', symbol: 'w' },
-  { id: 'desert', name: 'Desert', color: '#EDC9AF', symbol: '.' },
-  { id: 'wasteland', name: 'Wasteland', color: '#C4B454', symbol: 'x' },
-  { id: 'tundra', name: 'Tundra', color: '#B0C4DE', symbol: '*' },
-  { id: 'unknown', name: 'Unknown', color: '#808080', symbol: '?' },
+  { id: 'plains', name: 'Plains', color: '#90EE90', symbol: '~', movementCost: 1, encounterChance: 1 },
+  { id: 'forest', name: 'Forest', color: '#228B22', symbol: 'T', movementCost: 1.5, encounterChance: 2 },
+  { id: 'deciduous_forest', name: 'Deciduous Forest', color: '#5a8a4a', symbol: 't', movementCost: 1.5, encounterChance: 2 },
+  { id: 'dense_forest', name: 'Dense Forest', color: '#1a3d1a', symbol: 'T', movementCost: 2, encounterChance: 2 },
+  { id: 'hills', name: 'Hills', color: '#D2B48C', symbol: '^', movementCost: 1.5, encounterChance: 2 },
+  { id: 'mountain', name: 'Mountain', color: '#8B4513', symbol: 'M', movementCost: 3, encounterChance: 2 },
+  { id: 'swamp', name: 'Swamp', color: '#708090', symbol: '=', movementCost: 2, encounterChance: 3 },
+  { id: 'marsh', name: 'Marsh', color: '#6B8E23', symbol: '=', movementCost: 2, encounterChance: 3 },
+  { id: 'water', name: 'Water', color: '#4A90D9', symbol: 'w', movementCost: 0, encounterChance: 1 },
+  { id: 'desert', name: 'Desert', color: '#EDC9AF', symbol: '.', movementCost: 1.5, encounterChance: 1 },
+  { id: 'wasteland', name: 'Wasteland', color: '#C4B454', symbol: 'x', movementCost: 1.5, encounterChance: 2 },
+  { id: 'tundra', name: 'Tundra', color: '#B0C4DE', symbol: '*', movementCost: 1.5, encounterChance: 1 },
+  { id: 'unknown', name: 'Unknown', color: '#808080', symbol: '?', movementCost: 1, encounterChance: 1 },
 ];
 
 // ============================================
@@ -73,6 +78,8 @@ export interface GeneratedFeature {
   originalDetails?: Record<string, unknown>;  // Preserved copy of first-generated details
   originalFeatureType?: FeatureType;  // Original feature type when first generated
   originalTerrainId?: string;  // Terrain when feature was first generated
+  settlement?: SettlementExpansion;  // NPCs, shops and rumors from "Expand Settlement" (GM-only)
+  dungeon?: DungeonStocking;  // Rooms, level rulers and entrances from "Stock Dungeon" (GM-only)
 }
 
 // ============================================
@@ -93,6 +100,9 @@ export interface HexCampaignData {
   // Track which default notes the user has explicitly deleted
   deletedNotes?: string[];
 
+  // Shown to players in the player view (everything else is GM-only)
+  playerNotes?: string;
+
   // Feature notes - separate from campaign notes, tied to the hex's feature
   featureNotes?: Record<string, string>;
   // Track which default feature notes the user has explicitly deleted
@@ -107,8 +117,9 @@ export interface HexCampaignData {
 
   // State tracking
   explored?: boolean;
-  hidden?: boolean;
-  lastVisited?: string;
+  hidden?: boolean;                  // Never shown in the player view
+  lastVisited?: string;              // ISO date (real time) of the last visit
+  lastVisitedDay?: number;           // In-game day of the last visit (see CampaignCalendar)
   modifiedAt?: string;
 }
 
@@ -129,6 +140,9 @@ export interface Hex {
   // Faction associations
   factionIds?: string[];
   
+  // Finer-scale map this hex expands into (see nestedMaps)
+  childMapId?: string;
+  
   // Campaign data
   campaignData?: HexCampaignData;
 }
@@ -142,6 +156,7 @@ export function hexHasUserData(hex: Hex): boolean {
   return !!(
     data.name ||
     (data.notes && Object.keys(data.notes).length > 0) ||
+    data.playerNotes ||
     (data.tags && data.tags.length > 0) ||
     data.terrainOverride ||
     data.featureOverride ||
@@ -222,6 +237,14 @@ export type FactionRelationshipStatus =
   | 'peace_trade' 
   | 'alliance';
 
+export const RELATIONSHIP_LABELS: Record<FactionRelationshipStatus, { label: string; color: string }> = {
+  'open_war': { label: 'War', color: '#ef4444' },
+  'hostility': { label: 'Hostile', color: '#f97316' },
+  'indifference': { label: 'Neutral', color: '#6b7280' },
+  'peace_trade': { label: 'Trade', color: '#22c55e' },
+  'alliance': { label: 'Allied', color: '#3b82f6' },
+};
+
 export interface FactionRelationship {
   factionId: string;
   status: FactionRelationshipStatus;
@@ -238,6 +261,11 @@ export interface Faction {
   domainHexes: HexCoord[];
   relationships: FactionRelationship[];
 
+  // Hierarchy (see factionHierarchy)
+  parentId?: string;                 // Liege of a faction, or the region enclosing a region
+  regionId?: string;                 // Region a faction belongs to
+  inheritRelationships?: boolean;    // Vassal takes its liege's relationships where it has none of its own
+
   // Arbitrary notes - key-value pairs for user content
   notes?: Record<string, string>;
   // Track which default notes the user has explicitly deleted
@@ -246,11 +274,66 @@ export interface Faction {
   customFields?: Record<string, string | number | boolean>;
 }
 
+// ============================================
+// PATHS (rivers, roads, trails)
+// ============================================
+
+export type MapPathType = 'river' | 'road' | 'trail';
+
+/**
+ * A linear feature drawn through a sequence of adjacent hexes
+ */
+export interface MapPath {
+  id: string;
+  type: MapPathType;
+  name?: string;
+  coords: HexCoord[];               // Ordered hex centers (rivers flow first -> last)
+}
+
+// ============================================
+// SESSION LOG
+// ============================================
+
+export type SessionLogKind = 'visit' | 'encounter' | 'faction' | 'note';
+
+/**
+ * One line of the campaign's session journal
+ */
+export interface SessionLogEntry {
+  id: string;
+  kind: SessionLogKind;
+  timestamp: string;                // ISO date (real time) the entry was written
+  day?: number;                     // In-game day it happened
+  text: string;
+  hexCoord?: HexCoord;              // Where it happened
+}
+
+/**
+ * In-game calendar: a running day count shown as a date
+ */
+export interface CampaignCalendar {
+  currentDay: number;               // 1 = the first day of the campaign
+  dayProgress?: number;             // Fraction of the current day already spent travelling
+  daysPerMonth: number;
+  monthNames: string[];
+  startYear: number;
+}
+
+export const DEFAULT_CAMPAIGN_CALENDAR: CampaignCalendar = {
+  currentDay: 1,
+  daysPerMonth: 30,
+  monthNames: [
+    'January', 'February', 'March', 'April', 'May', 'June',
+    'July', 'August', 'September', 'October', 'November', 'December',
+  ],
+  startYear: 1,
+};
+
 // ============================================
 // MAP
 // ============================================
 
-export type MapMode = 'overlay' | 'generated' | 'blank';
+export type MapMode = 'overlay' | 'generated' | 'blank' | 'unbounded';
 
 /**
  * Image overlay configuration
@@ -287,6 +370,9 @@ export interface CampaignSettings {
   
   // Custom terrain types (in addition to defaults)
   customTerrainTypes: TerrainType[];
+
+  // Monster stat references (HD/AC) shown with generated lairs
+  monsterStats?: MonsterStats[];
 }
 
 export const DEFAULT_CAMPAIGN_SETTINGS: CampaignSettings = {
@@ -309,6 +395,7 @@ export interface CampaignMap {
   name: string;
   createdAt: string;
   updatedAt: string;
+  schemaVersion: number;             // See CURRENT_SCHEMA_VERSION in mapSchema
   
   // Mode
   mode: MapMode;
@@ -321,15 +408,43 @@ export interface CampaignMap {
   
   // Factions
   factions: Faction[];
+  factionTurn?: number;              // Faction turns played so far (see factionSimulation)
+
+  // Rivers, roads and trails
+  paths?: MapPath[];
   
   // Image overlay (for overlay mode)
   imageOverlay?: ImageOverlay;
-  
+
+  // Generation seed and options (set when the map was auto-generated); an
+  // unbounded map keeps growing with them
+  seed?: string;
+  generationOptions?: Partial<MapGenerationOptions>;
+
+  // User-edited and custom generator tables (replace built-ins by ID)
+  tables?: RollableTable[];
+
+  // Session journal (oldest first) and in-game date
+  sessionLog?: SessionLogEntry[];
+  calendar?: CampaignCalendar;
+  partyCoord?: HexCoord;             // Party token position in play mode
+
   // Settings
   settings: CampaignSettings;
   
   // Campaign-level notes
   notes?: string;
+
+  // The hex on a larger-scale map that this map expands (see nestedMaps)
+  parentMap?: MapLink;
+}
+
+/**
+ * A hex on another map
+ */
+export interface MapLink {
+  mapId: string;
+  coord: HexCoord;
 }
 
 // ============================================
@@ -345,6 +460,8 @@ export interface MapReference {
   updatedAt: string;
   mode: MapMode;
   hexCount: number;
+  parentId?: string;                 // Map this one is a sub-map of
+  migrationError?: string;           // Saved by an older version and not yet moved to IndexedDB
 }
 
 /**
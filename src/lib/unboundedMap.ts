@@ -0,0 +1,142 @@
+import type { CampaignMap, GridConfig, Hex, HexCoord } from './types';
+import { coordToKey } from './types';
+import { axialToOffset, getNeighbors, hexToPixel, offsetToAxial } from './hexUtils';
+import { createMap } from './mapFactory';
+import {
+  type MapGenerationOptions,
+  generateRegion,
+  applyGenerationResults,
+} from './generator/mapGenerator';
+import type { RandomSource } from './generator/random';
+
+// ============================================
+// UNBOUNDED MAPS
+// A map with no fixed rectangle, for generate-as-you-go sandbox play: it
+// starts as one 19-hex region and grows a region at a time wherever the GM
+// generates past its edge. The grid's columns and rows just follow the
+// hexes that exist.
+// ============================================
+
+// The first region is centered here so coordinates stay positive (and four
+// digits) as the map grows in any direction
+export const UNBOUNDED_START_COL = 50;
+export const UNBOUNDED_START_ROW = 50;
+
+export function isUnbounded(map: CampaignMap): boolean {
+  return map.mode === 'unbounded';
+}
+
+/**
+ * Empty hexes touching the map: where it can grow next
+ */
+export function getFrontier(hexes: Hex[]): HexCoord[] {
+  const keys = new Set(hexes.map(h => coordToKey(h.coord)));
+  const frontier = new Map<string, HexCoord>();
+  for (const hex of hexes) {
+    for (const neighbor of getNeighbors(hex.coord)) {
+      const key = coordToKey(neighbor);
+      if (!keys.has(key)) frontier.set(key, neighbor);
+    }
+  }
+  return [...frontier.values()];
+}
+
+/**
+ * Grid columns and rows spanning the hexes, with the origin moved to match
+ * so no hex changes position on screen
+ */
+export function fitGridToHexes(hexes: Hex[], config: GridConfig): GridConfig {
+  if (hexes.length === 0) return config;
+
+  let minCol = Infinity, maxCol = -Infinity;
+  let minRow = Infinity, maxRow = -Infinity;
+  for (const hex of hexes) {
+    const { col, row } = axialToOffset(hex.coord, config);
+    minCol = Math.min(minCol, col);
+    maxCol = Math.max(maxCol, col);
+    minRow = Math.min(minRow, row);
+    maxRow = Math.max(maxRow, row);
+  }
+
+  const fitted: GridConfig = {
+    ...config,
+    startCol: minCol,
+    startRow: minRow,
+    cols: maxCol - minCol + 1,
+    rows: maxRow - minRow + 1,
+  };
+  const before = hexToPixel(hexes[0].coord, config);
+  const after = hexToPixel(hexes[0].coord, fitted);
+  return {
+    ...fitted,
+    originX: config.originX + before.x - after.x,
+    originY: config.originY + before.y - after.y,
+  };
+}
+
+/**
+ * Add hexes of unknown terrain for any coords not on the map yet
+ */
+export function addHexes(map: CampaignMap, coords: HexCoord[]): CampaignMap {
+  const keys = new Set(map.hexes.map(h => coordToKey(h.coord)));
+  const added: Hex[] = [];
+  for (const coord of coords) {
+    const key = coordToKey(coord);
+    if (keys.has(key)) continue;
+    keys.add(key);
+    added.push({ coord, terrainId: 'unknown' });
+  }
+  if (added.length === 0) return map;
+
+  const hexes = [...map.hexes, ...added];
+  return { ...map, hexes, gridConfig: fitGridToHexes(hexes, map.gridConfig) };
+}
+
+/**
+ * Generate the 19-hex region around a hex on the map or its frontier,
+ * creating the hexes that don't exist yet. Hexes that already have terrain
+ * are kept and steer the new ones through their biomes.
+ */
+export function expandMap(
+  map: CampaignMap,
+  center: HexCoord,
+  options: Partial<MapGenerationOptions> = {},
+  rng: RandomSource = Math.random
+): { map: CampaignMap; added: number } {
+  const existingTerrain = new Map<string, string>();
+  for (const hex of map.hexes) {
+    if (hex.terrainId !== 'unknown') existingTerrain.set(coordToKey(hex.coord), hex.terrainId);
+  }
+
+  const results = generateRegion(center, existingTerrain, { ...options, generateTerrain: true }, rng);
+  const grown = addHexes(map, results.map(r => r.coord));
+  return {
+    map: { ...grown, hexes: applyGenerationResults(grown.hexes, results) },
+    added: grown.hexes.length - map.hexes.length,
+  };
+}
+
+/**
+ * A new unbounded map: one generated region around the starting hex
+ */
+export function createUnboundedMap(
+  name: string,
+  gridConfig: Partial<GridConfig>,
+  options: Partial<MapGenerationOptions> = {},
+  rng: RandomSource = Math.random
+): CampaignMap {
+  const map = createMap({
+    name,
+    mode: 'unbounded',
+    gridConfig: {
+      ...gridConfig,
+      cols: 1,
+      rows: 1,
+      startCol: UNBOUNDED_START_COL,
+      startRow: UNBOUNDED_START_ROW,
+    },
+    defaultTerrain: 'unknown',
+  });
+  const start = offsetToAxial(UNBOUNDED_START_COL, UNBOUNDED_START_ROW, map.gridConfig);
+  return expandMap(map, start, options, rng).map;
+}